@@ -12,10 +12,31 @@
 -- ============================================================================
 
 -- Drop existing tables if they exist (for fresh setup)
+DROP TABLE IF EXISTS sessions CASCADE;
+DROP TABLE IF EXISTS users CASCADE;
 DROP TABLE IF EXISTS complaint_logs CASCADE;
 DROP TABLE IF EXISTS complaints CASCADE;
+DROP TABLE IF EXISTS checkout_events CASCADE;
+DROP TABLE IF EXISTS academic_rollover_changes CASCADE;
+DROP TABLE IF EXISTS academic_rollovers CASCADE;
+DROP TABLE IF EXISTS inspection_damages CASCADE;
+DROP TABLE IF EXISTS inspection_items CASCADE;
+DROP TABLE IF EXISTS room_inspections CASCADE;
+DROP TABLE IF EXISTS payment_transactions CASCADE;
+DROP TABLE IF EXISTS late_fee_policies CASCADE;
 DROP TABLE IF EXISTS payments CASCADE;
+DROP TABLE IF EXISTS waitlist_entries CASCADE;
+DROP TABLE IF EXISTS room_application_roommates CASCADE;
+DROP TABLE IF EXISTS room_application_choices CASCADE;
+DROP TABLE IF EXISTS room_applications CASCADE;
+DROP TABLE IF EXISTS allocation_rounds CASCADE;
+DROP TABLE IF EXISTS receipt_sequences CASCADE;
+DROP TABLE IF EXISTS billing_runs CASCADE;
+DROP TABLE IF EXISTS bed_bookings CASCADE;
 DROP TABLE IF EXISTS allocations CASCADE;
+DROP TABLE IF EXISTS room_blackouts CASCADE;
+DROP TABLE IF EXISTS beds CASCADE;
+DROP TABLE IF EXISTS student_lifestyle CASCADE;
 DROP TABLE IF EXISTS students CASCADE;
 DROP TABLE IF EXISTS rooms CASCADE;
 DROP TABLE IF EXISTS hostels CASCADE;
@@ -27,6 +48,7 @@ DROP TYPE IF EXISTS complaint_category CASCADE;
 DROP TYPE IF EXISTS payment_status CASCADE;
 DROP TYPE IF EXISTS room_type CASCADE;
 DROP TYPE IF EXISTS gender_type CASCADE;
+DROP TYPE IF EXISTS user_role CASCADE;
 
 -- ============================================================================
 -- CUSTOM ENUM TYPES
@@ -38,6 +60,7 @@ CREATE TYPE gender_type AS ENUM ('male', 'female', 'other');
 CREATE TYPE room_type AS ENUM ('single', 'double', 'triple', 'dormitory');
 CREATE TYPE payment_status AS ENUM ('pending', 'paid', 'overdue', 'partial');
 CREATE TYPE complaint_status AS ENUM ('open', 'assigned', 'in_progress', 'resolved', 'closed');
+CREATE TYPE user_role AS ENUM ('admin', 'warden', 'staff', 'student');
 CREATE TYPE complaint_category AS ENUM (
     'electrical',
     'plumbing', 
@@ -49,6 +72,15 @@ CREATE TYPE complaint_category AS ENUM (
     'other'
 );
 
+-- ============================================================================
+-- EXTENSIONS
+-- ============================================================================
+-- btree_gist lets a GiST index compare plain columns with "=", so an
+-- EXCLUSION constraint can combine "same bed" with "overlapping dates"
+-- (see bed_bookings).
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
 -- ============================================================================
 -- HOSTELS TABLE
 -- ============================================================================
@@ -63,6 +95,9 @@ CREATE TABLE hostels (
     total_rooms INTEGER DEFAULT 0,                  -- Denormalized for quick access
     warden_name VARCHAR(100),                       -- Warden in charge
     warden_contact VARCHAR(20),                     -- Contact number
+    auto_assign_complaints BOOLEAN DEFAULT FALSE,   -- Route new complaints to staff automatically
+    is_active BOOLEAN DEFAULT TRUE,                 -- FALSE once decommissioned
+    decommissioned_at TIMESTAMP,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -71,7 +106,7 @@ CREATE TABLE hostels (
 -- ROOMS TABLE
 -- ============================================================================
 -- Represents individual rooms within hostels.
--- Demonstrates: FOREIGN KEY with ON DELETE CASCADE, CHECK constraints
+-- Demonstrates: FOREIGN KEY with ON DELETE RESTRICT, CHECK constraints
 
 CREATE TABLE rooms (
     id SERIAL PRIMARY KEY,
@@ -89,11 +124,13 @@ CREATE TABLE rooms (
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     
     -- Foreign key relationship with hostels table
-    -- ON DELETE CASCADE: If hostel is deleted, all its rooms are also deleted
+    -- ON DELETE RESTRICT: a hostel with rooms cannot be deleted, since the
+    -- cascade would wipe its allocations and complaints. Hostels are
+    -- decommissioned instead (hostels.is_active = FALSE).
     CONSTRAINT fk_room_hostel 
         FOREIGN KEY (hostel_id) 
         REFERENCES hostels(id) 
-        ON DELETE CASCADE,
+        ON DELETE RESTRICT,
     
     -- Composite unique constraint: room number must be unique within a hostel
     CONSTRAINT unique_room_per_hostel UNIQUE (hostel_id, room_number),
@@ -105,6 +142,68 @@ CREATE TABLE rooms (
 -- Create index for faster hostel-based queries
 CREATE INDEX idx_rooms_hostel ON rooms(hostel_id);
 
+-- ============================================================================
+-- BEDS TABLE
+-- ============================================================================
+-- Individual beds inside a room, labelled A, B, C... up to the room capacity.
+-- Rows are created and removed by a trigger when a room's capacity changes
+-- (see sync_room_beds in triggers.sql).
+-- Demonstrates: Weak entity (identified by room + label), composite UNIQUE
+
+CREATE TABLE beds (
+    id SERIAL PRIMARY KEY,
+    room_id INTEGER NOT NULL,
+    bed_label VARCHAR(5) NOT NULL,                  -- e.g., "A", "B"
+    has_desk BOOLEAN DEFAULT TRUE,
+    locker_number VARCHAR(20),
+    is_available BOOLEAN DEFAULT TRUE,              -- FALSE while the bed is broken/blocked
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    CONSTRAINT fk_bed_room 
+        FOREIGN KEY (room_id) 
+        REFERENCES rooms(id) 
+        ON DELETE CASCADE,
+    
+    -- Bed label must be unique within a room
+    CONSTRAINT unique_bed_per_room UNIQUE (room_id, bed_label)
+);
+
+-- ============================================================================
+-- ROOM BLACKOUTS TABLE
+-- ============================================================================
+-- Scheduled maintenance windows (renovation, pest control, deep cleaning)
+-- during which a room takes no residents. The room blackouts job (see
+-- triggers.sql) closes the room when a window starts and re-opens it when
+-- the window ends.
+-- Demonstrates: Date range CHECK, status lifecycle
+
+CREATE TABLE room_blackouts (
+    id SERIAL PRIMARY KEY,
+    room_id INTEGER NOT NULL,
+    reason VARCHAR(20) NOT NULL
+        CHECK (reason IN ('renovation', 'pest_control', 'deep_cleaning', 'repairs', 'other')),
+    notes TEXT,
+    starts_on DATE NOT NULL,
+    ends_on DATE NOT NULL,                           -- Last day the room is closed
+    status VARCHAR(20) NOT NULL DEFAULT 'scheduled'
+        CHECK (status IN ('scheduled', 'active', 'completed', 'cancelled')),
+    closed_room BOOLEAN NOT NULL DEFAULT FALSE,      -- TRUE while this window holds rooms.is_available at FALSE
+    created_by VARCHAR(100),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    CONSTRAINT fk_blackout_room 
+        FOREIGN KEY (room_id) 
+        REFERENCES rooms(id) 
+        ON DELETE CASCADE,
+    
+    CONSTRAINT valid_blackout_dates CHECK (ends_on >= starts_on)
+);
+
+CREATE INDEX idx_room_blackouts_room ON room_blackouts(room_id, starts_on);
+
 -- ============================================================================
 -- STUDENTS TABLE
 -- ============================================================================
@@ -137,6 +236,28 @@ CREATE TABLE students (
 CREATE INDEX idx_students_email ON students(email);
 CREATE INDEX idx_students_reg ON students(registration_number);
 
+-- ============================================================================
+-- STUDENT LIFESTYLE TABLE
+-- ============================================================================
+-- Roommate questionnaire answers, one row per student.
+-- Demonstrates: One-to-One relationship (primary key is also the foreign key)
+
+CREATE TABLE student_lifestyle (
+    student_id INTEGER PRIMARY KEY,
+    sleep_schedule VARCHAR(20)                       -- When the student usually sleeps
+        CHECK (sleep_schedule IN ('early_bird', 'night_owl', 'flexible')),
+    study_habits VARCHAR(20)                         -- Where and how the student studies
+        CHECK (study_habits IN ('silent_room', 'background_noise', 'outside_room')),
+    smokes BOOLEAN,
+    cleanliness INTEGER CHECK (cleanliness BETWEEN 1 AND 5), -- 1 = relaxed, 5 = very tidy
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    CONSTRAINT fk_lifestyle_student 
+        FOREIGN KEY (student_id) 
+        REFERENCES students(id) 
+        ON DELETE CASCADE
+);
+
 -- ============================================================================
 -- ALLOCATIONS TABLE
 -- ============================================================================
@@ -147,11 +268,13 @@ CREATE TABLE allocations (
     id SERIAL PRIMARY KEY,
     student_id INTEGER NOT NULL,
     room_id INTEGER NOT NULL,
+    bed_id INTEGER,                                  -- Bed inside the room (picked by trigger if NULL)
     allocation_date DATE NOT NULL DEFAULT CURRENT_DATE,
     expected_checkout DATE,                          -- When student expected to leave
     actual_checkout DATE,                            -- When student actually left
     is_active BOOLEAN DEFAULT TRUE,                  -- Current allocation status
     notes TEXT,
+    previous_allocation_id INTEGER,                  -- Allocation this one replaced (room transfer)
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     
@@ -167,6 +290,17 @@ CREATE TABLE allocations (
         REFERENCES rooms(id) 
         ON DELETE CASCADE,
     
+    CONSTRAINT fk_allocation_bed 
+        FOREIGN KEY (bed_id) 
+        REFERENCES beds(id) 
+        ON DELETE SET NULL,
+    
+    -- Self-referencing foreign key: chain of transfers for a student
+    CONSTRAINT fk_allocation_previous
+        FOREIGN KEY (previous_allocation_id)
+        REFERENCES allocations(id)
+        ON DELETE SET NULL,
+    
     -- A student can only have one active allocation at a time
     -- This is enforced via a partial unique index (see below)
     
@@ -183,6 +317,70 @@ CREATE UNIQUE INDEX idx_one_active_allocation
 
 CREATE INDEX idx_allocations_room ON allocations(room_id);
 
+-- Only one active allocation per bed
+CREATE UNIQUE INDEX idx_one_active_allocation_per_bed 
+    ON allocations(bed_id) 
+    WHERE is_active = TRUE;
+
+-- ============================================================================
+-- BED BOOKINGS TABLE
+-- ============================================================================
+-- A bed reserved for a future date range (summer interns, incoming
+-- first-years). On its first day the booking is turned into an allocation by
+-- JOB 4 in triggers.sql. Clashes with students already living in the bed are
+-- checked by trg_check_bed_booking; clashes between bookings are impossible
+-- thanks to the exclusion constraints below.
+-- Demonstrates: RANGE types, EXCLUSION constraints with GiST indexes
+
+CREATE TABLE bed_bookings (
+    id SERIAL PRIMARY KEY,
+    student_id INTEGER NOT NULL,
+    room_id INTEGER NOT NULL,
+    bed_id INTEGER NOT NULL,
+    stay DATERANGE NOT NULL,                        -- [arrival, departure): free again on departure day
+    status VARCHAR(20) NOT NULL DEFAULT 'booked'
+        CHECK (status IN ('booked', 'checked_in', 'cancelled', 'expired')),
+    allocation_id INTEGER,                          -- Set once the student has checked in
+    notes TEXT,
+    created_by VARCHAR(100),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT fk_booking_student
+        FOREIGN KEY (student_id)
+        REFERENCES students(id)
+        ON DELETE CASCADE,
+
+    CONSTRAINT fk_booking_room
+        FOREIGN KEY (room_id)
+        REFERENCES rooms(id)
+        ON DELETE CASCADE,
+
+    CONSTRAINT fk_booking_bed
+        FOREIGN KEY (bed_id)
+        REFERENCES beds(id)
+        ON DELETE CASCADE,
+
+    CONSTRAINT fk_booking_allocation
+        FOREIGN KEY (allocation_id)
+        REFERENCES allocations(id)
+        ON DELETE SET NULL,
+
+    -- Both ends are required: a booking always has a departure date
+    CONSTRAINT valid_booking_stay
+        CHECK (NOT isempty(stay) AND NOT lower_inf(stay) AND NOT upper_inf(stay)),
+
+    -- EXCLUSION CONSTRAINTS: no two live bookings may share a bed, or a
+    -- student, on any night
+    CONSTRAINT no_overlapping_bed_bookings
+        EXCLUDE USING gist (bed_id WITH =, stay WITH &&) WHERE (status = 'booked'),
+
+    CONSTRAINT no_overlapping_student_bookings
+        EXCLUDE USING gist (student_id WITH =, stay WITH &&) WHERE (status = 'booked')
+);
+
+CREATE INDEX idx_bed_bookings_room ON bed_bookings(room_id);
+
 -- ============================================================================
 -- MAINTENANCE STAFF TABLE
 -- ============================================================================
@@ -215,6 +413,7 @@ CREATE TABLE complaints (
     id SERIAL PRIMARY KEY,
     student_id INTEGER NOT NULL,
     room_id INTEGER NOT NULL,
+    bed_id INTEGER,                                 -- Set for bed-specific issues
     category complaint_category NOT NULL,
     title VARCHAR(200) NOT NULL,
     description TEXT NOT NULL,
@@ -239,6 +438,11 @@ CREATE TABLE complaints (
         REFERENCES rooms(id) 
         ON DELETE CASCADE,
     
+    CONSTRAINT fk_complaint_bed 
+        FOREIGN KEY (bed_id) 
+        REFERENCES beds(id) 
+        ON DELETE SET NULL,
+    
     CONSTRAINT fk_complaint_staff 
         FOREIGN KEY (assigned_staff_id) 
         REFERENCES maintenance_staff(id) 
@@ -276,6 +480,26 @@ CREATE TABLE complaint_logs (
 
 CREATE INDEX idx_complaint_logs_complaint ON complaint_logs(complaint_id);
 
+-- ============================================================================
+-- BILLING RUNS TABLE
+-- ============================================================================
+-- One row per semester fee run. Every invoice it generates points back here
+-- through payments.billing_run_id.
+
+CREATE TABLE billing_runs (
+    id SERIAL PRIMARY KEY,
+    semester VARCHAR(20) NOT NULL,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    due_date DATE NOT NULL,
+    invoices_created INTEGER NOT NULL DEFAULT 0,
+    total_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    created_by VARCHAR(100),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT valid_billing_period CHECK (period_end >= period_start)
+);
+
 -- ============================================================================
 -- PAYMENTS TABLE
 -- ============================================================================
@@ -287,14 +511,17 @@ CREATE TABLE payments (
     student_id INTEGER NOT NULL,
     allocation_id INTEGER,                          -- Link to specific allocation
     amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
-    payment_date DATE DEFAULT CURRENT_DATE,
+    amount_paid DECIMAL(10, 2) NOT NULL DEFAULT 0,  -- Sum of payment_transactions, kept by trigger
+    payment_date DATE,                              -- Date of the latest receipt (set by ledger trigger)
     due_date DATE NOT NULL,
     payment_status payment_status DEFAULT 'pending',
     payment_method VARCHAR(50),                     -- cash, card, bank transfer, etc.
     transaction_id VARCHAR(100),                    -- External transaction reference
-    receipt_number VARCHAR(50),
+    receipt_number VARCHAR(50) UNIQUE,              -- RCP-YYYY-NNNN, assigned by trigger when paid
     semester VARCHAR(20),                           -- e.g., "Fall 2024"
     notes TEXT,
+    late_fee_for INTEGER,                           -- Set on late-fee rows: the overdue payment they penalise
+    billing_run_id INTEGER,                         -- Set on invoices generated by a semester billing run
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     
@@ -306,13 +533,485 @@ CREATE TABLE payments (
     CONSTRAINT fk_payment_allocation 
         FOREIGN KEY (allocation_id) 
         REFERENCES allocations(id) 
-        ON DELETE SET NULL
+        ON DELETE SET NULL,
+
+    CONSTRAINT fk_payment_late_fee
+        FOREIGN KEY (late_fee_for)
+        REFERENCES payments(id)
+        ON DELETE CASCADE,
+
+    -- At most one late fee per overdue payment, so the overdue job can be re-run safely
+    CONSTRAINT uq_payment_late_fee UNIQUE (late_fee_for),
+
+    CONSTRAINT fk_payment_billing_run
+        FOREIGN KEY (billing_run_id)
+        REFERENCES billing_runs(id)
+        ON DELETE SET NULL,
+
+    CONSTRAINT valid_amount_paid CHECK (amount_paid >= 0 AND amount_paid <= amount)
 );
 
 CREATE INDEX idx_payments_student ON payments(student_id);
 CREATE INDEX idx_payments_status ON payments(payment_status);
 CREATE INDEX idx_payments_due_date ON payments(due_date);
 
+-- PARTIAL UNIQUE INDEX: a student gets at most one generated invoice per semester
+CREATE UNIQUE INDEX uq_payments_semester_invoice
+    ON payments(student_id, semester)
+    WHERE billing_run_id IS NOT NULL;
+
+-- ============================================================================
+-- RECEIPT SEQUENCES TABLE
+-- ============================================================================
+-- One counter per calendar year for receipt numbers (RCP-2025-0001, ...).
+-- Incremented with a single UPSERT, which row-locks the year's counter, so
+-- concurrent payments can never be handed the same number.
+
+CREATE TABLE receipt_sequences (
+    year INTEGER PRIMARY KEY,
+    last_number INTEGER NOT NULL DEFAULT 0 CHECK (last_number >= 0)
+);
+
+-- ============================================================================
+-- PAYMENT TRANSACTIONS TABLE
+-- ============================================================================
+-- Sub-ledger of money actually received against a payment (due). A due can be
+-- settled in several installments; the parent's amount_paid and status are
+-- derived from these rows by a trigger (see triggers.sql).
+-- Demonstrates: 1:N relationship, derived/denormalized totals
+
+CREATE TABLE payment_transactions (
+    id SERIAL PRIMARY KEY,
+    payment_id INTEGER NOT NULL,
+    amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+    payment_method VARCHAR(50) NOT NULL,            -- cash, card, upi, bank_transfer, etc.
+    transaction_id VARCHAR(100),                    -- External transaction reference
+    paid_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    recorded_by VARCHAR(100),                       -- Username that entered the receipt
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT fk_transaction_payment
+        FOREIGN KEY (payment_id)
+        REFERENCES payments(id)
+        ON DELETE CASCADE
+);
+
+CREATE INDEX idx_payment_transactions_payment ON payment_transactions(payment_id);
+
+-- ============================================================================
+-- LATE FEE POLICIES TABLE
+-- ============================================================================
+-- Per-hostel rules used by the overdue payments job (see triggers.sql).
+-- Hostels without an active policy never get late fees.
+-- Demonstrates: 1:1 relationship via UNIQUE foreign key, CHECK constraints
+
+CREATE TABLE late_fee_policies (
+    id SERIAL PRIMARY KEY,
+    hostel_id INTEGER NOT NULL UNIQUE,
+    grace_days INTEGER NOT NULL DEFAULT 0 CHECK (grace_days >= 0),
+    fee_type VARCHAR(10) NOT NULL DEFAULT 'flat' CHECK (fee_type IN ('flat', 'percent')),
+    fee_value DECIMAL(10, 2) NOT NULL CHECK (fee_value > 0),   -- Rupees, or % of the overdue amount
+    max_fee DECIMAL(10, 2) CHECK (max_fee > 0),                -- Cap for percentage fees
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT fk_late_fee_policy_hostel
+        FOREIGN KEY (hostel_id)
+        REFERENCES hostels(id)
+        ON DELETE CASCADE
+);
+
+-- ============================================================================
+-- ROOM APPLICATIONS (PREFERENCE-BASED ALLOCATION)
+-- ============================================================================
+-- At semester start students apply in an allocation round with ranked room
+-- preferences and preferred roommates. An admin then runs the batch allocator
+-- (src/lib/batchAllocation.ts), reviews a dry run and publishes it.
+-- Demonstrates: 1:N and M:N decomposition (choices, roommates), composite keys
+
+CREATE TABLE allocation_rounds (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL UNIQUE,              -- e.g., "Fall 2024"
+    status VARCHAR(20) NOT NULL DEFAULT 'open'
+        CHECK (status IN ('open', 'closed', 'published')),
+    created_by VARCHAR(50),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    published_at TIMESTAMP,
+    published_by VARCHAR(50)
+);
+
+CREATE TABLE room_applications (
+    id SERIAL PRIMARY KEY,
+    round_id INTEGER NOT NULL,
+    student_id INTEGER NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'submitted'
+        CHECK (status IN ('submitted', 'allocated', 'unallocated')),
+    allocation_id INTEGER,                          -- Set when the round is published
+    result_notes TEXT,                              -- Why the student got (or missed) a room
+    submitted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT fk_application_round
+        FOREIGN KEY (round_id)
+        REFERENCES allocation_rounds(id)
+        ON DELETE CASCADE,
+
+    CONSTRAINT fk_application_student
+        FOREIGN KEY (student_id)
+        REFERENCES students(id)
+        ON DELETE CASCADE,
+
+    CONSTRAINT fk_application_allocation
+        FOREIGN KEY (allocation_id)
+        REFERENCES allocations(id)
+        ON DELETE SET NULL,
+
+    -- One application per student per round
+    CONSTRAINT unique_application_per_round UNIQUE (round_id, student_id)
+);
+
+-- Ranked preferences; a NULL column means "no preference"
+CREATE TABLE room_application_choices (
+    id SERIAL PRIMARY KEY,
+    application_id INTEGER NOT NULL,
+    preference_rank INTEGER NOT NULL CHECK (preference_rank >= 1 AND preference_rank <= 5),
+    hostel_id INTEGER,
+    room_type room_type,
+    wants_ac BOOLEAN,
+    wants_attached_bathroom BOOLEAN,
+
+    CONSTRAINT fk_choice_application
+        FOREIGN KEY (application_id)
+        REFERENCES room_applications(id)
+        ON DELETE CASCADE,
+
+    CONSTRAINT fk_choice_hostel
+        FOREIGN KEY (hostel_id)
+        REFERENCES hostels(id)
+        ON DELETE CASCADE,
+
+    CONSTRAINT unique_choice_rank UNIQUE (application_id, preference_rank)
+);
+
+CREATE TABLE room_application_roommates (
+    application_id INTEGER NOT NULL,
+    roommate_id INTEGER NOT NULL,
+
+    PRIMARY KEY (application_id, roommate_id),
+
+    CONSTRAINT fk_roommate_application
+        FOREIGN KEY (application_id)
+        REFERENCES room_applications(id)
+        ON DELETE CASCADE,
+
+    CONSTRAINT fk_roommate_student
+        FOREIGN KEY (roommate_id)
+        REFERENCES students(id)
+        ON DELETE CASCADE
+);
+
+-- ============================================================================
+-- WAITLIST TABLE
+-- ============================================================================
+-- Students queueing for a hostel, room type or specific room that is full.
+-- When a bed frees up the first matching entry gets a time-limited offer
+-- for it (see src/lib/waitlist.ts).
+-- Demonstrates: Partial unique index, multi-column CHECK constraint
+
+CREATE TABLE waitlist_entries (
+    id SERIAL PRIMARY KEY,
+    student_id INTEGER NOT NULL,
+    hostel_id INTEGER,                               -- NULL = any hostel
+    room_type room_type,                             -- NULL = any room type
+    room_id INTEGER,                                 -- Set when queueing for one room
+    status VARCHAR(20) NOT NULL DEFAULT 'waiting'
+        CHECK (status IN ('waiting', 'offered', 'accepted', 'declined', 'expired', 'cancelled')),
+    offered_room_id INTEGER,                         -- Room and bed held for the student
+    offered_bed_id INTEGER,
+    offered_at TIMESTAMP,
+    offer_expires_at TIMESTAMP,
+    allocation_id INTEGER,                           -- Allocation created on acceptance
+    notes TEXT,
+    created_by VARCHAR(100),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT fk_waitlist_student
+        FOREIGN KEY (student_id)
+        REFERENCES students(id)
+        ON DELETE CASCADE,
+
+    CONSTRAINT fk_waitlist_hostel
+        FOREIGN KEY (hostel_id)
+        REFERENCES hostels(id)
+        ON DELETE CASCADE,
+
+    CONSTRAINT fk_waitlist_room
+        FOREIGN KEY (room_id)
+        REFERENCES rooms(id)
+        ON DELETE CASCADE,
+
+    CONSTRAINT fk_waitlist_offered_room
+        FOREIGN KEY (offered_room_id)
+        REFERENCES rooms(id)
+        ON DELETE SET NULL,
+
+    CONSTRAINT fk_waitlist_offered_bed
+        FOREIGN KEY (offered_bed_id)
+        REFERENCES beds(id)
+        ON DELETE SET NULL,
+
+    CONSTRAINT fk_waitlist_allocation
+        FOREIGN KEY (allocation_id)
+        REFERENCES allocations(id)
+        ON DELETE SET NULL,
+
+    -- Queue for something: a hostel, a room type or a room
+    CONSTRAINT waitlist_has_target
+        CHECK (hostel_id IS NOT NULL OR room_type IS NOT NULL OR room_id IS NOT NULL),
+
+    -- An offer always names the bed it holds and when it lapses
+    CONSTRAINT waitlist_offer_complete
+        CHECK (status <> 'offered' OR (offered_bed_id IS NOT NULL AND offer_expires_at IS NOT NULL))
+);
+
+-- A student can only be in the queue once at a time
+CREATE UNIQUE INDEX idx_one_open_waitlist_entry
+    ON waitlist_entries(student_id)
+    WHERE status IN ('waiting', 'offered');
+
+CREATE INDEX idx_waitlist_status ON waitlist_entries(status, created_at);
+
+-- ============================================================================
+-- ROOM INSPECTIONS
+-- ============================================================================
+-- Checklist walk-through of a room when a student checks in and again when
+-- they check out. The warden records every item and signs off by recording
+-- the inspection; the student then countersigns. Items handed back in worse
+-- shape (or short) compared with check-in become damages, which can be
+-- billed to the student as a payment (see src/lib/inspections.ts).
+-- Demonstrates: Header/line tables (1:N), composite UNIQUE constraints
+
+CREATE TABLE room_inspections (
+    id SERIAL PRIMARY KEY,
+    allocation_id INTEGER NOT NULL,
+    room_id INTEGER NOT NULL,
+    inspection_type VARCHAR(10) NOT NULL
+        CHECK (inspection_type IN ('check_in', 'check_out')),
+    condition_notes TEXT,
+    inspected_by VARCHAR(100) NOT NULL,             -- Warden/admin who signed off
+    inspected_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    student_signed_at TIMESTAMP,                    -- NULL until the student countersigns
+    student_comments TEXT,
+
+    CONSTRAINT fk_inspection_allocation
+        FOREIGN KEY (allocation_id)
+        REFERENCES allocations(id)
+        ON DELETE CASCADE,
+
+    CONSTRAINT fk_inspection_room
+        FOREIGN KEY (room_id)
+        REFERENCES rooms(id)
+        ON DELETE CASCADE,
+
+    -- One check-in and one check-out per stay
+    CONSTRAINT uq_inspection_per_allocation UNIQUE (allocation_id, inspection_type)
+);
+
+CREATE TABLE inspection_items (
+    id SERIAL PRIMARY KEY,
+    inspection_id INTEGER NOT NULL,
+    category VARCHAR(20) NOT NULL
+        CHECK (category IN ('furniture', 'fixtures', 'keys')),
+    item_name VARCHAR(100) NOT NULL,
+    quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity >= 0),
+    item_condition VARCHAR(10) NOT NULL DEFAULT 'good'
+        CHECK (item_condition IN ('good', 'fair', 'damaged', 'missing')),
+    notes TEXT,
+
+    CONSTRAINT fk_item_inspection
+        FOREIGN KEY (inspection_id)
+        REFERENCES room_inspections(id)
+        ON DELETE CASCADE,
+
+    CONSTRAINT uq_item_per_inspection UNIQUE (inspection_id, item_name)
+);
+
+-- Found by comparing a check-out inspection with its check-in
+CREATE TABLE inspection_damages (
+    id SERIAL PRIMARY KEY,
+    inspection_id INTEGER NOT NULL,                 -- The check-out inspection
+    item_name VARCHAR(100) NOT NULL,
+    check_in_condition VARCHAR(10),                 -- NULL when there was no check-in record
+    check_out_condition VARCHAR(10) NOT NULL,
+    missing_quantity INTEGER NOT NULL DEFAULT 0 CHECK (missing_quantity >= 0),
+    charge_amount DECIMAL(10, 2) CHECK (charge_amount >= 0),
+    payment_id INTEGER,                             -- Set once the damage is billed
+    waived BOOLEAN DEFAULT FALSE,
+
+    CONSTRAINT fk_damage_inspection
+        FOREIGN KEY (inspection_id)
+        REFERENCES room_inspections(id)
+        ON DELETE CASCADE,
+
+    CONSTRAINT fk_damage_payment
+        FOREIGN KEY (payment_id)
+        REFERENCES payments(id)
+        ON DELETE SET NULL,
+
+    CONSTRAINT uq_damage_per_item UNIQUE (inspection_id, item_name)
+);
+
+-- ============================================================================
+-- CHECKOUT EVENTS TABLE
+-- ============================================================================
+-- What the expected-checkout job did to each stay: reminders before
+-- allocations.expected_checkout, overstays after it, and automatic checkouts
+-- once the grace period has passed (JOB 3 in triggers.sql).
+-- Demonstrates: Append-only audit log, UNIQUE constraint for idempotent jobs
+
+CREATE TABLE checkout_events (
+    id SERIAL PRIMARY KEY,
+    allocation_id INTEGER NOT NULL,
+    event_type VARCHAR(20) NOT NULL
+        CHECK (event_type IN ('reminder', 'overstay', 'auto_checkout', 'checkout_blocked')),
+    expected_checkout DATE NOT NULL,                -- The date the event is about
+    event_date DATE NOT NULL,                       -- The job's as-of date
+    details TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT fk_checkout_event_allocation
+        FOREIGN KEY (allocation_id)
+        REFERENCES allocations(id)
+        ON DELETE CASCADE,
+
+    -- Each event happens once per expected date; moving the date starts over
+    CONSTRAINT uq_checkout_event UNIQUE (allocation_id, event_type, expected_checkout)
+);
+
+CREATE INDEX idx_checkout_events_date ON checkout_events(event_date);
+
+-- ============================================================================
+-- ACADEMIC ROLLOVER TABLES
+-- ============================================================================
+-- Year-end rollover: graduating students are checked out, returning students
+-- keep or give up their rooms and move up a year. Each rollover is recorded
+-- with one change row per student it touched (see src/lib/rollover.ts).
+-- Demonstrates: Audit trail of a bulk transaction, header/line tables
+
+CREATE TABLE academic_rollovers (
+    id SERIAL PRIMARY KEY,
+    academic_year VARCHAR(20) NOT NULL UNIQUE,      -- The year being closed, e.g. "2024-25"
+    max_year_of_study INTEGER NOT NULL
+        CHECK (max_year_of_study >= 1 AND max_year_of_study <= 6),
+    rollover_date DATE NOT NULL,                    -- Checkout date for ended allocations
+    retain_rooms BOOLEAN NOT NULL,
+    new_expected_checkout DATE,                     -- For rooms kept by returning students
+    students_graduated INTEGER NOT NULL DEFAULT 0,
+    students_promoted INTEGER NOT NULL DEFAULT 0,
+    allocations_ended INTEGER NOT NULL DEFAULT 0,
+    allocations_renewed INTEGER NOT NULL DEFAULT 0,
+    created_by VARCHAR(100),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT valid_rollover_renewal
+        CHECK (NOT retain_rooms OR new_expected_checkout > rollover_date)
+);
+
+CREATE TABLE academic_rollover_changes (
+    id SERIAL PRIMARY KEY,
+    rollover_id INTEGER NOT NULL,
+    student_id INTEGER NOT NULL,
+    allocation_id INTEGER,
+    action VARCHAR(20) NOT NULL
+        CHECK (action IN ('graduate', 'renew', 'release', 'promote', 'blocked')),
+    old_year_of_study INTEGER,
+    new_year_of_study INTEGER,
+    old_expected_checkout DATE,
+    new_expected_checkout DATE,
+    allocation_ended BOOLEAN NOT NULL DEFAULT FALSE,
+    details TEXT,
+
+    CONSTRAINT fk_rollover_change_rollover
+        FOREIGN KEY (rollover_id)
+        REFERENCES academic_rollovers(id)
+        ON DELETE CASCADE,
+
+    CONSTRAINT fk_rollover_change_student
+        FOREIGN KEY (student_id)
+        REFERENCES students(id)
+        ON DELETE CASCADE,
+
+    CONSTRAINT fk_rollover_change_allocation
+        FOREIGN KEY (allocation_id)
+        REFERENCES allocations(id)
+        ON DELETE SET NULL
+);
+
+CREATE INDEX idx_rollover_changes_rollover ON academic_rollover_changes(rollover_id);
+
+-- ============================================================================
+-- USERS TABLE
+-- ============================================================================
+-- Login accounts for the portal. Students and maintenance staff are linked to
+-- their existing records; admins and wardens stand on their own.
+-- Demonstrates: CHECK constraint spanning multiple columns, optional 1:1 links
+
+CREATE TABLE users (
+    id SERIAL PRIMARY KEY,
+    username VARCHAR(100) NOT NULL UNIQUE,          -- Students log in with their email
+    password_hash VARCHAR(255) NOT NULL,            -- scrypt hash, never the plain password
+    role user_role NOT NULL,
+    display_name VARCHAR(100),
+    student_id INTEGER UNIQUE,                      -- Set for role = 'student'
+    staff_id INTEGER UNIQUE,                        -- Set for role = 'staff'
+    is_active BOOLEAN DEFAULT TRUE,
+    last_login_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT fk_user_student
+        FOREIGN KEY (student_id)
+        REFERENCES students(id)
+        ON DELETE CASCADE,
+
+    CONSTRAINT fk_user_staff
+        FOREIGN KEY (staff_id)
+        REFERENCES maintenance_staff(id)
+        ON DELETE CASCADE,
+
+    -- Student and staff accounts must point at the record they act for
+    CONSTRAINT valid_role_link CHECK (
+        (role = 'student' AND student_id IS NOT NULL AND staff_id IS NULL) OR
+        (role = 'staff' AND staff_id IS NOT NULL AND student_id IS NULL) OR
+        (role IN ('admin', 'warden') AND student_id IS NULL AND staff_id IS NULL)
+    )
+);
+
+-- ============================================================================
+-- SESSIONS TABLE
+-- ============================================================================
+-- Server-side login sessions. The browser only holds a random token; the
+-- table stores its SHA-256 hash so a database leak does not expose sessions.
+
+CREATE TABLE sessions (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT fk_session_user
+        FOREIGN KEY (user_id)
+        REFERENCES users(id)
+        ON DELETE CASCADE
+);
+
+CREATE INDEX idx_sessions_user ON sessions(user_id);
+CREATE INDEX idx_sessions_expires ON sessions(expires_at);
+
 -- ============================================================================
 -- COMMENTS ON TABLES (Documentation)
 -- ============================================================================
@@ -320,12 +1019,40 @@ CREATE INDEX idx_payments_due_date ON payments(due_date);
 
 COMMENT ON TABLE hostels IS 'Stores hostel building information';
 COMMENT ON TABLE rooms IS 'Individual rooms within hostels with capacity constraints';
+COMMENT ON TABLE beds IS 'Individual beds within a room, one per unit of capacity';
+COMMENT ON TABLE room_blackouts IS 'Scheduled maintenance windows during which a room is closed';
 COMMENT ON TABLE students IS 'Student/resident personal and academic information';
+COMMENT ON TABLE student_lifestyle IS 'Roommate compatibility questionnaire answers';
 COMMENT ON TABLE allocations IS 'Room allocation records linking students to rooms';
+COMMENT ON TABLE bed_bookings IS 'Beds reserved for future date ranges, checked in as allocations on arrival';
 COMMENT ON TABLE maintenance_staff IS 'Maintenance personnel information';
 COMMENT ON TABLE complaints IS 'Maintenance complaints raised by students';
 COMMENT ON TABLE complaint_logs IS 'Audit log for complaint status changes';
 COMMENT ON TABLE payments IS 'Fee payment records for students';
+COMMENT ON TABLE billing_runs IS 'Semester fee invoice runs over active allocations';
+COMMENT ON TABLE receipt_sequences IS 'Per-year counters behind payment receipt numbers';
+COMMENT ON TABLE payment_transactions IS 'Installments received against a payment due';
+COMMENT ON TABLE late_fee_policies IS 'Per-hostel late fee rules applied to overdue payments';
+COMMENT ON TABLE allocation_rounds IS 'Semester application windows for preference-based batch allocation';
+COMMENT ON TABLE room_applications IS 'A student''s application in an allocation round and its outcome';
+COMMENT ON TABLE room_application_choices IS 'Ranked room preferences of an application';
+COMMENT ON TABLE room_application_roommates IS 'Students an applicant would like to share a room with';
+COMMENT ON TABLE waitlist_entries IS 'Queue of students waiting for a bed in a full hostel, room type or room';
+COMMENT ON TABLE room_inspections IS 'Check-in and check-out inspections of a student''s room';
+COMMENT ON TABLE inspection_items IS 'Checklist items recorded during a room inspection';
+COMMENT ON TABLE inspection_damages IS 'Items returned damaged or missing at check-out, and their charges';
+COMMENT ON TABLE checkout_events IS 'Reminders, overstays and automatic checkouts logged by the expected-checkout job';
+COMMENT ON TABLE academic_rollovers IS 'Year-end rollovers of students and allocations';
+COMMENT ON TABLE academic_rollover_changes IS 'What each academic rollover changed, one row per student';
+COMMENT ON TABLE users IS 'Portal login accounts with role-based access';
+COMMENT ON TABLE sessions IS 'Active login sessions (hashed tokens)';
 
 COMMENT ON COLUMN rooms.current_occupancy IS 'Denormalized field updated by trigger';
+COMMENT ON COLUMN allocations.bed_id IS 'Bed occupied by the student; chosen by trigger when not given';
+COMMENT ON COLUMN allocations.previous_allocation_id IS 'Set when the allocation was created by a room transfer';
 COMMENT ON COLUMN complaints.priority IS '1=Highest priority, 5=Lowest priority';
+COMMENT ON COLUMN payments.amount_paid IS 'Denormalized sum of payment_transactions, updated by trigger';
+COMMENT ON COLUMN payments.late_fee_for IS 'The overdue payment this late fee was charged for';
+COMMENT ON COLUMN payments.billing_run_id IS 'Billing run that generated this invoice';
+COMMENT ON COLUMN hostels.auto_assign_complaints IS 'When TRUE, new complaints are routed to maintenance staff on creation';
+COMMENT ON COLUMN hostels.is_active IS 'FALSE once decommissioned; rooms and their history are kept but closed';
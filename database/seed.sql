@@ -64,6 +64,16 @@ INSERT INTO students (registration_number, first_name, last_name, email, phone,
 ('REG009', 'Kavya', 'Nair', 'kavya.nair@university.edu', '+91-9123456709', 'female', '2002-09-30', '45 Marine Drive, Kochi', 'Gopal Nair', '+91-9123456909', 'Computer Science', 2),
 ('REG010', 'Pooja', 'Joshi', 'pooja.joshi@university.edu', '+91-9123456710', 'female', '2003-06-12', '12 Aundh Road, Pune', 'Harish Joshi', '+91-9123456910', 'Civil', 1);
 
+-- Roommate questionnaire answers (not every student has filled it in)
+INSERT INTO student_lifestyle (student_id, sleep_schedule, study_habits, smokes, cleanliness) VALUES
+(1, 'night_owl', 'background_noise', FALSE, 3),
+(2, 'night_owl', 'background_noise', FALSE, 2),
+(3, 'early_bird', 'silent_room', FALSE, 5),
+(4, 'early_bird', 'silent_room', FALSE, 4),
+(5, 'flexible', 'outside_room', FALSE, 4),
+(7, 'night_owl', 'outside_room', TRUE, 2),
+(9, 'early_bird', 'silent_room', FALSE, 5);
+
 -- ============================================================================
 -- ALLOCATIONS
 -- ============================================================================
@@ -128,16 +138,19 @@ INSERT INTO complaints (student_id, room_id, category, title, description, statu
 -- ============================================================================
 -- Paid payments
 INSERT INTO payments (student_id, allocation_id, amount, payment_date, due_date, payment_status, payment_method, transaction_id, receipt_number, semester) VALUES
-(1, 1, 5000.00, '2024-07-15', '2024-07-31', 'paid', 'bank_transfer', 'TXN001234567', 'RCP-2024-001', 'Fall 2024'),
-(2, 2, 5000.00, '2024-07-20', '2024-07-31', 'paid', 'upi', 'TXN001234568', 'RCP-2024-002', 'Fall 2024'),
-(3, 3, 5000.00, '2024-07-25', '2024-07-31', 'paid', 'card', 'TXN001234569', 'RCP-2024-003', 'Fall 2024'),
-(4, 4, 5500.00, '2024-07-18', '2024-07-31', 'paid', 'bank_transfer', 'TXN001234570', 'RCP-2024-004', 'Fall 2024'),
-(5, 5, 5500.00, '2024-07-22', '2024-07-31', 'paid', 'upi', 'TXN001234571', 'RCP-2024-005', 'Fall 2024'),
-(6, 6, 5500.00, '2024-07-28', '2024-07-31', 'paid', 'cash', NULL, 'RCP-2024-006', 'Fall 2024'),
-(7, 7, 4500.00, '2024-07-16', '2024-07-31', 'paid', 'bank_transfer', 'TXN001234572', 'RCP-2024-007', 'Fall 2024'),
-(8, 8, 4500.00, '2024-07-19', '2024-07-31', 'paid', 'upi', 'TXN001234573', 'RCP-2024-008', 'Fall 2024'),
-(9, 9, 8500.00, '2024-07-21', '2024-07-31', 'paid', 'card', 'TXN001234574', 'RCP-2024-009', 'Fall 2024'),
-(10, 10, 5000.00, '2024-07-24', '2024-07-31', 'paid', 'bank_transfer', 'TXN001234575', 'RCP-2024-010', 'Fall 2024');
+(1, 1, 5000.00, '2024-07-15', '2024-07-31', 'paid', 'bank_transfer', 'TXN001234567', 'RCP-2024-0001', 'Fall 2024'),
+(2, 2, 5000.00, '2024-07-20', '2024-07-31', 'paid', 'upi', 'TXN001234568', 'RCP-2024-0002', 'Fall 2024'),
+(3, 3, 5000.00, '2024-07-25', '2024-07-31', 'paid', 'card', 'TXN001234569', 'RCP-2024-0003', 'Fall 2024'),
+(4, 4, 5500.00, '2024-07-18', '2024-07-31', 'paid', 'bank_transfer', 'TXN001234570', 'RCP-2024-0004', 'Fall 2024'),
+(5, 5, 5500.00, '2024-07-22', '2024-07-31', 'paid', 'upi', 'TXN001234571', 'RCP-2024-0005', 'Fall 2024'),
+(6, 6, 5500.00, '2024-07-28', '2024-07-31', 'paid', 'cash', NULL, 'RCP-2024-0006', 'Fall 2024'),
+(7, 7, 4500.00, '2024-07-16', '2024-07-31', 'paid', 'bank_transfer', 'TXN001234572', 'RCP-2024-0007', 'Fall 2024'),
+(8, 8, 4500.00, '2024-07-19', '2024-07-31', 'paid', 'upi', 'TXN001234573', 'RCP-2024-0008', 'Fall 2024'),
+(9, 9, 8500.00, '2024-07-21', '2024-07-31', 'paid', 'card', 'TXN001234574', 'RCP-2024-0009', 'Fall 2024'),
+(10, 10, 5000.00, '2024-07-24', '2024-07-31', 'paid', 'bank_transfer', 'TXN001234575', 'RCP-2024-0010', 'Fall 2024');
+
+-- Continue receipt numbering after the seeded receipts
+INSERT INTO receipt_sequences (year, last_number) VALUES (2024, 10);
 
 -- Pending payments (current semester)
 INSERT INTO payments (student_id, allocation_id, amount, due_date, payment_status, semester) VALUES
@@ -152,9 +165,50 @@ INSERT INTO payments (student_id, allocation_id, amount, due_date, payment_statu
 (6, 6, 5500.00, '2024-12-15', 'overdue', 'Spring 2025'),
 (7, 7, 4500.00, '2024-12-20', 'overdue', 'Spring 2025');
 
--- Partial payment
+-- Partial payment (installment recorded below)
 INSERT INTO payments (student_id, allocation_id, amount, payment_date, due_date, payment_status, payment_method, notes, semester) VALUES
-(8, 8, 2000.00, '2024-12-28', '2024-12-31', 'partial', 'upi', 'Partial payment received. Balance: Rs 2500', 'Spring 2025');
+(8, 8, 4500.00, '2024-12-28', '2024-12-31', 'partial', 'upi', 'Paying in installments', 'Spring 2025');
+
+-- Ledger entries for the money already received
+-- (the ledger trigger fills in amount_paid on each payment)
+INSERT INTO payment_transactions (payment_id, amount, payment_method, transaction_id, paid_on, recorded_by)
+SELECT id, amount, payment_method, transaction_id, payment_date, 'seed'
+FROM payments
+WHERE payment_status = 'paid';
+
+INSERT INTO payment_transactions (payment_id, amount, payment_method, paid_on, recorded_by)
+SELECT id, 2000.00, 'upi', '2024-12-28', 'seed'
+FROM payments
+WHERE payment_status = 'partial' AND student_id = 8;
+
+-- ============================================================================
+-- LATE FEE POLICIES
+-- ============================================================================
+-- Flat fee for the Alpha/Gamma hostels, 2% (capped) for Beta; Delta has none
+INSERT INTO late_fee_policies (hostel_id, grace_days, fee_type, fee_value, max_fee) VALUES
+(1, 7, 'flat', 250.00, NULL),
+(2, 7, 'percent', 2.00, 500.00),
+(3, 10, 'flat', 200.00, NULL);
+
+-- ============================================================================
+-- USERS (login accounts)
+-- ============================================================================
+-- Demo credentials (change these before any real deployment):
+--   admin / admin123, warden / warden123
+--   staff:    <staff email> / staff123
+--   students: <student email> / student123
+INSERT INTO users (username, password_hash, role, display_name) VALUES
+('admin', 'scrypt$74b718c56e49365b9dae4f08889831ac$e3fa1876bb9b6b6717e3d21d80637e351d24b488aab437e152542253029bbe16676c25ff2c40cf5b961827b92a5ecb3263edd405931b3765a0bbf5bd4aaa566c', 'admin', 'System Administrator'),
+('warden', 'scrypt$c3dcf6875af72464d1750749eeeebcf0$e59ba578cdbeeaccd8dd446d2c8fe671533265a064ba3a6b9a3f5b3d8ebd14fc13c38e03169d774d3e5f2d34ceb359d729830979ee46f54c71f86de61b7475fa', 'warden', 'Dr. Rajesh Kumar');
+
+INSERT INTO users (username, password_hash, role, display_name, staff_id)
+SELECT email, 'scrypt$b812468b9a56dc071ca34aa678bf9129$b6eeb38f248f4d1cbd2b620f72e7f52a065f43b93bae847b40c7e463651d7e6a9d0541c5af811254295e671fed256fc2c1a7e3dd5a70a8c0e34f843f9e225bd4', 'staff', name, id
+FROM maintenance_staff
+WHERE email IS NOT NULL;
+
+INSERT INTO users (username, password_hash, role, display_name, student_id)
+SELECT email, 'scrypt$09b035f8930b301f3a93aa90f6c2ff04$5cab7526752ac65febf0811baa6d967e76786c3a90b3c050f2df3cf59c75d9adb0ebe5bc4a369f5e62666c2ade8f3be4acbd98274423ccdfca9396ba8f303616', 'student', first_name || ' ' || last_name, id
+FROM students;
 
 -- ============================================================================
 -- VERIFY DATA
@@ -167,4 +221,7 @@ INSERT INTO payments (student_id, allocation_id, amount, payment_date, due_date,
 -- UNION ALL SELECT 'Allocations', COUNT(*) FROM allocations
 -- UNION ALL SELECT 'Maintenance Staff', COUNT(*) FROM maintenance_staff
 -- UNION ALL SELECT 'Complaints', COUNT(*) FROM complaints
--- UNION ALL SELECT 'Payments', COUNT(*) FROM payments;
+-- UNION ALL SELECT 'Payments', COUNT(*) FROM payments
+-- UNION ALL SELECT 'Payment Transactions', COUNT(*) FROM payment_transactions
+-- UNION ALL SELECT 'Late Fee Policies', COUNT(*) FROM late_fee_policies
+-- UNION ALL SELECT 'Users', COUNT(*) FROM users;
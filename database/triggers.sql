@@ -16,16 +16,22 @@
 -- ============================================================================
 -- TRIGGER 1: PREVENT ROOM CAPACITY OVERFLOW
 -- ============================================================================
--- This trigger prevents allocating more students to a room than its capacity
--- allows. It fires BEFORE an allocation INSERT to validate the operation.
+-- This trigger prevents allocating more students to a room than it has free
+-- beds. It fires BEFORE an allocation INSERT to validate the operation.
 --
--- Business Rule: current_occupancy must never exceed capacity
+-- Business Rule: every active allocation occupies exactly one available bed
+-- of its room, so current_occupancy can never exceed capacity
 -- 
 -- How it works:
--- 1. On new allocation INSERT, check if room has space
--- 2. If room is full, RAISE EXCEPTION to abort the INSERT
--- 3. If room has space, increment current_occupancy
--- 4. Also handles deallocation (when is_active changes to FALSE)
+-- 1. On new allocation INSERT, lock the room row so concurrent allocations
+--    queue up instead of picking the same bed
+-- 2. If no bed was requested, pick the first free bed (A, B, C...),
+--    skipping beds held for another student by an open waitlist offer or
+--    booked for another student during the stay
+-- 3. If a bed was requested, check it belongs to the room and is free
+-- 4. If no bed is free, RAISE EXCEPTION to abort the INSERT
+-- 5. Otherwise increment current_occupancy
+-- 6. Also handles deallocation (when is_active changes to FALSE)
 
 CREATE OR REPLACE FUNCTION check_room_capacity()
 RETURNS TRIGGER AS $$
@@ -36,19 +42,33 @@ DECLARE
     v_hostel_name VARCHAR(100);
 BEGIN
     -- Get room capacity and current occupancy
+    -- FOR UPDATE OF r: serialises bed selection for this room
     SELECT r.capacity, r.current_occupancy, r.room_number, h.name
     INTO v_capacity, v_current_occupancy, v_room_number, v_hostel_name
     FROM rooms r
     JOIN hostels h ON r.hostel_id = h.id
-    WHERE r.id = NEW.room_id;
+    WHERE r.id = NEW.room_id
+    FOR UPDATE OF r;
     
-    -- For new allocations (INSERT with is_active = TRUE)
-    IF TG_OP = 'INSERT' AND NEW.is_active = TRUE THEN
-        -- Check if room has capacity
-        IF v_current_occupancy >= v_capacity THEN
-            -- RAISE EXCEPTION aborts the transaction and prevents the INSERT
-            RAISE EXCEPTION 'Room % in % is at full capacity (% / %). Cannot allocate more students.',
-                v_room_number, v_hostel_name, v_current_occupancy, v_capacity;
+    -- Allocation is becoming active (new, or reactivated)
+    IF NEW.is_active = TRUE AND (TG_OP = 'INSERT' OR OLD.is_active = FALSE) THEN
+        IF NEW.bed_id IS NULL THEN
+            -- Pick the first free bed (see bed_is_free)
+            SELECT b.id INTO NEW.bed_id
+            FROM beds b
+            WHERE b.room_id = NEW.room_id
+              AND bed_is_free(b.id, NEW.student_id, NEW.allocation_date, NEW.expected_checkout)
+            ORDER BY b.bed_label
+            LIMIT 1;
+            
+            IF NEW.bed_id IS NULL THEN
+                -- RAISE EXCEPTION aborts the transaction and prevents the INSERT
+                RAISE EXCEPTION 'Room % in % has no free bed (% / % occupied). Cannot allocate more students.',
+                    v_room_number, v_hostel_name, v_current_occupancy, v_capacity;
+            END IF;
+        ELSE
+            PERFORM check_bed_is_free(NEW.bed_id, NEW.room_id, NEW.id, NEW.student_id);
+            PERFORM check_bed_not_booked(NEW.bed_id, NEW.student_id, NEW.allocation_date, NEW.expected_checkout);
         END IF;
         
         -- Increment room occupancy
@@ -57,28 +77,27 @@ BEGIN
             updated_at = CURRENT_TIMESTAMP
         WHERE id = NEW.room_id;
         
-    -- For updates (deallocation)
-    ELSIF TG_OP = 'UPDATE' THEN
-        -- If allocation is being deactivated
-        IF OLD.is_active = TRUE AND NEW.is_active = FALSE THEN
-            -- Decrement room occupancy
-            UPDATE rooms SET 
-                current_occupancy = GREATEST(0, current_occupancy - 1),
-                updated_at = CURRENT_TIMESTAMP
-            WHERE id = NEW.room_id;
-        -- If allocation is being reactivated
-        ELSIF OLD.is_active = FALSE AND NEW.is_active = TRUE THEN
-            -- Check capacity again
-            IF v_current_occupancy >= v_capacity THEN
-                RAISE EXCEPTION 'Room % in % is at full capacity. Cannot reactivate allocation.',
-                    v_room_number, v_hostel_name;
-            END IF;
-            
-            UPDATE rooms SET 
-                current_occupancy = current_occupancy + 1,
-                updated_at = CURRENT_TIMESTAMP
-            WHERE id = NEW.room_id;
+    -- Allocation is being deactivated
+    ELSIF TG_OP = 'UPDATE' AND OLD.is_active = TRUE AND NEW.is_active = FALSE THEN
+        -- Decrement room occupancy
+        UPDATE rooms SET 
+            current_occupancy = GREATEST(0, current_occupancy - 1),
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = NEW.room_id;
+        
+    -- Active student moved to another bed in the same room
+    ELSIF TG_OP = 'UPDATE' AND NEW.is_active = TRUE
+          AND NEW.bed_id IS DISTINCT FROM OLD.bed_id THEN
+        IF NEW.bed_id IS NULL THEN
+            RAISE EXCEPTION 'An active allocation must keep a bed';
         END IF;
+        PERFORM check_bed_is_free(NEW.bed_id, NEW.room_id, NEW.id, NEW.student_id);
+        PERFORM check_bed_not_booked(NEW.bed_id, NEW.student_id, NEW.allocation_date, NEW.expected_checkout);
+        
+    -- Stay extended (or made open-ended): it must not run into a booking
+    ELSIF TG_OP = 'UPDATE' AND NEW.is_active = TRUE
+          AND NEW.expected_checkout IS DISTINCT FROM OLD.expected_checkout THEN
+        PERFORM check_bed_not_booked(NEW.bed_id, NEW.student_id, NEW.allocation_date, NEW.expected_checkout);
     END IF;
     
     -- Return NEW to allow the operation to proceed
@@ -86,6 +105,128 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Helper: raise unless the bed belongs to the room, is usable, is not held
+-- by another active allocation and is not held for another student by an
+-- open waitlist offer
+DROP FUNCTION IF EXISTS check_bed_is_free(INTEGER, INTEGER, INTEGER);
+CREATE OR REPLACE FUNCTION check_bed_is_free(
+    p_bed_id INTEGER,
+    p_room_id INTEGER,
+    p_allocation_id INTEGER,
+    p_student_id INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+    v_bed RECORD;
+BEGIN
+    SELECT b.bed_label, b.room_id, b.is_available, r.room_number
+    INTO v_bed
+    FROM beds b
+    JOIN rooms r ON b.room_id = r.id
+    WHERE b.id = p_bed_id;
+    
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bed % does not exist', p_bed_id;
+    END IF;
+    
+    IF v_bed.room_id <> p_room_id THEN
+        RAISE EXCEPTION 'Bed % of room % is not in the allocated room',
+            v_bed.bed_label, v_bed.room_number;
+    END IF;
+    
+    IF v_bed.is_available = FALSE THEN
+        RAISE EXCEPTION 'Bed % in room % is out of service',
+            v_bed.bed_label, v_bed.room_number;
+    END IF;
+    
+    IF EXISTS (
+        SELECT 1 FROM allocations
+        WHERE bed_id = p_bed_id AND is_active = TRUE AND id <> p_allocation_id
+    ) THEN
+        RAISE EXCEPTION 'Bed % in room % is already occupied',
+            v_bed.bed_label, v_bed.room_number;
+    END IF;
+    
+    IF EXISTS (
+        SELECT 1 FROM waitlist_entries
+        WHERE offered_bed_id = p_bed_id
+          AND status = 'offered'
+          AND offer_expires_at > CURRENT_TIMESTAMP
+          AND student_id <> p_student_id
+    ) THEN
+        RAISE EXCEPTION 'Bed % in room % is held for another student by a waitlist offer',
+            v_bed.bed_label, v_bed.room_number;
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Helper: raise if another student has booked the bed for any night of the
+-- stay [p_from, p_until); a NULL p_until means the stay has no end yet
+CREATE OR REPLACE FUNCTION check_bed_not_booked(
+    p_bed_id INTEGER,
+    p_student_id INTEGER,
+    p_from DATE,
+    p_until DATE
+)
+RETURNS VOID AS $$
+DECLARE
+    v_booking RECORD;
+BEGIN
+    SELECT bb.stay, bd.bed_label, r.room_number
+    INTO v_booking
+    FROM bed_bookings bb
+    JOIN beds bd ON bb.bed_id = bd.id
+    JOIN rooms r ON bb.room_id = r.id
+    WHERE bb.bed_id = p_bed_id
+      AND bb.status = 'booked'
+      AND bb.student_id <> p_student_id
+      AND bb.stay && daterange(p_from, p_until)
+    ORDER BY lower(bb.stay)
+    LIMIT 1;
+    
+    IF FOUND THEN
+        RAISE EXCEPTION 'Bed % in room % is booked from % to %',
+            v_booking.bed_label, v_booking.room_number, lower(v_booking.stay), upper(v_booking.stay);
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Helper: could this student take the bed for the stay [p_from, p_until)?
+-- The bed must be in service, have no active allocation, not be held for
+-- another student by an open waitlist offer and not be booked by another
+-- student for any night of the stay. The trigger above picks beds with it and
+-- the application's free-bed counts use it, so both agree on what is free.
+-- A NULL p_student_id treats every offer and booking as someone else's.
+CREATE OR REPLACE FUNCTION bed_is_free(
+    p_bed_id INTEGER,
+    p_student_id INTEGER DEFAULT NULL,
+    p_from DATE DEFAULT CURRENT_DATE,
+    p_until DATE DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+    SELECT b.is_available
+       AND NOT EXISTS (
+           SELECT 1 FROM allocations a
+           WHERE a.bed_id = b.id AND a.is_active = TRUE
+       )
+       AND NOT EXISTS (
+           SELECT 1 FROM waitlist_entries w
+           WHERE w.offered_bed_id = b.id
+             AND w.status = 'offered'
+             AND w.offer_expires_at > CURRENT_TIMESTAMP
+             AND w.student_id IS DISTINCT FROM p_student_id
+       )
+       AND NOT EXISTS (
+           SELECT 1 FROM bed_bookings bb
+           WHERE bb.bed_id = b.id
+             AND bb.status = 'booked'
+             AND bb.student_id IS DISTINCT FROM p_student_id
+             AND bb.stay && daterange(p_from, p_until)
+       )
+    FROM beds b
+    WHERE b.id = p_bed_id;
+$$ LANGUAGE sql STABLE;
+
 -- Create the trigger on allocations table
 -- BEFORE INSERT ensures we can prevent the INSERT if room is full
 DROP TRIGGER IF EXISTS trg_check_room_capacity ON allocations;
@@ -274,6 +415,12 @@ CREATE TRIGGER trg_update_timestamp_students
     FOR EACH ROW
     EXECUTE FUNCTION update_timestamp();
 
+DROP TRIGGER IF EXISTS trg_update_timestamp_student_lifestyle ON student_lifestyle;
+CREATE TRIGGER trg_update_timestamp_student_lifestyle
+    BEFORE UPDATE ON student_lifestyle
+    FOR EACH ROW
+    EXECUTE FUNCTION update_timestamp();
+
 DROP TRIGGER IF EXISTS trg_update_timestamp_allocations ON allocations;
 CREATE TRIGGER trg_update_timestamp_allocations
     BEFORE UPDATE ON allocations
@@ -285,3 +432,799 @@ CREATE TRIGGER trg_update_timestamp_payments
     BEFORE UPDATE ON payments
     FOR EACH ROW
     EXECUTE FUNCTION update_timestamp();
+
+DROP TRIGGER IF EXISTS trg_update_timestamp_staff ON maintenance_staff;
+CREATE TRIGGER trg_update_timestamp_staff
+    BEFORE UPDATE ON maintenance_staff
+    FOR EACH ROW
+    EXECUTE FUNCTION update_timestamp();
+
+DROP TRIGGER IF EXISTS trg_update_timestamp_users ON users;
+CREATE TRIGGER trg_update_timestamp_users
+    BEFORE UPDATE ON users
+    FOR EACH ROW
+    EXECUTE FUNCTION update_timestamp();
+
+DROP TRIGGER IF EXISTS trg_update_timestamp_beds ON beds;
+CREATE TRIGGER trg_update_timestamp_beds
+    BEFORE UPDATE ON beds
+    FOR EACH ROW
+    EXECUTE FUNCTION update_timestamp();
+
+DROP TRIGGER IF EXISTS trg_update_timestamp_room_blackouts ON room_blackouts;
+CREATE TRIGGER trg_update_timestamp_room_blackouts
+    BEFORE UPDATE ON room_blackouts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_timestamp();
+
+DROP TRIGGER IF EXISTS trg_update_timestamp_late_fee_policies ON late_fee_policies;
+CREATE TRIGGER trg_update_timestamp_late_fee_policies
+    BEFORE UPDATE ON late_fee_policies
+    FOR EACH ROW
+    EXECUTE FUNCTION update_timestamp();
+
+DROP TRIGGER IF EXISTS trg_update_timestamp_room_applications ON room_applications;
+CREATE TRIGGER trg_update_timestamp_room_applications
+    BEFORE UPDATE ON room_applications
+    FOR EACH ROW
+    EXECUTE FUNCTION update_timestamp();
+
+DROP TRIGGER IF EXISTS trg_update_timestamp_waitlist_entries ON waitlist_entries;
+CREATE TRIGGER trg_update_timestamp_waitlist_entries
+    BEFORE UPDATE ON waitlist_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION update_timestamp();
+
+DROP TRIGGER IF EXISTS trg_update_timestamp_bed_bookings ON bed_bookings;
+CREATE TRIGGER trg_update_timestamp_bed_bookings
+    BEFORE UPDATE ON bed_bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_timestamp();
+
+-- ============================================================================
+-- TRIGGER 5: KEEP PAYMENT TOTALS IN SYNC WITH THE LEDGER
+-- ============================================================================
+-- Every receipt in payment_transactions updates its parent payment:
+-- amount_paid becomes the sum of receipts, payment_date the latest receipt,
+-- and payment_status is derived from the balance.
+--
+-- Business Rules:
+-- 1. Receipts may never add up to more than the amount due
+-- 2. Fully covered -> 'paid'; otherwise 'overdue' once past due, whatever
+--    was received; before that 'partial' if something was received, else
+--    'pending'
+--
+-- The parent row is locked first, so two installments recorded at the same
+-- time are summed one after the other and can't overpay the due together.
+
+CREATE OR REPLACE FUNCTION sync_payment_ledger()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_payment_id INTEGER := COALESCE(NEW.payment_id, OLD.payment_id);
+    v_amount DECIMAL(10, 2);
+    v_due_date DATE;
+    v_paid DECIMAL(10, 2);
+    v_last_paid_on DATE;
+BEGIN
+    SELECT amount, due_date INTO v_amount, v_due_date
+    FROM payments
+    WHERE id = v_payment_id
+    FOR UPDATE;
+
+    -- Parent already gone (cascading delete)
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0), MAX(paid_on) INTO v_paid, v_last_paid_on
+    FROM payment_transactions
+    WHERE payment_id = v_payment_id;
+
+    IF v_paid > v_amount THEN
+        RAISE EXCEPTION 'Receipts total % which is more than the % due on payment %',
+            v_paid, v_amount, v_payment_id;
+    END IF;
+
+    UPDATE payments
+    SET amount_paid = v_paid,
+        payment_date = v_last_paid_on,
+        payment_status = CASE
+            WHEN v_paid >= v_amount THEN 'paid'
+            WHEN v_due_date < CURRENT_DATE THEN 'overdue'
+            WHEN v_paid > 0 THEN 'partial'
+            ELSE 'pending'
+        END::payment_status
+    WHERE id = v_payment_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_sync_payment_ledger ON payment_transactions;
+CREATE TRIGGER trg_sync_payment_ledger
+    AFTER INSERT OR DELETE ON payment_transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_payment_ledger();
+
+-- ============================================================================
+-- TRIGGER 6: ASSIGN RECEIPT NUMBERS
+-- ============================================================================
+-- The only place receipt numbers are created. When a payment becomes 'paid'
+-- (inserted as paid, or settled through the ledger) it gets the next number
+-- for the year it was paid in: RCP-YYYY-NNNN.
+--
+-- next_receipt_number() works like a per-year sequence: the UPSERT takes a
+-- row lock on that year's counter, so concurrent payments queue up and each
+-- gets its own number. The UNIQUE constraint on payments.receipt_number is
+-- the final safety net.
+
+CREATE OR REPLACE FUNCTION next_receipt_number(p_year INTEGER)
+RETURNS VARCHAR AS $$
+DECLARE
+    v_number INTEGER;
+BEGIN
+    INSERT INTO receipt_sequences (year, last_number)
+    VALUES (p_year, 1)
+    ON CONFLICT (year) DO UPDATE
+        SET last_number = receipt_sequences.last_number + 1
+    RETURNING last_number INTO v_number;
+
+    RETURN 'RCP-' || p_year || '-' || LPAD(v_number::TEXT, 4, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION assign_receipt_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.payment_status = 'paid' AND NEW.receipt_number IS NULL THEN
+        NEW.receipt_number := next_receipt_number(
+            EXTRACT(YEAR FROM COALESCE(NEW.payment_date, CURRENT_DATE))::INTEGER
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_assign_receipt_number ON payments;
+CREATE TRIGGER trg_assign_receipt_number
+    BEFORE INSERT OR UPDATE OF payment_status ON payments
+    FOR EACH ROW
+    EXECUTE FUNCTION assign_receipt_number();
+
+-- ============================================================================
+-- TRIGGER 7: KEEP BEDS IN STEP WITH ROOM CAPACITY
+-- ============================================================================
+-- A room of capacity N always has exactly N beds. New rooms get beds A..N;
+-- raising the capacity adds the next free labels and lowering it removes
+-- unoccupied beds, highest label first.
+--
+-- Business Rule: a bed with an active allocation or a live booking is
+-- never removed
+
+CREATE OR REPLACE FUNCTION sync_room_beds()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_bed_count INTEGER;
+    v_removed INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO v_bed_count FROM beds WHERE room_id = NEW.id;
+    
+    IF v_bed_count < NEW.capacity THEN
+        -- Labels A, B, C... skipping any already in use
+        INSERT INTO beds (room_id, bed_label)
+        SELECT NEW.id, chr(64 + n)
+        FROM generate_series(1, 10) AS n
+        WHERE NOT EXISTS (
+            SELECT 1 FROM beds WHERE room_id = NEW.id AND bed_label = chr(64 + n)
+        )
+        ORDER BY n
+        LIMIT NEW.capacity - v_bed_count;
+        
+    ELSIF v_bed_count > NEW.capacity THEN
+        WITH removable AS (
+            SELECT b.id
+            FROM beds b
+            WHERE b.room_id = NEW.id
+              AND NOT EXISTS (
+                  SELECT 1 FROM allocations a
+                  WHERE a.bed_id = b.id AND a.is_active = TRUE
+              )
+              AND NOT EXISTS (
+                  SELECT 1 FROM bed_bookings bb
+                  WHERE bb.bed_id = b.id AND bb.status = 'booked'
+              )
+            ORDER BY b.bed_label DESC
+            LIMIT v_bed_count - NEW.capacity
+        )
+        DELETE FROM beds WHERE id IN (SELECT id FROM removable);
+        
+        GET DIAGNOSTICS v_removed = ROW_COUNT;
+        
+        IF v_removed < v_bed_count - NEW.capacity THEN
+            RAISE EXCEPTION 'Room % cannot be reduced to % beds: occupied or booked beds cannot be removed',
+                NEW.room_number, NEW.capacity;
+        END IF;
+    END IF;
+    
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_sync_room_beds ON rooms;
+CREATE TRIGGER trg_sync_room_beds
+    AFTER INSERT OR UPDATE OF capacity ON rooms
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_room_beds();
+
+-- ============================================================================
+-- TRIGGER 8: KEEP BOOKINGS CLEAR OF CURRENT RESIDENTS
+-- ============================================================================
+-- The exclusion constraints on bed_bookings stop two bookings from
+-- overlapping; this trigger covers the other half, which a constraint cannot
+-- see because it lives in another table: a booking must not overlap the stay
+-- of a student already living in the bed. Stays run from allocation_date to
+-- expected_checkout, or indefinitely when expected_checkout is NULL.
+-- (check_room_capacity does the reverse check for new and extended stays.)
+
+CREATE OR REPLACE FUNCTION check_bed_booking()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_bed RECORD;
+    v_clash RECORD;
+BEGIN
+    IF NEW.status <> 'booked' THEN
+        RETURN NEW;
+    END IF;
+    
+    IF TG_OP = 'UPDATE' AND OLD.status = 'booked'
+       AND NEW.bed_id = OLD.bed_id AND NEW.stay = OLD.stay THEN
+        RETURN NEW;
+    END IF;
+    
+    -- Same room lock as check_room_capacity, so a booking and an allocation
+    -- of the bed cannot both pass their checks at once
+    PERFORM 1 FROM rooms WHERE id = NEW.room_id FOR UPDATE;
+    
+    SELECT b.bed_label, b.room_id, b.is_available, r.room_number
+    INTO v_bed
+    FROM beds b
+    JOIN rooms r ON b.room_id = r.id
+    WHERE b.id = NEW.bed_id;
+    
+    IF v_bed.room_id <> NEW.room_id THEN
+        RAISE EXCEPTION 'Bed % of room % is not in the booked room',
+            v_bed.bed_label, v_bed.room_number;
+    END IF;
+    
+    IF v_bed.is_available = FALSE THEN
+        RAISE EXCEPTION 'Bed % in room % is out of service',
+            v_bed.bed_label, v_bed.room_number;
+    END IF;
+    
+    SELECT a.expected_checkout
+    INTO v_clash
+    FROM allocations a
+    WHERE a.bed_id = NEW.bed_id
+      AND a.is_active = TRUE
+      AND a.student_id <> NEW.student_id
+      AND daterange(a.allocation_date, a.expected_checkout) && NEW.stay
+    LIMIT 1;
+    
+    IF FOUND THEN
+        RAISE EXCEPTION 'Bed % in room % is occupied until %',
+            v_bed.bed_label, v_bed.room_number, COALESCE(v_clash.expected_checkout::TEXT, 'further notice');
+    END IF;
+    
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_check_bed_booking ON bed_bookings;
+CREATE TRIGGER trg_check_bed_booking
+    BEFORE INSERT OR UPDATE ON bed_bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION check_bed_booking();
+
+-- ============================================================================
+-- WAITLIST OFFERS: HOLD FREED BEDS FOR THE NEXT STUDENT IN LINE
+-- ============================================================================
+-- Not a trigger: called whenever a bed may have freed up, by the application
+-- (src/lib/waitlist.ts) and by scripts/process-expected-checkouts.mjs, so
+-- both serve the queue the same way.
+--
+-- How it works:
+-- 1. Lock the room like check_room_capacity, so its beds can't be taken
+--    mid-offer; closed and blacked-out rooms are not offered
+-- 2. For every free bed (bed_is_free: accepted offers have no expected
+--    checkout, so a bed booked for any later night is skipped), take the
+--    earliest waiting entry that targets the room, its hostel or its room
+--    type, whose student is active, unhoused and of a gender the hostel
+--    accepts
+-- 3. Mark that entry 'offered', holding the bed for p_offer_hours
+--
+-- Runs inside the caller's transaction and returns the offers it made.
+
+CREATE OR REPLACE FUNCTION offer_room_beds(
+    p_room_id INTEGER,
+    p_offer_hours INTEGER DEFAULT 48
+)
+RETURNS TABLE (
+    entry_id INTEGER,
+    student_id INTEGER,
+    student_name TEXT,
+    bed_id INTEGER,
+    bed_label VARCHAR,
+    offer_expires_at TIMESTAMP
+) AS $$
+DECLARE
+    v_room RECORD;
+    v_bed RECORD;
+    v_entry RECORD;
+BEGIN
+    SELECT r.hostel_id, r.room_type::TEXT as room_type, h.gender_allowed::TEXT as gender_allowed,
+        r.is_available AND NOT room_is_blacked_out(r.id) as is_open
+    INTO v_room
+    FROM rooms r
+    INNER JOIN hostels h ON r.hostel_id = h.id
+    WHERE r.id = p_room_id
+    FOR UPDATE OF r;
+
+    IF NOT FOUND OR NOT v_room.is_open THEN
+        RETURN;
+    END IF;
+
+    FOR v_bed IN
+        SELECT b.id, b.bed_label
+        FROM beds b
+        WHERE b.room_id = p_room_id
+          AND bed_is_free(b.id)
+        ORDER BY b.bed_label
+    LOOP
+        SELECT w.id, w.student_id, s.first_name || ' ' || s.last_name as student_name
+        INTO v_entry
+        FROM waitlist_entries w
+        INNER JOIN students s ON w.student_id = s.id
+        WHERE w.status = 'waiting'
+          AND (
+            w.room_id = p_room_id
+            OR (w.room_id IS NULL
+                AND (w.hostel_id IS NULL OR w.hostel_id = v_room.hostel_id)
+                AND (w.room_type IS NULL OR w.room_type::TEXT = v_room.room_type))
+          )
+          AND s.is_active = TRUE
+          AND (v_room.gender_allowed = 'other' OR s.gender::TEXT = v_room.gender_allowed)
+          AND NOT EXISTS (
+            SELECT 1 FROM allocations a WHERE a.student_id = s.id AND a.is_active = TRUE
+          )
+        ORDER BY w.created_at, w.id
+        LIMIT 1
+        FOR UPDATE OF w SKIP LOCKED;
+
+        EXIT WHEN NOT FOUND;
+
+        UPDATE waitlist_entries w
+        SET status = 'offered',
+            offered_room_id = p_room_id,
+            offered_bed_id = v_bed.id,
+            offered_at = CURRENT_TIMESTAMP,
+            offer_expires_at = CURRENT_TIMESTAMP + p_offer_hours * INTERVAL '1 hour'
+        WHERE w.id = v_entry.id
+        RETURNING w.offer_expires_at INTO offer_expires_at;
+
+        entry_id := v_entry.id;
+        student_id := v_entry.student_id;
+        student_name := v_entry.student_name;
+        bed_id := v_bed.id;
+        bed_label := v_bed.bed_label;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- JOB 1: MARK OVERDUE PAYMENTS AND APPLY LATE FEES
+-- ============================================================================
+-- Not a trigger: a stored function run on a schedule, either by
+-- scripts/process-overdue-payments.mjs (cron) or POST /api/payments/overdue.
+--
+-- How it works:
+-- 1. Every 'pending' or 'partial' payment whose due date has passed becomes
+--    'overdue': a part payment does not stop a bill from being late
+-- 2. Every overdue payment past its hostel's grace period gets ONE late-fee
+--    payment row (amount from late_fee_policies, linked via late_fee_for);
+--    a percent fee is charged on the balance still owed
+-- 3. Late fees are never charged on late fees
+--
+-- Idempotent: step 1 only touches rows that are not overdue yet, and the
+-- UNIQUE constraint on payments.late_fee_for (ON CONFLICT DO NOTHING) makes
+-- step 2 a no-op for payments that already have a fee, even if two runs
+-- overlap.
+
+CREATE OR REPLACE FUNCTION process_overdue_payments(
+    p_as_of DATE DEFAULT CURRENT_DATE,
+    p_apply_late_fees BOOLEAN DEFAULT TRUE
+)
+RETURNS TABLE (payments_marked INTEGER, late_fees_created INTEGER) AS $$
+DECLARE
+    v_marked INTEGER;
+    v_fees INTEGER := 0;
+BEGIN
+    -- Running ahead would fine payments that are not due yet, and nothing
+    -- moves them back
+    IF p_as_of > CURRENT_DATE THEN
+        RAISE EXCEPTION 'Cannot process overdue payments as of % which is in the future', p_as_of;
+    END IF;
+    
+    UPDATE payments
+    SET payment_status = 'overdue'
+    WHERE payment_status IN ('pending', 'partial')
+      AND due_date < p_as_of;
+
+    GET DIAGNOSTICS v_marked = ROW_COUNT;
+
+    IF p_apply_late_fees THEN
+        INSERT INTO payments (
+            student_id, allocation_id, amount, due_date, payment_status, semester, notes, late_fee_for
+        )
+        SELECT
+            fee.student_id,
+            fee.allocation_id,
+            fee.amount,
+            p_as_of,
+            'pending',
+            fee.semester,
+            'Late fee for payment #' || fee.payment_id || ' (due ' || fee.due_date || ')',
+            fee.payment_id
+        FROM (
+            SELECT
+                p.id as payment_id,
+                p.student_id,
+                p.allocation_id,
+                p.semester,
+                p.due_date,
+                ROUND(
+                    CASE lp.fee_type
+                        WHEN 'percent' THEN LEAST(
+                            (p.amount - p.amount_paid) * lp.fee_value / 100,
+                            COALESCE(lp.max_fee, p.amount - p.amount_paid)
+                        )
+                        ELSE lp.fee_value
+                    END, 2
+                ) as amount
+            FROM payments p
+            -- The hostel is taken from the allocation the payment belongs to,
+            -- falling back to the student's current allocation
+            LEFT JOIN allocations pa ON p.allocation_id = pa.id
+            LEFT JOIN allocations ca ON ca.student_id = p.student_id AND ca.is_active = TRUE
+            INNER JOIN rooms r ON r.id = COALESCE(pa.room_id, ca.room_id)
+            INNER JOIN late_fee_policies lp ON lp.hostel_id = r.hostel_id AND lp.is_active = TRUE
+            WHERE p.payment_status = 'overdue'
+              AND p.late_fee_for IS NULL
+              AND p.due_date + lp.grace_days < p_as_of
+        ) fee
+        WHERE fee.amount > 0
+        ON CONFLICT (late_fee_for) DO NOTHING;
+
+        GET DIAGNOSTICS v_fees = ROW_COUNT;
+    END IF;
+
+    RETURN QUERY SELECT v_marked, v_fees;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- JOB 2: OPEN AND CLOSE ROOMS FOR MAINTENANCE WINDOWS
+-- ============================================================================
+-- Not a trigger: a stored function run on a schedule, either by
+-- scripts/apply-room-blackouts.mjs (cron) or POST /api/rooms/blackouts, and
+-- right after a window is scheduled or cancelled.
+--
+-- How it works:
+-- 1. Scheduled windows that have started become 'active' and set their room's
+--    is_available to FALSE; closed_room records that this window did it
+-- 2. Windows whose last day has passed become 'completed'
+-- 3. Completed or cancelled windows that closed their room re-open it, unless
+--    another active window still covers the room
+--
+-- Rooms that were already switched off by hand are left alone: their windows
+-- never set closed_room, so they never re-open them.
+
+CREATE OR REPLACE FUNCTION apply_room_blackouts(
+    p_as_of DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (rooms_closed INTEGER, rooms_reopened INTEGER) AS $$
+DECLARE
+    v_closed INTEGER;
+    v_reopened INTEGER;
+BEGIN
+    UPDATE room_blackouts
+    SET status = 'completed'
+    WHERE status IN ('scheduled', 'active')
+      AND ends_on < p_as_of;
+
+    UPDATE room_blackouts
+    SET status = 'active'
+    WHERE status = 'scheduled'
+      AND starts_on <= p_as_of;
+
+    -- Close rooms that are still open under an active window
+    WITH closing AS (
+        UPDATE room_blackouts b
+        SET closed_room = TRUE
+        FROM rooms r
+        WHERE r.id = b.room_id
+          AND b.status = 'active'
+          AND b.closed_room = FALSE
+          AND r.is_available = TRUE
+        RETURNING b.room_id
+    )
+    UPDATE rooms
+    SET is_available = FALSE
+    WHERE id IN (SELECT room_id FROM closing);
+
+    GET DIAGNOSTICS v_closed = ROW_COUNT;
+
+    -- Hand rooms back once the window that closed them is over
+    WITH released AS (
+        UPDATE room_blackouts
+        SET closed_room = FALSE
+        WHERE closed_room = TRUE
+          AND status IN ('completed', 'cancelled')
+        RETURNING room_id
+    )
+    UPDATE rooms r
+    SET is_available = TRUE
+    WHERE r.id IN (SELECT room_id FROM released)
+      AND r.is_available = FALSE
+      AND NOT EXISTS (
+          SELECT 1 FROM room_blackouts b
+          WHERE b.room_id = r.id AND b.status = 'active'
+      );
+
+    GET DIAGNOSTICS v_reopened = ROW_COUNT;
+
+    RETURN QUERY SELECT v_closed, v_reopened;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Helper: is the room inside a scheduled or active window on this day?
+-- Used by the availability checks so a window counts even before the job
+-- has run for the day.
+CREATE OR REPLACE FUNCTION room_is_blacked_out(
+    p_room_id INTEGER,
+    p_on DATE DEFAULT CURRENT_DATE
+)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM room_blackouts
+        WHERE room_id = p_room_id
+          AND status IN ('scheduled', 'active')
+          AND p_on BETWEEN starts_on AND ends_on
+    );
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- JOB 3: EXPECTED-CHECKOUT REMINDERS, OVERSTAYS AND AUTO-CHECKOUT
+-- ============================================================================
+-- Not a trigger: a stored function run on a schedule, either by
+-- scripts/process-expected-checkouts.mjs (cron) or
+-- POST /api/allocations/checkouts. Every action is logged in checkout_events.
+--
+-- How it works:
+-- 1. Active stays whose expected_checkout falls within the next
+--    p_reminder_days days get a 'reminder' event, shown to the student and
+--    to wardens
+-- 2. Active stays past their expected_checkout get an 'overstay' event
+-- 3. With p_auto_checkout, stays more than p_grace_days past it are ended
+--    like DELETE /api/allocations/[id] ends them ('auto_checkout'), except
+--    when the stay has a check-in inspection but no check-out inspection:
+--    those are left active and logged as 'checkout_blocked'
+--
+-- Idempotent: events are unique per stay, type and expected date (ON CONFLICT
+-- DO NOTHING), and only active stays are checked out. Reminders and overstays
+-- count only new events; checkouts_blocked counts every stay still waiting for
+-- its check-out inspection. The rooms that got a bed back are returned so the
+-- caller can offer them to the waitlist (offer_room_beds).
+
+CREATE OR REPLACE FUNCTION process_expected_checkouts(
+    p_as_of DATE DEFAULT CURRENT_DATE,
+    p_reminder_days INTEGER DEFAULT 7,
+    p_grace_days INTEGER DEFAULT 3,
+    p_auto_checkout BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+    reminders_logged INTEGER,
+    overstays_logged INTEGER,
+    checkouts_done INTEGER,
+    checkouts_blocked INTEGER,
+    freed_room_ids INTEGER[]
+) AS $$
+DECLARE
+    v_reminders INTEGER;
+    v_overstays INTEGER;
+    v_done INTEGER := 0;
+    v_blocked INTEGER := 0;
+    v_rooms INTEGER[] := '{}';
+BEGIN
+    INSERT INTO checkout_events (allocation_id, event_type, expected_checkout, event_date, details)
+    SELECT
+        a.id,
+        'reminder',
+        a.expected_checkout,
+        p_as_of,
+        'Checkout due on ' || a.expected_checkout
+    FROM allocations a
+    WHERE a.is_active = TRUE
+      AND a.expected_checkout BETWEEN p_as_of AND p_as_of + p_reminder_days
+    ON CONFLICT ON CONSTRAINT uq_checkout_event DO NOTHING;
+
+    GET DIAGNOSTICS v_reminders = ROW_COUNT;
+
+    INSERT INTO checkout_events (allocation_id, event_type, expected_checkout, event_date, details)
+    SELECT
+        a.id,
+        'overstay',
+        a.expected_checkout,
+        p_as_of,
+        'Still in the room after the expected checkout on ' || a.expected_checkout
+    FROM allocations a
+    WHERE a.is_active = TRUE
+      AND a.expected_checkout < p_as_of
+    ON CONFLICT ON CONSTRAINT uq_checkout_event DO NOTHING;
+
+    GET DIAGNOSTICS v_overstays = ROW_COUNT;
+
+    IF p_auto_checkout THEN
+        -- Same guard as the checkout endpoint: a stay that was inspected on
+        -- the way in needs its check-out inspection first. Every such stay is
+        -- counted, even when an earlier run already logged it.
+        WITH blocked AS (
+            SELECT a.id, a.expected_checkout
+            FROM allocations a
+            WHERE a.is_active = TRUE
+              AND a.expected_checkout + p_grace_days < p_as_of
+              AND EXISTS (
+                  SELECT 1 FROM room_inspections i
+                  WHERE i.allocation_id = a.id AND i.inspection_type = 'check_in'
+              )
+              AND NOT EXISTS (
+                  SELECT 1 FROM room_inspections i
+                  WHERE i.allocation_id = a.id AND i.inspection_type = 'check_out'
+              )
+        ),
+        logged AS (
+            INSERT INTO checkout_events (allocation_id, event_type, expected_checkout, event_date, details)
+            SELECT
+                id,
+                'checkout_blocked',
+                expected_checkout,
+                p_as_of,
+                'Not checked out automatically: the check-out inspection has not been recorded'
+            FROM blocked
+            ON CONFLICT ON CONSTRAINT uq_checkout_event DO NOTHING
+        )
+        SELECT COUNT(*)::INTEGER INTO v_blocked FROM blocked;
+
+        -- Room occupancy follows through trg_check_room_capacity
+        WITH ended AS (
+            UPDATE allocations a
+            SET is_active = FALSE, actual_checkout = p_as_of
+            WHERE a.is_active = TRUE
+              AND a.expected_checkout + p_grace_days < p_as_of
+              AND NOT (
+                  EXISTS (
+                      SELECT 1 FROM room_inspections i
+                      WHERE i.allocation_id = a.id AND i.inspection_type = 'check_in'
+                  )
+                  AND NOT EXISTS (
+                      SELECT 1 FROM room_inspections i
+                      WHERE i.allocation_id = a.id AND i.inspection_type = 'check_out'
+                  )
+              )
+            RETURNING a.id, a.room_id, a.expected_checkout
+        ),
+        logged AS (
+            INSERT INTO checkout_events (allocation_id, event_type, expected_checkout, event_date, details)
+            SELECT
+                id,
+                'auto_checkout',
+                expected_checkout,
+                p_as_of,
+                'Checked out automatically ' || p_grace_days || ' day(s) after the expected checkout'
+            FROM ended
+            ON CONFLICT ON CONSTRAINT uq_checkout_event DO NOTHING
+        )
+        SELECT COUNT(*)::INTEGER, COALESCE(ARRAY_AGG(DISTINCT room_id), '{}')
+        INTO v_done, v_rooms
+        FROM ended;
+    END IF;
+
+    RETURN QUERY SELECT v_reminders, v_overstays, v_done, v_blocked, v_rooms;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- JOB 4: CHECK IN BED BOOKINGS
+-- ============================================================================
+-- Not a trigger: a stored function run on a schedule, either by
+-- scripts/start-bed-bookings.mjs (cron) or POST /api/bookings/check-in.
+--
+-- How it works:
+-- 1. Bookings whose whole stay has passed without a check-in become 'expired'
+-- 2. Bookings whose first day has come are turned into allocations on the
+--    booked bed, expected to check out on the booking's departure day, and
+--    become 'checked_in'
+-- 3. A booking that cannot start yet (the bed's resident has not left, the
+--    student still has another active allocation, or the room is closed,
+--    inside a maintenance window or in a decommissioned hostel) stays
+--    'booked' and is counted as blocked; the next run tries again
+--
+-- Each booking is checked in inside its own sub-transaction (BEGIN ...
+-- EXCEPTION), so one blocked booking does not undo the others.
+
+CREATE OR REPLACE FUNCTION start_bed_bookings(
+    p_as_of DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (bookings_started INTEGER, bookings_blocked INTEGER, bookings_expired INTEGER) AS $$
+DECLARE
+    v_booking RECORD;
+    v_allocation_id INTEGER;
+    v_started INTEGER := 0;
+    v_blocked INTEGER := 0;
+    v_expired INTEGER;
+BEGIN
+    UPDATE bed_bookings
+    SET status = 'expired'
+    WHERE status = 'booked'
+      AND upper(stay) <= p_as_of;
+
+    GET DIAGNOSTICS v_expired = ROW_COUNT;
+
+    FOR v_booking IN
+        SELECT * FROM bed_bookings
+        WHERE status = 'booked'
+          AND lower(stay) <= p_as_of
+        ORDER BY lower(stay), id
+        FOR UPDATE
+    LOOP
+        -- The allocation trigger only checks the bed, not the room
+        IF NOT EXISTS (
+            SELECT 1 FROM rooms r
+            JOIN hostels h ON r.hostel_id = h.id
+            WHERE r.id = v_booking.room_id
+              AND r.is_available = TRUE
+              AND h.is_active = TRUE
+              AND NOT room_is_blacked_out(r.id, p_as_of)
+        ) THEN
+            v_blocked := v_blocked + 1;
+            CONTINUE;
+        END IF;
+        
+        BEGIN
+            INSERT INTO allocations (
+                student_id, room_id, bed_id, allocation_date, expected_checkout, notes, is_active
+            ) VALUES (
+                v_booking.student_id,
+                v_booking.room_id,
+                v_booking.bed_id,
+                lower(v_booking.stay),
+                upper(v_booking.stay),
+                COALESCE(v_booking.notes, 'Booking #' || v_booking.id),
+                TRUE
+            )
+            RETURNING id INTO v_allocation_id;
+
+            UPDATE bed_bookings
+            SET status = 'checked_in', allocation_id = v_allocation_id
+            WHERE id = v_booking.id;
+
+            v_started := v_started + 1;
+        EXCEPTION WHEN OTHERS THEN
+            v_blocked := v_blocked + 1;
+        END;
+    END LOOP;
+
+    RETURN QUERY SELECT v_started, v_blocked, v_expired;
+END;
+$$ LANGUAGE plpgsql;
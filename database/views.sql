@@ -232,20 +232,21 @@ SELECT
     s.email,
     -- Current room information (from active allocation)
     r.room_number,
+    b.bed_label,
     h.name as hostel_name,
     r.floor,
     r.room_type,
     a.allocation_date,
     -- Payment summary
     (
-        SELECT COALESCE(SUM(amount), 0)
+        SELECT COALESCE(SUM(amount_paid), 0)
         FROM payments p 
-        WHERE p.student_id = s.id AND p.payment_status = 'paid'
+        WHERE p.student_id = s.id
     ) as total_paid,
     (
-        SELECT COALESCE(SUM(amount), 0)
+        SELECT COALESCE(SUM(amount - amount_paid), 0)
         FROM payments p 
-        WHERE p.student_id = s.id AND p.payment_status IN ('pending', 'overdue')
+        WHERE p.student_id = s.id AND p.payment_status IN ('pending', 'overdue', 'partial')
     ) as total_pending,
     -- Complaint summary
     (
@@ -261,6 +262,7 @@ SELECT
 FROM students s
 LEFT JOIN allocations a ON a.student_id = s.id AND a.is_active = TRUE
 LEFT JOIN rooms r ON a.room_id = r.id
+LEFT JOIN beds b ON a.bed_id = b.id
 LEFT JOIN hostels h ON r.hostel_id = h.id
 WHERE s.is_active = TRUE
 ORDER BY s.last_name, s.first_name;
@@ -271,9 +273,12 @@ COMMENT ON VIEW student_dashboard IS
 -- ============================================================================
 -- VIEW 7: ROOM AVAILABILITY VIEW
 -- ============================================================================
--- Shows rooms with available capacity for new allocations.
+-- Shows rooms with free beds for new allocations. A bed is free when it is
+-- in service, no active allocation holds it and no booking covers today.
+-- Rooms inside a maintenance window are left out even if the blackouts job
+-- has not closed them yet.
 --
--- DBMS Concepts: Calculated columns, filtering with WHERE
+-- DBMS Concepts: Calculated columns, GROUP BY with HAVING, STRING_AGG
 
 DROP VIEW IF EXISTS available_rooms;
 CREATE VIEW available_rooms AS
@@ -286,23 +291,36 @@ SELECT
     r.room_type,
     r.capacity,
     r.current_occupancy,
-    r.capacity - r.current_occupancy as available_beds,
+    COUNT(b.id)::INTEGER as available_beds,
+    STRING_AGG(b.bed_label, ', ' ORDER BY b.bed_label) as free_bed_labels,
     r.rent_amount,
     r.has_ac,
     r.has_attached_bathroom
 FROM rooms r
 INNER JOIN hostels h ON r.hostel_id = h.id
+INNER JOIN beds b ON b.room_id = r.id
+    AND b.is_available = TRUE
+    AND NOT EXISTS (
+        SELECT 1 FROM allocations a
+        WHERE a.bed_id = b.id AND a.is_active = TRUE
+    )
+    AND NOT EXISTS (
+        SELECT 1 FROM bed_bookings bb
+        WHERE bb.bed_id = b.id AND bb.status = 'booked' AND bb.stay @> CURRENT_DATE
+    )
 WHERE r.is_available = TRUE
-  AND r.current_occupancy < r.capacity
+  AND NOT room_is_blacked_out(r.id)
+GROUP BY r.id, h.id
+HAVING COUNT(b.id) > 0
 ORDER BY h.name, r.room_number;
 
 COMMENT ON VIEW available_rooms IS 
-    'Rooms with available capacity for new allocations';
+    'Rooms with free beds for new allocations';
 
 -- ============================================================================
 -- VIEW 8: PAYMENT DUES REPORT
 -- ============================================================================
--- Shows students with pending/overdue payments.
+-- Shows students with pending/overdue/partly paid payments and the balance left.
 --
 -- DBMS Concepts: Date comparisons, conditional aggregation
 
@@ -316,6 +334,7 @@ SELECT
     s.phone,
     p.id as payment_id,
     p.amount,
+    p.amount - p.amount_paid as balance,
     p.due_date,
     p.payment_status,
     p.semester,
@@ -328,12 +347,12 @@ INNER JOIN students s ON p.student_id = s.id
 LEFT JOIN allocations a ON a.student_id = s.id AND a.is_active = TRUE
 LEFT JOIN rooms r ON a.room_id = r.id
 LEFT JOIN hostels h ON r.hostel_id = h.id
-WHERE p.payment_status IN ('pending', 'overdue')
+WHERE p.payment_status IN ('pending', 'overdue', 'partial')
   AND s.is_active = TRUE
 ORDER BY p.due_date ASC, s.last_name;
 
 COMMENT ON VIEW payment_dues_report IS 
-    'Students with pending or overdue payments';
+    'Students with pending, overdue or partly paid payments';
 
 -- ============================================================================
 -- VIEW 9: MAINTENANCE STAFF WORKLOAD
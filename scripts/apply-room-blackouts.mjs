@@ -0,0 +1,59 @@
+/**
+ * Room Blackouts Job (CLI)
+ * =========================
+ * Closes rooms whose maintenance window has started and re-opens rooms whose
+ * window has ended by calling the apply_room_blackouts() database function.
+ * Safe to run repeatedly, e.g. nightly from cron:
+ *
+ *   npm run job:room-blackouts
+ *   npm run job:room-blackouts -- --as-of=2025-02-01
+ *
+ * Uses the same DATABASE_URL / DB_* settings as the app (.env.local).
+ */
+
+import pg from 'pg';
+
+const args = process.argv.slice(2);
+const asOfArg = args.find(arg => arg.startsWith('--as-of='));
+const asOf = asOfArg ? asOfArg.split('=')[1] : null;
+
+if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+    console.error('--as-of must be a date in YYYY-MM-DD format');
+    process.exit(1);
+}
+
+const client = new pg.Client(
+    process.env.DATABASE_URL
+        ? {
+            connectionString: process.env.DATABASE_URL,
+            ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+        }
+        : {
+            host: process.env.DB_HOST || 'localhost',
+            port: parseInt(process.env.DB_PORT || '5432'),
+            database: process.env.DB_NAME || 'hostel_management',
+            user: process.env.DB_USER || 'postgres',
+            password: process.env.DB_PASSWORD || 'password',
+        }
+);
+
+try {
+    await client.connect();
+
+    const result = await client.query(
+        `SELECT rooms_closed, rooms_reopened
+         FROM apply_room_blackouts(COALESCE($1::DATE, CURRENT_DATE))`,
+        [asOf]
+    );
+
+    const { rooms_closed, rooms_reopened } = result.rows[0];
+    console.log(
+        `[room-blackouts] as of ${asOf || 'today'}: ` +
+        `${rooms_closed} room(s) closed, ${rooms_reopened} room(s) re-opened`
+    );
+} catch (error) {
+    console.error('[room-blackouts] failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+} finally {
+    await client.end();
+}
@@ -0,0 +1,94 @@
+/**
+ * Expected Checkouts Job (CLI)
+ * =============================
+ * Logs reminders for stays ending soon and overstays for stays past their
+ * expected checkout, and optionally checks out stays past the grace period,
+ * by calling the process_expected_checkouts() database function. Safe to run
+ * repeatedly, e.g. nightly from cron:
+ *
+ *   npm run job:expected-checkouts
+ *   npm run job:expected-checkouts -- --reminder-days=7 --grace-days=3 --auto-checkout
+ *   npm run job:expected-checkouts -- --as-of=2025-02-01
+ *
+ * Beds freed by --auto-checkout are offered to the waitlist through the
+ * offer_room_beds() database function, as the app does after a checkout.
+ *
+ * Uses the same DATABASE_URL / DB_* settings as the app (.env.local).
+ */
+
+import pg from 'pg';
+
+const args = process.argv.slice(2);
+const argValue = (name) => {
+    const arg = args.find(a => a.startsWith(`--${name}=`));
+    return arg ? arg.split('=')[1] : null;
+};
+const asOf = argValue('as-of');
+const reminderDays = parseInt(argValue('reminder-days') ?? '7');
+const graceDays = parseInt(argValue('grace-days') ?? '3');
+const autoCheckout = args.includes('--auto-checkout');
+
+if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+    console.error('--as-of must be a date in YYYY-MM-DD format');
+    process.exit(1);
+}
+
+if (isNaN(reminderDays) || reminderDays < 0 || isNaN(graceDays) || graceDays < 0) {
+    console.error('--reminder-days and --grace-days must be whole numbers of days');
+    process.exit(1);
+}
+
+const client = new pg.Client(
+    process.env.DATABASE_URL
+        ? {
+            connectionString: process.env.DATABASE_URL,
+            ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+        }
+        : {
+            host: process.env.DB_HOST || 'localhost',
+            port: parseInt(process.env.DB_PORT || '5432'),
+            database: process.env.DB_NAME || 'hostel_management',
+            user: process.env.DB_USER || 'postgres',
+            password: process.env.DB_PASSWORD || 'password',
+        }
+);
+
+try {
+    await client.connect();
+
+    const result = await client.query(
+        `SELECT reminders_logged, overstays_logged, checkouts_done, checkouts_blocked, freed_room_ids
+         FROM process_expected_checkouts(COALESCE($1::DATE, CURRENT_DATE), $2, $3, $4)`,
+        [asOf, reminderDays, graceDays, autoCheckout]
+    );
+
+    const { reminders_logged, overstays_logged, checkouts_done, checkouts_blocked, freed_room_ids } = result.rows[0];
+    let waitlistOffers = 0;
+
+    // Best-effort, as in the app: the checkouts stand either way
+    for (const roomId of freed_room_ids) {
+        try {
+            const offers = await client.query('SELECT entry_id FROM offer_room_beds($1)', [roomId]);
+            waitlistOffers += offers.rowCount ?? 0;
+        } catch (offerError) {
+            console.error(
+                `[expected-checkouts] waitlist offer for room ${roomId} failed:`,
+                offerError instanceof Error ? offerError.message : offerError
+            );
+        }
+    }
+
+    console.log(
+        `[expected-checkouts] as of ${asOf || 'today'}: ` +
+        `${reminders_logged} reminder(s), ${overstays_logged} new overstay(s)` +
+        (autoCheckout
+            ? `, ${checkouts_done} checked out, ${checkouts_blocked} blocked by a missing inspection, ` +
+              `${waitlistOffers} waitlist offer(s)`
+            : '')
+    );
+} catch (error) {
+    console.error('[expected-checkouts] failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+} finally {
+    await client.end();
+}
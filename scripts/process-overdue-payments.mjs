@@ -0,0 +1,63 @@
+/**
+ * Overdue Payments Job (CLI)
+ * ===========================
+ * Marks past-due unpaid payments as overdue and applies late fees by calling
+ * the process_overdue_payments() database function. Safe to run repeatedly,
+ * e.g. nightly from cron:
+ *
+ *   npm run job:overdue-payments
+ *   npm run job:overdue-payments -- --as-of=2025-02-01 --no-late-fees
+ *
+ * --as-of cannot be later than today (the database function refuses it).
+ * Uses the same DATABASE_URL / DB_* settings as the app (.env.local).
+ */
+
+import pg from 'pg';
+
+const args = process.argv.slice(2);
+const asOfArg = args.find(arg => arg.startsWith('--as-of='));
+const asOf = asOfArg ? asOfArg.split('=')[1] : null;
+const applyLateFees = !args.includes('--no-late-fees');
+
+// The regex alone lets through days such as 2025-02-30
+if (asOf && (!/^\d{4}-\d{2}-\d{2}$/.test(asOf) || isNaN(Date.parse(asOf))
+    || new Date(`${asOf}T00:00:00Z`).toISOString().slice(0, 10) !== asOf)) {
+    console.error('--as-of must be a date in YYYY-MM-DD format');
+    process.exit(1);
+}
+
+const client = new pg.Client(
+    process.env.DATABASE_URL
+        ? {
+            connectionString: process.env.DATABASE_URL,
+            ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+        }
+        : {
+            host: process.env.DB_HOST || 'localhost',
+            port: parseInt(process.env.DB_PORT || '5432'),
+            database: process.env.DB_NAME || 'hostel_management',
+            user: process.env.DB_USER || 'postgres',
+            password: process.env.DB_PASSWORD || 'password',
+        }
+);
+
+try {
+    await client.connect();
+
+    const result = await client.query(
+        `SELECT payments_marked, late_fees_created
+         FROM process_overdue_payments(COALESCE($1::DATE, CURRENT_DATE), $2)`,
+        [asOf, applyLateFees]
+    );
+
+    const { payments_marked, late_fees_created } = result.rows[0];
+    console.log(
+        `[overdue-payments] as of ${asOf || 'today'}: ` +
+        `${payments_marked} payment(s) marked overdue, ${late_fees_created} late fee(s) created`
+    );
+} catch (error) {
+    console.error('[overdue-payments] failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+} finally {
+    await client.end();
+}
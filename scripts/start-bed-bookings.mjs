@@ -0,0 +1,60 @@
+/**
+ * Bed Bookings Check-In Job (CLI)
+ * ================================
+ * Turns bed bookings whose arrival day has come into allocations and expires
+ * bookings whose stay passed without a check-in, by calling the
+ * start_bed_bookings() database function. Safe to run repeatedly, e.g.
+ * nightly from cron:
+ *
+ *   npm run job:bed-bookings
+ *   npm run job:bed-bookings -- --as-of=2025-08-01
+ *
+ * Uses the same DATABASE_URL / DB_* settings as the app (.env.local).
+ */
+
+import pg from 'pg';
+
+const args = process.argv.slice(2);
+const asOfArg = args.find(arg => arg.startsWith('--as-of='));
+const asOf = asOfArg ? asOfArg.split('=')[1] : null;
+
+if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+    console.error('--as-of must be a date in YYYY-MM-DD format');
+    process.exit(1);
+}
+
+const client = new pg.Client(
+    process.env.DATABASE_URL
+        ? {
+            connectionString: process.env.DATABASE_URL,
+            ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+        }
+        : {
+            host: process.env.DB_HOST || 'localhost',
+            port: parseInt(process.env.DB_PORT || '5432'),
+            database: process.env.DB_NAME || 'hostel_management',
+            user: process.env.DB_USER || 'postgres',
+            password: process.env.DB_PASSWORD || 'password',
+        }
+);
+
+try {
+    await client.connect();
+
+    const result = await client.query(
+        `SELECT bookings_started, bookings_blocked, bookings_expired
+         FROM start_bed_bookings(COALESCE($1::DATE, CURRENT_DATE))`,
+        [asOf]
+    );
+
+    const { bookings_started, bookings_blocked, bookings_expired } = result.rows[0];
+    console.log(
+        `[bed-bookings] as of ${asOf || 'today'}: ` +
+        `${bookings_started} checked in, ${bookings_blocked} blocked, ${bookings_expired} expired`
+    );
+} catch (error) {
+    console.error('[bed-bookings] failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+} finally {
+    await client.end();
+}
@@ -2,6 +2,10 @@
 
 import { useState, useEffect } from 'react';
 import { DataTable } from '@/components/ui/DataTable';
+import { ExportButtons } from '@/components/ui/ExportButtons';
+import { InspectionItem, RoomInspection } from '@/lib/types';
+
+const ITEM_CONDITIONS = ['good', 'fair', 'damaged', 'missing'];
 
 interface Allocation {
     id: number;
@@ -44,6 +48,16 @@ export default function AllocationsPage() {
     const [submitting, setSubmitting] = useState(false);
     const [error, setError] = useState('');
 
+    // Inspection state
+    const [inspecting, setInspecting] = useState<Allocation | null>(null);
+    const [inspections, setInspections] = useState<RoomInspection[]>([]);
+    const [checklist, setChecklist] = useState<InspectionItem[]>([]);
+    const [conditionNotes, setConditionNotes] = useState('');
+    const [chargeAmounts, setChargeAmounts] = useState<Record<number, string>>({});
+    const [inspectionError, setInspectionError] = useState('');
+    const [inspectionMessage, setInspectionMessage] = useState('');
+    const [savingInspection, setSavingInspection] = useState(false);
+
     const fetchAllocations = async () => {
         try {
             const res = await fetch('/api/allocations?limit=50&is_active=true');
@@ -114,6 +128,125 @@ export default function AllocationsPage() {
         }
     };
 
+    const loadInspections = async (allocation: Allocation) => {
+        try {
+            const res = await fetch(`/api/allocations/${allocation.id}/inspections`);
+            const data = await res.json();
+            if (data.success) {
+                setInspections(data.data.inspections);
+                setChecklist(data.data.checklist);
+            } else {
+                setInspectionError(data.error || 'Failed to load inspections');
+            }
+        } catch {
+            setInspectionError('Failed to load inspections');
+        }
+    };
+
+    const openInspection = (allocation: Allocation) => {
+        setInspecting(allocation);
+        setInspections([]);
+        setChecklist([]);
+        setConditionNotes('');
+        setChargeAmounts({});
+        setInspectionError('');
+        setInspectionMessage('');
+        loadInspections(allocation);
+    };
+
+    const updateItem = (index: number, changes: Partial<InspectionItem>) => {
+        setChecklist(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+    };
+
+    const handleRecordInspection = async (inspectionType: 'check_in' | 'check_out') => {
+        if (!inspecting) return;
+        setSavingInspection(true);
+        setInspectionError('');
+        setInspectionMessage('');
+
+        try {
+            const res = await fetch(`/api/allocations/${inspecting.id}/inspections`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    inspection_type: inspectionType,
+                    condition_notes: conditionNotes || null,
+                    items: checklist
+                })
+            });
+            const data = await res.json();
+            if (data.success) {
+                setInspectionMessage(data.message);
+                setConditionNotes('');
+                await loadInspections(inspecting);
+            } else {
+                setInspectionError(data.error || 'Failed to record inspection');
+            }
+        } catch {
+            setInspectionError('An error occurred. Please try again.');
+        } finally {
+            setSavingInspection(false);
+        }
+    };
+
+    const handleCharge = async (checkOut: RoomInspection) => {
+        if (!inspecting) return;
+        const charges = (checkOut.damages || [])
+            .filter(damage => damage.payment_id === null && !damage.waived && chargeAmounts[damage.id] !== undefined && chargeAmounts[damage.id] !== '')
+            .map(damage => ({ damage_id: damage.id, amount: parseFloat(chargeAmounts[damage.id]) }));
+
+        if (charges.length === 0) {
+            setInspectionError('Enter an amount (0 to waive) for at least one damage');
+            return;
+        }
+
+        setSavingInspection(true);
+        setInspectionError('');
+        try {
+            const res = await fetch(`/api/allocations/${inspecting.id}/inspections/${checkOut.id}/charges`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ charges })
+            });
+            const data = await res.json();
+            if (data.success) {
+                setInspectionMessage(data.message);
+                setChargeAmounts({});
+                await loadInspections(inspecting);
+            } else {
+                setInspectionError(data.error || 'Failed to issue charge');
+            }
+        } catch {
+            setInspectionError('An error occurred. Please try again.');
+        } finally {
+            setSavingInspection(false);
+        }
+    };
+
+    const handleCheckout = async () => {
+        if (!inspecting) return;
+        setSavingInspection(true);
+        setInspectionError('');
+        try {
+            const res = await fetch(`/api/allocations/${inspecting.id}`, { method: 'DELETE' });
+            const data = await res.json();
+            if (data.success) {
+                setInspecting(null);
+                fetchAllocations();
+            } else {
+                setInspectionError(data.error || 'Failed to check out');
+            }
+        } catch {
+            setInspectionError('An error occurred. Please try again.');
+        } finally {
+            setSavingInspection(false);
+        }
+    };
+
+    const checkIn = inspections.find(inspection => inspection.inspection_type === 'check_in');
+    const checkOut = inspections.find(inspection => inspection.inspection_type === 'check_out');
+    const nextInspection: 'check_in' | 'check_out' | null = !checkIn && !checkOut ? 'check_in' : !checkOut ? 'check_out' : null;
+
     return (
         <div className="page-wrapper">
             <div className="container main-content">
@@ -122,12 +255,15 @@ export default function AllocationsPage() {
                         <h1>Room Allocations</h1>
                         <p className="card-subtitle">Manage student room assignments</p>
                     </div>
-                    <button
-                        onClick={openModal}
-                        className="btn btn-primary"
-                    >
-                        + New Allocation
-                    </button>
+                    <div className="flex gap-2">
+                        <ExportButtons endpoint="/api/allocations" filters={{ is_active: 'true' }} />
+                        <button
+                            onClick={openModal}
+                            className="btn btn-primary"
+                        >
+                            + New Allocation
+                        </button>
+                    </div>
                 </div>
 
                 {loading ? (
@@ -180,6 +316,14 @@ export default function AllocationsPage() {
                                         {row.is_active ? 'Active' : 'Inactive'}
                                     </span>
                                 )
+                            },
+                            {
+                                header: 'Actions',
+                                accessor: (row) => (
+                                    <button className="btn btn-secondary btn-sm" onClick={() => openInspection(row)}>
+                                        Inspection / Checkout
+                                    </button>
+                                )
                             }
                         ]}
                         data={allocations}
@@ -268,6 +412,192 @@ export default function AllocationsPage() {
                         </div>
                     </div>
                 )}
+
+                {inspecting && (
+                    <div className="modal-overlay">
+                        <div className="modal" style={{ maxWidth: '760px' }}>
+                            <div className="modal-header">
+                                <h2 className="card-title">Room Inspection</h2>
+                                <p className="card-subtitle">
+                                    {inspecting.student_name} · {inspecting.hostel_name} Room {inspecting.room_number}
+                                </p>
+                            </div>
+
+                            <div className="modal-body">
+                                {inspectionError && <div className="alert alert-error">{inspectionError}</div>}
+                                {inspectionMessage && <div className="alert alert-success">{inspectionMessage}</div>}
+
+                                {inspections.map(inspection => (
+                                    <div key={inspection.id} style={{ marginBottom: 'var(--space-6)' }}>
+                                        <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-2)' }}>
+                                            <strong>{inspection.inspection_type === 'check_in' ? 'Check-in' : 'Check-out'} inspection</strong>
+                                            <span style={{ fontSize: '0.75rem', color: 'var(--gray-500)' }}>
+                                                Signed off by {inspection.inspected_by} on {new Date(inspection.inspected_at).toLocaleDateString()} ·{' '}
+                                                {inspection.student_signed_at
+                                                    ? `student signed ${new Date(inspection.student_signed_at).toLocaleDateString()}`
+                                                    : 'awaiting student signature'}
+                                            </span>
+                                        </div>
+                                        <div style={{ fontSize: '0.875rem', color: 'var(--gray-600)' }}>
+                                            {inspection.items
+                                                .filter(item => item.item_condition !== 'good')
+                                                .map(item => `${item.item_name}: ${item.item_condition}${item.notes ? ` (${item.notes})` : ''}`)
+                                                .join(' · ') || 'All items in good condition'}
+                                        </div>
+                                        {inspection.condition_notes && (
+                                            <div style={{ fontSize: '0.875rem', color: 'var(--gray-500)' }}>Notes: {inspection.condition_notes}</div>
+                                        )}
+                                        {inspection.student_comments && (
+                                            <div style={{ fontSize: '0.875rem', color: 'var(--gray-500)' }}>Student: {inspection.student_comments}</div>
+                                        )}
+
+                                        {inspection.damages && inspection.damages.length > 0 && (
+                                            <div className="table-container" style={{ marginTop: 'var(--space-3)' }}>
+                                                <table className="table">
+                                                    <thead>
+                                                        <tr>
+                                                            <th>Damaged / Missing</th>
+                                                            <th>Check-in → Check-out</th>
+                                                            <th>Charge (₹)</th>
+                                                        </tr>
+                                                    </thead>
+                                                    <tbody>
+                                                        {inspection.damages.map(damage => (
+                                                            <tr key={damage.id}>
+                                                                <td>
+                                                                    {damage.item_name}
+                                                                    {damage.missing_quantity > 0 && ` (${damage.missing_quantity} missing)`}
+                                                                </td>
+                                                                <td>{damage.check_in_condition || 'not recorded'} → {damage.check_out_condition}</td>
+                                                                <td>
+                                                                    {damage.waived ? (
+                                                                        <span className="badge badge-closed">Waived</span>
+                                                                    ) : damage.payment_id ? (
+                                                                        <span className="badge badge-pending">₹{damage.charge_amount} billed</span>
+                                                                    ) : (
+                                                                        <input
+                                                                            type="number"
+                                                                            min="0"
+                                                                            step="0.01"
+                                                                            className="form-input"
+                                                                            style={{ width: '120px' }}
+                                                                            placeholder="0 = waive"
+                                                                            value={chargeAmounts[damage.id] ?? ''}
+                                                                            onChange={(e) => setChargeAmounts({ ...chargeAmounts, [damage.id]: e.target.value })}
+                                                                        />
+                                                                    )}
+                                                                </td>
+                                                            </tr>
+                                                        ))}
+                                                    </tbody>
+                                                </table>
+                                            </div>
+                                        )}
+                                        {inspection.damages?.some(damage => damage.payment_id === null && !damage.waived) && (
+                                            <button
+                                                className="btn btn-primary btn-sm"
+                                                style={{ marginTop: 'var(--space-2)' }}
+                                                disabled={savingInspection}
+                                                onClick={() => handleCharge(inspection)}
+                                            >
+                                                Issue Damage Charge
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+
+                                {nextInspection && checklist.length > 0 && (
+                                    <>
+                                        <h3 className="card-title" style={{ fontSize: '1rem', marginBottom: 'var(--space-2)' }}>
+                                            {nextInspection === 'check_in' ? 'Check-in checklist' : 'Check-out checklist'}
+                                        </h3>
+                                        <div className="table-container">
+                                            <table className="table">
+                                                <thead>
+                                                    <tr>
+                                                        <th>Item</th>
+                                                        <th>Qty</th>
+                                                        <th>Condition</th>
+                                                        <th>Notes</th>
+                                                    </tr>
+                                                </thead>
+                                                <tbody>
+                                                    {checklist.map((item, index) => (
+                                                        <tr key={item.item_name}>
+                                                            <td>
+                                                                <div>{item.item_name}</div>
+                                                                <div style={{ fontSize: '0.75rem', color: 'var(--gray-500)', textTransform: 'capitalize' }}>{item.category}</div>
+                                                            </td>
+                                                            <td>
+                                                                <input
+                                                                    type="number"
+                                                                    min="0"
+                                                                    className="form-input"
+                                                                    style={{ width: '70px' }}
+                                                                    value={item.quantity}
+                                                                    onChange={(e) => updateItem(index, { quantity: parseInt(e.target.value) || 0 })}
+                                                                />
+                                                            </td>
+                                                            <td>
+                                                                <select
+                                                                    className="form-select"
+                                                                    value={item.item_condition}
+                                                                    onChange={(e) => updateItem(index, { item_condition: e.target.value as InspectionItem['item_condition'] })}
+                                                                >
+                                                                    {ITEM_CONDITIONS.map(condition => (
+                                                                        <option key={condition} value={condition}>{condition}</option>
+                                                                    ))}
+                                                                </select>
+                                                            </td>
+                                                            <td>
+                                                                <input
+                                                                    type="text"
+                                                                    className="form-input"
+                                                                    value={item.notes || ''}
+                                                                    onChange={(e) => updateItem(index, { notes: e.target.value })}
+                                                                />
+                                                            </td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                        </div>
+                                        <div className="form-group" style={{ marginTop: 'var(--space-4)' }}>
+                                            <label className="form-label">Condition Notes</label>
+                                            <textarea
+                                                className="form-input"
+                                                rows={2}
+                                                value={conditionNotes}
+                                                onChange={(e) => setConditionNotes(e.target.value)}
+                                            />
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+
+                            <div className="modal-footer">
+                                <button type="button" onClick={() => setInspecting(null)} className="btn btn-secondary">
+                                    Close
+                                </button>
+                                {nextInspection && (
+                                    <button
+                                        type="button"
+                                        disabled={savingInspection || checklist.length === 0}
+                                        onClick={() => handleRecordInspection(nextInspection)}
+                                        className="btn btn-primary"
+                                    >
+                                        {nextInspection === 'check_in' ? 'Sign Off Check-in' : 'Sign Off Check-out'}
+                                    </button>
+                                )}
+                                {checkOut && inspecting.is_active && (
+                                    <button type="button" disabled={savingInspection} onClick={handleCheckout} className="btn btn-primary">
+                                        Check Out Student
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                )}
             </div>
         </div>
     );
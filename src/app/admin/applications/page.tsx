@@ -0,0 +1,383 @@
+'use client';
+
+/**
+ * Room Applications & Batch Allocation
+ * =====================================
+ * Open an allocation round, review students' ranked preferences, dry-run the
+ * batch allocator and publish the result.
+ */
+
+import { useState, useEffect } from 'react';
+import { DataTable } from '@/components/ui/DataTable';
+import { useCurrentUser } from '@/lib/useCurrentUser';
+import { AllocationPlanEntry, AllocationRound, RoomApplication, RoomApplicationChoice } from '@/lib/types';
+
+interface AllocationPlan {
+    round: AllocationRound;
+    entries: AllocationPlanEntry[];
+    allocated: number;
+    unallocated: number;
+}
+
+const statusBadge: Record<string, string> = {
+    open: 'badge-open',
+    closed: 'badge-closed',
+    published: 'badge-paid',
+    submitted: 'badge-pending',
+    allocated: 'badge-paid',
+    unallocated: 'badge-overdue'
+};
+
+const describeChoice = (choice: RoomApplicationChoice) => {
+    const parts = [
+        choice.hostel_name || 'Any hostel',
+        choice.room_type || 'any type',
+        choice.wants_ac === null ? null : choice.wants_ac ? 'AC' : 'non-AC',
+        choice.wants_attached_bathroom === null ? null : choice.wants_attached_bathroom ? 'attached bath' : 'shared bath'
+    ];
+    return parts.filter(Boolean).join(', ');
+};
+
+export default function ApplicationsPage() {
+    const { user } = useCurrentUser();
+    const isAdmin = user?.role === 'admin';
+
+    const [rounds, setRounds] = useState<AllocationRound[]>([]);
+    const [selectedRoundId, setSelectedRoundId] = useState<number | null>(null);
+    const [applications, setApplications] = useState<RoomApplication[]>([]);
+    const [plan, setPlan] = useState<AllocationPlan | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [working, setWorking] = useState(false);
+    const [error, setError] = useState('');
+    const [successMessage, setSuccessMessage] = useState('');
+
+    const [isRoundModalOpen, setIsRoundModalOpen] = useState(false);
+    const [roundName, setRoundName] = useState('');
+
+    const selectedRound = rounds.find(r => r.id === selectedRoundId) || null;
+
+    const fetchRounds = async (selectId?: number) => {
+        try {
+            const res = await fetch('/api/allocation-rounds');
+            const data = await res.json();
+            if (data.success) {
+                setRounds(data.data);
+                if (selectId) {
+                    setSelectedRoundId(selectId);
+                } else if (data.data.length > 0) {
+                    setSelectedRoundId(current => current ?? data.data[0].id);
+                }
+            }
+        } catch (error) {
+            console.error('Failed to fetch allocation rounds:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchApplications = async (roundId: number) => {
+        try {
+            const res = await fetch(`/api/allocation-rounds/${roundId}/applications`);
+            const data = await res.json();
+            if (data.success) {
+                setApplications(data.data);
+            }
+        } catch (error) {
+            console.error('Failed to fetch applications:', error);
+        }
+    };
+
+    useEffect(() => {
+        fetchRounds();
+    }, []);
+
+    useEffect(() => {
+        if (selectedRoundId) {
+            setPlan(null);
+            fetchApplications(selectedRoundId);
+        }
+    }, [selectedRoundId]);
+
+    const handleCreateRound = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setWorking(true);
+        setError('');
+
+        try {
+            const res = await fetch('/api/allocation-rounds', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ name: roundName })
+            });
+            const data = await res.json();
+            if (data.success) {
+                setIsRoundModalOpen(false);
+                setRoundName('');
+                setSuccessMessage(data.message);
+                fetchRounds(data.data.id);
+            } else {
+                setError(data.error || 'Failed to open round');
+            }
+        } catch {
+            setError('An error occurred. Please try again.');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const handleToggleRound = async () => {
+        if (!selectedRound) return;
+        setWorking(true);
+        setError('');
+
+        try {
+            const res = await fetch(`/api/allocation-rounds/${selectedRound.id}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ status: selectedRound.status === 'open' ? 'closed' : 'open' })
+            });
+            const data = await res.json();
+            if (data.success) {
+                setSuccessMessage(data.message);
+                fetchRounds(selectedRound.id);
+            } else {
+                setError(data.error || 'Failed to update round');
+            }
+        } catch {
+            setError('An error occurred. Please try again.');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const runAllocator = async (dryRun: boolean) => {
+        if (!selectedRound) return;
+        if (!dryRun && !confirm(`Publish ${selectedRound.name}? Allocations will be created for every student who gets a room.`)) {
+            return;
+        }
+
+        setWorking(true);
+        setError('');
+
+        try {
+            const res = await fetch(`/api/allocation-rounds/${selectedRound.id}/allocate`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ dry_run: dryRun })
+            });
+            const data = await res.json();
+            if (data.success) {
+                setPlan(data.data);
+                setSuccessMessage(data.message);
+                if (!dryRun) {
+                    fetchRounds(selectedRound.id);
+                    fetchApplications(selectedRound.id);
+                }
+            } else {
+                setError(data.error || 'Allocation run failed');
+            }
+        } catch {
+            setError('An error occurred. Please try again.');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    return (
+        <div className="page-wrapper">
+            <div className="container main-content">
+                <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-8)' }}>
+                    <div>
+                        <h1>Room Applications</h1>
+                        <p className="card-subtitle">Preference-based batch allocation at semester start</p>
+                    </div>
+                    {isAdmin && (
+                        <button onClick={() => setIsRoundModalOpen(true)} className="btn btn-primary">
+                            + New Round
+                        </button>
+                    )}
+                </div>
+
+                {error && <div className="alert alert-error">{error}</div>}
+                {successMessage && <div className="alert alert-success">{successMessage}</div>}
+
+                {loading ? (
+                    <div className="loading-container">
+                        <div className="spinner"></div>
+                    </div>
+                ) : rounds.length === 0 ? (
+                    <div className="card" style={{ textAlign: 'center', padding: 'var(--space-12)' }}>
+                        <p style={{ color: 'var(--gray-500)' }}>No allocation rounds yet. Open one to start taking applications.</p>
+                    </div>
+                ) : (
+                    <>
+                        <div className="card" style={{ marginBottom: 'var(--space-6)' }}>
+                            <div className="flex justify-between items-center" style={{ gap: 'var(--space-4)', flexWrap: 'wrap' }}>
+                                <div className="flex items-center" style={{ gap: 'var(--space-3)' }}>
+                                    <select
+                                        className="form-select"
+                                        value={selectedRoundId ?? ''}
+                                        onChange={(e) => setSelectedRoundId(parseInt(e.target.value))}
+                                    >
+                                        {rounds.map(r => (
+                                            <option key={r.id} value={r.id}>{r.name}</option>
+                                        ))}
+                                    </select>
+                                    {selectedRound && (
+                                        <>
+                                            <span className={`badge ${statusBadge[selectedRound.status]}`}>{selectedRound.status}</span>
+                                            <span style={{ fontSize: '0.875rem', color: 'var(--gray-500)' }}>
+                                                {selectedRound.application_count} applications
+                                                {selectedRound.status === 'published' && `, ${selectedRound.allocated_count} allocated`}
+                                            </span>
+                                        </>
+                                    )}
+                                </div>
+                                {isAdmin && selectedRound && selectedRound.status !== 'published' && (
+                                    <div className="flex" style={{ gap: 'var(--space-2)' }}>
+                                        <button className="btn btn-secondary" disabled={working} onClick={handleToggleRound}>
+                                            {selectedRound.status === 'open' ? 'Close Applications' : 'Reopen Applications'}
+                                        </button>
+                                        <button className="btn btn-secondary" disabled={working} onClick={() => runAllocator(true)}>
+                                            🔍 Dry Run
+                                        </button>
+                                        <button className="btn btn-primary" disabled={working || !plan} onClick={() => runAllocator(false)}
+                                            title={plan ? undefined : 'Review a dry run first'}>
+                                            Publish
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+
+                        {plan && (
+                            <div style={{ marginBottom: 'var(--space-8)' }}>
+                                <h2 style={{ marginBottom: 'var(--space-4)' }}>
+                                    {plan.round.status === 'published' ? 'Published Result' : 'Dry Run Report'}
+                                    <span style={{ fontSize: '0.875rem', fontWeight: 400, color: 'var(--gray-500)', marginLeft: 'var(--space-3)' }}>
+                                        {plan.allocated} allocated · {plan.unallocated} without a room
+                                    </span>
+                                </h2>
+                                <DataTable<AllocationPlanEntry>
+                                    keyField="application_id"
+                                    columns={[
+                                        {
+                                            header: 'Student',
+                                            accessor: (row) => (
+                                                <>
+                                                    <div className="font-medium" style={{ color: 'var(--gray-900)' }}>{row.student_name}</div>
+                                                    <div style={{ fontSize: '0.75rem', color: 'var(--gray-500)' }}>{row.registration_number}</div>
+                                                </>
+                                            )
+                                        },
+                                        { header: 'Year', accessor: (row) => row.year_of_study ?? '-' },
+                                        {
+                                            header: 'Room',
+                                            accessor: (row) => row.room_id ? (
+                                                <>
+                                                    <div>{row.hostel_name}</div>
+                                                    <div style={{ fontSize: '0.75rem', color: 'var(--gray-500)' }}>Room {row.room_number}</div>
+                                                </>
+                                            ) : <span className="badge badge-overdue">No room</span>
+                                        },
+                                        { header: 'Why', accessor: 'reason' }
+                                    ]}
+                                    data={plan.entries}
+                                    emptyMessage="No applications in this round"
+                                />
+                            </div>
+                        )}
+
+                        <h2 style={{ marginBottom: 'var(--space-4)' }}>Applications</h2>
+                        <DataTable<RoomApplication>
+                            columns={[
+                                {
+                                    header: 'Student',
+                                    accessor: (row) => (
+                                        <>
+                                            <div className="font-medium" style={{ color: 'var(--gray-900)' }}>{row.student_name}</div>
+                                            <div style={{ fontSize: '0.75rem', color: 'var(--gray-500)' }}>
+                                                {row.registration_number} · Year {row.year_of_study ?? '-'}
+                                            </div>
+                                        </>
+                                    )
+                                },
+                                {
+                                    header: 'Preferences',
+                                    accessor: (row) => (
+                                        <ol style={{ margin: 0, paddingLeft: 'var(--space-4)', fontSize: '0.8rem' }}>
+                                            {row.choices.map(choice => (
+                                                <li key={choice.preference_rank}>{describeChoice(choice)}</li>
+                                            ))}
+                                        </ol>
+                                    )
+                                },
+                                {
+                                    header: 'Roommates',
+                                    accessor: (row) => row.roommates.length > 0
+                                        ? row.roommates.map(r => r.student_name).join(', ')
+                                        : <span style={{ color: 'var(--gray-400)' }}>None</span>
+                                },
+                                {
+                                    header: 'Submitted',
+                                    accessor: (row) => new Date(row.submitted_at).toLocaleDateString()
+                                },
+                                {
+                                    header: 'Status',
+                                    accessor: (row) => (
+                                        <>
+                                            <span className={`badge ${statusBadge[row.status]}`}>{row.status}</span>
+                                            {row.result_notes && (
+                                                <div style={{ fontSize: '0.75rem', color: 'var(--gray-500)', marginTop: 'var(--space-1)' }}>
+                                                    {row.result_notes}
+                                                </div>
+                                            )}
+                                        </>
+                                    )
+                                }
+                            ]}
+                            data={applications}
+                            emptyMessage="No applications yet"
+                        />
+                    </>
+                )}
+
+                {isRoundModalOpen && (
+                    <div className="modal-overlay">
+                        <div className="modal" style={{ maxWidth: '450px' }}>
+                            <div className="modal-header">
+                                <h2 className="card-title">Open Allocation Round</h2>
+                            </div>
+                            <form onSubmit={handleCreateRound}>
+                                <div className="modal-body">
+                                    <div className="form-group">
+                                        <label className="form-label">Round Name</label>
+                                        <input
+                                            type="text"
+                                            className="form-input"
+                                            placeholder="e.g., Fall 2025"
+                                            value={roundName}
+                                            onChange={(e) => setRoundName(e.target.value)}
+                                            required
+                                        />
+                                        <p style={{ fontSize: '0.75rem', color: 'var(--gray-500)', marginTop: 'var(--space-1)' }}>
+                                            Students can apply as soon as the round is opened.
+                                        </p>
+                                    </div>
+                                </div>
+                                <div className="modal-footer">
+                                    <button type="button" className="btn btn-secondary" onClick={() => setIsRoundModalOpen(false)}>
+                                        Cancel
+                                    </button>
+                                    <button type="submit" className="btn btn-primary" disabled={working || !roundName.trim()}>
+                                        {working ? 'Opening...' : 'Open Round'}
+                                    </button>
+                                </div>
+                            </form>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
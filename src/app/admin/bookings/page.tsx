@@ -0,0 +1,506 @@
+'use client';
+
+/**
+ * Bed Bookings
+ * ============
+ * Beds reserved for future stays, a per-night availability calendar for a
+ * hostel, and a button to check in the bookings that are due.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { DataTable } from '@/components/ui/DataTable';
+import { BedBooking, Hostel, HostelAvailability } from '@/lib/types';
+
+interface Student {
+    id: number;
+    first_name: string;
+    last_name: string;
+    registration_number: string;
+}
+
+interface Room {
+    id: number;
+    room_number: string;
+}
+
+const statusBadge: Record<string, string> = {
+    booked: 'badge-pending',
+    checked_in: 'badge-paid',
+    cancelled: 'badge-closed',
+    expired: 'badge-overdue'
+};
+
+const addDays = (days: number) => {
+    const date = new Date();
+    date.setDate(date.getDate() + days);
+    return date.toISOString().slice(0, 10);
+};
+
+export default function BookingsPage() {
+    const [bookings, setBookings] = useState<BedBooking[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [statusFilter, setStatusFilter] = useState('booked');
+    const [error, setError] = useState('');
+    const [successMessage, setSuccessMessage] = useState('');
+    const [running, setRunning] = useState(false);
+
+    const [hostels, setHostels] = useState<Hostel[]>([]);
+    const [calendar, setCalendar] = useState({ hostel_id: '', from: addDays(1), to: addDays(31) });
+    const [availability, setAvailability] = useState<HostelAvailability | null>(null);
+    const [checking, setChecking] = useState(false);
+
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [students, setStudents] = useState<Student[]>([]);
+    const [rooms, setRooms] = useState<Room[]>([]);
+    const [formData, setFormData] = useState({
+        student_id: '', hostel_id: '', room_type: '', room_id: '', starts_on: '', ends_on: '', notes: ''
+    });
+    const [submitting, setSubmitting] = useState(false);
+
+    const fetchBookings = useCallback(async () => {
+        try {
+            const res = await fetch(`/api/bookings${statusFilter ? `?status=${statusFilter}` : ''}`);
+            const data = await res.json();
+            if (data.success) setBookings(data.data);
+        } catch (error) {
+            console.error('Failed to fetch bookings:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [statusFilter]);
+
+    useEffect(() => {
+        fetchBookings();
+    }, [fetchBookings]);
+
+    useEffect(() => {
+        fetch('/api/hostels?limit=100')
+            .then(res => res.json())
+            .then(data => { if (data.success) setHostels(data.data); })
+            .catch(error => console.error('Failed to fetch hostels:', error));
+    }, []);
+
+    const handleCheckAvailability = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setChecking(true);
+        setError('');
+
+        try {
+            const res = await fetch(
+                `/api/hostels/${calendar.hostel_id}/availability?from=${calendar.from}&to=${calendar.to}`
+            );
+            const data = await res.json();
+            if (data.success) setAvailability(data.data);
+            else setError(data.error || 'Failed to load availability');
+        } catch {
+            setError('An error occurred. Please try again.');
+        } finally {
+            setChecking(false);
+        }
+    };
+
+    const openModal = async () => {
+        setIsModalOpen(true);
+        setFormData({
+            student_id: '',
+            hostel_id: calendar.hostel_id,
+            room_type: '',
+            room_id: '',
+            starts_on: calendar.from,
+            ends_on: calendar.to,
+            notes: ''
+        });
+        setRooms([]);
+        try {
+            const res = await fetch('/api/students?active=true&limit=100');
+            const data = await res.json();
+            if (data.success) setStudents(data.data);
+            if (calendar.hostel_id) await loadRooms(calendar.hostel_id);
+        } catch (error) {
+            console.error('Failed to fetch form data:', error);
+        }
+    };
+
+    const loadRooms = async (hostelId: string) => {
+        try {
+            const res = await fetch(`/api/rooms?hostel_id=${hostelId}&limit=100`);
+            const data = await res.json();
+            if (data.success) setRooms(data.data);
+        } catch (error) {
+            console.error('Failed to fetch rooms:', error);
+        }
+    };
+
+    const handleHostelChange = async (hostelId: string) => {
+        setFormData({ ...formData, hostel_id: hostelId, room_id: '' });
+        setRooms([]);
+        if (hostelId) await loadRooms(hostelId);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitting(true);
+        setError('');
+
+        try {
+            const res = await fetch('/api/bookings', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    student_id: parseInt(formData.student_id),
+                    hostel_id: formData.hostel_id ? parseInt(formData.hostel_id) : null,
+                    room_id: formData.room_id ? parseInt(formData.room_id) : null,
+                    room_type: formData.room_type || null,
+                    starts_on: formData.starts_on,
+                    ends_on: formData.ends_on,
+                    notes: formData.notes || null
+                })
+            });
+            const data = await res.json();
+            if (data.success) {
+                setIsModalOpen(false);
+                setSuccessMessage(data.message);
+                fetchBookings();
+                setAvailability(null);
+            } else {
+                setError(data.error || 'Failed to book the bed');
+            }
+        } catch {
+            setError('An error occurred. Please try again.');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const handleCancel = async (booking: BedBooking) => {
+        if (!confirm(`Cancel ${booking.student_name}'s booking from ${booking.starts_on}?`)) return;
+        setError('');
+
+        try {
+            const res = await fetch(`/api/bookings/${booking.id}`, { method: 'DELETE' });
+            const data = await res.json();
+            if (data.success) {
+                setSuccessMessage(data.message);
+                fetchBookings();
+                setAvailability(null);
+            } else {
+                setError(data.error || 'Failed to cancel booking');
+            }
+        } catch {
+            setError('An error occurred. Please try again.');
+        }
+    };
+
+    const handleCheckIn = async () => {
+        setRunning(true);
+        setError('');
+        setSuccessMessage('');
+
+        try {
+            const res = await fetch('/api/bookings/check-in', { method: 'POST' });
+            const data = await res.json();
+            if (data.success) {
+                setSuccessMessage(data.message);
+                fetchBookings();
+            } else {
+                setError(data.error || 'Failed to check in bookings');
+            }
+        } catch {
+            setError('An error occurred. Please try again.');
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    return (
+        <div className="page-wrapper">
+            <div className="container main-content">
+                <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-8)' }}>
+                    <div>
+                        <h1>Bed Bookings</h1>
+                        <p className="card-subtitle">Beds reserved for future stays, checked in on the arrival day</p>
+                    </div>
+                    <div className="flex" style={{ gap: 'var(--space-2)' }}>
+                        <button onClick={handleCheckIn} className="btn btn-secondary" disabled={running}>
+                            {running ? 'Checking In...' : 'Check In Due Bookings'}
+                        </button>
+                        <button onClick={openModal} className="btn btn-primary">
+                            + New Booking
+                        </button>
+                    </div>
+                </div>
+
+                {error && <div className="alert alert-error">{error}</div>}
+                {successMessage && <div className="alert alert-success">{successMessage}</div>}
+
+                <div className="card" style={{ marginBottom: 'var(--space-6)' }}>
+                    <h2 className="card-title" style={{ marginBottom: 'var(--space-4)' }}>Availability</h2>
+                    <form onSubmit={handleCheckAvailability} className="flex items-end" style={{ gap: 'var(--space-4)', flexWrap: 'wrap' }}>
+                        <div className="form-group mb-0">
+                            <label className="form-label">Hostel</label>
+                            <select
+                                className="form-select"
+                                value={calendar.hostel_id}
+                                onChange={(e) => setCalendar({ ...calendar, hostel_id: e.target.value })}
+                                required
+                            >
+                                <option value="">Choose a hostel...</option>
+                                {hostels.map(h => (
+                                    <option key={h.id} value={h.id}>{h.name}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="form-group mb-0">
+                            <label className="form-label">Arrival</label>
+                            <input
+                                type="date"
+                                className="form-input"
+                                value={calendar.from}
+                                onChange={(e) => setCalendar({ ...calendar, from: e.target.value })}
+                                required
+                            />
+                        </div>
+                        <div className="form-group mb-0">
+                            <label className="form-label">Departure</label>
+                            <input
+                                type="date"
+                                className="form-input"
+                                value={calendar.to}
+                                min={calendar.from}
+                                onChange={(e) => setCalendar({ ...calendar, to: e.target.value })}
+                                required
+                            />
+                        </div>
+                        <button type="submit" className="btn btn-primary" disabled={checking || !calendar.hostel_id}>
+                            {checking ? 'Checking...' : 'Check'}
+                        </button>
+                    </form>
+
+                    {availability && (
+                        <div style={{ marginTop: 'var(--space-6)' }}>
+                            <p style={{ marginBottom: 'var(--space-4)' }}>
+                                <strong>{availability.free_whole_range}</strong> of {availability.total_beds} bed(s) in{' '}
+                                {availability.hostel_name} are free every night from {availability.from} to {availability.to}
+                            </p>
+                            <div
+                                style={{
+                                    display: 'grid',
+                                    gridTemplateColumns: 'repeat(auto-fill, minmax(72px, 1fr))',
+                                    gap: 'var(--space-2)',
+                                    marginBottom: 'var(--space-6)'
+                                }}
+                            >
+                                {availability.days.map(day => (
+                                    <div
+                                        key={day.date}
+                                        title={`${day.free_beds} free bed(s) on the night of ${day.date}`}
+                                        style={{
+                                            padding: 'var(--space-2)',
+                                            textAlign: 'center',
+                                            borderRadius: '6px',
+                                            border: '1px solid var(--gray-200)',
+                                            background: day.free_beds === 0 ? '#fee2e2' : 'white'
+                                        }}
+                                    >
+                                        <div style={{ fontSize: '0.75rem', color: 'var(--gray-500)' }}>
+                                            {new Date(day.date).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}
+                                        </div>
+                                        <div className="font-medium" style={{ color: 'var(--gray-900)' }}>{day.free_beds}</div>
+                                    </div>
+                                ))}
+                            </div>
+                            <DataTable<HostelAvailability['rooms'][number]>
+                                columns={[
+                                    { header: 'Room', accessor: 'room_number' },
+                                    { header: 'Type', accessor: 'room_type' },
+                                    { header: 'Beds', accessor: 'total_beds' },
+                                    { header: 'Free for Whole Stay', accessor: (row) => <strong>{row.free_whole_range}</strong> }
+                                ]}
+                                data={availability.rooms}
+                                keyField="room_id"
+                                emptyMessage="This hostel has no beds in service"
+                            />
+                        </div>
+                    )}
+                </div>
+
+                <div className="card" style={{ marginBottom: 'var(--space-6)' }}>
+                    <select
+                        className="form-select"
+                        value={statusFilter}
+                        onChange={(e) => setStatusFilter(e.target.value)}
+                        style={{ maxWidth: '220px' }}
+                    >
+                        <option value="booked">Booked</option>
+                        <option value="">All bookings</option>
+                        <option value="checked_in">Checked in</option>
+                        <option value="cancelled">Cancelled</option>
+                        <option value="expired">Expired</option>
+                    </select>
+                </div>
+
+                {loading ? (
+                    <div className="loading-container">
+                        <div className="spinner"></div>
+                    </div>
+                ) : (
+                    <DataTable<BedBooking>
+                        columns={[
+                            {
+                                header: 'Student',
+                                accessor: (row) => (
+                                    <>
+                                        <div className="font-medium" style={{ color: 'var(--gray-900)' }}>{row.student_name}</div>
+                                        <div style={{ fontSize: '0.75rem', color: 'var(--gray-500)' }}>{row.registration_number}</div>
+                                    </>
+                                )
+                            },
+                            {
+                                header: 'Bed',
+                                accessor: (row) => `${row.hostel_name}, Room ${row.room_number}, Bed ${row.bed_label}`
+                            },
+                            { header: 'Arrival', accessor: (row) => new Date(row.starts_on).toLocaleDateString() },
+                            { header: 'Departure', accessor: (row) => new Date(row.ends_on).toLocaleDateString() },
+                            {
+                                header: 'Status',
+                                accessor: (row) => (
+                                    <span className={`badge ${statusBadge[row.status]}`}>{row.status.replace('_', ' ')}</span>
+                                )
+                            },
+                            {
+                                header: 'Actions',
+                                accessor: (row) => row.status === 'booked' ? (
+                                    <button className="btn btn-secondary btn-sm" onClick={() => handleCancel(row)}>
+                                        Cancel
+                                    </button>
+                                ) : <span style={{ color: 'var(--gray-400)' }}>-</span>
+                            }
+                        ]}
+                        data={bookings}
+                        emptyMessage="No bookings found"
+                    />
+                )}
+
+                {isModalOpen && (
+                    <div className="modal-overlay">
+                        <div className="modal" style={{ maxWidth: '500px' }}>
+                            <div className="modal-header">
+                                <h2 className="card-title">New Booking</h2>
+                            </div>
+                            <form onSubmit={handleSubmit}>
+                                <div className="modal-body">
+                                    <div className="form-group">
+                                        <label className="form-label">Student</label>
+                                        <select
+                                            className="form-select"
+                                            value={formData.student_id}
+                                            onChange={(e) => setFormData({ ...formData, student_id: e.target.value })}
+                                            required
+                                        >
+                                            <option value="">Choose a student...</option>
+                                            {students.map(s => (
+                                                <option key={s.id} value={s.id}>
+                                                    {s.registration_number} - {s.first_name} {s.last_name}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="form-group">
+                                        <label className="form-label">Hostel</label>
+                                        <select
+                                            className="form-select"
+                                            value={formData.hostel_id}
+                                            onChange={(e) => handleHostelChange(e.target.value)}
+                                            required
+                                        >
+                                            <option value="">Choose a hostel...</option>
+                                            {hostels.map(h => (
+                                                <option key={h.id} value={h.id}>{h.name}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="form-group">
+                                        <label className="form-label">Specific Room (Optional)</label>
+                                        <select
+                                            className="form-select"
+                                            value={formData.room_id}
+                                            onChange={(e) => setFormData({ ...formData, room_id: e.target.value })}
+                                            disabled={!formData.hostel_id}
+                                        >
+                                            <option value="">First free bed</option>
+                                            {rooms.map(r => (
+                                                <option key={r.id} value={r.id}>Room {r.room_number}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    {!formData.room_id && (
+                                        <div className="form-group">
+                                            <label className="form-label">Room Type</label>
+                                            <select
+                                                className="form-select"
+                                                value={formData.room_type}
+                                                onChange={(e) => setFormData({ ...formData, room_type: e.target.value })}
+                                            >
+                                                <option value="">Any type</option>
+                                                <option value="single">Single</option>
+                                                <option value="double">Double</option>
+                                                <option value="triple">Triple</option>
+                                                <option value="dormitory">Dormitory</option>
+                                            </select>
+                                        </div>
+                                    )}
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <div className="form-group">
+                                            <label className="form-label">Arrival</label>
+                                            <input
+                                                type="date"
+                                                className="form-input"
+                                                value={formData.starts_on}
+                                                min={addDays(1)}
+                                                onChange={(e) => setFormData({ ...formData, starts_on: e.target.value })}
+                                                required
+                                            />
+                                        </div>
+                                        <div className="form-group">
+                                            <label className="form-label">Departure</label>
+                                            <input
+                                                type="date"
+                                                className="form-input"
+                                                value={formData.ends_on}
+                                                min={formData.starts_on}
+                                                onChange={(e) => setFormData({ ...formData, ends_on: e.target.value })}
+                                                required
+                                            />
+                                        </div>
+                                    </div>
+                                    <div className="form-group">
+                                        <label className="form-label">Notes</label>
+                                        <input
+                                            type="text"
+                                            className="form-input"
+                                            value={formData.notes}
+                                            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                                            placeholder="e.g. Summer internship"
+                                        />
+                                    </div>
+                                </div>
+                                <div className="modal-footer">
+                                    <button type="button" className="btn btn-secondary" onClick={() => setIsModalOpen(false)}>
+                                        Cancel
+                                    </button>
+                                    <button
+                                        type="submit"
+                                        className="btn btn-primary"
+                                        disabled={submitting || !formData.student_id || !formData.hostel_id}
+                                    >
+                                        {submitting ? 'Booking...' : 'Book Bed'}
+                                    </button>
+                                </div>
+                            </form>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,251 @@
+'use client';
+
+/**
+ * Expected Checkouts
+ * ==================
+ * Overstays and stays ending soon, the expected-checkout job's log, and a
+ * button to run the job now.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { DataTable } from '@/components/ui/DataTable';
+import { CheckoutEvent, UpcomingCheckout } from '@/lib/types';
+
+const eventBadge: Record<string, string> = {
+    reminder: 'badge-pending',
+    overstay: 'badge-overdue',
+    auto_checkout: 'badge-paid',
+    checkout_blocked: 'badge-closed'
+};
+
+const eventLabel: Record<string, string> = {
+    reminder: 'Reminder',
+    overstay: 'Overstay',
+    auto_checkout: 'Auto checkout',
+    checkout_blocked: 'Checkout blocked'
+};
+
+export default function ExpectedCheckoutsPage() {
+    const [upcoming, setUpcoming] = useState<UpcomingCheckout[]>([]);
+    const [overstays, setOverstays] = useState<UpcomingCheckout[]>([]);
+    const [events, setEvents] = useState<CheckoutEvent[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [days, setDays] = useState('7');
+    const [error, setError] = useState('');
+    const [successMessage, setSuccessMessage] = useState('');
+
+    const [jobForm, setJobForm] = useState({ reminder_days: '7', grace_days: '3', auto_checkout: false });
+    const [running, setRunning] = useState(false);
+
+    const fetchCheckouts = useCallback(async () => {
+        try {
+            const res = await fetch(`/api/allocations/checkouts?days=${days || 0}`);
+            const data = await res.json();
+            if (data.success) {
+                setUpcoming(data.data.upcoming);
+                setOverstays(data.data.overstays);
+                setEvents(data.data.events);
+            }
+        } catch (error) {
+            console.error('Failed to fetch expected checkouts:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [days]);
+
+    useEffect(() => {
+        fetchCheckouts();
+    }, [fetchCheckouts]);
+
+    const handleRunJob = async () => {
+        if (jobForm.auto_checkout && !confirm(
+            `Check out every student more than ${jobForm.grace_days} day(s) past their expected checkout?`
+        )) return;
+
+        setRunning(true);
+        setError('');
+        setSuccessMessage('');
+
+        try {
+            const res = await fetch('/api/allocations/checkouts', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    reminder_days: parseInt(jobForm.reminder_days),
+                    grace_days: parseInt(jobForm.grace_days),
+                    auto_checkout: jobForm.auto_checkout
+                })
+            });
+            const data = await res.json();
+            if (data.success) {
+                setSuccessMessage(data.message);
+                fetchCheckouts();
+            } else {
+                setError(data.error || 'Failed to run the job');
+            }
+        } catch {
+            setError('An error occurred. Please try again.');
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    const stayColumns = (overdue: boolean) => [
+        {
+            header: 'Student',
+            accessor: (row: UpcomingCheckout) => (
+                <>
+                    <div className="font-medium" style={{ color: 'var(--gray-900)' }}>{row.student_name}</div>
+                    <div style={{ fontSize: '0.75rem', color: 'var(--gray-500)' }}>{row.registration_number}</div>
+                </>
+            )
+        },
+        {
+            header: 'Room',
+            accessor: (row: UpcomingCheckout) =>
+                `${row.hostel_name}, Room ${row.room_number}${row.bed_label ? `, Bed ${row.bed_label}` : ''}`
+        },
+        { header: 'Expected Checkout', accessor: (row: UpcomingCheckout) => new Date(row.expected_checkout).toLocaleDateString() },
+        {
+            header: overdue ? 'Overstayed' : 'Due In',
+            accessor: (row: UpcomingCheckout) => overdue
+                ? <span className="badge badge-overdue">{-row.days_left} day(s)</span>
+                : row.days_left === 0 ? 'Today' : `${row.days_left} day(s)`
+        },
+        {
+            header: 'Inspection',
+            accessor: (row: UpcomingCheckout) => row.needs_inspection
+                ? <Link href="/admin/allocations" className="btn btn-secondary btn-sm">Check-out inspection due</Link>
+                : <span style={{ color: 'var(--gray-400)' }}>-</span>
+        }
+    ];
+
+    return (
+        <div className="page-wrapper">
+            <div className="container main-content">
+                <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-8)' }}>
+                    <div>
+                        <h1>Expected Checkouts</h1>
+                        <p className="card-subtitle">Students due to leave soon and students overstaying their allocation</p>
+                    </div>
+                </div>
+
+                {error && <div className="alert alert-error">{error}</div>}
+                {successMessage && <div className="alert alert-success">{successMessage}</div>}
+
+                <div className="card" style={{ marginBottom: 'var(--space-6)' }}>
+                    <h2 className="card-title" style={{ marginBottom: 'var(--space-4)' }}>Run Checkout Job</h2>
+                    <div className="flex items-end" style={{ gap: 'var(--space-4)', flexWrap: 'wrap' }}>
+                        <div className="form-group mb-0">
+                            <label className="form-label">Remind (days before)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                className="form-input"
+                                value={jobForm.reminder_days}
+                                onChange={(e) => setJobForm({ ...jobForm, reminder_days: e.target.value })}
+                                style={{ maxWidth: '140px' }}
+                            />
+                        </div>
+                        <div className="form-group mb-0">
+                            <label className="form-label">Grace period (days)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                className="form-input"
+                                value={jobForm.grace_days}
+                                onChange={(e) => setJobForm({ ...jobForm, grace_days: e.target.value })}
+                                style={{ maxWidth: '140px' }}
+                            />
+                        </div>
+                        <div className="form-check">
+                            <input
+                                type="checkbox"
+                                id="auto_checkout"
+                                checked={jobForm.auto_checkout}
+                                onChange={(e) => setJobForm({ ...jobForm, auto_checkout: e.target.checked })}
+                            />
+                            <label htmlFor="auto_checkout" className="form-label mb-0">Check out stays past the grace period</label>
+                        </div>
+                        <button
+                            className="btn btn-primary"
+                            onClick={handleRunJob}
+                            disabled={running || jobForm.reminder_days === '' || jobForm.grace_days === ''}
+                        >
+                            {running ? 'Running...' : 'Run Now'}
+                        </button>
+                    </div>
+                </div>
+
+                {loading ? (
+                    <div className="loading-container">
+                        <div className="spinner"></div>
+                    </div>
+                ) : (
+                    <>
+                        <h2 className="card-title" style={{ marginBottom: 'var(--space-4)' }}>
+                            Overstays ({overstays.length})
+                        </h2>
+                        <div style={{ marginBottom: 'var(--space-8)' }}>
+                            <DataTable<UpcomingCheckout>
+                                columns={stayColumns(true)}
+                                data={overstays}
+                                keyField="allocation_id"
+                                emptyMessage="Nobody is past their expected checkout"
+                            />
+                        </div>
+
+                        <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-4)' }}>
+                            <h2 className="card-title">Due Soon ({upcoming.length})</h2>
+                            <select
+                                className="form-select"
+                                value={days}
+                                onChange={(e) => setDays(e.target.value)}
+                                style={{ maxWidth: '180px' }}
+                            >
+                                <option value="7">Next 7 days</option>
+                                <option value="14">Next 14 days</option>
+                                <option value="30">Next 30 days</option>
+                            </select>
+                        </div>
+                        <div style={{ marginBottom: 'var(--space-8)' }}>
+                            <DataTable<UpcomingCheckout>
+                                columns={stayColumns(false)}
+                                data={upcoming}
+                                keyField="allocation_id"
+                                emptyMessage="No checkouts due in this period"
+                            />
+                        </div>
+
+                        <h2 className="card-title" style={{ marginBottom: 'var(--space-4)' }}>Job Log</h2>
+                        <DataTable<CheckoutEvent>
+                            columns={[
+                                { header: 'Date', accessor: (row) => new Date(row.event_date).toLocaleDateString() },
+                                {
+                                    header: 'Event',
+                                    accessor: (row) => (
+                                        <span className={`badge ${eventBadge[row.event_type]}`}>{eventLabel[row.event_type]}</span>
+                                    )
+                                },
+                                {
+                                    header: 'Student',
+                                    accessor: (row) => (
+                                        <>
+                                            <div className="font-medium" style={{ color: 'var(--gray-900)' }}>{row.student_name}</div>
+                                            <div style={{ fontSize: '0.75rem', color: 'var(--gray-500)' }}>{row.registration_number}</div>
+                                        </>
+                                    )
+                                },
+                                { header: 'Room', accessor: (row) => `${row.hostel_name}, Room ${row.room_number}` },
+                                { header: 'Details', accessor: (row) => row.details || '-' }
+                            ]}
+                            data={events}
+                            emptyMessage="The job has not logged anything yet"
+                        />
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
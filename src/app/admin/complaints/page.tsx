@@ -7,6 +7,8 @@
  */
 
 import { useEffect, useState } from 'react';
+import { useCurrentUser } from '@/lib/useCurrentUser';
+import { ExportButtons } from '@/components/ui/ExportButtons';
 
 interface Complaint {
     id: number;
@@ -18,10 +20,35 @@ interface Complaint {
     student_name: string;
     room_number: string;
     hostel_name: string;
+    assigned_staff_id: number | null;
     staff_name: string | null;
     created_at: string;
 }
 
+interface RoutingSetting {
+    hostel_id: number;
+    hostel_name: string;
+    auto_assign_complaints: boolean;
+    open_unassigned: string;
+}
+
+interface RoutingDecision {
+    complaint_id: number;
+    complaint_title: string;
+    category: string;
+    hostel_name: string;
+    staff_name: string | null;
+    reason: string;
+    assigned?: boolean;
+}
+
+interface StaffOption {
+    id: number;
+    name: string;
+    specialization: string | null;
+    active_complaints: string;
+}
+
 const statusColors: Record<string, string> = {
     open: 'badge-open',
     assigned: 'badge-assigned',
@@ -47,6 +74,15 @@ export default function ComplaintsPage() {
     const [statusFilter, setStatusFilter] = useState('');
     const [categoryFilter, setCategoryFilter] = useState('');
     const [selectedComplaint, setSelectedComplaint] = useState<Complaint | null>(null);
+    const [staffOptions, setStaffOptions] = useState<StaffOption[]>([]);
+
+    const [showRouting, setShowRouting] = useState(false);
+    const [routingSettings, setRoutingSettings] = useState<RoutingSetting[]>([]);
+    const [routingPlan, setRoutingPlan] = useState<RoutingDecision[] | null>(null);
+    const [routingMessage, setRoutingMessage] = useState<string | null>(null);
+
+    const { user } = useCurrentUser();
+    const canAssign = user?.role === 'admin' || user?.role === 'warden';
 
     async function fetchComplaints() {
         setLoading(true);
@@ -72,6 +108,41 @@ export default function ComplaintsPage() {
         fetchComplaints();
     }, [statusFilter, categoryFilter]);
 
+    useEffect(() => {
+        if (!canAssign) return;
+
+        async function fetchStaff() {
+            try {
+                const res = await fetch('/api/staff?is_available=true');
+                const data = await res.json();
+                if (data.success) {
+                    setStaffOptions(data.data);
+                }
+            } catch (error) {
+                console.error('Failed to fetch staff:', error);
+            }
+        }
+        fetchStaff();
+    }, [canAssign]);
+
+    async function assignStaff(id: number, staffId: number) {
+        try {
+            const res = await fetch(`/api/complaints/${id}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ assigned_staff_id: staffId })
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                fetchComplaints();
+                setSelectedComplaint(null);
+            }
+        } catch (error) {
+            console.error('Failed to assign staff:', error);
+        }
+    }
+
     async function updateStatus(id: number, newStatus: string) {
         try {
             const res = await fetch(`/api/complaints/${id}`, {
@@ -90,6 +161,60 @@ export default function ComplaintsPage() {
         }
     }
 
+    async function openRouting() {
+        setShowRouting(true);
+        setRoutingPlan(null);
+        setRoutingMessage(null);
+        try {
+            const res = await fetch('/api/complaints/routing');
+            const data = await res.json();
+            if (data.success) {
+                setRoutingSettings(data.data);
+            }
+        } catch (error) {
+            console.error('Failed to fetch routing settings:', error);
+        }
+    }
+
+    async function toggleAutoAssign(setting: RoutingSetting) {
+        try {
+            const res = await fetch('/api/complaints/routing', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ hostel_id: setting.hostel_id, enabled: !setting.auto_assign_complaints })
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                setRoutingSettings(routingSettings.map(s =>
+                    s.hostel_id === setting.hostel_id ? { ...s, auto_assign_complaints: !s.auto_assign_complaints } : s
+                ));
+            }
+            setRoutingMessage(data.message || data.error);
+        } catch (error) {
+            console.error('Failed to update routing setting:', error);
+        }
+    }
+
+    async function runRouting(dryRun: boolean) {
+        try {
+            const res = await fetch('/api/complaints/routing', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ dry_run: dryRun })
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                setRoutingPlan(data.data);
+                if (!dryRun) fetchComplaints();
+            }
+            setRoutingMessage(data.message || data.error);
+        } catch (error) {
+            console.error('Failed to run routing:', error);
+        }
+    }
+
     function formatDate(dateString: string) {
         return new Date(dateString).toLocaleDateString('en-US', {
             month: 'short',
@@ -101,11 +226,21 @@ export default function ComplaintsPage() {
 
     return (
         <div className="container">
-            <div style={{ marginBottom: '2rem' }}>
-                <h1 style={{ fontSize: '1.75rem', fontWeight: 700, color: '#1e1b4b', marginBottom: '0.25rem' }}>
-                    Maintenance Complaints
-                </h1>
-                <p style={{ color: '#6b7280', margin: 0 }}>Track and manage maintenance requests</p>
+            <div style={{ marginBottom: '2rem', display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '1rem' }}>
+                <div>
+                    <h1 style={{ fontSize: '1.75rem', fontWeight: 700, color: '#1e1b4b', marginBottom: '0.25rem' }}>
+                        Maintenance Complaints
+                    </h1>
+                    <p style={{ color: '#6b7280', margin: 0 }}>Track and manage maintenance requests</p>
+                </div>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    <ExportButtons endpoint="/api/complaints" filters={{ status: statusFilter, category: categoryFilter }} />
+                    {canAssign && (
+                        <button className="btn btn-secondary" onClick={openRouting}>
+                            ⚙️ Auto-routing
+                        </button>
+                    )}
+                </div>
             </div>
 
             {/* Filters */}
@@ -257,6 +392,27 @@ export default function ComplaintsPage() {
                                 </div>
                             </div>
 
+                            {/* Staff Assignment */}
+                            {canAssign && (
+                                <div style={{ marginBottom: '1.5rem' }}>
+                                    <strong style={{ display: 'block', marginBottom: '0.75rem', color: '#374151', fontSize: '0.875rem' }}>
+                                        Assign Staff
+                                    </strong>
+                                    <select
+                                        className="form-select"
+                                        value={selectedComplaint.assigned_staff_id ?? ''}
+                                        onChange={(e) => e.target.value && assignStaff(selectedComplaint.id, parseInt(e.target.value))}
+                                    >
+                                        <option value="">Select staff member...</option>
+                                        {staffOptions.map((staff) => (
+                                            <option key={staff.id} value={staff.id}>
+                                                {staff.name} ({staff.specialization?.replace('_', ' ') || 'general'}, {staff.active_complaints} active)
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+
                             {/* Status Update Buttons */}
                             <div>
                                 <strong style={{ display: 'block', marginBottom: '0.75rem', color: '#374151', fontSize: '0.875rem' }}>
@@ -284,6 +440,97 @@ export default function ComplaintsPage() {
                     </div>
                 </div>
             )}
+
+            {/* Auto-routing Modal */}
+            {showRouting && (
+                <div className="modal-overlay" onClick={() => setShowRouting(false)}>
+                    <div className="modal" onClick={(e) => e.stopPropagation()} style={{ maxWidth: '720px' }}>
+                        <div className="modal-header">
+                            <h2>Automatic Complaint Routing</h2>
+                        </div>
+                        <div className="modal-body">
+                            <p style={{ color: '#6b7280', marginBottom: '1rem', fontSize: '0.875rem' }}>
+                                New complaints in enabled hostels go to the least busy available staff member
+                                with a matching specialization, preferring staff based in that hostel.
+                            </p>
+
+                            {routingMessage && (
+                                <div className="alert alert-info" style={{ marginBottom: '1rem' }}>{routingMessage}</div>
+                            )}
+
+                            <table className="table" style={{ marginBottom: '1.5rem' }}>
+                                <thead>
+                                    <tr>
+                                        <th>Hostel</th>
+                                        <th>Open &amp; Unassigned</th>
+                                        <th>Auto-assign</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {routingSettings.map((setting) => (
+                                        <tr key={setting.hostel_id}>
+                                            <td>{setting.hostel_name}</td>
+                                            <td>{setting.open_unassigned}</td>
+                                            <td>
+                                                <button
+                                                    className={`btn btn-sm ${setting.auto_assign_complaints ? 'btn-primary' : 'btn-secondary'}`}
+                                                    onClick={() => toggleAutoAssign(setting)}
+                                                    disabled={user?.role !== 'admin'}
+                                                >
+                                                    {setting.auto_assign_complaints ? 'On' : 'Off'}
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+
+                            {routingPlan && (
+                                routingPlan.length === 0 ? (
+                                    <p style={{ color: '#6b7280' }}>No open, unassigned complaints.</p>
+                                ) : (
+                                    <table className="table">
+                                        <thead>
+                                            <tr>
+                                                <th>Complaint</th>
+                                                <th>Hostel</th>
+                                                <th>Staff</th>
+                                                <th>Reason</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {routingPlan.map((decision) => (
+                                                <tr key={decision.complaint_id}>
+                                                    <td>
+                                                        #{decision.complaint_id} {categoryIcons[decision.category]} {decision.complaint_title}
+                                                    </td>
+                                                    <td>{decision.hostel_name}</td>
+                                                    <td>
+                                                        {decision.staff_name || '—'}
+                                                        {decision.assigned && ' ✓'}
+                                                    </td>
+                                                    <td style={{ fontSize: '0.8rem', color: '#6b7280' }}>{decision.reason}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )
+                            )}
+                        </div>
+                        <div className="modal-footer">
+                            <button className="btn btn-secondary" onClick={() => setShowRouting(false)}>
+                                Close
+                            </button>
+                            <button className="btn btn-secondary" onClick={() => runRouting(true)}>
+                                Preview Backlog
+                            </button>
+                            <button className="btn btn-primary" onClick={() => runRouting(false)}>
+                                Assign Backlog
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
         </div>
     );
 }
@@ -1,19 +1,18 @@
 'use client';
 
-import { useState, useEffect, use } from 'react';
+import { useState, useEffect, useCallback, use } from 'react';
 import Link from 'next/link';
+import { HostelDetail } from '@/lib/types';
 
-interface HostelStats {
-    hostel_id: number;
-    hostel_name: string;
-    total_rooms: number;
-    total_capacity: number;
-    total_occupancy: number;
-    occupancy_rate: number;
-    active_complaints: number;
-    complaints_per_room: number;
-    open_complaints: number;
-    resolved_complaints: number;
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all bg-white';
+
+interface HostelForm {
+    name: string;
+    address: string;
+    gender_allowed: 'male' | 'female' | 'other';
+    warden_name: string;
+    warden_contact: string;
+    auto_assign_complaints: boolean;
 }
 
 interface Room {
@@ -33,40 +32,112 @@ export default function HostelDetailsPage({ params }: { params: Promise<{ id: st
     const resolvedParams = use(params);
     const hostelId = parseInt(resolvedParams.id);
 
-    const [hostel, setHostel] = useState<HostelStats | null>(null);
+    const [hostel, setHostel] = useState<HostelDetail | null>(null);
     const [rooms, setRooms] = useState<Room[]>([]);
     const [loading, setLoading] = useState(true);
+    const [form, setForm] = useState<HostelForm | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
-    useEffect(() => {
-        const fetchData = async () => {
-            try {
-                // Fetch hostel stats
-                const hostelRes = await fetch('/api/analytics/hostels');
-                const hostelData = await hostelRes.json();
-
-                if (hostelData.success) {
-                    const currentHostel = hostelData.data.find(
-                        (h: HostelStats) => h.hostel_id === hostelId
-                    );
-                    setHostel(currentHostel || null);
-                }
-
-                // Fetch rooms
-                const roomsRes = await fetch(`/api/rooms?hostel_id=${hostelId}&limit=100`);
-                const roomsData = await roomsRes.json();
-
-                if (roomsData.success) {
-                    setRooms(roomsData.data);
-                }
-            } catch (error) {
-                console.error('Failed to fetch details:', error);
-            } finally {
-                setLoading(false);
+    const fetchData = useCallback(async () => {
+        try {
+            const [hostelRes, roomsRes] = await Promise.all([
+                fetch(`/api/hostels/${hostelId}`),
+                fetch(`/api/rooms?hostel_id=${hostelId}&limit=100`)
+            ]);
+            const hostelData = await hostelRes.json();
+            const roomsData = await roomsRes.json();
+
+            setHostel(hostelData.success ? hostelData.data : null);
+            if (roomsData.success) {
+                setRooms(roomsData.data);
             }
-        };
+        } catch (error) {
+            console.error('Failed to fetch details:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [hostelId]);
 
+    useEffect(() => {
         fetchData();
-    }, [hostelId]);
+    }, [fetchData]);
+
+    const startEditing = () => {
+        if (!hostel) return;
+        setMessage(null);
+        setForm({
+            name: hostel.name,
+            address: hostel.address || '',
+            gender_allowed: hostel.gender_allowed,
+            warden_name: hostel.warden_name || '',
+            warden_contact: hostel.warden_contact || '',
+            auto_assign_complaints: hostel.auto_assign_complaints
+        });
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form) return;
+        setSaving(true);
+        setMessage(null);
+
+        try {
+            const res = await fetch(`/api/hostels/${hostelId}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(form)
+            });
+            const data = await res.json();
+            if (data.success) {
+                setForm(null);
+                setMessage({ type: 'success', text: data.message });
+                await fetchData();
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to update hostel' });
+            }
+        } catch {
+            setMessage({ type: 'error', text: 'An error occurred. Please try again.' });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDecommission = async () => {
+        if (!hostel) return;
+        if (!confirm(`Decommission ${hostel.name}? All of its rooms will be closed and open waitlist entries for it cancelled.`)) return;
+        setMessage(null);
+
+        try {
+            const res = await fetch(`/api/hostels/${hostelId}`, { method: 'DELETE' });
+            const data = await res.json();
+            setMessage(data.success
+                ? { type: 'success', text: data.message }
+                : { type: 'error', text: data.error || 'Failed to decommission hostel' });
+            await fetchData();
+        } catch {
+            setMessage({ type: 'error', text: 'An error occurred. Please try again.' });
+        }
+    };
+
+    const handleRecommission = async () => {
+        setMessage(null);
+
+        try {
+            const res = await fetch(`/api/hostels/${hostelId}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ is_active: true })
+            });
+            const data = await res.json();
+            setMessage(data.success
+                ? { type: 'success', text: 'Hostel back in service. Reopen its rooms from Room Management.' }
+                : { type: 'error', text: data.error || 'Failed to recommission hostel' });
+            await fetchData();
+        } catch {
+            setMessage({ type: 'error', text: 'An error occurred. Please try again.' });
+        }
+    };
 
     if (loading) {
         return (
@@ -98,16 +169,102 @@ export default function HostelDetailsPage({ params }: { params: Promise<{ id: st
                     </Link>
                 </div>
 
-                <div className="mb-8">
-                    <h1 className="text-3xl font-bold text-gray-900 mb-1">{hostel.hostel_name}</h1>
-                    <p className="text-gray-500 flex items-center gap-2">
-                        <span className="inline-block w-2 h-2 rounded-full bg-gray-300"></span>
-                        {hostel.total_rooms} Rooms
-                        <span className="inline-block w-2 h-2 rounded-full bg-gray-300"></span>
-                        {hostel.total_capacity} Bed Capacity
-                    </p>
+                <div className="flex flex-col sm:flex-row justify-between items-start gap-4 mb-8">
+                    <div>
+                        <h1 className="text-3xl font-bold text-gray-900 mb-1 flex items-center gap-3">
+                            {hostel.name}
+                            {!hostel.is_active && (
+                                <span className="px-2.5 py-1 rounded-full text-xs font-semibold uppercase tracking-wide bg-gray-100 text-gray-600 border border-gray-200">
+                                    Decommissioned
+                                </span>
+                            )}
+                        </h1>
+                        <p className="text-gray-500 flex items-center gap-2">
+                            <span className="inline-block w-2 h-2 rounded-full bg-gray-300"></span>
+                            {hostel.total_rooms} Rooms
+                            <span className="inline-block w-2 h-2 rounded-full bg-gray-300"></span>
+                            {hostel.total_capacity} Bed Capacity
+                            <span className="inline-block w-2 h-2 rounded-full bg-gray-300"></span>
+                            <span className="capitalize">{hostel.gender_allowed === 'other' ? 'Co-ed' : `${hostel.gender_allowed} only`}</span>
+                        </p>
+                        {hostel.address && <p className="text-sm text-gray-400 mt-1">{hostel.address}</p>}
+                    </div>
+                    <div className="flex gap-3">
+                        {hostel.is_active ? (
+                            <>
+                                <button onClick={startEditing} className="px-4 py-2 bg-white text-gray-700 border border-gray-300 font-medium rounded-lg hover:bg-gray-50 transition-colors">
+                                    Edit Details
+                                </button>
+                                <button onClick={handleDecommission} className="px-4 py-2 bg-white text-red-600 border border-red-200 font-medium rounded-lg hover:bg-red-50 transition-colors">
+                                    Decommission
+                                </button>
+                            </>
+                        ) : (
+                            <button onClick={handleRecommission} className="px-4 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 transition-colors shadow-sm">
+                                Recommission
+                            </button>
+                        )}
+                    </div>
                 </div>
 
+                {message && (
+                    <div className={`p-4 rounded-lg mb-6 ${message.type === 'success' ? 'bg-green-50 text-green-700 border border-green-200' : 'bg-red-50 text-red-700 border border-red-200'}`}>
+                        {message.text}
+                    </div>
+                )}
+
+                {form && (
+                    <form onSubmit={handleSave} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden mb-8">
+                        <div className="bg-gray-50/50 px-6 py-4 border-b border-gray-100">
+                            <h2 className="text-lg font-bold text-gray-900">Edit Hostel</h2>
+                        </div>
+                        <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-xs font-medium text-gray-500 mb-1">Name</label>
+                                <input className={inputClass} required value={form.name}
+                                    onChange={(e) => setForm({ ...form, name: e.target.value })} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-gray-500 mb-1">Residents</label>
+                                <select className={inputClass} value={form.gender_allowed}
+                                    onChange={(e) => setForm({ ...form, gender_allowed: e.target.value as HostelForm['gender_allowed'] })}>
+                                    <option value="male">Male</option>
+                                    <option value="female">Female</option>
+                                    <option value="other">Co-ed</option>
+                                </select>
+                            </div>
+                            <div className="md:col-span-2">
+                                <label className="block text-xs font-medium text-gray-500 mb-1">Address</label>
+                                <input className={inputClass} value={form.address}
+                                    onChange={(e) => setForm({ ...form, address: e.target.value })} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-gray-500 mb-1">Warden Name</label>
+                                <input className={inputClass} value={form.warden_name}
+                                    onChange={(e) => setForm({ ...form, warden_name: e.target.value })} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-gray-500 mb-1">Warden Contact</label>
+                                <input className={inputClass} value={form.warden_contact}
+                                    onChange={(e) => setForm({ ...form, warden_contact: e.target.value })} />
+                            </div>
+                            <label className="md:col-span-2 flex items-center gap-2 text-sm text-gray-700">
+                                <input type="checkbox" checked={form.auto_assign_complaints}
+                                    onChange={(e) => setForm({ ...form, auto_assign_complaints: e.target.checked })} />
+                                Route new complaints to maintenance staff automatically
+                            </label>
+                        </div>
+                        <div className="px-6 py-4 bg-gray-50 flex justify-end gap-3 border-t border-gray-100">
+                            <button type="button" onClick={() => setForm(null)} className="px-4 py-2 bg-white text-gray-700 border border-gray-300 font-medium rounded-lg hover:bg-gray-50 transition-colors">
+                                Cancel
+                            </button>
+                            <button type="submit" disabled={saving} className="px-4 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 transition-colors shadow-sm disabled:opacity-50">
+                                {saving ? 'Saving...' : 'Save Changes'}
+                            </button>
+                        </div>
+                    </form>
+                )}
+
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
                     <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100 relative overflow-hidden">
                         <div className="text-sm font-medium text-gray-500 mb-1">Current Occupancy</div>
@@ -135,12 +292,54 @@ export default function HostelDetailsPage({ params }: { params: Promise<{ id: st
                     </div>
                 </div>
 
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+                    <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+                        <div className="text-sm font-medium text-gray-500 mb-3">Warden</div>
+                        {hostel.warden_name ? (
+                            <>
+                                <div className="font-semibold text-gray-900">{hostel.warden_name}</div>
+                                <div className="text-sm text-gray-500">{hostel.warden_contact || 'No contact on file'}</div>
+                            </>
+                        ) : (
+                            <div className="text-sm text-gray-400">No warden assigned</div>
+                        )}
+                        <div className="mt-4 pt-4 border-t border-gray-100 flex justify-between text-sm">
+                            <span className="text-gray-500">Free beds</span>
+                            <span className="font-semibold text-gray-900">{hostel.available_beds}</span>
+                        </div>
+                        <div className="flex justify-between text-sm mt-1">
+                            <span className="text-gray-500">Rooms out of service</span>
+                            <span className="font-semibold text-gray-900">{hostel.rooms_out_of_service}</span>
+                        </div>
+                    </div>
+                    <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+                        <div className="text-sm font-medium text-gray-500 mb-3">Maintenance Staff</div>
+                        {hostel.maintenance_staff.length === 0 ? (
+                            <div className="text-sm text-gray-400">No staff assigned to this hostel</div>
+                        ) : (
+                            <ul className="space-y-2">
+                                {hostel.maintenance_staff.map(member => (
+                                    <li key={member.id} className="flex justify-between text-sm">
+                                        <span className="text-gray-900">
+                                            {member.name}
+                                            {member.specialization && <span className="text-gray-400 capitalize"> · {member.specialization.replace('_', ' ')}</span>}
+                                        </span>
+                                        <span className={member.is_available ? 'text-green-600' : 'text-gray-400'}>
+                                            {member.is_available ? 'Available' : 'Busy'}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+
                 <div>
                     <div className="flex justify-between items-end mb-6">
                         <div>
                             <h2 className="text-xl font-bold text-gray-900">Room List</h2>
                             <p className="text-sm text-gray-500 mt-1">
-                                Detailed status of all rooms in {hostel.hostel_name}
+                                Detailed status of all rooms in {hostel.name}
                             </p>
                         </div>
                         <div className="text-sm font-medium bg-white px-3 py-1 rounded-lg border border-gray-200 text-gray-600 shadow-sm">
@@ -17,6 +17,7 @@ interface Hostel {
     total_rooms: number;
     warden_name: string | null;
     warden_contact: string | null;
+    is_active: boolean;
 }
 
 interface RoomStats {
@@ -33,7 +34,7 @@ export default function HostelsPage() {
     useEffect(() => {
         async function fetchData() {
             try {
-                const hostelsRes = await fetch('/api/hostels');
+                const hostelsRes = await fetch('/api/hostels?include_inactive=true');
                 const hostelsData = await hostelsRes.json();
 
                 if (hostelsData.success) {
@@ -120,12 +121,14 @@ export default function HostelsPage() {
                             : 0;
 
                         return (
-                            <div key={hostel.id} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-md hover:border-indigo-100 transition-all">
+                            <div key={hostel.id} className={`bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-md hover:border-indigo-100 transition-all ${hostel.is_active ? '' : 'opacity-60'}`}>
                                 <div className="p-6">
                                     <div className="flex justify-between items-start mb-4">
-                                        <h3 className="text-xl font-bold text-gray-900">{hostel.name}</h3>
-                                        <span className={`px-2.5 py-1 rounded-full text-xs font-semibold capitalize border ${genderBadge(hostel.gender_allowed)}`}>
-                                            {hostel.gender_allowed}
+                                        <Link href={`/admin/hostels/${hostel.id}`} className="text-xl font-bold text-gray-900 hover:text-indigo-600">
+                                            {hostel.name}
+                                        </Link>
+                                        <span className={`px-2.5 py-1 rounded-full text-xs font-semibold capitalize border ${hostel.is_active ? genderBadge(hostel.gender_allowed) : 'bg-gray-100 text-gray-600 border-gray-200'}`}>
+                                            {hostel.is_active ? hostel.gender_allowed : 'Decommissioned'}
                                         </span>
                                     </div>
 
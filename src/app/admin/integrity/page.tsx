@@ -0,0 +1,161 @@
+'use client';
+
+/**
+ * Data Integrity
+ * ==============
+ * Room occupancy and hostel room counts checked against the allocations and
+ * rooms they count, other contradictory records, and a one-click counter
+ * repair.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { DataTable } from '@/components/ui/DataTable';
+import { CounterMismatch, IntegrityAnomaly, IntegrityReport } from '@/lib/types';
+
+const checkLabel: Record<string, string> = {
+    inactive_student_allocation: 'Inactive student in a room',
+    room_over_capacity: 'Room over capacity',
+    allocation_without_bed: 'Allocation without a bed',
+    allocation_bed_in_other_room: 'Bed in another room',
+    bed_count_mismatch: 'Beds ≠ capacity',
+    ended_allocation_without_checkout: 'Ended without checkout date',
+    complaint_room_never_lived: 'Complaint for a room never lived in',
+    complaint_bed_in_other_room: 'Complaint bed in another room'
+};
+
+export default function IntegrityPage() {
+    const [report, setReport] = useState<IntegrityReport | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [repairing, setRepairing] = useState(false);
+    const [error, setError] = useState('');
+    const [successMessage, setSuccessMessage] = useState('');
+
+    const fetchReport = useCallback(async () => {
+        setLoading(true);
+        try {
+            const res = await fetch('/api/integrity');
+            const data = await res.json();
+            if (data.success) setReport(data.data);
+            else setError(data.error || 'Failed to run the checks');
+        } catch (error) {
+            console.error('Failed to fetch integrity report:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchReport();
+    }, [fetchReport]);
+
+    const handleRepair = async () => {
+        if (!confirm('Recount room occupancy and hostel room totals and overwrite the stored values?')) return;
+
+        setRepairing(true);
+        setError('');
+        setSuccessMessage('');
+
+        try {
+            const res = await fetch('/api/integrity', { method: 'POST' });
+            const data = await res.json();
+            if (data.success) {
+                setReport(data.data);
+                setSuccessMessage(data.message);
+            } else {
+                setError(data.error || 'Repair failed');
+            }
+        } catch {
+            setError('An error occurred. Please try again.');
+        } finally {
+            setRepairing(false);
+        }
+    };
+
+    const repairable = report ? report.counter_mismatches.filter(m => m.repairable).length : 0;
+
+    return (
+        <div className="page-wrapper">
+            <div className="container main-content">
+                <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-8)' }}>
+                    <div>
+                        <h1>Data Integrity</h1>
+                        <p className="card-subtitle">
+                            {report
+                                ? `Checked ${new Date(report.checked_at).toLocaleString()}`
+                                : 'Counters and records that disagree with each other'}
+                        </p>
+                    </div>
+                    <div className="flex" style={{ gap: 'var(--space-2)' }}>
+                        <button onClick={fetchReport} className="btn btn-secondary" disabled={loading || repairing}>
+                            ↻ Re-check
+                        </button>
+                        <button
+                            onClick={handleRepair}
+                            className="btn btn-primary"
+                            disabled={loading || repairing || repairable === 0}
+                        >
+                            {repairing ? 'Repairing...' : `Repair ${repairable} Counter(s)`}
+                        </button>
+                    </div>
+                </div>
+
+                {error && <div className="alert alert-error">{error}</div>}
+                {successMessage && <div className="alert alert-success">{successMessage}</div>}
+
+                {loading || !report ? (
+                    <div className="loading-container">
+                        <div className="spinner"></div>
+                    </div>
+                ) : (
+                    <>
+                        <h2 className="card-title" style={{ marginBottom: 'var(--space-4)' }}>
+                            Counter Mismatches ({report.counter_mismatches.length})
+                        </h2>
+                        <div style={{ marginBottom: 'var(--space-8)' }}>
+                            <DataTable<CounterMismatch & { key: string }>
+                                columns={[
+                                    {
+                                        header: 'Counter',
+                                        accessor: (row) => row.counter === 'room_occupancy' ? 'Room occupancy' : 'Hostel total rooms'
+                                    },
+                                    {
+                                        header: 'Where',
+                                        accessor: (row) => row.room_number ? `${row.hostel_name}, Room ${row.room_number}` : row.hostel_name
+                                    },
+                                    { header: 'Stored', accessor: 'stored' },
+                                    { header: 'Actual', accessor: (row) => <strong>{row.actual}</strong> },
+                                    {
+                                        header: 'Repair',
+                                        accessor: (row) => row.repairable
+                                            ? <span className="badge badge-pending">Will be corrected</span>
+                                            : <span className="badge badge-overdue">Overfull: end an allocation first</span>
+                                    }
+                                ]}
+                                data={report.counter_mismatches.map(m => ({ ...m, key: `${m.counter}-${m.id}` }))}
+                                keyField="key"
+                                emptyMessage="All counters match"
+                            />
+                        </div>
+
+                        <h2 className="card-title" style={{ marginBottom: 'var(--space-4)' }}>
+                            Anomalies ({report.anomalies.length})
+                        </h2>
+                        <DataTable<IntegrityAnomaly & { key: string }>
+                            columns={[
+                                {
+                                    header: 'Check',
+                                    accessor: (row) => <span className="badge badge-open">{checkLabel[row.check] || row.check}</span>
+                                },
+                                { header: 'Record', accessor: (row) => `${row.entity} #${row.entity_id}` },
+                                { header: 'Details', accessor: 'description' }
+                            ]}
+                            data={report.anomalies.map(a => ({ ...a, key: `${a.check}-${a.entity_id}` }))}
+                            keyField="key"
+                            emptyMessage="No anomalies found"
+                        />
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
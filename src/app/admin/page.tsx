@@ -61,9 +61,16 @@ export default function AdminDashboard() {
         { href: '/admin/students', icon: '👥', title: 'Students', description: 'Add and manage students' },
         { href: '/admin/rooms', icon: '🏠', title: 'Rooms', description: 'Manage rooms & assignments' },
         { href: '/admin/allocations', icon: '🔑', title: 'Allocations', description: 'Allocation history' },
+        { href: '/admin/checkouts', icon: '🚪', title: 'Checkouts', description: 'Due soon & overstays' },
+        { href: '/admin/bookings', icon: '📅', title: 'Bookings', description: 'Future stays & availability' },
+        { href: '/admin/rollover', icon: '🎓', title: 'Year Rollover', description: 'Graduate & renew at year end' },
+        { href: '/admin/applications', icon: '📝', title: 'Applications', description: 'Room preferences & batch allocation' },
+        { href: '/admin/waitlist', icon: '⏳', title: 'Waitlist', description: 'Queue for full rooms & bed offers' },
         { href: '/admin/complaints', icon: '🔧', title: 'Complaints', description: 'Maintenance requests' },
+        { href: '/admin/staff', icon: '🧰', title: 'Staff', description: 'Maintenance team & workload' },
         { href: '/admin/payments', icon: '💳', title: 'Payments', description: 'Fee tracking' },
-        { href: '/admin/analytics', icon: '📊', title: 'Analytics', description: 'Reports & insights' }
+        { href: '/admin/analytics', icon: '📊', title: 'Analytics', description: 'Reports & insights' },
+        { href: '/admin/integrity', icon: '🩺', title: 'Data Integrity', description: 'Counter drift & anomalies' }
     ];
 
     return (
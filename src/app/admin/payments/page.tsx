@@ -2,11 +2,14 @@
 
 import { useState, useEffect } from 'react';
 import { DataTable } from '@/components/ui/DataTable';
+import { ExportButtons } from '@/components/ui/ExportButtons';
+import { useCurrentUser } from '@/lib/useCurrentUser';
 
 interface Payment {
     id: number;
     student_id: number;
     amount: string;
+    amount_paid: string;
     due_date: string;
     payment_date: string | null;
     payment_status: 'pending' | 'paid' | 'overdue' | 'partial';
@@ -19,6 +22,25 @@ interface Payment {
     notes?: string | null;
 }
 
+interface BillingLine {
+    allocation_id: number;
+    student_name: string;
+    registration_number: string;
+    hostel_name: string;
+    room_number: string;
+    billed_days: number;
+    period_days: number;
+    amount: number;
+    already_billed: boolean;
+}
+
+interface BillingPreview {
+    lines: BillingLine[];
+    invoices_to_create: number;
+    already_billed: number;
+    total_amount: number;
+}
+
 interface Student {
     id: number;
     first_name: string;
@@ -27,6 +49,7 @@ interface Student {
 }
 
 export default function PaymentsPage() {
+    const { user } = useCurrentUser();
     const [payments, setPayments] = useState<Payment[]>([]);
     const [loading, setLoading] = useState(true);
     const [filterStatus, setFilterStatus] = useState('all');
@@ -37,6 +60,19 @@ export default function PaymentsPage() {
     const [students, setStudents] = useState<Student[]>([]);
     const [submitting, setSubmitting] = useState(false);
     const [error, setError] = useState('');
+    const [runningOverdueJob, setRunningOverdueJob] = useState(false);
+
+    // Semester billing run
+    const [isBillingOpen, setIsBillingOpen] = useState(false);
+    const [billingForm, setBillingForm] = useState({
+        semester: '',
+        period_start: '',
+        period_end: '',
+        due_date: ''
+    });
+    const [billingPreview, setBillingPreview] = useState<BillingPreview | null>(null);
+    const [billingError, setBillingError] = useState('');
+    const [billingSubmitting, setBillingSubmitting] = useState(false);
 
     const [formData, setFormData] = useState({
         student_id: '',
@@ -129,21 +165,20 @@ export default function PaymentsPage() {
     };
 
     const handleMarkAsPaid = async (payment: Payment) => {
-        if (!confirm(`Mark payment of ₹${payment.amount} for ${payment.student_name} as paid?`)) {
+        const balance = parseFloat(payment.amount) - parseFloat(payment.amount_paid);
+        if (!confirm(`Record ₹${balance.toFixed(2)} received from ${payment.student_name} and mark as paid?`)) {
             return;
         }
 
         try {
             const today = new Date().toISOString().split('T')[0];
-            const receiptNumber = `RCP-${new Date().getFullYear()}-${Date.now().toString().slice(-6)}`;
 
             const res = await fetch(`/api/payments/${payment.id}`, {
                 method: 'PUT',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     payment_status: 'paid',
-                    payment_date: today,
-                    receipt_number: receiptNumber
+                    payment_date: today
                 })
             });
 
@@ -158,6 +193,71 @@ export default function PaymentsPage() {
         }
     };
 
+    const handleRunOverdueJob = async () => {
+        if (!confirm('Mark past-due payments as overdue and apply late fees now?')) {
+            return;
+        }
+
+        setRunningOverdueJob(true);
+        try {
+            const res = await fetch('/api/payments/overdue', { method: 'POST' });
+            const data = await res.json();
+            if (data.success) {
+                alert(data.message);
+                fetchPayments();
+            } else {
+                alert(data.error || 'Failed to run overdue check');
+            }
+        } catch {
+            alert('An error occurred while running the overdue check');
+        } finally {
+            setRunningOverdueJob(false);
+        }
+    };
+
+    const openBillingModal = () => {
+        setIsBillingOpen(true);
+        setBillingForm({ semester: '', period_start: '', period_end: '', due_date: '' });
+        setBillingPreview(null);
+        setBillingError('');
+    };
+
+    const submitBillingRun = async (dryRun: boolean) => {
+        setBillingError('');
+        setBillingSubmitting(true);
+
+        try {
+            const res = await fetch('/api/payments/billing-runs', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ ...billingForm, dry_run: dryRun })
+            });
+
+            const data = await res.json();
+            if (!data.success) {
+                setBillingError(data.error || 'Billing run failed');
+            } else if (dryRun) {
+                setBillingPreview(data.data);
+            } else {
+                alert(data.message);
+                setIsBillingOpen(false);
+                fetchPayments();
+            }
+        } catch {
+            setBillingError('An error occurred. Please try again.');
+        } finally {
+            setBillingSubmitting(false);
+        }
+    };
+
+    // Any change to the billing period invalidates the preview
+    const updateBillingForm = (field: keyof typeof billingForm, value: string) => {
+        setBillingForm({ ...billingForm, [field]: value });
+        setBillingPreview(null);
+    };
+
+    const isBillingFormComplete = Object.values(billingForm).every(value => value !== '');
+
     return (
         <div className="page-wrapper">
             <div className="container main-content">
@@ -166,12 +266,38 @@ export default function PaymentsPage() {
                         <h1>Payment Records</h1>
                         <p className="card-subtitle">Issue and manage student fee requests</p>
                     </div>
-                    <button
-                        onClick={openModal}
-                        className="btn btn-primary"
-                    >
-                        + Issue Payment to Student
-                    </button>
+                    <div className="flex gap-2">
+                        <ExportButtons
+                            endpoint="/api/payments"
+                            filters={{
+                                status: filterStatus !== 'all' ? filterStatus : null,
+                                overdue: filterOverdue ? 'true' : null
+                            }}
+                        />
+                        {user?.role === 'admin' && (
+                            <button
+                                onClick={openBillingModal}
+                                className="btn btn-secondary"
+                            >
+                                🧾 Semester Billing
+                            </button>
+                        )}
+                        {user?.role === 'admin' && (
+                            <button
+                                onClick={handleRunOverdueJob}
+                                className="btn btn-secondary"
+                                disabled={runningOverdueJob}
+                            >
+                                {runningOverdueJob ? 'Checking...' : '⏰ Run Overdue Check'}
+                            </button>
+                        )}
+                        <button
+                            onClick={openModal}
+                            className="btn btn-primary"
+                        >
+                            + Issue Payment to Student
+                        </button>
+                    </div>
                 </div>
 
                 <div className="flex gap-4" style={{ marginBottom: 'var(--space-6)' }}>
@@ -219,6 +345,11 @@ export default function PaymentsPage() {
                                 accessor: (payment) => (
                                     <>
                                         <div style={{ fontWeight: 600, color: 'var(--gray-900)' }}>₹{payment.amount}</div>
+                                        {payment.payment_status !== 'paid' && parseFloat(payment.amount_paid) > 0 && (
+                                            <div style={{ fontSize: '0.75rem', color: 'var(--primary-600)' }}>
+                                                Received ₹{payment.amount_paid}
+                                            </div>
+                                        )}
                                         {payment.payment_date && (
                                             <div style={{ fontSize: '0.75rem', color: 'var(--gray-500)' }}>
                                                 Paid: {new Date(payment.payment_date).toLocaleDateString()}
@@ -260,9 +391,19 @@ export default function PaymentsPage() {
                             {
                                 header: 'Receipt',
                                 accessor: (payment) => (
-                                    <span style={{ fontSize: '0.75rem', color: 'var(--gray-500)', fontFamily: 'var(--font-mono)' }}>
-                                        {payment.receipt_number || '-'}
-                                    </span>
+                                    <>
+                                        <span style={{ fontSize: '0.75rem', color: 'var(--gray-500)', fontFamily: 'var(--font-mono)' }}>
+                                            {payment.receipt_number || '-'}
+                                        </span>
+                                        {payment.payment_status === 'paid' && payment.receipt_number && (
+                                            <a
+                                                href={`/api/payments/${payment.id}/receipt.pdf`}
+                                                style={{ display: 'block', fontSize: '0.75rem', color: 'var(--primary-600)', fontWeight: 500 }}
+                                            >
+                                                📄 PDF
+                                            </a>
+                                        )}
+                                    </>
                                 )
                             },
                             {
@@ -288,6 +429,14 @@ export default function PaymentsPage() {
                                                 ✓ Paid
                                             </button>
                                         )}
+                                        <a
+                                            href={`/api/payments/student/${payment.student_id}/statement.pdf`}
+                                            className="btn btn-secondary btn-sm"
+                                            style={{ padding: '4px 12px', fontSize: '0.75rem' }}
+                                            title="Download this student's fee statement for the current year"
+                                        >
+                                            Statement
+                                        </a>
                                     </div>
                                 )
                             }
@@ -394,6 +543,127 @@ export default function PaymentsPage() {
                         </div>
                     </div>
                 )}
+
+                {isBillingOpen && (
+                    <div className="modal-overlay">
+                        <div className="modal" style={{ maxWidth: '760px' }}>
+                            <div className="modal-header">
+                                <h2 className="card-title">Semester Billing Run</h2>
+                            </div>
+
+                            <div className="modal-body">
+                                {billingError && (
+                                    <div className="alert alert-error">
+                                        {billingError}
+                                    </div>
+                                )}
+
+                                <div className="grid grid-cols-2 gap-4" style={{ marginBottom: 'var(--space-4)' }}>
+                                    <div className="form-group">
+                                        <label className="form-label">Semester</label>
+                                        <input
+                                            type="text"
+                                            className="form-input"
+                                            placeholder="e.g. Fall 2025"
+                                            value={billingForm.semester}
+                                            onChange={(e) => updateBillingForm('semester', e.target.value)}
+                                        />
+                                    </div>
+                                    <div className="form-group">
+                                        <label className="form-label">Due Date</label>
+                                        <input
+                                            type="date"
+                                            className="form-input"
+                                            value={billingForm.due_date}
+                                            onChange={(e) => updateBillingForm('due_date', e.target.value)}
+                                        />
+                                    </div>
+                                    <div className="form-group">
+                                        <label className="form-label">Semester Starts</label>
+                                        <input
+                                            type="date"
+                                            className="form-input"
+                                            value={billingForm.period_start}
+                                            onChange={(e) => updateBillingForm('period_start', e.target.value)}
+                                        />
+                                    </div>
+                                    <div className="form-group">
+                                        <label className="form-label">Semester Ends</label>
+                                        <input
+                                            type="date"
+                                            className="form-input"
+                                            value={billingForm.period_end}
+                                            onChange={(e) => updateBillingForm('period_end', e.target.value)}
+                                        />
+                                    </div>
+                                </div>
+
+                                {billingPreview && (
+                                    <>
+                                        <p style={{ fontSize: '0.875rem', marginBottom: 'var(--space-3)' }}>
+                                            <strong>{billingPreview.invoices_to_create}</strong> invoice(s) totalling{' '}
+                                            <strong>₹{billingPreview.total_amount.toFixed(2)}</strong>
+                                            {billingPreview.already_billed > 0 && (
+                                                <> · {billingPreview.already_billed} skipped (already billed)</>
+                                            )}
+                                        </p>
+                                        <div className="table-container" style={{ maxHeight: '280px', overflowY: 'auto' }}>
+                                            <table className="table">
+                                                <thead>
+                                                    <tr>
+                                                        <th>Student</th>
+                                                        <th>Room</th>
+                                                        <th>Days</th>
+                                                        <th>Amount</th>
+                                                    </tr>
+                                                </thead>
+                                                <tbody>
+                                                    {billingPreview.lines.map(line => (
+                                                        <tr key={line.allocation_id} style={{ opacity: line.already_billed ? 0.5 : 1 }}>
+                                                            <td>
+                                                                <div className="font-medium">{line.student_name}</div>
+                                                                <div style={{ fontSize: '0.75rem', color: 'var(--gray-500)' }}>{line.registration_number}</div>
+                                                            </td>
+                                                            <td>{line.hostel_name} · {line.room_number}</td>
+                                                            <td>{line.billed_days}/{line.period_days}</td>
+                                                            <td>{line.already_billed ? 'Already billed' : `₹${line.amount.toFixed(2)}`}</td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+
+                            <div className="modal-footer">
+                                <button
+                                    type="button"
+                                    onClick={() => setIsBillingOpen(false)}
+                                    className="btn btn-secondary"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => submitBillingRun(true)}
+                                    disabled={billingSubmitting || !isBillingFormComplete}
+                                    className="btn btn-secondary"
+                                >
+                                    Preview
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => submitBillingRun(false)}
+                                    disabled={billingSubmitting || !billingPreview || billingPreview.invoices_to_create === 0}
+                                    className="btn btn-primary"
+                                >
+                                    {billingSubmitting ? 'Working...' : 'Generate Invoices'}
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                )}
             </div>
         </div>
     );
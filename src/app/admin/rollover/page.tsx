@@ -0,0 +1,410 @@
+'use client';
+
+/**
+ * Academic Year Rollover
+ * ======================
+ * Three-step wizard: choose the rollover settings, review every change it
+ * would make, then run it. Past rollovers and their changes are listed below.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { AcademicRollover, RolloverAction, RolloverChange } from '@/lib/types';
+
+interface RolloverSummary {
+    students_graduated: number;
+    students_promoted: number;
+    allocations_ended: number;
+    allocations_renewed: number;
+    blocked: number;
+}
+
+const actionBadge: Record<RolloverAction, string> = {
+    graduate: 'badge-closed',
+    renew: 'badge-paid',
+    release: 'badge-pending',
+    promote: 'badge-assigned',
+    blocked: 'badge-overdue'
+};
+
+const actionLabel: Record<RolloverAction, string> = {
+    graduate: 'Graduate',
+    renew: 'Keep room',
+    release: 'End allocation',
+    promote: 'Move up',
+    blocked: 'Blocked'
+};
+
+const STEPS = ['Settings', 'Review changes', 'Done'];
+
+function ChangesTable({ changes }: { changes: RolloverChange[] }) {
+    const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString() : '-');
+
+    return (
+        <div className="table-container" style={{ maxHeight: '420px', overflowY: 'auto' }}>
+            <table className="table">
+                <thead>
+                    <tr>
+                        <th>Student</th>
+                        <th>Change</th>
+                        <th>Year</th>
+                        <th>Room</th>
+                        <th>Expected Checkout</th>
+                        <th>Notes</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {changes.length === 0 ? (
+                        <tr>
+                            <td colSpan={6} className="empty-state">No students to roll over</td>
+                        </tr>
+                    ) : changes.map(change => (
+                        <tr key={change.student_id}>
+                            <td>
+                                <div className="font-medium">{change.student_name}</div>
+                                <div style={{ fontSize: '0.75rem', color: 'var(--gray-500)' }}>{change.registration_number}</div>
+                            </td>
+                            <td><span className={`badge ${actionBadge[change.action]}`}>{actionLabel[change.action]}</span></td>
+                            <td>
+                                {change.new_year_of_study !== change.old_year_of_study
+                                    ? <>{change.old_year_of_study} → <strong>{change.new_year_of_study}</strong></>
+                                    : change.old_year_of_study}
+                            </td>
+                            <td>
+                                {change.room_number
+                                    ? <span style={{ textDecoration: change.allocation_ended ? 'line-through' : 'none' }}>
+                                        {change.hostel_name} · {change.room_number}
+                                    </span>
+                                    : <span style={{ color: 'var(--gray-400)' }}>-</span>}
+                            </td>
+                            <td>
+                                {change.new_expected_checkout !== change.old_expected_checkout
+                                    ? <>{formatDate(change.old_expected_checkout)} → <strong>{formatDate(change.new_expected_checkout)}</strong></>
+                                    : formatDate(change.old_expected_checkout)}
+                            </td>
+                            <td style={{ fontSize: '0.875rem', color: 'var(--gray-500)' }}>{change.details || '-'}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+export default function RolloverPage() {
+    const [rollovers, setRollovers] = useState<AcademicRollover[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [successMessage, setSuccessMessage] = useState('');
+
+    const [step, setStep] = useState(0);
+    const [form, setForm] = useState({
+        academic_year: '',
+        max_year_of_study: '4',
+        rollover_date: new Date().toISOString().slice(0, 10),
+        retain_rooms: true,
+        new_expected_checkout: ''
+    });
+    const [preview, setPreview] = useState<{ changes: RolloverChange[]; summary: RolloverSummary } | null>(null);
+    const [actionFilter, setActionFilter] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+
+    const [viewing, setViewing] = useState<{ rollover: AcademicRollover; changes: RolloverChange[] } | null>(null);
+
+    const fetchRollovers = useCallback(async () => {
+        try {
+            const res = await fetch('/api/allocations/rollover');
+            const data = await res.json();
+            if (data.success) setRollovers(data.data);
+        } catch (error) {
+            console.error('Failed to fetch rollovers:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchRollovers();
+    }, [fetchRollovers]);
+
+    const submitRollover = async (dryRun: boolean) => {
+        if (!dryRun && !confirm(`Roll over ${form.academic_year}? This changes every listed student and cannot be undone.`)) return;
+
+        setError('');
+        setSubmitting(true);
+
+        try {
+            const res = await fetch('/api/allocations/rollover', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ...form,
+                    max_year_of_study: parseInt(form.max_year_of_study),
+                    new_expected_checkout: form.retain_rooms ? form.new_expected_checkout : null,
+                    dry_run: dryRun
+                })
+            });
+            const data = await res.json();
+            if (!data.success) {
+                setError(data.error || 'Rollover failed');
+            } else if (dryRun) {
+                setPreview(data.data);
+                setActionFilter('');
+                setStep(1);
+            } else {
+                setSuccessMessage(data.message);
+                setStep(2);
+                fetchRollovers();
+            }
+        } catch {
+            setError('An error occurred. Please try again.');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const startOver = () => {
+        setStep(0);
+        setPreview(null);
+        setError('');
+        setSuccessMessage('');
+        setForm({ ...form, academic_year: '' });
+    };
+
+    const viewRollover = async (rollover: AcademicRollover) => {
+        try {
+            const res = await fetch(`/api/allocations/rollover/${rollover.id}`);
+            const data = await res.json();
+            if (data.success) setViewing(data.data);
+            else setError(data.error || 'Failed to load rollover');
+        } catch {
+            setError('An error occurred. Please try again.');
+        }
+    };
+
+    const isFormComplete = form.academic_year.trim() !== '' && form.rollover_date !== ''
+        && (!form.retain_rooms || form.new_expected_checkout !== '');
+
+    const visibleChanges = preview
+        ? preview.changes.filter(change => !actionFilter || change.action === actionFilter)
+        : [];
+
+    return (
+        <div className="page-wrapper">
+            <div className="container main-content">
+                <div style={{ marginBottom: 'var(--space-8)' }}>
+                    <h1>Academic Year Rollover</h1>
+                    <p className="card-subtitle">Graduate final-year students, renew or release rooms and move everyone up a year</p>
+                </div>
+
+                {error && <div className="alert alert-error">{error}</div>}
+
+                <div className="card" style={{ marginBottom: 'var(--space-8)' }}>
+                    <div className="flex" style={{ gap: 'var(--space-4)', marginBottom: 'var(--space-6)' }}>
+                        {STEPS.map((label, index) => (
+                            <div
+                                key={label}
+                                style={{
+                                    fontWeight: index === step ? 600 : 400,
+                                    color: index === step ? 'var(--gray-900)' : 'var(--gray-400)'
+                                }}
+                            >
+                                {index + 1}. {label}
+                            </div>
+                        ))}
+                    </div>
+
+                    {step === 0 && (
+                        <>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="form-group">
+                                    <label className="form-label">Academic Year Being Closed</label>
+                                    <input
+                                        type="text"
+                                        className="form-input"
+                                        placeholder="e.g. 2024-25"
+                                        maxLength={20}
+                                        value={form.academic_year}
+                                        onChange={(e) => setForm({ ...form, academic_year: e.target.value })}
+                                    />
+                                </div>
+                                <div className="form-group">
+                                    <label className="form-label">Final Year of Study</label>
+                                    <select
+                                        className="form-select"
+                                        value={form.max_year_of_study}
+                                        onChange={(e) => setForm({ ...form, max_year_of_study: e.target.value })}
+                                    >
+                                        {[1, 2, 3, 4, 5, 6].map(year => (
+                                            <option key={year} value={year}>Year {year} graduates</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div className="form-group">
+                                    <label className="form-label">Checkout Date for Ended Allocations</label>
+                                    <input
+                                        type="date"
+                                        className="form-input"
+                                        value={form.rollover_date}
+                                        onChange={(e) => setForm({ ...form, rollover_date: e.target.value })}
+                                    />
+                                </div>
+                                <div className="form-group">
+                                    <label className="form-label">New Expected Checkout (Returning Students)</label>
+                                    <input
+                                        type="date"
+                                        className="form-input"
+                                        value={form.new_expected_checkout}
+                                        min={form.rollover_date}
+                                        disabled={!form.retain_rooms}
+                                        onChange={(e) => setForm({ ...form, new_expected_checkout: e.target.value })}
+                                    />
+                                </div>
+                                <div className="form-check col-span-2">
+                                    <input
+                                        type="checkbox"
+                                        id="retain_rooms"
+                                        checked={form.retain_rooms}
+                                        onChange={(e) => setForm({ ...form, retain_rooms: e.target.checked })}
+                                    />
+                                    <label htmlFor="retain_rooms" className="form-label mb-0">
+                                        Returning students keep their rooms (otherwise their allocations end)
+                                    </label>
+                                </div>
+                            </div>
+                            <div className="flex justify-end" style={{ marginTop: 'var(--space-6)' }}>
+                                <button
+                                    className="btn btn-primary"
+                                    onClick={() => submitRollover(true)}
+                                    disabled={submitting || !isFormComplete}
+                                >
+                                    {submitting ? 'Working...' : 'Preview Changes →'}
+                                </button>
+                            </div>
+                        </>
+                    )}
+
+                    {step === 1 && preview && (
+                        <>
+                            <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-4)' }}>
+                                <p style={{ fontSize: '0.875rem' }}>
+                                    <strong>{preview.summary.students_graduated}</strong> graduating ·{' '}
+                                    <strong>{preview.summary.students_promoted}</strong> moving up ·{' '}
+                                    <strong>{preview.summary.allocations_ended}</strong> allocation(s) ending ·{' '}
+                                    <strong>{preview.summary.allocations_renewed}</strong> renewed
+                                    {preview.summary.blocked > 0 && (
+                                        <> · <strong>{preview.summary.blocked}</strong> blocked by a missing check-out inspection</>
+                                    )}
+                                </p>
+                                <select
+                                    className="form-select"
+                                    value={actionFilter}
+                                    onChange={(e) => setActionFilter(e.target.value)}
+                                    style={{ maxWidth: '200px' }}
+                                >
+                                    <option value="">All changes</option>
+                                    {(Object.keys(actionLabel) as RolloverAction[]).map(action => (
+                                        <option key={action} value={action}>{actionLabel[action]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <ChangesTable changes={visibleChanges} />
+                            <div className="flex justify-between" style={{ marginTop: 'var(--space-6)' }}>
+                                <button className="btn btn-secondary" onClick={() => setStep(0)} disabled={submitting}>
+                                    ← Back
+                                </button>
+                                <button
+                                    className="btn btn-primary"
+                                    onClick={() => submitRollover(false)}
+                                    disabled={submitting || preview.changes.length === 0}
+                                >
+                                    {submitting ? 'Rolling over...' : `Roll Over ${form.academic_year}`}
+                                </button>
+                            </div>
+                        </>
+                    )}
+
+                    {step === 2 && (
+                        <>
+                            {successMessage && <div className="alert alert-success">{successMessage}</div>}
+                            <button className="btn btn-secondary" onClick={startOver}>
+                                Start Another Rollover
+                            </button>
+                        </>
+                    )}
+                </div>
+
+                <h2 className="card-title" style={{ marginBottom: 'var(--space-4)' }}>Past Rollovers</h2>
+                {loading ? (
+                    <div className="loading-container">
+                        <div className="spinner"></div>
+                    </div>
+                ) : (
+                    <div className="table-container">
+                        <table className="table">
+                            <thead>
+                                <tr>
+                                    <th>Academic Year</th>
+                                    <th>Run</th>
+                                    <th>Graduated</th>
+                                    <th>Moved Up</th>
+                                    <th>Ended</th>
+                                    <th>Renewed</th>
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rollovers.length === 0 ? (
+                                    <tr>
+                                        <td colSpan={7} className="empty-state">No rollovers yet</td>
+                                    </tr>
+                                ) : rollovers.map(rollover => (
+                                    <tr key={rollover.id}>
+                                        <td className="font-medium">{rollover.academic_year}</td>
+                                        <td>
+                                            <div>{new Date(rollover.created_at).toLocaleString()}</div>
+                                            <div style={{ fontSize: '0.75rem', color: 'var(--gray-500)' }}>{rollover.created_by}</div>
+                                        </td>
+                                        <td>{rollover.students_graduated}</td>
+                                        <td>{rollover.students_promoted}</td>
+                                        <td>{rollover.allocations_ended}</td>
+                                        <td>{rollover.allocations_renewed}</td>
+                                        <td>
+                                            <button className="btn btn-secondary btn-sm" onClick={() => viewRollover(rollover)}>
+                                                View Changes
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                {viewing && (
+                    <div className="modal-overlay">
+                        <div className="modal" style={{ maxWidth: '960px' }}>
+                            <div className="modal-header">
+                                <h2 className="card-title">Rollover {viewing.rollover.academic_year}</h2>
+                                <p className="card-subtitle">
+                                    Year {viewing.rollover.max_year_of_study} graduated · checkout{' '}
+                                    {new Date(viewing.rollover.rollover_date).toLocaleDateString()}
+                                    {viewing.rollover.retain_rooms && viewing.rollover.new_expected_checkout && (
+                                        <> · rooms kept until {new Date(viewing.rollover.new_expected_checkout).toLocaleDateString()}</>
+                                    )}
+                                </p>
+                            </div>
+                            <div className="modal-body">
+                                <ChangesTable changes={viewing.changes} />
+                            </div>
+                            <div className="modal-footer">
+                                <button className="btn btn-secondary" onClick={() => setViewing(null)}>
+                                    Close
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -10,7 +10,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import { DataTable, Column } from '@/components/ui/DataTable';
-import { Room, Hostel, PaginatedResponse } from '@/lib/types';
+import { ExportButtons } from '@/components/ui/ExportButtons';
+import { Room, Hostel, Bed, PaginatedResponse, RoommateSuggestion, RoomBlackout, RelocationPlanEntry, RoomTimeline } from '@/lib/types';
 
 // ============ TYPES ============
 
@@ -39,11 +40,15 @@ interface Allocation {
     id: number;
     student_id: number;
     room_id: number;
+    bed_id: number | null;
+    bed_label?: string | null;
     allocation_date: string;
     expected_checkout: string | null;
     is_active: boolean;
     student_name: string;
     registration_number: string;
+    room_number?: string;
+    hostel_name?: string;
 }
 
 const initialFormData: RoomFormData = {
@@ -57,6 +62,32 @@ const initialFormData: RoomFormData = {
     has_attached_bathroom: false
 };
 
+const initialBulkForm = {
+    hostel_id: '',
+    pattern: '',
+    floor: '',
+    room_type: 'double',
+    capacity: '',
+    rent_amount: '',
+    has_ac: false,
+    has_attached_bathroom: false
+};
+
+const initialBlackoutForm = {
+    reason: 'renovation',
+    starts_on: '',
+    ends_on: '',
+    notes: ''
+};
+
+const BLACKOUT_REASON_LABELS: Record<string, string> = {
+    renovation: 'Renovation',
+    pest_control: 'Pest Control',
+    deep_cleaning: 'Deep Cleaning',
+    repairs: 'Repairs',
+    other: 'Other'
+};
+
 type ViewMode = 'table' | 'grid';
 
 export default function RoomsPage() {
@@ -70,6 +101,12 @@ export default function RoomsPage() {
     const [showModal, setShowModal] = useState(false);
     const [submitting, setSubmitting] = useState(false);
     const [formData, setFormData] = useState<RoomFormData>(initialFormData);
+    const [editingRoom, setEditingRoom] = useState<Room | null>(null);
+
+    // Bulk generator states
+    const [showBulkModal, setShowBulkModal] = useState(false);
+    const [bulkForm, setBulkForm] = useState(initialBulkForm);
+    const [bulkPreview, setBulkPreview] = useState<{ to_create: string[]; skipped: string[] } | null>(null);
 
     // Table view state
     const [filterHostel, setFilterHostel] = useState('');
@@ -81,6 +118,8 @@ export default function RoomsPage() {
     const [selectedHostel, setSelectedHostel] = useState<number | null>(null);
     const [selectedRoom, setSelectedRoom] = useState<Room | null>(null);
     const [roomAllocations, setRoomAllocations] = useState<Allocation[]>([]);
+    const [roomBeds, setRoomBeds] = useState<Bed[]>([]);
+    const [roomHistory, setRoomHistory] = useState<RoomTimeline | null>(null);
     const [unassignedStudents, setUnassignedStudents] = useState<Student[]>([]);
     const [sidebarLoading, setSidebarLoading] = useState(false);
 
@@ -88,10 +127,24 @@ export default function RoomsPage() {
     const [isAssignModalOpen, setIsAssignModalOpen] = useState(false);
     const [isMoveModalOpen, setIsMoveModalOpen] = useState(false);
     const [selectedStudent, setSelectedStudent] = useState<string>('');
+    const [selectedBed, setSelectedBed] = useState<string>('');
+    const [roommateSuggestions, setRoommateSuggestions] = useState<RoommateSuggestion[]>([]);
     const [selectedStudentToMove, setSelectedStudentToMove] = useState<Allocation | null>(null);
     const [targetRoom, setTargetRoom] = useState<string>('');
     const [expectedCheckout, setExpectedCheckout] = useState('');
 
+    // Swap modal states
+    const [isSwapModalOpen, setIsSwapModalOpen] = useState(false);
+    const [selectedStudentToSwap, setSelectedStudentToSwap] = useState<Allocation | null>(null);
+    const [swapCandidates, setSwapCandidates] = useState<Allocation[]>([]);
+    const [swapWith, setSwapWith] = useState('');
+
+    // Maintenance window states
+    const [roomBlackouts, setRoomBlackouts] = useState<RoomBlackout[]>([]);
+    const [relocationPlan, setRelocationPlan] = useState<RelocationPlanEntry[]>([]);
+    const [isBlackoutModalOpen, setIsBlackoutModalOpen] = useState(false);
+    const [blackoutForm, setBlackoutForm] = useState(initialBlackoutForm);
+
     // Messages
     const [error, setError] = useState('');
     const [successMessage, setSuccessMessage] = useState('');
@@ -160,11 +213,39 @@ export default function RoomsPage() {
         setSidebarLoading(true);
         setSelectedRoom(room);
         try {
-            const res = await fetch(`/api/allocations?room_id=${room.id}&is_active=true&limit=20`);
-            const data = await res.json();
+            const [allocationsRes, bedsRes, blackoutsRes, historyRes] = await Promise.all([
+                fetch(`/api/allocations?room_id=${room.id}&is_active=true&limit=20`),
+                fetch(`/api/rooms/${room.id}/beds`),
+                fetch(`/api/rooms/${room.id}/blackouts`),
+                fetch(`/api/rooms/${room.id}/history`)
+            ]);
+            const data = await allocationsRes.json();
             if (data.success) {
                 setRoomAllocations(data.data);
             }
+            const historyData = await historyRes.json();
+            setRoomHistory(historyData.success ? historyData.data : null);
+            const bedsData = await bedsRes.json();
+            if (bedsData.success) {
+                setRoomBeds(bedsData.data);
+            }
+
+            // Relocation plan for the window that is running or coming up next
+            setRelocationPlan([]);
+            const blackoutsData = await blackoutsRes.json();
+            if (blackoutsData.success) {
+                setRoomBlackouts(blackoutsData.data);
+                const openWindow = blackoutsData.data.find(
+                    (b: RoomBlackout) => b.status === 'scheduled' || b.status === 'active'
+                );
+                if (openWindow && (openWindow.occupants ?? 0) > 0) {
+                    const planRes = await fetch(`/api/rooms/${room.id}/blackouts/${openWindow.id}`);
+                    const planData = await planRes.json();
+                    if (planData.success) {
+                        setRelocationPlan(planData.data.relocation_plan);
+                    }
+                }
+            }
         } catch (error) {
             console.error('Failed to fetch room allocations:', error);
         } finally {
@@ -252,33 +333,136 @@ export default function RoomsPage() {
                 rent_amount: parseFloat(formData.rent_amount)
             };
 
-            const res = await fetch('/api/rooms', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(payload)
-            });
+            // A room stays in its hostel; only its own details can be edited
+            const res = editingRoom
+                ? await fetch(`/api/rooms/${editingRoom.id}`, {
+                    method: 'PUT',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ ...payload, hostel_id: undefined })
+                })
+                : await fetch('/api/rooms', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(payload)
+                });
             const data = await res.json();
 
             if (data.success) {
-                setShowModal(false);
-                setFormData(initialFormData);
-                setSuccessMessage('Room created successfully!');
+                closeRoomModal();
+                setSuccessMessage(editingRoom ? 'Room updated successfully!' : 'Room created successfully!');
                 if (viewMode === 'table') {
                     fetchRoomsTable();
                 } else {
                     fetchRoomsGrid();
                 }
             } else {
-                setError(data.error || 'Failed to create room');
+                setError(data.error || (editingRoom ? 'Failed to update room' : 'Failed to create room'));
             }
         } catch (err) {
-            console.error('Error creating room:', err);
+            console.error('Error saving room:', err);
             setError('An error occurred');
         } finally {
             setSubmitting(false);
         }
     };
 
+    const openEditModal = (room: Room) => {
+        setEditingRoom(room);
+        setFormData({
+            hostel_id: String(room.hostel_id),
+            room_number: room.room_number,
+            floor: String(room.floor),
+            room_type: room.room_type,
+            capacity: String(room.capacity),
+            rent_amount: String(room.rent_amount),
+            has_ac: room.has_ac,
+            has_attached_bathroom: room.has_attached_bathroom
+        });
+        setShowModal(true);
+    };
+
+    const closeRoomModal = () => {
+        setShowModal(false);
+        setEditingRoom(null);
+        setFormData(initialFormData);
+    };
+
+    const handleDeleteRoom = async (room: Room) => {
+        if (!confirm(`Delete Room ${room.room_number}? This cannot be undone.`)) return;
+
+        try {
+            const res = await fetch(`/api/rooms/${room.id}`, { method: 'DELETE' });
+            const data = await res.json();
+            if (data.success) {
+                setSuccessMessage(data.message || 'Room deleted');
+                fetchRoomsTable();
+            } else {
+                setError(data.error || 'Failed to delete room');
+            }
+        } catch {
+            setError('An error occurred. Please try again.');
+        }
+    };
+
+    const handleToggleAvailability = async (room: Room) => {
+        try {
+            const res = await fetch(`/api/rooms/${room.id}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ is_available: !room.is_available })
+            });
+            const data = await res.json();
+            if (data.success) {
+                setSuccessMessage(`Room ${room.room_number} ${room.is_available ? 'taken out of service' : 'back in service'}`);
+                fetchRoomsTable();
+            } else {
+                setError(data.error || 'Failed to update room');
+            }
+        } catch {
+            setError('An error occurred. Please try again.');
+        }
+    };
+
+    // Preview first (dry run), then create the rooms the preview listed
+    const handleBulkGenerate = async (dryRun: boolean) => {
+        setSubmitting(true);
+        setError('');
+
+        try {
+            const res = await fetch('/api/rooms/bulk', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ...bulkForm,
+                    hostel_id: parseInt(bulkForm.hostel_id),
+                    capacity: bulkForm.capacity || undefined,
+                    dry_run: dryRun
+                })
+            });
+            const data = await res.json();
+
+            if (!data.success) {
+                setError(data.error || 'Failed to generate rooms');
+            } else if (dryRun) {
+                setBulkPreview({ to_create: data.data.to_create, skipped: data.data.skipped });
+            } else {
+                setSuccessMessage(data.message);
+                setShowBulkModal(false);
+                setBulkForm(initialBulkForm);
+                setBulkPreview(null);
+                if (viewMode === 'table') {
+                    fetchRoomsTable();
+                } else {
+                    fetchRoomsGrid();
+                }
+            }
+        } catch {
+            setError('An error occurred. Please try again.');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
     const handleAssignStudent = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!selectedRoom || !selectedStudent) return;
@@ -293,6 +477,7 @@ export default function RoomsPage() {
                 body: JSON.stringify({
                     student_id: parseInt(selectedStudent),
                     room_id: selectedRoom.id,
+                    bed_id: selectedBed ? parseInt(selectedBed) : undefined,
                     expected_checkout: expectedCheckout || undefined
                 })
             });
@@ -302,6 +487,7 @@ export default function RoomsPage() {
                 setSuccessMessage('Student assigned successfully!');
                 setIsAssignModalOpen(false);
                 setSelectedStudent('');
+                setSelectedBed('');
                 setExpectedCheckout('');
                 fetchRoomDetails(selectedRoom);
                 fetchRoomsGrid();
@@ -348,15 +534,11 @@ export default function RoomsPage() {
         setError('');
 
         try {
-            await fetch(`/api/allocations/${selectedStudentToMove.id}`, {
-                method: 'DELETE'
-            });
-
-            const res = await fetch('/api/allocations', {
+            // Single transactional move: the old allocation is only ended if the new one succeeds
+            const res = await fetch(`/api/allocations/${selectedStudentToMove.id}/transfer`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
-                    student_id: selectedStudentToMove.student_id,
                     room_id: parseInt(targetRoom),
                     expected_checkout: expectedCheckout || undefined
                 })
@@ -383,9 +565,167 @@ export default function RoomsPage() {
         }
     };
 
+    const handleSwapStudents = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!selectedStudentToSwap || !swapWith) return;
+
+        setSubmitting(true);
+        setError('');
+
+        try {
+            const res = await fetch('/api/allocations/swap', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    first_allocation_id: selectedStudentToSwap.id,
+                    second_allocation_id: parseInt(swapWith)
+                })
+            });
+
+            const data = await res.json();
+            if (data.success) {
+                setSuccessMessage(data.message || 'Students swapped successfully!');
+                closeSwapModal();
+                if (selectedRoom) {
+                    fetchRoomDetails(selectedRoom);
+                }
+                fetchRoomsGrid();
+            } else {
+                setError(data.error || 'Failed to swap students');
+            }
+        } catch {
+            setError('An error occurred');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const handleToggleBedService = async (bed: Bed) => {
+        if (!selectedRoom) return;
+
+        const takingOut = bed.is_available;
+        const reason = takingOut ? prompt(`Why is bed ${bed.bed_label} out of service?`, bed.notes || '') : null;
+        if (takingOut && reason === null) return;
+
+        try {
+            const res = await fetch(`/api/rooms/${selectedRoom.id}/beds/${bed.id}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    is_available: !takingOut,
+                    notes: takingOut ? reason : null
+                })
+            });
+
+            const data = await res.json();
+            if (data.success) {
+                setSuccessMessage(`Bed ${bed.bed_label} ${takingOut ? 'taken out of service' : 'back in service'}`);
+                fetchRoomDetails(selectedRoom);
+            } else {
+                setError(data.error || 'Failed to update bed');
+            }
+        } catch {
+            setError('An error occurred. Please try again.');
+        }
+    };
+
+    const handleScheduleBlackout = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!selectedRoom) return;
+
+        setSubmitting(true);
+        setError('');
+
+        try {
+            const res = await fetch(`/api/rooms/${selectedRoom.id}/blackouts`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(blackoutForm)
+            });
+
+            const data = await res.json();
+            if (data.success) {
+                setSuccessMessage(data.message || 'Maintenance scheduled');
+                setIsBlackoutModalOpen(false);
+                setBlackoutForm(initialBlackoutForm);
+                fetchRoomDetails(selectedRoom);
+                fetchRoomsGrid();
+            } else {
+                setError(data.error || 'Failed to schedule maintenance');
+            }
+        } catch {
+            setError('An error occurred. Please try again.');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const handleCancelBlackout = async (blackout: RoomBlackout) => {
+        if (!selectedRoom) return;
+        if (!confirm(`Cancel the ${BLACKOUT_REASON_LABELS[blackout.reason].toLowerCase()} window from ${blackout.starts_on} to ${blackout.ends_on}?`)) return;
+
+        try {
+            const res = await fetch(`/api/rooms/${selectedRoom.id}/blackouts/${blackout.id}`, {
+                method: 'DELETE'
+            });
+
+            const data = await res.json();
+            if (data.success) {
+                setSuccessMessage(data.message || 'Maintenance cancelled');
+                fetchRoomDetails(selectedRoom);
+                fetchRoomsGrid();
+            } else {
+                setError(data.error || 'Failed to cancel maintenance');
+            }
+        } catch {
+            setError('An error occurred. Please try again.');
+        }
+    };
+
+    // Carry out one step of the relocation plan through the normal transfer
+    const handleRelocate = async (entry: RelocationPlanEntry) => {
+        if (!selectedRoom || !entry.target_room_id) return;
+
+        try {
+            const res = await fetch(`/api/allocations/${entry.allocation_id}/transfer`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ room_id: entry.target_room_id })
+            });
+
+            const data = await res.json();
+            if (data.success) {
+                setSuccessMessage(`${entry.student_name} moved to Room ${entry.target_room_number}`);
+                fetchRoomDetails(selectedRoom);
+                fetchRoomsGrid();
+            } else {
+                setError(data.error || 'Failed to move student');
+            }
+        } catch {
+            setError('An error occurred. Please try again.');
+        }
+    };
+
+    // Compatibility suggestions only make sense for rooms that are shared
+    const fetchRoommateSuggestions = async (room: Room) => {
+        setRoommateSuggestions([]);
+        if (room.capacity < 2) return;
+        try {
+            const res = await fetch(`/api/rooms/${room.id}/roommate-suggestions?limit=5`);
+            const data = await res.json();
+            if (data.success) {
+                setRoommateSuggestions(data.data.suggestions);
+            }
+        } catch (error) {
+            console.error('Failed to fetch roommate suggestions:', error);
+        }
+    };
+
     const openAssignModal = () => {
+        setSelectedBed('');
         setIsAssignModalOpen(true);
         fetchUnassignedStudents();
+        if (selectedRoom) fetchRoommateSuggestions(selectedRoom);
     };
 
     const openMoveModal = (allocation: Allocation) => {
@@ -393,10 +733,33 @@ export default function RoomsPage() {
         setIsMoveModalOpen(true);
     };
 
+    const openSwapModal = async (allocation: Allocation) => {
+        setSelectedStudentToSwap(allocation);
+        setIsSwapModalOpen(true);
+        try {
+            const res = await fetch('/api/allocations?is_active=true&limit=100');
+            const data = await res.json();
+            if (data.success) {
+                setSwapCandidates(data.data.filter((a: Allocation) => a.room_id !== allocation.room_id));
+            }
+        } catch (error) {
+            console.error('Failed to fetch swap candidates:', error);
+        }
+    };
+
+    const closeSwapModal = () => {
+        setIsSwapModalOpen(false);
+        setSelectedStudentToSwap(null);
+        setSwapCandidates([]);
+        setSwapWith('');
+    };
+
     // ============ GRID HELPERS ============
 
+    const freeBeds = roomBeds.filter(bed => bed.is_available && !bed.student_id);
+
     const getRoomStatus = (room: Room) => {
-        if (!room.is_available) return 'maintenance';
+        if (!room.is_available || room.in_blackout) return 'maintenance';
         if (room.current_occupancy >= room.capacity) return 'full';
         if (room.current_occupancy > 0) return 'partial';
         return 'empty';
@@ -481,6 +844,24 @@ export default function RoomsPage() {
                     {room.has_attached_bathroom && <span className="text-xs bg-green-100 text-green-700 px-1 rounded">Bath</span>}
                 </div>
             )
+        },
+        {
+            header: 'Actions',
+            accessor: (room) => (
+                <div className="flex gap-2">
+                    <button className="btn btn-secondary btn-sm" onClick={() => openEditModal(room)}>
+                        Edit
+                    </button>
+                    <button className="btn btn-secondary btn-sm" onClick={() => handleToggleAvailability(room)}>
+                        {room.is_available ? 'Close' : 'Reopen'}
+                    </button>
+                    {room.current_occupancy === 0 && (
+                        <button className="btn btn-secondary btn-sm" onClick={() => handleDeleteRoom(room)}>
+                            Delete
+                        </button>
+                    )}
+                </div>
+            )
         }
     ];
 
@@ -500,6 +881,10 @@ export default function RoomsPage() {
                     <p className="page-subtitle">Manage rooms and assignments in one place</p>
                 </div>
                 <div className="header-actions">
+                    <ExportButtons endpoint="/api/rooms" filters={{ hostel_id: filterHostel, room_type: filterType }} />
+                    <button className="btn btn-secondary" onClick={() => setShowBulkModal(true)}>
+                        Generate Floor
+                    </button>
                     <button className="btn btn-primary" onClick={() => setShowModal(true)}>
                         <span>+</span> Add Room
                     </button>
@@ -741,7 +1126,7 @@ export default function RoomsPage() {
                                         <div className="occupants-section">
                                             <div className="section-header-small">
                                                 <h3>Current Occupants</h3>
-                                                {selectedRoom.current_occupancy < selectedRoom.capacity && selectedRoom.is_available && (
+                                                {freeBeds.length > 0 && selectedRoom.is_available && (
                                                     <button
                                                         className="btn btn-primary btn-sm"
                                                         onClick={openAssignModal}
@@ -777,7 +1162,10 @@ export default function RoomsPage() {
                                                             </div>
                                                             <div className="occupant-info">
                                                                 <div className="occupant-name">{allocation.student_name}</div>
-                                                                <div className="occupant-reg">{allocation.registration_number}</div>
+                                                                <div className="occupant-reg">
+                                                                    {allocation.registration_number}
+                                                                    {allocation.bed_label && ` · Bed ${allocation.bed_label}`}
+                                                                </div>
                                                                 <div className="occupant-date">
                                                                     Since {new Date(allocation.allocation_date).toLocaleDateString()}
                                                                 </div>
@@ -790,6 +1178,13 @@ export default function RoomsPage() {
                                                                 >
                                                                     ↔️
                                                                 </button>
+                                                                <button
+                                                                    className="action-btn move"
+                                                                    title="Swap rooms with another student"
+                                                                    onClick={() => openSwapModal(allocation)}
+                                                                >
+                                                                    🔁
+                                                                </button>
                                                                 <button
                                                                     className="action-btn remove"
                                                                     title="Remove from room"
@@ -804,14 +1199,159 @@ export default function RoomsPage() {
                                             )}
                                         </div>
 
+                                        {/* Bed Layout */}
+                                        {roomBeds.length > 0 && (
+                                            <div className="beds-section">
+                                                <div className="section-header-small">
+                                                    <h3>Beds</h3>
+                                                </div>
+                                                <div className="bed-grid">
+                                                    {roomBeds.map(bed => (
+                                                        <div
+                                                            key={bed.id}
+                                                            className={`bed-tile ${!bed.is_available ? 'bed-out' : bed.student_id ? 'bed-taken' : 'bed-free'}`}
+                                                            title={bed.notes || undefined}
+                                                        >
+                                                            <div className="bed-label">
+                                                                🛏️ {bed.bed_label}
+                                                                {(bed.open_complaints ?? 0) > 0 && (
+                                                                    <span className="bed-issues" title="Open complaints for this bed">
+                                                                        ⚠️ {bed.open_complaints}
+                                                                    </span>
+                                                                )}
+                                                            </div>
+                                                            <div className="bed-occupant">
+                                                                {bed.student_name || (bed.is_available ? 'Free' : 'Out of service')}
+                                                            </div>
+                                                            <div className="bed-meta">
+                                                                {bed.has_desk ? 'Desk' : 'No desk'}
+                                                                {bed.locker_number && ` · Locker ${bed.locker_number}`}
+                                                            </div>
+                                                            <button
+                                                                className="bed-toggle"
+                                                                onClick={() => handleToggleBedService(bed)}
+                                                            >
+                                                                {bed.is_available ? 'Mark out of service' : 'Return to service'}
+                                                            </button>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        )}
+
+                                        {/* Maintenance Windows */}
+                                        <div className="beds-section">
+                                            <div className="section-header-small">
+                                                <h3>Maintenance Windows</h3>
+                                                <button
+                                                    className="btn btn-secondary btn-sm"
+                                                    onClick={() => setIsBlackoutModalOpen(true)}
+                                                >
+                                                    + Schedule
+                                                </button>
+                                            </div>
+
+                                            {roomBlackouts.filter(b => b.status === 'scheduled' || b.status === 'active').length === 0 ? (
+                                                <p className="blackout-empty">No maintenance scheduled</p>
+                                            ) : (
+                                                <div className="blackout-list">
+                                                    {roomBlackouts
+                                                        .filter(b => b.status === 'scheduled' || b.status === 'active')
+                                                        .map(blackout => (
+                                                            <div key={blackout.id} className="blackout-item">
+                                                                <div className="blackout-header">
+                                                                    <span>{BLACKOUT_REASON_LABELS[blackout.reason]}</span>
+                                                                    <span className={`badge ${blackout.status === 'active' ? 'badge-overdue' : 'badge-pending'}`}>
+                                                                        {blackout.status}
+                                                                    </span>
+                                                                </div>
+                                                                <div className="blackout-meta">
+                                                                    {new Date(blackout.starts_on).toLocaleDateString()} – {new Date(blackout.ends_on).toLocaleDateString()}
+                                                                    {blackout.notes && ` · ${blackout.notes}`}
+                                                                </div>
+                                                                <button
+                                                                    className="bed-toggle"
+                                                                    onClick={() => handleCancelBlackout(blackout)}
+                                                                >
+                                                                    Cancel window
+                                                                </button>
+                                                            </div>
+                                                        ))}
+                                                </div>
+                                            )}
+
+                                            {relocationPlan.length > 0 && (
+                                                <div className="relocation-plan">
+                                                    <h4>Relocation Plan</h4>
+                                                    {relocationPlan.map(entry => (
+                                                        <div key={entry.allocation_id} className="relocation-item">
+                                                            <div>
+                                                                <div className="relocation-name">{entry.student_name}</div>
+                                                                <div className="blackout-meta">
+                                                                    {entry.target_room_id
+                                                                        ? `→ ${entry.target_hostel_name}, Room ${entry.target_room_number}`
+                                                                        : entry.reason}
+                                                                </div>
+                                                            </div>
+                                                            {entry.target_room_id && (
+                                                                <button
+                                                                    className="btn btn-primary btn-sm"
+                                                                    title={entry.reason}
+                                                                    onClick={() => handleRelocate(entry)}
+                                                                >
+                                                                    Move
+                                                                </button>
+                                                            )}
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+
+                                        {/* Occupancy History */}
+                                        {roomHistory && roomHistory.room_id === selectedRoom.id && (
+                                            <div className="beds-section">
+                                                <div className="section-header-small">
+                                                    <h3>Past Occupants</h3>
+                                                </div>
+
+                                                {roomHistory.stays.filter(stay => !stay.is_active).length === 0 ? (
+                                                    <p className="blackout-empty">Nobody has moved out of this room yet</p>
+                                                ) : (
+                                                    <div className="blackout-list">
+                                                        {roomHistory.stays
+                                                            .filter(stay => !stay.is_active)
+                                                            .map(stay => (
+                                                                <div key={stay.allocation_id} className="blackout-item">
+                                                                    <div className="blackout-header">
+                                                                        <span>{stay.student_name}</span>
+                                                                        {stay.bed_label && <span className="blackout-meta">Bed {stay.bed_label}</span>}
+                                                                    </div>
+                                                                    <div className="blackout-meta">
+                                                                        {stay.registration_number} · {new Date(stay.allocation_date).toLocaleDateString()} – {stay.actual_checkout
+                                                                            ? new Date(stay.actual_checkout).toLocaleDateString()
+                                                                            : '?'}
+                                                                    </div>
+                                                                    <div className="blackout-meta">
+                                                                        Paid ₹{stay.amount_paid.toLocaleString()} of ₹{stay.amount_billed.toLocaleString()}
+                                                                        {stay.damage_charges > 0 && ` · Damages ₹${stay.damage_charges.toLocaleString()}`}
+                                                                        {stay.complaints_filed > 0 && ` · ${stay.complaints_filed} complaint(s)`}
+                                                                    </div>
+                                                                </div>
+                                                            ))}
+                                                    </div>
+                                                )}
+                                            </div>
+                                        )}
+
                                         {/* Vacant Beds Indicator */}
-                                        {selectedRoom.is_available && selectedRoom.current_occupancy < selectedRoom.capacity && (
+                                        {selectedRoom.is_available && freeBeds.length > 0 && (
                                             <div className="vacant-beds-indicator">
                                                 <span className="vacant-count">
-                                                    {selectedRoom.capacity - selectedRoom.current_occupancy}
+                                                    {freeBeds.length}
                                                 </span>
                                                 <span className="vacant-label">
-                                                    bed{selectedRoom.capacity - selectedRoom.current_occupancy > 1 ? 's' : ''} available
+                                                    bed{freeBeds.length > 1 ? 's' : ''} available
                                                 </span>
                                             </div>
                                         )}
@@ -828,13 +1368,13 @@ export default function RoomsPage() {
                 </div>
             )}
 
-            {/* ============ ADD ROOM MODAL ============ */}
+            {/* ============ ADD / EDIT ROOM MODAL ============ */}
             {showModal && (
                 <div className="modal-overlay">
                     <div className="modal">
                         <div className="modal-header">
-                            <h2 className="modal-title">Add New Room</h2>
-                            <button className="btn-close" onClick={() => setShowModal(false)}>×</button>
+                            <h2 className="modal-title">{editingRoom ? `Edit Room ${editingRoom.room_number}` : 'Add New Room'}</h2>
+                            <button className="btn-close" onClick={closeRoomModal}>×</button>
                         </div>
                         <form onSubmit={handleSubmitRoom}>
                             <div className="modal-body">
@@ -844,6 +1384,7 @@ export default function RoomsPage() {
                                         <select
                                             className="form-select"
                                             required
+                                            disabled={!!editingRoom}
                                             value={formData.hostel_id}
                                             onChange={(e) => setFormData({ ...formData, hostel_id: e.target.value })}
                                         >
@@ -897,7 +1438,7 @@ export default function RoomsPage() {
                                             className="form-input"
                                             required
                                             type="number"
-                                            min="1"
+                                            min={editingRoom ? Math.max(1, editingRoom.current_occupancy) : 1}
                                             max="10"
                                             value={formData.capacity}
                                             onChange={(e) => setFormData({ ...formData, capacity: e.target.value })}
@@ -939,7 +1480,7 @@ export default function RoomsPage() {
                                 <button
                                     type="button"
                                     className="btn btn-secondary"
-                                    onClick={() => setShowModal(false)}
+                                    onClick={closeRoomModal}
                                 >
                                     Cancel
                                 </button>
@@ -948,7 +1489,9 @@ export default function RoomsPage() {
                                     className="btn btn-primary"
                                     disabled={submitting}
                                 >
-                                    {submitting ? 'Creating...' : 'Create Room'}
+                                    {editingRoom
+                                        ? (submitting ? 'Saving...' : 'Save Changes')
+                                        : (submitting ? 'Creating...' : 'Create Room')}
                                 </button>
                             </div>
                         </form>
@@ -956,8 +1499,159 @@ export default function RoomsPage() {
                 </div>
             )}
 
-            {/* ============ ASSIGN STUDENT MODAL ============ */}
-            {isAssignModalOpen && (
+            {/* ============ BULK GENERATE MODAL ============ */}
+            {showBulkModal && (
+                <div className="modal-overlay">
+                    <div className="modal">
+                        <div className="modal-header">
+                            <h2 className="modal-title">Generate Floor or Wing</h2>
+                            <button
+                                className="btn-close"
+                                onClick={() => {
+                                    setShowBulkModal(false);
+                                    setBulkPreview(null);
+                                }}
+                            >
+                                ×
+                            </button>
+                        </div>
+                        <form onSubmit={(e) => { e.preventDefault(); handleBulkGenerate(!bulkPreview); }}>
+                            <div className="modal-body">
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div className="form-group">
+                                        <label className="form-label">Hostel *</label>
+                                        <select
+                                            className="form-select"
+                                            required
+                                            value={bulkForm.hostel_id}
+                                            onChange={(e) => { setBulkForm({ ...bulkForm, hostel_id: e.target.value }); setBulkPreview(null); }}
+                                        >
+                                            <option value="">Select Hostel</option>
+                                            {hostels.map(h => (
+                                                <option key={h.id} value={h.id}>{h.name}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="form-group">
+                                        <label className="form-label">Room Numbers *</label>
+                                        <input
+                                            className="form-input"
+                                            required
+                                            type="text"
+                                            placeholder="e.g. B-3{01..20}"
+                                            value={bulkForm.pattern}
+                                            onChange={(e) => { setBulkForm({ ...bulkForm, pattern: e.target.value }); setBulkPreview(null); }}
+                                        />
+                                    </div>
+                                    <div className="form-group">
+                                        <label className="form-label">Floor *</label>
+                                        <input
+                                            className="form-input"
+                                            required
+                                            type="number"
+                                            min="0"
+                                            value={bulkForm.floor}
+                                            onChange={(e) => setBulkForm({ ...bulkForm, floor: e.target.value })}
+                                        />
+                                    </div>
+                                    <div className="form-group">
+                                        <label className="form-label">Room Type</label>
+                                        <select
+                                            className="form-select"
+                                            value={bulkForm.room_type}
+                                            onChange={(e) => setBulkForm({ ...bulkForm, room_type: e.target.value })}
+                                        >
+                                            <option value="single">Single</option>
+                                            <option value="double">Double</option>
+                                            <option value="triple">Triple</option>
+                                            <option value="dormitory">Dormitory</option>
+                                        </select>
+                                    </div>
+                                    <div className="form-group">
+                                        <label className="form-label">Capacity {bulkForm.room_type === 'dormitory' ? '*' : '(Optional)'}</label>
+                                        <input
+                                            className="form-input"
+                                            required={bulkForm.room_type === 'dormitory'}
+                                            type="number"
+                                            min="1"
+                                            max="10"
+                                            placeholder="From room type"
+                                            value={bulkForm.capacity}
+                                            onChange={(e) => setBulkForm({ ...bulkForm, capacity: e.target.value })}
+                                        />
+                                    </div>
+                                    <div className="form-group">
+                                        <label className="form-label">Annual Rent (₹) *</label>
+                                        <input
+                                            className="form-input"
+                                            required
+                                            type="number"
+                                            min="0"
+                                            step="1000"
+                                            value={bulkForm.rent_amount}
+                                            onChange={(e) => setBulkForm({ ...bulkForm, rent_amount: e.target.value })}
+                                        />
+                                    </div>
+                                    <div className="form-check col-span-2">
+                                        <input
+                                            type="checkbox"
+                                            id="bulk_has_ac"
+                                            checked={bulkForm.has_ac}
+                                            onChange={(e) => setBulkForm({ ...bulkForm, has_ac: e.target.checked })}
+                                        />
+                                        <label htmlFor="bulk_has_ac" className="form-label mb-0">Air Conditioning</label>
+                                    </div>
+                                    <div className="form-check col-span-2">
+                                        <input
+                                            type="checkbox"
+                                            id="bulk_has_bath"
+                                            checked={bulkForm.has_attached_bathroom}
+                                            onChange={(e) => setBulkForm({ ...bulkForm, has_attached_bathroom: e.target.checked })}
+                                        />
+                                        <label htmlFor="bulk_has_bath" className="form-label mb-0">Attached Bathroom</label>
+                                    </div>
+                                </div>
+
+                                {bulkPreview && (
+                                    <div className="move-info" style={{ marginTop: 'var(--space-4)' }}>
+                                        <p>
+                                            <strong>{bulkPreview.to_create.length}</strong> room(s) will be created
+                                            {bulkPreview.to_create.length > 0 && `: ${bulkPreview.to_create[0]} … ${bulkPreview.to_create[bulkPreview.to_create.length - 1]}`}
+                                        </p>
+                                        {bulkPreview.skipped.length > 0 && (
+                                            <p className="form-hint">Already exist, skipped: {bulkPreview.skipped.join(', ')}</p>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                            <div className="modal-footer">
+                                <button
+                                    type="button"
+                                    className="btn btn-secondary"
+                                    onClick={() => {
+                                        setShowBulkModal(false);
+                                        setBulkPreview(null);
+                                    }}
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    className="btn btn-primary"
+                                    disabled={submitting || (bulkPreview !== null && bulkPreview.to_create.length === 0)}
+                                >
+                                    {submitting
+                                        ? 'Working...'
+                                        : bulkPreview ? `Create ${bulkPreview.to_create.length} Room(s)` : 'Preview'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* ============ ASSIGN STUDENT MODAL ============ */}
+            {isAssignModalOpen && (
                 <div className="modal-overlay">
                     <div className="modal" style={{ maxWidth: '500px' }}>
                         <div className="modal-header">
@@ -973,6 +1667,38 @@ export default function RoomsPage() {
                         </div>
                         <form onSubmit={handleAssignStudent}>
                             <div className="modal-body">
+                                {roommateSuggestions.length > 0 && (
+                                    <div className="form-group">
+                                        <label className="form-label">Suggested Roommates</label>
+                                        <div className="suggestion-list">
+                                            {roommateSuggestions.map(suggestion => (
+                                                <button
+                                                    key={suggestion.student_id}
+                                                    type="button"
+                                                    className={`suggestion-item ${selectedStudent === String(suggestion.student_id) ? 'selected' : ''}`}
+                                                    onClick={() => setSelectedStudent(String(suggestion.student_id))}
+                                                >
+                                                    <div className="suggestion-header">
+                                                        <span>
+                                                            {suggestion.student_name}
+                                                            <span className="suggestion-meta">
+                                                                {' '}{suggestion.registration_number}
+                                                                {suggestion.year_of_study ? ` · Year ${suggestion.year_of_study}` : ''}
+                                                            </span>
+                                                        </span>
+                                                        <span className="suggestion-score">
+                                                            {suggestion.score === null ? 'n/a' : `${suggestion.score}%`}
+                                                        </span>
+                                                    </div>
+                                                    {suggestion.reasons.length > 0 && (
+                                                        <div className="suggestion-meta">{suggestion.reasons.join(' · ')}</div>
+                                                    )}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
                                 <div className="form-group">
                                     <label className="form-label">Select Student</label>
                                     <select
@@ -994,6 +1720,23 @@ export default function RoomsPage() {
                                     )}
                                 </div>
 
+                                <div className="form-group">
+                                    <label className="form-label">Bed</label>
+                                    <select
+                                        className="form-select"
+                                        value={selectedBed}
+                                        onChange={(e) => setSelectedBed(e.target.value)}
+                                    >
+                                        <option value="">First free bed</option>
+                                        {freeBeds.map(bed => (
+                                            <option key={bed.id} value={bed.id}>
+                                                Bed {bed.bed_label}
+                                                {bed.locker_number ? ` (Locker ${bed.locker_number})` : ''}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+
                                 <div className="form-group">
                                     <label className="form-label">Expected Checkout (Optional)</label>
                                     <input
@@ -1107,6 +1850,158 @@ export default function RoomsPage() {
                 </div>
             )}
 
+            {/* ============ SCHEDULE MAINTENANCE MODAL ============ */}
+            {isBlackoutModalOpen && selectedRoom && (
+                <div className="modal-overlay">
+                    <div className="modal" style={{ maxWidth: '500px' }}>
+                        <div className="modal-header">
+                            <h2 className="modal-title">
+                                Schedule Maintenance for Room {selectedRoom.room_number}
+                            </h2>
+                            <button
+                                className="btn-close"
+                                onClick={() => setIsBlackoutModalOpen(false)}
+                            >
+                                ×
+                            </button>
+                        </div>
+                        <form onSubmit={handleScheduleBlackout}>
+                            <div className="modal-body">
+                                <div className="form-group">
+                                    <label className="form-label">Reason</label>
+                                    <select
+                                        className="form-select"
+                                        value={blackoutForm.reason}
+                                        onChange={(e) => setBlackoutForm({ ...blackoutForm, reason: e.target.value })}
+                                        required
+                                    >
+                                        {Object.entries(BLACKOUT_REASON_LABELS).map(([value, label]) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div className="form-group">
+                                        <label className="form-label">Start Date</label>
+                                        <input
+                                            type="date"
+                                            className="form-input"
+                                            value={blackoutForm.starts_on}
+                                            onChange={(e) => setBlackoutForm({ ...blackoutForm, starts_on: e.target.value })}
+                                            required
+                                        />
+                                    </div>
+                                    <div className="form-group">
+                                        <label className="form-label">End Date</label>
+                                        <input
+                                            type="date"
+                                            className="form-input"
+                                            value={blackoutForm.ends_on}
+                                            min={blackoutForm.starts_on || undefined}
+                                            onChange={(e) => setBlackoutForm({ ...blackoutForm, ends_on: e.target.value })}
+                                            required
+                                        />
+                                    </div>
+                                </div>
+
+                                <div className="form-group">
+                                    <label className="form-label">Notes (Optional)</label>
+                                    <input
+                                        type="text"
+                                        className="form-input"
+                                        value={blackoutForm.notes}
+                                        onChange={(e) => setBlackoutForm({ ...blackoutForm, notes: e.target.value })}
+                                        placeholder="e.g., Repainting and new flooring"
+                                    />
+                                </div>
+
+                                {selectedRoom.current_occupancy > 0 && (
+                                    <p className="form-hint">
+                                        This room has {selectedRoom.current_occupancy} resident(s). A relocation plan will be suggested.
+                                    </p>
+                                )}
+                            </div>
+                            <div className="modal-footer">
+                                <button
+                                    type="button"
+                                    className="btn btn-secondary"
+                                    onClick={() => setIsBlackoutModalOpen(false)}
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    className="btn btn-primary"
+                                    disabled={submitting}
+                                >
+                                    {submitting ? 'Scheduling...' : 'Schedule'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* ============ SWAP STUDENTS MODAL ============ */}
+            {isSwapModalOpen && selectedStudentToSwap && (
+                <div className="modal-overlay">
+                    <div className="modal" style={{ maxWidth: '500px' }}>
+                        <div className="modal-header">
+                            <h2 className="modal-title">
+                                Swap {selectedStudentToSwap.student_name}
+                            </h2>
+                            <button className="btn-close" onClick={closeSwapModal}>
+                                ×
+                            </button>
+                        </div>
+                        <form onSubmit={handleSwapStudents}>
+                            <div className="modal-body">
+                                <div className="move-info">
+                                    <p>
+                                        <strong>{selectedStudentToSwap.student_name}</strong> in Room
+                                        <strong> {selectedRoom?.room_number}</strong> will exchange rooms
+                                        with the selected student
+                                    </p>
+                                </div>
+
+                                <div className="form-group">
+                                    <label className="form-label">Swap With</label>
+                                    <select
+                                        className="form-select"
+                                        value={swapWith}
+                                        onChange={(e) => setSwapWith(e.target.value)}
+                                        required
+                                    >
+                                        <option value="">Select a student...</option>
+                                        {swapCandidates.map(a => (
+                                            <option key={a.id} value={a.id}>
+                                                {a.student_name} ({a.registration_number}) - {a.hostel_name} Room {a.room_number}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    {swapCandidates.length === 0 && (
+                                        <p className="form-hint">No students in other rooms to swap with</p>
+                                    )}
+                                </div>
+                            </div>
+                            <div className="modal-footer">
+                                <button type="button" className="btn btn-secondary" onClick={closeSwapModal}>
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    className="btn btn-primary"
+                                    disabled={submitting || !swapWith}
+                                >
+                                    {submitting ? 'Swapping...' : 'Swap Rooms'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
             <style jsx>{`
                 .room-management-page {
                     min-height: 100vh;
@@ -1587,6 +2482,139 @@ export default function RoomsPage() {
                     margin-bottom: var(--space-4);
                 }
 
+                .beds-section {
+                    border-top: 1px solid var(--gray-100);
+                    margin-top: var(--space-5);
+                    padding-top: var(--space-5);
+                }
+
+                .bed-grid {
+                    display: grid;
+                    grid-template-columns: repeat(2, 1fr);
+                    gap: var(--space-3);
+                }
+
+                .bed-tile {
+                    padding: var(--space-3);
+                    border-radius: var(--radius-lg);
+                    border: 2px solid transparent;
+                    font-size: 0.75rem;
+                }
+
+                .bed-tile.bed-free {
+                    background: #ecfdf5;
+                    border-color: #a7f3d0;
+                }
+
+                .bed-tile.bed-taken {
+                    background: var(--primary-50);
+                    border-color: var(--primary-200);
+                }
+
+                .bed-tile.bed-out {
+                    background: var(--gray-100);
+                    border-color: var(--gray-300);
+                    color: var(--gray-500);
+                }
+
+                .bed-label {
+                    display: flex;
+                    justify-content: space-between;
+                    font-weight: 700;
+                    font-size: 0.875rem;
+                    color: var(--gray-800);
+                }
+
+                .bed-issues {
+                    font-size: 0.7rem;
+                    color: var(--error-600);
+                }
+
+                .bed-occupant {
+                    margin-top: var(--space-1);
+                    font-weight: 500;
+                    white-space: nowrap;
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                }
+
+                .bed-meta {
+                    color: var(--gray-500);
+                    font-size: 0.7rem;
+                }
+
+                .bed-toggle {
+                    margin-top: var(--space-2);
+                    padding: 0;
+                    border: none;
+                    background: none;
+                    color: var(--primary-600);
+                    font-size: 0.7rem;
+                    cursor: pointer;
+                }
+
+                .bed-toggle:hover {
+                    text-decoration: underline;
+                }
+
+                .blackout-empty {
+                    font-size: 0.875rem;
+                    color: var(--gray-500);
+                }
+
+                .blackout-list {
+                    display: flex;
+                    flex-direction: column;
+                    gap: var(--space-2);
+                }
+
+                .blackout-item {
+                    padding: var(--space-3);
+                    border-radius: var(--radius-lg);
+                    background: var(--gray-50);
+                    border: 1px solid var(--gray-200);
+                    font-size: 0.875rem;
+                }
+
+                .blackout-header {
+                    display: flex;
+                    justify-content: space-between;
+                    align-items: center;
+                    font-weight: 600;
+                    color: var(--gray-800);
+                }
+
+                .blackout-meta {
+                    font-size: 0.75rem;
+                    color: var(--gray-500);
+                }
+
+                .relocation-plan {
+                    margin-top: var(--space-4);
+                }
+
+                .relocation-plan h4 {
+                    font-size: 0.875rem;
+                    font-weight: 600;
+                    color: var(--gray-700);
+                    margin-bottom: var(--space-2);
+                }
+
+                .relocation-item {
+                    display: flex;
+                    justify-content: space-between;
+                    align-items: center;
+                    gap: var(--space-2);
+                    padding: var(--space-2) 0;
+                    border-bottom: 1px solid var(--gray-100);
+                }
+
+                .relocation-name {
+                    font-size: 0.875rem;
+                    font-weight: 500;
+                    color: var(--gray-800);
+                }
+
                 .vacant-beds-indicator {
                     margin-top: var(--space-5);
                     padding: var(--space-4);
@@ -1664,6 +2692,46 @@ export default function RoomsPage() {
                     color: var(--gray-500);
                     margin-top: var(--space-2);
                 }
+
+                /* Roommate Suggestions */
+                .suggestion-list {
+                    display: flex;
+                    flex-direction: column;
+                    gap: var(--space-2);
+                }
+
+                .suggestion-item {
+                    text-align: left;
+                    padding: var(--space-2) var(--space-3);
+                    border: 2px solid var(--gray-200);
+                    border-radius: var(--radius-lg);
+                    background: white;
+                    cursor: pointer;
+                    font-size: 0.875rem;
+                }
+
+                .suggestion-item:hover,
+                .suggestion-item.selected {
+                    border-color: var(--primary-300);
+                    background: var(--primary-50);
+                }
+
+                .suggestion-header {
+                    display: flex;
+                    justify-content: space-between;
+                    font-weight: 600;
+                    color: var(--gray-800);
+                }
+
+                .suggestion-score {
+                    color: var(--primary-600);
+                }
+
+                .suggestion-meta {
+                    font-size: 0.75rem;
+                    font-weight: 400;
+                    color: var(--gray-500);
+                }
             `}</style>
         </div>
     );
@@ -0,0 +1,536 @@
+'use client';
+
+/**
+ * Maintenance Staff Page
+ * =======================
+ * Manage maintenance staff, their hostel assignment and availability,
+ * and see how many complaints each person is handling.
+ */
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+interface Staff {
+    id: number;
+    name: string;
+    email: string | null;
+    phone: string;
+    specialization: string | null;
+    hostel_id: number | null;
+    hostel_name: string | null;
+    is_available: boolean;
+    active_complaints: string;
+    resolved_complaints: string;
+}
+
+interface Workload {
+    staff_id: number;
+    avg_resolution_hours: string | null;
+}
+
+interface Hostel {
+    id: number;
+    name: string;
+}
+
+const specializations = [
+    'electrical', 'plumbing', 'furniture', 'cleaning',
+    'pest_control', 'internet', 'security', 'other'
+];
+
+const emptyForm = {
+    name: '',
+    email: '',
+    phone: '',
+    specialization: '',
+    hostel_id: '',
+    is_available: true
+};
+
+export default function StaffPage() {
+    const [staff, setStaff] = useState<Staff[]>([]);
+    const [workload, setWorkload] = useState<Map<number, Workload>>(new Map());
+    const [hostels, setHostels] = useState<Hostel[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [specializationFilter, setSpecializationFilter] = useState('');
+    const [availabilityFilter, setAvailabilityFilter] = useState('');
+    const [showForm, setShowForm] = useState(false);
+    const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+    const [selectedStaff, setSelectedStaff] = useState<Staff | null>(null);
+    const [formData, setFormData] = useState(emptyForm);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+    const [accountStaff, setAccountStaff] = useState<Staff | null>(null);
+    const [accountPassword, setAccountPassword] = useState('');
+
+    async function fetchStaff() {
+        setLoading(true);
+        try {
+            const params = new URLSearchParams();
+            if (specializationFilter) params.append('specialization', specializationFilter);
+            if (availabilityFilter) params.append('is_available', availabilityFilter);
+
+            const [staffRes, workloadRes] = await Promise.all([
+                fetch(`/api/staff?${params}`),
+                fetch('/api/staff/workload')
+            ]);
+            const staffData = await staffRes.json();
+            const workloadData = await workloadRes.json();
+
+            if (staffData.success) {
+                setStaff(staffData.data);
+            }
+            if (workloadData.success) {
+                setWorkload(new Map(workloadData.data.map((w: Workload) => [w.staff_id, w])));
+            }
+        } catch (error) {
+            console.error('Failed to fetch staff:', error);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    useEffect(() => {
+        fetchStaff();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [specializationFilter, availabilityFilter]);
+
+    useEffect(() => {
+        async function fetchHostels() {
+            try {
+                const res = await fetch('/api/hostels');
+                const data = await res.json();
+                if (data.success) setHostels(data.data);
+            } catch (error) {
+                console.error('Failed to fetch hostels:', error);
+            }
+        }
+        fetchHostels();
+    }, []);
+
+    function showMessage(type: 'success' | 'error', text: string) {
+        setMessage({ type, text });
+        setTimeout(() => setMessage(null), 5000);
+    }
+
+    function openAddModal() {
+        setSelectedStaff(null);
+        setFormData(emptyForm);
+        setShowForm(true);
+    }
+
+    function openEditModal(member: Staff) {
+        setSelectedStaff(member);
+        setFormData({
+            name: member.name,
+            email: member.email || '',
+            phone: member.phone,
+            specialization: member.specialization || '',
+            hostel_id: member.hostel_id ? member.hostel_id.toString() : '',
+            is_available: member.is_available
+        });
+        setShowForm(true);
+    }
+
+    function closeForm() {
+        setShowForm(false);
+        setSelectedStaff(null);
+    }
+
+    async function handleSubmit(e: React.FormEvent) {
+        e.preventDefault();
+        try {
+            const res = await fetch(selectedStaff ? `/api/staff/${selectedStaff.id}` : '/api/staff', {
+                method: selectedStaff ? 'PUT' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ...formData,
+                    specialization: formData.specialization || null,
+                    hostel_id: formData.hostel_id ? parseInt(formData.hostel_id) : null
+                })
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                showMessage('success', selectedStaff ? 'Staff member updated successfully!' : 'Staff member added successfully!');
+                closeForm();
+                fetchStaff();
+            } else {
+                showMessage('error', data.error || 'Failed to save staff member');
+            }
+        } catch {
+            showMessage('error', 'An error occurred');
+        }
+    }
+
+    async function toggleAvailability(member: Staff) {
+        try {
+            const res = await fetch(`/api/staff/${member.id}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ is_available: !member.is_available })
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                fetchStaff();
+            } else {
+                showMessage('error', data.error || 'Failed to update availability');
+            }
+        } catch {
+            showMessage('error', 'An error occurred');
+        }
+    }
+
+    async function handleSetPassword(e: React.FormEvent) {
+        e.preventDefault();
+        if (!accountStaff) return;
+
+        try {
+            const res = await fetch(`/api/staff/${accountStaff.id}/account`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ password: accountPassword })
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                showMessage('success', data.message);
+                setAccountStaff(null);
+                setAccountPassword('');
+            } else {
+                showMessage('error', data.error || 'Failed to set password');
+            }
+        } catch {
+            showMessage('error', 'An error occurred');
+        }
+    }
+
+    async function handleDelete() {
+        if (!selectedStaff) return;
+
+        try {
+            const res = await fetch(`/api/staff/${selectedStaff.id}`, { method: 'DELETE' });
+            const data = await res.json();
+
+            if (data.success) {
+                showMessage('success', 'Staff member removed successfully!');
+                fetchStaff();
+            } else {
+                showMessage('error', data.error || 'Failed to remove staff member');
+            }
+        } catch {
+            showMessage('error', 'An error occurred');
+        }
+
+        setShowDeleteConfirm(false);
+        setSelectedStaff(null);
+    }
+
+    const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all';
+
+    return (
+        <div className="max-w-7xl mx-auto px-6 py-8">
+            <Link href="/admin" className="inline-flex items-center text-gray-500 hover:text-indigo-600 mb-6 transition-colors font-medium">
+                <span className="mr-2">←</span> Back to Dashboard
+            </Link>
+
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+                <div>
+                    <h1 className="text-3xl font-bold text-indigo-950 mb-1">Maintenance Staff</h1>
+                    <p className="text-gray-500">Manage staff, hostel assignments and availability</p>
+                </div>
+                <button
+                    className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm flex items-center gap-2"
+                    onClick={openAddModal}
+                >
+                    <span>+</span> Add Staff
+                </button>
+            </div>
+
+            {message && (
+                <div className={`p-4 rounded-lg mb-6 ${message.type === 'success' ? 'bg-green-50 text-green-700 border border-green-200' : 'bg-red-50 text-red-700 border border-red-200'}`}>
+                    {message.text}
+                </div>
+            )}
+
+            {/* Filters */}
+            <div className="flex gap-3 mb-6 flex-wrap">
+                <select
+                    className="px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                    value={specializationFilter}
+                    onChange={(e) => setSpecializationFilter(e.target.value)}
+                >
+                    <option value="">All Specializations</option>
+                    {specializations.map((s) => (
+                        <option key={s} value={s} className="capitalize">{s.replace('_', ' ')}</option>
+                    ))}
+                </select>
+                <select
+                    className="px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                    value={availabilityFilter}
+                    onChange={(e) => setAvailabilityFilter(e.target.value)}
+                >
+                    <option value="">Any Availability</option>
+                    <option value="true">Available</option>
+                    <option value="false">Unavailable</option>
+                </select>
+            </div>
+
+            {/* Staff Table */}
+            <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+                {loading ? (
+                    <div className="min-h-[200px] flex items-center justify-center">
+                        <div className="animate-spin rounded-full h-8 w-8 border-4 border-indigo-200 border-t-indigo-600"></div>
+                    </div>
+                ) : staff.length === 0 ? (
+                    <div className="text-center py-12">
+                        <div className="text-4xl mb-3 opacity-50">🧰</div>
+                        <p className="text-gray-500 font-medium">No staff found</p>
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left border-collapse">
+                            <thead>
+                                <tr className="bg-gray-50/50 border-b border-gray-200 text-xs uppercase text-gray-500 font-medium">
+                                    <th className="px-6 py-3">Name</th>
+                                    <th className="px-6 py-3">Specialization</th>
+                                    <th className="px-6 py-3">Hostel</th>
+                                    <th className="px-6 py-3">Contact</th>
+                                    <th className="px-6 py-3 text-center">Active</th>
+                                    <th className="px-6 py-3 text-center">Resolved</th>
+                                    <th className="px-6 py-3 text-center">Avg. Resolution</th>
+                                    <th className="px-6 py-3">Availability</th>
+                                    <th className="px-6 py-3 text-center">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {staff.map((member) => {
+                                    const avgHours = workload.get(member.id)?.avg_resolution_hours;
+                                    return (
+                                        <tr key={member.id} className="hover:bg-gray-50/50 transition-colors text-sm text-gray-900">
+                                            <td className="px-6 py-3 font-medium">{member.name}</td>
+                                            <td className="px-6 py-3 capitalize">{member.specialization?.replace('_', ' ') || '-'}</td>
+                                            <td className="px-6 py-3 text-gray-500">{member.hostel_name || 'All hostels'}</td>
+                                            <td className="px-6 py-3 text-gray-500">
+                                                <div>{member.phone}</div>
+                                                {member.email && <div className="text-xs">{member.email}</div>}
+                                            </td>
+                                            <td className="px-6 py-3 text-center">
+                                                <span className={`font-semibold ${parseInt(member.active_complaints) > 0 ? 'text-amber-600' : 'text-gray-400'}`}>
+                                                    {member.active_complaints}
+                                                </span>
+                                            </td>
+                                            <td className="px-6 py-3 text-center text-green-600 font-semibold">{member.resolved_complaints}</td>
+                                            <td className="px-6 py-3 text-center text-gray-500">
+                                                {avgHours ? `${parseFloat(avgHours).toFixed(1)}h` : '-'}
+                                            </td>
+                                            <td className="px-6 py-3">
+                                                <button
+                                                    onClick={() => toggleAvailability(member)}
+                                                    className={`px-2 py-1 rounded-full text-xs font-semibold border transition-colors ${member.is_available
+                                                        ? 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100'
+                                                        : 'bg-gray-100 text-gray-600 border-gray-200 hover:bg-gray-200'
+                                                        }`}
+                                                    title="Toggle availability"
+                                                >
+                                                    {member.is_available ? 'Available' : 'Unavailable'}
+                                                </button>
+                                            </td>
+                                            <td className="px-6 py-3">
+                                                <div className="flex items-center justify-center gap-2">
+                                                    <button
+                                                        onClick={() => openEditModal(member)}
+                                                        className="px-2 py-1 text-xs font-medium text-gray-600 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"
+                                                    >
+                                                        Edit
+                                                    </button>
+                                                    {member.email && (
+                                                        <button
+                                                            onClick={() => { setAccountStaff(member); setAccountPassword(''); }}
+                                                            className="px-2 py-1 text-xs font-medium text-gray-600 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors"
+                                                        >
+                                                            Password
+                                                        </button>
+                                                    )}
+                                                    <button
+                                                        onClick={() => { setSelectedStaff(member); setShowDeleteConfirm(true); }}
+                                                        className="px-2 py-1 text-xs font-medium text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                                    >
+                                                        Remove
+                                                    </button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {/* Add / Edit Staff Modal */}
+            {showForm && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={closeForm}>
+                    <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+                        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50/50 sticky top-0">
+                            <h2 className="text-lg font-bold text-gray-900">{selectedStaff ? 'Edit Staff Member' : 'Add Staff Member'}</h2>
+                            <button onClick={closeForm} className="text-gray-400 hover:text-gray-600 transition-colors">✕</button>
+                        </div>
+                        <form onSubmit={handleSubmit}>
+                            <div className="p-6 space-y-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+                                    <input
+                                        type="text"
+                                        className={inputClass}
+                                        value={formData.name}
+                                        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                                        required
+                                    />
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Phone *</label>
+                                        <input
+                                            type="text"
+                                            className={inputClass}
+                                            value={formData.phone}
+                                            onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                                            required
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                                        <input
+                                            type="email"
+                                            className={inputClass}
+                                            value={formData.email}
+                                            onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                                        />
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Specialization</label>
+                                        <select
+                                            className={`${inputClass} bg-white`}
+                                            value={formData.specialization}
+                                            onChange={(e) => setFormData({ ...formData, specialization: e.target.value })}
+                                        >
+                                            <option value="">General</option>
+                                            {specializations.map((s) => (
+                                                <option key={s} value={s}>{s.replace('_', ' ')}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Hostel</label>
+                                        <select
+                                            className={`${inputClass} bg-white`}
+                                            value={formData.hostel_id}
+                                            onChange={(e) => setFormData({ ...formData, hostel_id: e.target.value })}
+                                        >
+                                            <option value="">All hostels</option>
+                                            {hostels.map((h) => (
+                                                <option key={h.id} value={h.id}>{h.name}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                </div>
+                                <label className="flex items-center gap-2 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={formData.is_available}
+                                        onChange={(e) => setFormData({ ...formData, is_available: e.target.checked })}
+                                    />
+                                    Available for new assignments
+                                </label>
+                            </div>
+                            <div className="px-6 py-4 bg-gray-50 flex justify-end gap-3 rounded-b-2xl border-t border-gray-100">
+                                <button type="button" className="px-4 py-2 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-white transition-colors" onClick={closeForm}>
+                                    Cancel
+                                </button>
+                                <button type="submit" className="px-4 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 transition-colors shadow-sm">
+                                    {selectedStaff ? 'Save Changes' : 'Add Staff'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* Set Password Modal */}
+            {accountStaff && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={() => setAccountStaff(null)}>
+                    <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden" onClick={(e) => e.stopPropagation()}>
+                        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50/50">
+                            <h2 className="text-lg font-bold text-gray-900">Set Login Password</h2>
+                            <button onClick={() => setAccountStaff(null)} className="text-gray-400 hover:text-gray-600 transition-colors">✕</button>
+                        </div>
+                        <form onSubmit={handleSetPassword}>
+                            <div className="p-6 space-y-4">
+                                <p className="text-sm text-gray-500">
+                                    {accountStaff.name} logs in as <strong>{accountStaff.email}</strong>. The login is created if it
+                                    does not exist yet; otherwise the password is reset and they are signed out.
+                                </p>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">New Password *</label>
+                                    <input
+                                        type="password"
+                                        className={inputClass}
+                                        value={accountPassword}
+                                        onChange={(e) => setAccountPassword(e.target.value)}
+                                        minLength={8}
+                                        autoComplete="new-password"
+                                        required
+                                    />
+                                </div>
+                            </div>
+                            <div className="px-6 py-4 bg-gray-50 flex justify-end gap-3 rounded-b-2xl border-t border-gray-100">
+                                <button type="button" className="px-4 py-2 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-white transition-colors" onClick={() => setAccountStaff(null)}>
+                                    Cancel
+                                </button>
+                                <button type="submit" className="px-4 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 transition-colors shadow-sm">
+                                    Save Password
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* Delete Confirmation Modal */}
+            {showDeleteConfirm && selectedStaff && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={() => { setShowDeleteConfirm(false); setSelectedStaff(null); }}>
+                    <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden" onClick={(e) => e.stopPropagation()}>
+                        <div className="p-6 text-center">
+                            <div className="text-5xl mb-4">⚠️</div>
+                            <h2 className="text-xl font-bold text-gray-900 mb-2">Remove Staff Member?</h2>
+                            <p className="text-gray-500 mb-2">
+                                Are you sure you want to remove <strong>{selectedStaff.name}</strong>?
+                            </p>
+                            <p className="text-sm text-gray-400 mb-6">
+                                Their login is removed too. Past complaints keep their history but show as unassigned.
+                            </p>
+                            <div className="flex gap-3 justify-center">
+                                <button
+                                    onClick={() => { setShowDeleteConfirm(false); setSelectedStaff(null); }}
+                                    className="px-6 py-2 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={handleDelete}
+                                    className="px-6 py-2 bg-red-600 text-white font-medium rounded-lg hover:bg-red-700 transition-colors shadow-sm"
+                                >
+                                    Remove
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
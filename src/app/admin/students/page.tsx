@@ -4,10 +4,28 @@
  * Students Management Page
  * =========================
  * List, add, edit, and manage students with pagination and search.
+ * Students can also be imported in bulk from a CSV or XLSX sheet.
  */
 
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
+import { ExportButtons } from '@/components/ui/ExportButtons';
+import { toCsv } from '@/lib/csv';
+import { StudentImportReport, StudentTimeline } from '@/lib/types';
+
+const IMPORT_TEMPLATE_HEADER = [
+    'registration_number', 'first_name', 'last_name', 'email', 'gender', 'phone', 'date_of_birth',
+    'address', 'guardian_name', 'guardian_phone', 'department', 'year_of_study', 'hostel', 'room_number'
+];
+
+function downloadCsv(fileName: string, rows: (string | number | null)[][]) {
+    const url = URL.createObjectURL(new Blob([toCsv(rows)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
 
 interface Student {
     id: number;
@@ -43,6 +61,15 @@ export default function StudentsPage() {
     const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
     const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
     const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+    const [showImport, setShowImport] = useState(false);
+    const [importFile, setImportFile] = useState<File | null>(null);
+    const [importReport, setImportReport] = useState<StudentImportReport | null>(null);
+    const [importing, setImporting] = useState(false);
+    const [importError, setImportError] = useState('');
+    const [historyStudent, setHistoryStudent] = useState<Student | null>(null);
+    const [timeline, setTimeline] = useState<StudentTimeline | null>(null);
+    const [accountStudent, setAccountStudent] = useState<Student | null>(null);
+    const [accountPassword, setAccountPassword] = useState('');
 
     // Form state
     const [formData, setFormData] = useState({
@@ -198,6 +225,52 @@ export default function StudentsPage() {
         setTimeout(() => setMessage(null), 5000);
     }
 
+    async function handleSetPassword(e: React.FormEvent) {
+        e.preventDefault();
+        if (!accountStudent) return;
+
+        try {
+            const res = await fetch(`/api/students/${accountStudent.id}/account`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ password: accountPassword })
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                setMessage({ type: 'success', text: data.message });
+                setAccountStudent(null);
+                setAccountPassword('');
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to set password' });
+            }
+        } catch {
+            setMessage({ type: 'error', text: 'An error occurred' });
+        }
+
+        setTimeout(() => setMessage(null), 5000);
+    }
+
+    async function openHistory(student: Student) {
+        setHistoryStudent(student);
+        setTimeline(null);
+        try {
+            const res = await fetch(`/api/students/${student.id}/history`);
+            const data = await res.json();
+            if (data.success) {
+                setTimeline(data.data);
+            } else {
+                setHistoryStudent(null);
+                setMessage({ type: 'error', text: data.error || 'Failed to load stay history' });
+                setTimeout(() => setMessage(null), 5000);
+            }
+        } catch {
+            setHistoryStudent(null);
+            setMessage({ type: 'error', text: 'An error occurred' });
+            setTimeout(() => setMessage(null), 5000);
+        }
+    }
+
     function openEditModal(student: Student) {
         setSelectedStudent(student);
         setFormData({
@@ -217,6 +290,53 @@ export default function StudentsPage() {
         setShowEditForm(true);
     }
 
+    function closeImportModal() {
+        setShowImport(false);
+        setImportFile(null);
+        setImportReport(null);
+        setImportError('');
+    }
+
+    // Dry run first; the same file is sent again with commit=true to import it
+    async function runImport(commit: boolean) {
+        if (!importFile) return;
+
+        setImporting(true);
+        setImportError('');
+        try {
+            const body = new FormData();
+            body.append('file', importFile);
+            body.append('commit', String(commit));
+
+            const res = await fetch('/api/students/import', { method: 'POST', body });
+            const data = await res.json();
+
+            if (!data.success) {
+                setImportError(data.error || 'Import failed');
+                setImportReport(null);
+            } else if (commit) {
+                setMessage({ type: 'success', text: data.message });
+                closeImportModal();
+                fetchStudents();
+                setTimeout(() => setMessage(null), 5000);
+            } else {
+                setImportReport(data.data);
+            }
+        } catch {
+            setImportError('An error occurred');
+        } finally {
+            setImporting(false);
+        }
+    }
+
+    function downloadErrorReport() {
+        if (!importReport) return;
+        downloadCsv('student-import-errors.csv', [
+            ['row', 'registration_number', 'email', 'errors'],
+            ...importReport.errors.map(e => [e.row, e.registration_number, e.email, e.errors.join('; ')])
+        ]);
+    }
+
     function openDeleteModal(student: Student) {
         setSelectedStudent(student);
         setShowDeleteConfirm(true);
@@ -233,12 +353,25 @@ export default function StudentsPage() {
                     <h1 className="text-3xl font-bold text-indigo-950 mb-1">Students Management</h1>
                     <p className="text-gray-500">Add and manage hostel residents</p>
                 </div>
-                <button
-                    className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm flex items-center gap-2"
-                    onClick={() => setShowAddForm(true)}
-                >
-                    <span>+</span> Add Student
-                </button>
+                <div className="flex gap-2">
+                    <ExportButtons
+                        endpoint="/api/students"
+                        filters={{ search }}
+                        className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+                    />
+                    <button
+                        className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+                        onClick={() => setShowImport(true)}
+                    >
+                        Import CSV / Excel
+                    </button>
+                    <button
+                        className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm flex items-center gap-2"
+                        onClick={() => setShowAddForm(true)}
+                    >
+                        <span>+</span> Add Student
+                    </button>
+                </div>
             </div>
 
             {message && (
@@ -307,16 +440,24 @@ export default function StudentsPage() {
                                             </td>
                                             <td className="px-6 py-3">
                                                 <div className="flex items-center justify-center gap-2">
-                                                    <Link
-                                                        href={`/student?id=${student.id}`}
+                                                    <button
+                                                        onClick={() => openHistory(student)}
                                                         className="p-1.5 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
-                                                        title="View Student Portal"
+                                                        title="Stay History"
                                                     >
                                                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                                                         </svg>
-                                                    </Link>
+                                                    </button>
+                                                    <button
+                                                        onClick={() => { setAccountStudent(student); setAccountPassword(''); }}
+                                                        className="p-1.5 text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors"
+                                                        title="Set Login Password"
+                                                    >
+                                                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+                                                        </svg>
+                                                    </button>
                                                     <button
                                                         onClick={() => openEditModal(student)}
                                                         className="p-1.5 text-gray-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"
@@ -615,6 +756,91 @@ export default function StudentsPage() {
                 </div>
             )}
 
+            {/* Stay History Modal */}
+            {historyStudent && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={() => setHistoryStudent(null)}>
+                    <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl overflow-hidden max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+                        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50/50 sticky top-0">
+                            <h2 className="text-lg font-bold text-gray-900">
+                                Stay History · {historyStudent.first_name} {historyStudent.last_name}
+                            </h2>
+                            <button onClick={() => setHistoryStudent(null)} className="text-gray-400 hover:text-gray-600 transition-colors">✕</button>
+                        </div>
+                        <div className="p-6 space-y-4">
+                            {!timeline ? (
+                                <div className="flex justify-center py-8">
+                                    <div className="animate-spin rounded-full h-8 w-8 border-4 border-indigo-200 border-t-indigo-600"></div>
+                                </div>
+                            ) : timeline.stays.length === 0 ? (
+                                <p className="text-center text-gray-500 py-8">This student has never been allocated a room.</p>
+                            ) : (
+                                timeline.stays.map(stay => (
+                                    <div key={stay.allocation_id} className="rounded-lg border border-gray-200 p-4">
+                                        <div className="flex justify-between items-start gap-2">
+                                            <div>
+                                                <div className="font-semibold text-gray-900">
+                                                    {stay.hostel_name}, Room {stay.room_number}{stay.bed_label && `, Bed ${stay.bed_label}`}
+                                                </div>
+                                                <div className="text-sm text-gray-500">
+                                                    {new Date(stay.allocation_date).toLocaleDateString()} – {stay.actual_checkout
+                                                        ? new Date(stay.actual_checkout).toLocaleDateString()
+                                                        : stay.is_active ? 'present' : 'unknown'}
+                                                    {stay.nights !== null && ` · ${stay.nights} night(s)`}
+                                                    {stay.previous_allocation_id && ' · transferred in'}
+                                                </div>
+                                            </div>
+                                            {stay.is_active && (
+                                                <span className="px-2 py-1 rounded-full text-xs font-semibold bg-green-50 text-green-700 border border-green-200">Current</span>
+                                            )}
+                                        </div>
+                                        <div className="text-sm text-gray-700 mt-2">
+                                            Billed ₹{stay.amount_billed.toLocaleString()} · Paid ₹{stay.amount_paid.toLocaleString()}
+                                            {stay.damage_charges > 0 && <span className="text-red-700"> · Damages ₹{stay.damage_charges.toLocaleString()}</span>}
+                                        </div>
+                                        {stay.payments.length > 0 && (
+                                            <ul className="text-xs text-gray-500 mt-2 space-y-1">
+                                                {stay.payments.map(payment => (
+                                                    <li key={payment.id}>
+                                                        #{payment.id} {payment.semester || payment.notes || ''} · ₹{payment.amount_paid} / ₹{payment.amount} · due {new Date(payment.due_date).toLocaleDateString()} · <span className="capitalize">{payment.payment_status}</span>
+                                                        {payment.receipt_number && ` · ${payment.receipt_number}`}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                        {stay.complaints.length > 0 && (
+                                            <ul className="text-xs text-gray-500 mt-2 space-y-1">
+                                                {stay.complaints.map(complaint => (
+                                                    <li key={complaint.id}>
+                                                        Complaint: {complaint.title} ({complaint.status.replace('_', ' ')}, {new Date(complaint.created_at).toLocaleDateString()})
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </div>
+                                ))
+                            )}
+                            {timeline && (timeline.unlinked_payments.length > 0 || timeline.unlinked_complaints.length > 0) && (
+                                <div className="rounded-lg border border-dashed border-gray-300 p-4">
+                                    <div className="font-semibold text-gray-900 mb-2">Not linked to a stay</div>
+                                    <ul className="text-xs text-gray-500 space-y-1">
+                                        {timeline.unlinked_payments.map(payment => (
+                                            <li key={`p-${payment.id}`}>
+                                                Payment #{payment.id} {payment.semester || payment.notes || ''} · ₹{payment.amount_paid} / ₹{payment.amount} · <span className="capitalize">{payment.payment_status}</span>
+                                            </li>
+                                        ))}
+                                        {timeline.unlinked_complaints.map(complaint => (
+                                            <li key={`c-${complaint.id}`}>
+                                                Complaint: {complaint.title} (Room {complaint.room_number}, {new Date(complaint.created_at).toLocaleDateString()})
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* Delete Confirmation Modal */}
             {showDeleteConfirm && selectedStudent && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={() => { setShowDeleteConfirm(false); setSelectedStudent(null); }}>
@@ -646,6 +872,162 @@ export default function StudentsPage() {
                     </div>
                 </div>
             )}
+
+            {/* Set Password Modal */}
+            {accountStudent && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={() => setAccountStudent(null)}>
+                    <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden" onClick={(e) => e.stopPropagation()}>
+                        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50/50">
+                            <h2 className="text-lg font-bold text-gray-900">Set Login Password</h2>
+                            <button onClick={() => setAccountStudent(null)} className="text-gray-400 hover:text-gray-600 transition-colors">✕</button>
+                        </div>
+                        <form onSubmit={handleSetPassword}>
+                            <div className="p-6 space-y-4">
+                                <p className="text-sm text-gray-500">
+                                    {accountStudent.first_name} {accountStudent.last_name} logs in as <strong>{accountStudent.email}</strong>.
+                                    The login is created if it does not exist yet; otherwise the password is reset and the student is signed out.
+                                </p>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">New Password *</label>
+                                    <input
+                                        type="password"
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                                        value={accountPassword}
+                                        onChange={(e) => setAccountPassword(e.target.value)}
+                                        minLength={8}
+                                        autoComplete="new-password"
+                                        required
+                                    />
+                                </div>
+                            </div>
+                            <div className="px-6 py-4 bg-gray-50 flex justify-end gap-3 rounded-b-2xl border-t border-gray-100">
+                                <button type="button" className="px-4 py-2 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-white transition-colors" onClick={() => setAccountStudent(null)}>
+                                    Cancel
+                                </button>
+                                <button type="submit" className="px-4 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 transition-colors shadow-sm">
+                                    Save Password
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* Import Students Modal */}
+            {showImport && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={closeImportModal}>
+                    <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl overflow-hidden max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+                        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50/50 sticky top-0">
+                            <h2 className="text-lg font-bold text-gray-900">Import Students</h2>
+                            <button onClick={closeImportModal} className="text-gray-400 hover:text-gray-600 transition-colors">✕</button>
+                        </div>
+                        <div className="p-6 space-y-4">
+                            <p className="text-sm text-gray-500">
+                                Upload a .csv or .xlsx sheet with one student per row. Add <strong>room_number</strong> (and <strong>hostel</strong> when
+                                room numbers repeat across hostels) to allocate rooms in the same import.{' '}
+                                <button
+                                    type="button"
+                                    className="text-indigo-600 hover:text-indigo-700 font-medium"
+                                    onClick={() => downloadCsv('student-import-template.csv', [IMPORT_TEMPLATE_HEADER])}
+                                >
+                                    Download template
+                                </button>
+                            </p>
+                            <input
+                                type="file"
+                                accept=".csv,.xlsx"
+                                className="block w-full text-sm text-gray-700 file:mr-3 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-indigo-50 file:text-indigo-700 file:font-medium hover:file:bg-indigo-100"
+                                onChange={(e) => {
+                                    setImportFile(e.target.files?.[0] || null);
+                                    setImportReport(null);
+                                    setImportError('');
+                                }}
+                            />
+
+                            {importError && (
+                                <div className="p-3 rounded-lg bg-red-50 text-red-700 border border-red-200 text-sm">{importError}</div>
+                            )}
+
+                            {importReport && (
+                                <>
+                                    <div className="grid grid-cols-4 gap-3">
+                                        {[
+                                            { label: 'Rows', value: importReport.total_rows, color: 'text-gray-900' },
+                                            { label: 'Valid', value: importReport.valid_rows, color: 'text-green-700' },
+                                            { label: 'Invalid', value: importReport.invalid_rows, color: 'text-red-700' },
+                                            { label: 'With room', value: importReport.rows_with_room, color: 'text-indigo-700' }
+                                        ].map((stat) => (
+                                            <div key={stat.label} className="bg-gray-50 rounded-lg p-3 border border-gray-100 text-center">
+                                                <div className={`text-2xl font-bold ${stat.color}`}>{stat.value}</div>
+                                                <div className="text-xs uppercase text-gray-500 font-medium">{stat.label}</div>
+                                            </div>
+                                        ))}
+                                    </div>
+
+                                    {importReport.errors.length > 0 && (
+                                        <div className="border border-gray-200 rounded-lg overflow-hidden">
+                                            <div className="px-4 py-2 bg-gray-50 border-b border-gray-200 flex justify-between items-center">
+                                                <span className="text-sm font-medium text-gray-700">Rows that will be skipped</span>
+                                                <button
+                                                    type="button"
+                                                    className="text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+                                                    onClick={downloadErrorReport}
+                                                >
+                                                    Download error report
+                                                </button>
+                                            </div>
+                                            <div className="max-h-64 overflow-y-auto">
+                                                <table className="w-full text-left text-sm">
+                                                    <thead>
+                                                        <tr className="text-xs uppercase text-gray-500 font-medium border-b border-gray-100">
+                                                            <th className="px-4 py-2">Row</th>
+                                                            <th className="px-4 py-2">Reg. Number</th>
+                                                            <th className="px-4 py-2">Problems</th>
+                                                        </tr>
+                                                    </thead>
+                                                    <tbody className="divide-y divide-gray-100">
+                                                        {importReport.errors.map((rowError) => (
+                                                            <tr key={rowError.row} className="align-top">
+                                                                <td className="px-4 py-2 text-gray-500">{rowError.row}</td>
+                                                                <td className="px-4 py-2 font-medium text-gray-900">{rowError.registration_number || '-'}</td>
+                                                                <td className="px-4 py-2 text-red-700">{rowError.errors.join('; ')}</td>
+                                                            </tr>
+                                                        ))}
+                                                    </tbody>
+                                                </table>
+                                            </div>
+                                        </div>
+                                    )}
+                                </>
+                            )}
+                        </div>
+                        <div className="px-6 py-4 bg-gray-50 flex justify-end gap-3 rounded-b-2xl border-t border-gray-100">
+                            <button type="button" className="px-4 py-2 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-white transition-colors" onClick={closeImportModal}>
+                                Cancel
+                            </button>
+                            {importReport && importReport.valid_rows > 0 ? (
+                                <button
+                                    type="button"
+                                    className="px-4 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 transition-colors shadow-sm disabled:opacity-50"
+                                    disabled={importing}
+                                    onClick={() => runImport(true)}
+                                >
+                                    {importing ? 'Importing...' : `Import ${importReport.valid_rows} valid row(s)`}
+                                </button>
+                            ) : (
+                                <button
+                                    type="button"
+                                    className="px-4 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 transition-colors shadow-sm disabled:opacity-50"
+                                    disabled={!importFile || importing}
+                                    onClick={() => runImport(false)}
+                                >
+                                    {importing ? 'Validating...' : 'Validate'}
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
         </div>
     );
 }
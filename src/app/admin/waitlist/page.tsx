@@ -0,0 +1,379 @@
+'use client';
+
+/**
+ * Waitlist
+ * ========
+ * Students queueing for full hostels, room types and rooms, and the bed
+ * offers made to them as allocations end.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { DataTable } from '@/components/ui/DataTable';
+import { Hostel, WaitlistEntry } from '@/lib/types';
+
+interface Student {
+    id: number;
+    first_name: string;
+    last_name: string;
+    registration_number: string;
+}
+
+interface Room {
+    id: number;
+    room_number: string;
+}
+
+const statusBadge: Record<string, string> = {
+    waiting: 'badge-pending',
+    offered: 'badge-assigned',
+    accepted: 'badge-paid',
+    declined: 'badge-closed',
+    expired: 'badge-overdue',
+    cancelled: 'badge-closed'
+};
+
+const describeTarget = (entry: WaitlistEntry) => {
+    if (entry.room_id) return `${entry.hostel_name}, Room ${entry.room_number}`;
+    return [entry.hostel_name || 'Any hostel', entry.room_type || 'any room type'].join(', ');
+};
+
+export default function WaitlistPage() {
+    const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [statusFilter, setStatusFilter] = useState('open');
+    const [error, setError] = useState('');
+    const [successMessage, setSuccessMessage] = useState('');
+
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [students, setStudents] = useState<Student[]>([]);
+    const [hostels, setHostels] = useState<Hostel[]>([]);
+    const [rooms, setRooms] = useState<Room[]>([]);
+    const [formData, setFormData] = useState({ student_id: '', hostel_id: '', room_type: '', room_id: '', notes: '' });
+    const [submitting, setSubmitting] = useState(false);
+
+    const fetchEntries = useCallback(async () => {
+        try {
+            const query = statusFilter && statusFilter !== 'open' ? `?status=${statusFilter}` : '';
+            const res = await fetch(`/api/waitlist${query}`);
+            const data = await res.json();
+            if (data.success) {
+                setEntries(statusFilter === 'open'
+                    ? data.data.filter((e: WaitlistEntry) => e.status === 'waiting' || e.status === 'offered')
+                    : data.data);
+            }
+        } catch (error) {
+            console.error('Failed to fetch waitlist:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [statusFilter]);
+
+    useEffect(() => {
+        fetchEntries();
+    }, [fetchEntries]);
+
+    const openModal = async () => {
+        setIsModalOpen(true);
+        setFormData({ student_id: '', hostel_id: '', room_type: '', room_id: '', notes: '' });
+        try {
+            const [studentsRes, hostelsRes] = await Promise.all([
+                fetch('/api/students?active=true&limit=100'),
+                fetch('/api/hostels?limit=100')
+            ]);
+            const studentsData = await studentsRes.json();
+            const hostelsData = await hostelsRes.json();
+            if (studentsData.success) setStudents(studentsData.data);
+            if (hostelsData.success) setHostels(hostelsData.data);
+        } catch (error) {
+            console.error('Failed to fetch form data:', error);
+        }
+    };
+
+    const handleHostelChange = async (hostelId: string) => {
+        setFormData({ ...formData, hostel_id: hostelId, room_id: '' });
+        setRooms([]);
+        if (!hostelId) return;
+        try {
+            const res = await fetch(`/api/rooms?hostel_id=${hostelId}&limit=100`);
+            const data = await res.json();
+            if (data.success) setRooms(data.data);
+        } catch (error) {
+            console.error('Failed to fetch rooms:', error);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitting(true);
+        setError('');
+
+        try {
+            const res = await fetch('/api/waitlist', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    student_id: parseInt(formData.student_id),
+                    hostel_id: formData.hostel_id || null,
+                    room_type: formData.room_type || null,
+                    room_id: formData.room_id || null,
+                    notes: formData.notes || null
+                })
+            });
+            const data = await res.json();
+            if (data.success) {
+                setIsModalOpen(false);
+                setSuccessMessage(data.message);
+                fetchEntries();
+            } else {
+                setError(data.error || 'Failed to add to waitlist');
+            }
+        } catch {
+            setError('An error occurred. Please try again.');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const handleRespond = async (entry: WaitlistEntry, accept: boolean) => {
+        if (!confirm(`${accept ? 'Accept' : 'Decline'} the offer on behalf of ${entry.student_name}?`)) return;
+        setError('');
+
+        try {
+            const res = await fetch(`/api/waitlist/${entry.id}/respond`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ accept })
+            });
+            const data = await res.json();
+            if (data.success) {
+                setSuccessMessage(data.message);
+                fetchEntries();
+            } else {
+                setError(data.error || 'Failed to respond to offer');
+            }
+        } catch {
+            setError('An error occurred. Please try again.');
+        }
+    };
+
+    const handleCancel = async (entry: WaitlistEntry) => {
+        if (!confirm(`Remove ${entry.student_name} from the waitlist?`)) return;
+        setError('');
+
+        try {
+            const res = await fetch(`/api/waitlist/${entry.id}`, { method: 'DELETE' });
+            const data = await res.json();
+            if (data.success) {
+                setSuccessMessage(data.message);
+                fetchEntries();
+            } else {
+                setError(data.error || 'Failed to cancel entry');
+            }
+        } catch {
+            setError('An error occurred. Please try again.');
+        }
+    };
+
+    return (
+        <div className="page-wrapper">
+            <div className="container main-content">
+                <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-8)' }}>
+                    <div>
+                        <h1>Waitlist</h1>
+                        <p className="card-subtitle">Students waiting for a bed in a full hostel or room</p>
+                    </div>
+                    <button onClick={openModal} className="btn btn-primary">
+                        + Add to Waitlist
+                    </button>
+                </div>
+
+                {error && <div className="alert alert-error">{error}</div>}
+                {successMessage && <div className="alert alert-success">{successMessage}</div>}
+
+                <div className="card" style={{ marginBottom: 'var(--space-6)' }}>
+                    <select
+                        className="form-select"
+                        value={statusFilter}
+                        onChange={(e) => setStatusFilter(e.target.value)}
+                        style={{ maxWidth: '220px' }}
+                    >
+                        <option value="open">Waiting & offered</option>
+                        <option value="">All entries</option>
+                        <option value="waiting">Waiting</option>
+                        <option value="offered">Offered</option>
+                        <option value="accepted">Accepted</option>
+                        <option value="declined">Declined</option>
+                        <option value="expired">Expired</option>
+                        <option value="cancelled">Cancelled</option>
+                    </select>
+                </div>
+
+                {loading ? (
+                    <div className="loading-container">
+                        <div className="spinner"></div>
+                    </div>
+                ) : (
+                    <DataTable<WaitlistEntry>
+                        columns={[
+                            {
+                                header: 'Student',
+                                accessor: (row) => (
+                                    <>
+                                        <div className="font-medium" style={{ color: 'var(--gray-900)' }}>{row.student_name}</div>
+                                        <div style={{ fontSize: '0.75rem', color: 'var(--gray-500)' }}>{row.registration_number}</div>
+                                    </>
+                                )
+                            },
+                            { header: 'Waiting For', accessor: (row) => describeTarget(row) },
+                            {
+                                header: 'Status',
+                                accessor: (row) => (
+                                    <>
+                                        <span className={`badge ${statusBadge[row.status]}`}>{row.status}</span>
+                                        {row.position && (
+                                            <div style={{ fontSize: '0.75rem', color: 'var(--gray-500)', marginTop: 'var(--space-1)' }}>
+                                                #{row.position} in queue
+                                            </div>
+                                        )}
+                                    </>
+                                )
+                            },
+                            {
+                                header: 'Offer',
+                                accessor: (row) => row.offered_bed_label ? (
+                                    <>
+                                        <div>{row.offered_hostel_name}, Room {row.offered_room_number}, Bed {row.offered_bed_label}</div>
+                                        {row.status === 'offered' && row.offer_expires_at && (
+                                            <div style={{ fontSize: '0.75rem', color: 'var(--gray-500)' }}>
+                                                Expires {new Date(row.offer_expires_at).toLocaleString()}
+                                            </div>
+                                        )}
+                                    </>
+                                ) : <span style={{ color: 'var(--gray-400)' }}>-</span>
+                            },
+                            { header: 'Joined', accessor: (row) => new Date(row.created_at).toLocaleDateString() },
+                            {
+                                header: 'Actions',
+                                accessor: (row) => (
+                                    <div className="flex" style={{ gap: 'var(--space-2)' }}>
+                                        {row.status === 'offered' && (
+                                            <>
+                                                <button className="btn btn-primary btn-sm" onClick={() => handleRespond(row, true)}>
+                                                    Accept
+                                                </button>
+                                                <button className="btn btn-secondary btn-sm" onClick={() => handleRespond(row, false)}>
+                                                    Decline
+                                                </button>
+                                            </>
+                                        )}
+                                        {(row.status === 'waiting' || row.status === 'offered') && (
+                                            <button className="btn btn-secondary btn-sm" onClick={() => handleCancel(row)}>
+                                                Remove
+                                            </button>
+                                        )}
+                                    </div>
+                                )
+                            }
+                        ]}
+                        data={entries}
+                        emptyMessage="Nobody is on the waitlist"
+                    />
+                )}
+
+                {isModalOpen && (
+                    <div className="modal-overlay">
+                        <div className="modal" style={{ maxWidth: '500px' }}>
+                            <div className="modal-header">
+                                <h2 className="card-title">Add to Waitlist</h2>
+                            </div>
+                            <form onSubmit={handleSubmit}>
+                                <div className="modal-body">
+                                    <div className="form-group">
+                                        <label className="form-label">Student</label>
+                                        <select
+                                            className="form-select"
+                                            value={formData.student_id}
+                                            onChange={(e) => setFormData({ ...formData, student_id: e.target.value })}
+                                            required
+                                        >
+                                            <option value="">Choose a student...</option>
+                                            {students.map(s => (
+                                                <option key={s.id} value={s.id}>
+                                                    {s.registration_number} - {s.first_name} {s.last_name}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="form-group">
+                                        <label className="form-label">Hostel</label>
+                                        <select
+                                            className="form-select"
+                                            value={formData.hostel_id}
+                                            onChange={(e) => handleHostelChange(e.target.value)}
+                                        >
+                                            <option value="">Any hostel</option>
+                                            {hostels.map(h => (
+                                                <option key={h.id} value={h.id}>{h.name}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="form-group">
+                                        <label className="form-label">Specific Room (Optional)</label>
+                                        <select
+                                            className="form-select"
+                                            value={formData.room_id}
+                                            onChange={(e) => setFormData({ ...formData, room_id: e.target.value })}
+                                            disabled={!formData.hostel_id}
+                                        >
+                                            <option value="">Any room</option>
+                                            {rooms.map(r => (
+                                                <option key={r.id} value={r.id}>Room {r.room_number}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    {!formData.room_id && (
+                                        <div className="form-group">
+                                            <label className="form-label">Room Type</label>
+                                            <select
+                                                className="form-select"
+                                                value={formData.room_type}
+                                                onChange={(e) => setFormData({ ...formData, room_type: e.target.value })}
+                                            >
+                                                <option value="">Any type</option>
+                                                <option value="single">Single</option>
+                                                <option value="double">Double</option>
+                                                <option value="triple">Triple</option>
+                                                <option value="dormitory">Dormitory</option>
+                                            </select>
+                                        </div>
+                                    )}
+                                    <div className="form-group">
+                                        <label className="form-label">Notes</label>
+                                        <input
+                                            type="text"
+                                            className="form-input"
+                                            value={formData.notes}
+                                            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                                        />
+                                    </div>
+                                </div>
+                                <div className="modal-footer">
+                                    <button type="button" className="btn btn-secondary" onClick={() => setIsModalOpen(false)}>
+                                        Cancel
+                                    </button>
+                                    <button
+                                        type="submit"
+                                        className="btn btn-primary"
+                                        disabled={submitting || !formData.student_id || (!formData.hostel_id && !formData.room_type)}
+                                    >
+                                        {submitting ? 'Adding...' : 'Add to Waitlist'}
+                                    </button>
+                                </div>
+                            </form>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,80 @@
+/**
+ * Batch Allocation API Route (App Router)
+ * ========================================
+ * Run the batch allocator over a round's applications.
+ *
+ * Endpoint: POST /api/allocation-rounds/[id]/allocate
+ * Body: { dry_run? }
+ *
+ * With dry_run the report of who would get which room (and why) is returned
+ * without writing anything. Without it the allocations are created and the
+ * round is published in a single transaction. See src/lib/batchAllocation.ts
+ * for the allocation rules.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { previewAllocationRound, publishAllocationRound } from '@/lib/batchAllocation';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/allocation-rounds/[id]/allocate
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const roundId = parseInt(id);
+
+        if (isNaN(roundId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid round ID' },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json();
+        const dryRun = body.dry_run === true;
+
+        if (dryRun) {
+            const plan = await previewAllocationRound(roundId);
+
+            if (!plan) {
+                return NextResponse.json(
+                    { success: false, error: 'Allocation round not found' },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json({
+                success: true,
+                data: plan,
+                message: `Dry run: ${plan.allocated} of ${plan.entries.length} applicants would get a room`
+            });
+        }
+
+        const result = await publishAllocationRound(roundId, auth.user.username);
+
+        if ('error' in result) {
+            return NextResponse.json(
+                { success: false, error: result.error },
+                { status: result.status }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: result,
+            message: `Published: ${result.allocated} students allocated, ${result.unallocated} without a room`
+        });
+    } catch (error) {
+        console.error('Batch allocation API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
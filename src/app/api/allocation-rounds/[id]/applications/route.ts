@@ -0,0 +1,322 @@
+/**
+ * Room Applications API Route (App Router)
+ * =========================================
+ * Students submit ranked room preferences for an allocation round.
+ *
+ * Endpoints:
+ * - GET /api/allocation-rounds/[id]/applications - All applications (own only for students)
+ * - POST /api/allocation-rounds/[id]/applications - Submit or replace an application
+ *
+ * Body: {
+ *   student_id,
+ *   choices: [{ hostel_id?, room_type?, wants_ac?, wants_attached_bathroom? }],  // rank = array order
+ *   roommates?: [registration_number]
+ * }
+ *
+ * Applications can only be changed while the round is open. Replacing an
+ * application keeps its original submission time, so editing preferences
+ * does not cost a student their place in the queue.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getClient, query } from '@/lib/db';
+import { authorize, canAccessStudent, forbidden, MANAGEMENT_ROLES } from '@/lib/auth';
+import { ApiResponse, RoomApplication } from '@/lib/types';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const MAX_CHOICES = 5;
+const MAX_ROOMMATES = 3;
+const ROOM_TYPES = ['single', 'double', 'triple', 'dormitory'];
+
+// Optional yes/no preference: true, false or null for "don't mind"
+const toPreference = (value: unknown) => (typeof value === 'boolean' ? value : null);
+
+/**
+ * GET /api/allocation-rounds/[id]/applications
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, [...MANAGEMENT_ROLES, 'student']);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const roundId = parseInt(id);
+
+        if (isNaN(roundId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid round ID' },
+                { status: 400 }
+            );
+        }
+
+        const params: (number | null)[] = [roundId];
+        let studentFilter = '';
+
+        if (auth.user.role === 'student') {
+            studentFilter = 'AND ra.student_id = $2';
+            params.push(auth.user.student_id);
+        }
+
+        // JSON_AGG: nest each application's choices and roommates in one row
+        const result = await query<RoomApplication>(
+            `SELECT
+              ra.*,
+              s.first_name || ' ' || s.last_name as student_name,
+              s.registration_number,
+              s.year_of_study,
+              COALESCE((
+                SELECT JSON_AGG(JSON_BUILD_OBJECT(
+                  'preference_rank', c.preference_rank,
+                  'hostel_id', c.hostel_id,
+                  'hostel_name', h.name,
+                  'room_type', c.room_type,
+                  'wants_ac', c.wants_ac,
+                  'wants_attached_bathroom', c.wants_attached_bathroom
+                ) ORDER BY c.preference_rank)
+                FROM room_application_choices c
+                LEFT JOIN hostels h ON c.hostel_id = h.id
+                WHERE c.application_id = ra.id
+              ), '[]') as choices,
+              COALESCE((
+                SELECT JSON_AGG(JSON_BUILD_OBJECT(
+                  'student_id', rs.id,
+                  'student_name', rs.first_name || ' ' || rs.last_name,
+                  'registration_number', rs.registration_number
+                ) ORDER BY rs.registration_number)
+                FROM room_application_roommates rr
+                INNER JOIN students rs ON rr.roommate_id = rs.id
+                WHERE rr.application_id = ra.id
+              ), '[]') as roommates
+             FROM room_applications ra
+             INNER JOIN students s ON ra.student_id = s.id
+             WHERE ra.round_id = $1 ${studentFilter}
+             ORDER BY s.year_of_study DESC NULLS LAST, ra.submitted_at, ra.id`,
+            params
+        );
+
+        return NextResponse.json<ApiResponse<RoomApplication[]>>({
+            success: true,
+            data: result.rows
+        });
+    } catch (error) {
+        console.error('Room applications API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/allocation-rounds/[id]/applications
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, [...MANAGEMENT_ROLES, 'student']);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const roundId = parseInt(id);
+
+        if (isNaN(roundId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid round ID' },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json();
+        const studentId = parseInt(String(body.student_id ?? auth.user.student_id));
+        const choices: Record<string, unknown>[] = Array.isArray(body.choices) ? body.choices : [];
+        const roommateNumbers: string[] = Array.isArray(body.roommates)
+            ? body.roommates.map((value: unknown) => String(value).trim()).filter(Boolean)
+            : [];
+
+        if (isNaN(studentId)) {
+            return NextResponse.json(
+                { success: false, error: 'Missing required field: student_id' },
+                { status: 400 }
+            );
+        }
+
+        if (!canAccessStudent(auth.user, studentId)) {
+            return forbidden('Students can only apply for themselves');
+        }
+
+        if (choices.length === 0 || choices.length > MAX_CHOICES) {
+            return NextResponse.json(
+                { success: false, error: `Give between 1 and ${MAX_CHOICES} room preferences` },
+                { status: 400 }
+            );
+        }
+
+        if (roommateNumbers.length > MAX_ROOMMATES) {
+            return NextResponse.json(
+                { success: false, error: `At most ${MAX_ROOMMATES} preferred roommates can be listed` },
+                { status: 400 }
+            );
+        }
+
+        const roundResult = await query<{ status: string }>(
+            'SELECT status FROM allocation_rounds WHERE id = $1',
+            [roundId]
+        );
+
+        if (roundResult.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Allocation round not found' },
+                { status: 404 }
+            );
+        }
+
+        if (roundResult.rows[0].status !== 'open') {
+            return NextResponse.json(
+                { success: false, error: 'Applications for this round are closed' },
+                { status: 400 }
+            );
+        }
+
+        const studentResult = await query<{ gender: string; registration_number: string }>(
+            'SELECT gender, registration_number FROM students WHERE id = $1 AND is_active = TRUE',
+            [studentId]
+        );
+
+        if (studentResult.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Student not found or is not active' },
+                { status: 400 }
+            );
+        }
+
+        const student = studentResult.rows[0];
+
+        // Validate each preference; hostels must accept the student's gender
+        const hostels = await query<{ id: number; name: string; gender_allowed: string }>(
+            'SELECT id, name, gender_allowed FROM hostels'
+        );
+
+        for (const choice of choices) {
+            if (choice.hostel_id) {
+                const hostel = hostels.rows.find(h => h.id === Number(choice.hostel_id));
+                if (!hostel) {
+                    return NextResponse.json(
+                        { success: false, error: `Hostel ${choice.hostel_id} not found` },
+                        { status: 400 }
+                    );
+                }
+                if (hostel.gender_allowed !== 'other' && hostel.gender_allowed !== student.gender) {
+                    return NextResponse.json(
+                        { success: false, error: `${hostel.name} is for ${hostel.gender_allowed} students only` },
+                        { status: 400 }
+                    );
+                }
+            }
+
+            if (choice.room_type && !ROOM_TYPES.includes(String(choice.room_type))) {
+                return NextResponse.json(
+                    { success: false, error: `Invalid room type. Must be one of: ${ROOM_TYPES.join(', ')}` },
+                    { status: 400 }
+                );
+            }
+        }
+
+        // Resolve roommates by registration number
+        const roommates = roommateNumbers.length > 0
+            ? await query<{ id: number; registration_number: string; gender: string }>(
+                `SELECT id, registration_number, gender
+                 FROM students
+                 WHERE registration_number IN (${roommateNumbers.map((_, i) => `$${i + 1}`).join(', ')})
+                   AND is_active = TRUE`,
+                roommateNumbers
+            )
+            : { rows: [] };
+
+        for (const number of roommateNumbers) {
+            const roommate = roommates.rows.find(r => r.registration_number === number);
+            if (!roommate) {
+                return NextResponse.json(
+                    { success: false, error: `No active student with registration number ${number}` },
+                    { status: 400 }
+                );
+            }
+            if (roommate.id === studentId) {
+                return NextResponse.json(
+                    { success: false, error: 'You cannot list yourself as a roommate' },
+                    { status: 400 }
+                );
+            }
+            if (roommate.gender !== student.gender) {
+                return NextResponse.json(
+                    { success: false, error: `${number} cannot share a room with ${student.registration_number}` },
+                    { status: 400 }
+                );
+            }
+        }
+
+        const client = await getClient();
+
+        try {
+            await client.query('BEGIN');
+
+            // Upsert keeps the original submitted_at
+            const applicationResult = await client.query<{ id: number; inserted: boolean }>(
+                `INSERT INTO room_applications (round_id, student_id)
+                 VALUES ($1, $2)
+                 ON CONFLICT (round_id, student_id)
+                 DO UPDATE SET status = 'submitted', updated_at = CURRENT_TIMESTAMP
+                 RETURNING id, (xmax = 0) as inserted`,
+                [roundId, studentId]
+            );
+            const application = applicationResult.rows[0];
+
+            await client.query('DELETE FROM room_application_choices WHERE application_id = $1', [application.id]);
+            await client.query('DELETE FROM room_application_roommates WHERE application_id = $1', [application.id]);
+
+            for (const [index, choice] of choices.entries()) {
+                await client.query(
+                    `INSERT INTO room_application_choices (
+                      application_id, preference_rank, hostel_id, room_type, wants_ac, wants_attached_bathroom
+                    ) VALUES ($1, $2, $3, $4, $5, $6)`,
+                    [
+                        application.id,
+                        index + 1,
+                        choice.hostel_id ? Number(choice.hostel_id) : null,
+                        choice.room_type || null,
+                        toPreference(choice.wants_ac),
+                        toPreference(choice.wants_attached_bathroom)
+                    ]
+                );
+            }
+
+            for (const roommate of roommates.rows) {
+                await client.query(
+                    'INSERT INTO room_application_roommates (application_id, roommate_id) VALUES ($1, $2)',
+                    [application.id, roommate.id]
+                );
+            }
+
+            await client.query('COMMIT');
+
+            return NextResponse.json(
+                {
+                    success: true,
+                    data: { id: application.id, round_id: roundId, student_id: studentId },
+                    message: application.inserted ? 'Application submitted' : 'Application updated'
+                },
+                { status: application.inserted ? 201 : 200 }
+            );
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
+        }
+    } catch (error) {
+        console.error('Room applications API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,73 @@
+/**
+ * Allocation Round Detail API Route (App Router)
+ * ===============================================
+ * Open or close a round for applications.
+ *
+ * Endpoint: PUT /api/allocation-rounds/[id]
+ * Body: { status: 'open' | 'closed' }
+ *
+ * A round becomes 'published' only through POST /api/allocation-rounds/[id]/allocate.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize } from '@/lib/auth';
+import { AllocationRound } from '@/lib/types';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * PUT /api/allocation-rounds/[id]
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const roundId = parseInt(id);
+
+        if (isNaN(roundId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid round ID' },
+                { status: 400 }
+            );
+        }
+
+        const { status } = await request.json();
+
+        if (!['open', 'closed'].includes(status)) {
+            return NextResponse.json(
+                { success: false, error: 'Status must be open or closed' },
+                { status: 400 }
+            );
+        }
+
+        const result = await query<AllocationRound>(
+            `UPDATE allocation_rounds
+             SET status = $1
+             WHERE id = $2 AND status <> 'published'
+             RETURNING *`,
+            [status, roundId]
+        );
+
+        if (result.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Round not found or already published' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: result.rows[0],
+            message: status === 'open' ? 'Applications reopened' : 'Applications closed'
+        });
+    } catch (error) {
+        console.error('Allocation round detail API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,97 @@
+/**
+ * Allocation Rounds API Routes (App Router)
+ * ==========================================
+ * Semester application windows for preference-based room allocation.
+ *
+ * Endpoints:
+ * - GET /api/allocation-rounds - List rounds with application counts
+ * - POST /api/allocation-rounds - Open a new round
+ *
+ * Students apply via /api/allocation-rounds/[id]/applications; the admin
+ * previews and publishes the result via /api/allocation-rounds/[id]/allocate.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize } from '@/lib/auth';
+import { AllocationRound, ApiResponse } from '@/lib/types';
+
+/**
+ * GET /api/allocation-rounds
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await authorize(request);
+        if (auth.error) return auth.error;
+
+        const result = await query<AllocationRound>(
+            `SELECT
+              ar.*,
+              COUNT(ra.id)::INTEGER as application_count,
+              COUNT(ra.id) FILTER (WHERE ra.status = 'allocated')::INTEGER as allocated_count
+             FROM allocation_rounds ar
+             LEFT JOIN room_applications ra ON ra.round_id = ar.id
+             GROUP BY ar.id
+             ORDER BY ar.created_at DESC`
+        );
+
+        return NextResponse.json<ApiResponse<AllocationRound[]>>({
+            success: true,
+            data: result.rows
+        });
+    } catch (error) {
+        console.error('Allocation rounds API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/allocation-rounds
+ *
+ * Body: { name }
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const body = await request.json();
+        const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+        if (!name) {
+            return NextResponse.json(
+                { success: false, error: 'Missing required field: name' },
+                { status: 400 }
+            );
+        }
+
+        const existing = await query('SELECT id FROM allocation_rounds WHERE name = $1', [name]);
+        if (existing.rows.length > 0) {
+            return NextResponse.json(
+                { success: false, error: 'An allocation round with this name already exists' },
+                { status: 409 }
+            );
+        }
+
+        const result = await query<AllocationRound>(
+            `INSERT INTO allocation_rounds (name, created_by)
+             VALUES ($1, $2)
+             RETURNING *`,
+            [name, auth.user.username]
+        );
+
+        return NextResponse.json(
+            { success: true, data: result.rows[0], message: `Applications are open for ${name}` },
+            { status: 201 }
+        );
+    } catch (error) {
+        console.error('Allocation rounds API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
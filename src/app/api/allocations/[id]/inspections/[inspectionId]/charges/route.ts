@@ -0,0 +1,106 @@
+/**
+ * Inspection Damage Charges API Route (App Router)
+ * =================================================
+ * Bill or waive the damages found at check-out.
+ *
+ * Endpoint: POST /api/allocations/[id]/inspections/[inspectionId]/charges
+ * Body: { charges: [{ damage_id, amount }], due_date? }
+ *
+ * All charged damages go on a single pending payment for the student, due in
+ * 14 days unless due_date is given. An amount of 0 waives the damage.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { chargeDamages } from '@/lib/inspections';
+
+type RouteContext = { params: Promise<{ id: string; inspectionId: string }> };
+
+/**
+ * POST /api/allocations/[id]/inspections/[inspectionId]/charges
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const { id, inspectionId } = await context.params;
+        const allocationId = parseInt(id);
+        const inspectionIdNum = parseInt(inspectionId);
+
+        if (isNaN(allocationId) || isNaN(inspectionIdNum)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid allocation or inspection ID' },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json();
+        const { charges, due_date } = body;
+
+        if (!Array.isArray(charges) || charges.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'charges must list at least one damage' },
+                { status: 400 }
+            );
+        }
+
+        const parsed = charges.map((charge: { damage_id: unknown; amount: unknown }) => ({
+            damage_id: parseInt(String(charge.damage_id)),
+            amount: parseFloat(String(charge.amount))
+        }));
+
+        if (parsed.some(charge => isNaN(charge.damage_id) || isNaN(charge.amount) || charge.amount < 0)) {
+            return NextResponse.json(
+                { success: false, error: 'Each charge needs a damage_id and an amount of zero or more' },
+                { status: 400 }
+            );
+        }
+
+        if (due_date && isNaN(Date.parse(due_date))) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid due_date' },
+                { status: 400 }
+            );
+        }
+
+        const belongs = await query(
+            'SELECT 1 FROM room_inspections WHERE id = $1 AND allocation_id = $2',
+            [inspectionIdNum, allocationId]
+        );
+        if (belongs.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Inspection not found' },
+                { status: 404 }
+            );
+        }
+
+        const result = await chargeDamages(inspectionIdNum, parsed, due_date || null);
+
+        if ('error' in result) {
+            return NextResponse.json(
+                { success: false, error: result.error },
+                { status: result.status }
+            );
+        }
+
+        const waived = parsed.filter(charge => charge.amount === 0).length;
+        let message = result.payment
+            ? `Damage charge of ₹${result.payment.amount} issued`
+            : 'No charge issued';
+        if (waived > 0) message += `; ${waived} item(s) waived`;
+
+        return NextResponse.json({
+            success: true,
+            data: result,
+            message
+        }, { status: result.payment ? 201 : 200 });
+    } catch (error) {
+        console.error('Inspection charges API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,86 @@
+/**
+ * Inspection Sign-off API Route (App Router)
+ * ===========================================
+ * The student's countersignature on a room inspection.
+ *
+ * Endpoint: POST /api/allocations/[id]/inspections/[inspectionId]/sign
+ * Body: { comments? }
+ *
+ * Only the student the allocation belongs to can sign, and only once.
+ * Comments are where a student records disagreement with the findings.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, forbidden } from '@/lib/auth';
+import { RoomInspection } from '@/lib/types';
+
+type RouteContext = { params: Promise<{ id: string; inspectionId: string }> };
+
+/**
+ * POST /api/allocations/[id]/inspections/[inspectionId]/sign
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, ['student']);
+        if (auth.error) return auth.error;
+
+        const { id, inspectionId } = await context.params;
+        const allocationId = parseInt(id);
+        const inspectionIdNum = parseInt(inspectionId);
+
+        if (isNaN(allocationId) || isNaN(inspectionIdNum)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid allocation or inspection ID' },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const { comments } = body;
+
+        const existing = await query<{ student_id: number; student_signed_at: Date | null }>(
+            `SELECT a.student_id, i.student_signed_at
+             FROM room_inspections i
+             INNER JOIN allocations a ON i.allocation_id = a.id
+             WHERE i.id = $1 AND i.allocation_id = $2`,
+            [inspectionIdNum, allocationId]
+        );
+
+        if (existing.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Inspection not found' },
+                { status: 404 }
+            );
+        }
+
+        if (existing.rows[0].student_id !== auth.user.student_id) return forbidden();
+
+        if (existing.rows[0].student_signed_at) {
+            return NextResponse.json(
+                { success: false, error: 'You have already signed this inspection' },
+                { status: 409 }
+            );
+        }
+
+        const result = await query<RoomInspection>(
+            `UPDATE room_inspections
+             SET student_signed_at = CURRENT_TIMESTAMP, student_comments = $1
+             WHERE id = $2
+             RETURNING *`,
+            [comments || null, inspectionIdNum]
+        );
+
+        return NextResponse.json({
+            success: true,
+            data: result.rows[0],
+            message: 'Inspection signed'
+        });
+    } catch (error) {
+        console.error('Inspection sign API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
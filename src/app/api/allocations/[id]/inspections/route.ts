@@ -0,0 +1,148 @@
+/**
+ * Allocation Inspections API Route (App Router)
+ * ==============================================
+ * Check-in and check-out inspections of the room behind an allocation.
+ *
+ * Endpoints:
+ * - GET /api/allocations/[id]/inspections - Recorded inspections, plus the
+ *   checklist to start the next one from
+ * - POST /api/allocations/[id]/inspections - Record an inspection (warden sign-off)
+ *   Body: { inspection_type: 'check_in' | 'check_out', condition_notes?, items: [...] }
+ *
+ * A check-out inspection is compared with the check-in one and any damages
+ * are returned with it; they are billed through .../[inspectionId]/charges.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, canAccessStudent, forbidden, MANAGEMENT_ROLES } from '@/lib/auth';
+import { InspectionItem } from '@/lib/types';
+import { defaultChecklist, listInspections, recordInspection, validateItems } from '@/lib/inspections';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/allocations/[id]/inspections
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const allocationId = parseInt(id);
+
+        if (isNaN(allocationId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid allocation ID' },
+                { status: 400 }
+            );
+        }
+
+        const allocation = await query<{ student_id: number; has_ac: boolean; has_attached_bathroom: boolean }>(
+            `SELECT a.student_id, r.has_ac, r.has_attached_bathroom
+             FROM allocations a
+             INNER JOIN rooms r ON a.room_id = r.id
+             WHERE a.id = $1`,
+            [allocationId]
+        );
+
+        if (allocation.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Allocation not found' },
+                { status: 404 }
+            );
+        }
+
+        if (!canAccessStudent(auth.user, allocation.rows[0].student_id)) return forbidden();
+
+        const inspections = await listInspections(allocationId);
+        const checkIn = inspections.find(inspection => inspection.inspection_type === 'check_in');
+
+        // Check-out starts from what was handed over at check-in
+        const checklist: InspectionItem[] = checkIn
+            ? checkIn.items.map(({ category, item_name, quantity, item_condition }) => ({
+                category, item_name, quantity, item_condition, notes: null
+            }))
+            : defaultChecklist(allocation.rows[0]);
+
+        return NextResponse.json({
+            success: true,
+            data: { inspections, checklist }
+        });
+    } catch (error) {
+        console.error('Allocation inspections API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/allocations/[id]/inspections
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const allocationId = parseInt(id);
+
+        if (isNaN(allocationId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid allocation ID' },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json();
+        const { inspection_type, condition_notes, items } = body;
+
+        if (inspection_type !== 'check_in' && inspection_type !== 'check_out') {
+            return NextResponse.json(
+                { success: false, error: 'inspection_type must be check_in or check_out' },
+                { status: 400 }
+            );
+        }
+
+        const itemError = validateItems(items);
+        if (itemError) {
+            return NextResponse.json(
+                { success: false, error: itemError },
+                { status: 400 }
+            );
+        }
+
+        const result = await recordInspection(
+            allocationId,
+            { inspection_type, condition_notes, items },
+            auth.user.username
+        );
+
+        if ('error' in result) {
+            return NextResponse.json(
+                { success: false, error: result.error },
+                { status: result.status }
+            );
+        }
+
+        const { inspection } = result;
+        const damageCount = inspection.damages?.length ?? 0;
+
+        return NextResponse.json({
+            success: true,
+            data: inspection,
+            message: inspection_type === 'check_in'
+                ? 'Check-in inspection recorded'
+                : `Check-out inspection recorded; ${damageCount} damaged or missing item(s) found`
+        }, { status: 201 });
+    } catch (error) {
+        console.error('Allocation inspections API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
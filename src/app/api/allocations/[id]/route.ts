@@ -5,18 +5,26 @@
  * 
  * Endpoints:
  * - GET /api/allocations/[id] - Get allocation details
- * - PUT /api/allocations/[id] - Update allocation
- * - DELETE /api/allocations/[id] - End allocation (checkout)
+ * - PUT /api/allocations/[id] - Update allocation (incl. moving to another bed in the same room)
+ * - DELETE /api/allocations/[id] - End allocation (checkout); the freed bed is offered to the waitlist.
+ *   A stay that was inspected at check-in needs its check-out inspection first
+ *   (POST /api/allocations/[id]/inspections).
+ *
+ * Room moves go through POST /api/allocations/[id]/transfer instead of DELETE + POST,
+ * and room exchanges between two students through POST /api/allocations/swap.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
+import { authorize, canAccessStudent, forbidden, MANAGEMENT_ROLES } from '@/lib/auth';
 import { ApiResponse } from '@/lib/types';
+import { offerFreedBeds } from '@/lib/waitlist';
 
 interface Allocation {
     id: number;
     student_id: number;
     room_id: number;
+    bed_id: number | null;
     allocation_date: Date;
     expected_checkout: Date | null;
     actual_checkout: Date | null;
@@ -27,6 +35,7 @@ interface Allocation {
     student_name?: string;
     registration_number?: string;
     room_number?: string;
+    bed_label?: string | null;
     hostel_name?: string;
 }
 
@@ -37,6 +46,9 @@ type RouteContext = { params: Promise<{ id: string }> };
  */
 export async function GET(request: NextRequest, context: RouteContext) {
     try {
+        const auth = await authorize(request);
+        if (auth.error) return auth.error;
+
         const { id } = await context.params;
         const allocationId = parseInt(id);
 
@@ -55,6 +67,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
               s.email as student_email,
               s.phone as student_phone,
               r.room_number,
+              b.bed_label,
               r.floor,
               r.room_type,
               r.rent_amount,
@@ -65,6 +78,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
              INNER JOIN students s ON a.student_id = s.id
              INNER JOIN rooms r ON a.room_id = r.id
              INNER JOIN hostels h ON r.hostel_id = h.id
+             LEFT JOIN beds b ON a.bed_id = b.id
              WHERE a.id = $1`,
             [allocationId]
         );
@@ -76,6 +90,8 @@ export async function GET(request: NextRequest, context: RouteContext) {
             );
         }
 
+        if (!canAccessStudent(auth.user, result.rows[0].student_id)) return forbidden();
+
         return NextResponse.json<ApiResponse<Allocation>>({
             success: true,
             data: result.rows[0]
@@ -94,6 +110,9 @@ export async function GET(request: NextRequest, context: RouteContext) {
  */
 export async function PUT(request: NextRequest, context: RouteContext) {
     try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
         const { id } = await context.params;
         const allocationId = parseInt(id);
 
@@ -105,7 +124,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
         }
 
         const body = await request.json();
-        const { expected_checkout, notes } = body;
+        const { expected_checkout, notes, bed_id } = body;
 
         const updates: string[] = [];
         const params: (string | number | null)[] = [];
@@ -121,6 +140,12 @@ export async function PUT(request: NextRequest, context: RouteContext) {
             params.push(notes);
         }
 
+        // The capacity trigger checks the bed is in the same room and free
+        if (bed_id !== undefined) {
+            updates.push(`bed_id = $${paramIndex++}`);
+            params.push(bed_id);
+        }
+
         if (updates.length === 0) {
             return NextResponse.json(
                 { success: false, error: 'No fields to update' },
@@ -166,6 +191,9 @@ export async function PUT(request: NextRequest, context: RouteContext) {
  */
 export async function DELETE(request: NextRequest, context: RouteContext) {
     try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
         const { id } = await context.params;
         const allocationId = parseInt(id);
 
@@ -198,6 +226,19 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
             );
         }
 
+        const inspections = await query<{ inspection_type: string }>(
+            'SELECT inspection_type FROM room_inspections WHERE allocation_id = $1',
+            [allocationId]
+        );
+        const inspected = inspections.rows.map(row => row.inspection_type);
+
+        if (inspected.includes('check_in') && !inspected.includes('check_out')) {
+            return NextResponse.json(
+                { success: false, error: 'Record the check-out inspection before checking this student out' },
+                { status: 409 }
+            );
+        }
+
         // Deactivate the allocation
         // NOTE: Room occupancy is automatically updated by the database trigger 'trg_check_room_capacity'
         // when is_active changes from TRUE to FALSE
@@ -208,11 +249,22 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
              RETURNING *`,
             [allocationId]
         );
+        let message = 'Allocation ended successfully (checkout)';
+
+        // Offer the freed bed to the waitlist; best-effort, the checkout stands either way
+        try {
+            const offers = await offerFreedBeds(existing.room_id);
+            if (offers.length > 0) {
+                message += `. Bed offered to ${offers.map(offer => offer.student_name).join(', ')} from the waitlist`;
+            }
+        } catch (offerError) {
+            console.error('Waitlist offer failed:', offerError);
+        }
 
         return NextResponse.json({
             success: true,
             data: result.rows[0],
-            message: 'Allocation ended successfully (checkout)'
+            message
         });
     } catch (error) {
         console.error('Allocation detail API error:', error);
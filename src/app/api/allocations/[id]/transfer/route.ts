@@ -0,0 +1,236 @@
+/**
+ * Allocation Transfer API Route (App Router)
+ * ===========================================
+ * Move a student from their current room to another room.
+ *
+ * Endpoint: POST /api/allocations/[id]/transfer
+ * Body: { room_id, bed_id?, expected_checkout?, notes? }
+ *
+ * DBMS CONCEPTS:
+ * - TRANSACTION: ending the old allocation and creating the new one either
+ *   both happen or neither does, so a failed move never leaves the student roomless
+ * - ROW LOCKING: SELECT ... FOR UPDATE on the allocation and target room stops
+ *   two concurrent moves from racing for the same bed
+ * - SELF-REFERENCING FK: the new allocation points back at the one it replaced
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getClient } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { Allocation } from '@/lib/types';
+import { offerFreedBeds } from '@/lib/waitlist';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/allocations/[id]/transfer
+ *
+ * Outstanding (unpaid) payments linked to the old allocation are moved to the
+ * new one; paid payments stay with the allocation they were paid against.
+ * As with a checkout, a stay inspected at check-in needs its check-out
+ * inspection first, and the freed bed is offered to the waitlist.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const allocationId = parseInt(id);
+
+        if (isNaN(allocationId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid allocation ID' },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json();
+        const { room_id, bed_id, expected_checkout, notes } = body;
+
+        if (!room_id) {
+            return NextResponse.json(
+                { success: false, error: 'Missing required field: room_id' },
+                { status: 400 }
+            );
+        }
+
+        const client = await getClient();
+
+        // Undo everything and answer with a client error
+        const reject = async (error: string, status = 400) => {
+            await client.query('ROLLBACK');
+            return NextResponse.json({ success: false, error }, { status });
+        };
+
+        try {
+            await client.query('BEGIN');
+
+            const currentResult = await client.query<Allocation & { gender: string }>(
+                `SELECT a.*, s.gender
+                 FROM allocations a
+                 INNER JOIN students s ON a.student_id = s.id
+                 WHERE a.id = $1
+                 FOR UPDATE OF a`,
+                [allocationId]
+            );
+
+            if (currentResult.rows.length === 0) {
+                return await reject('Allocation not found', 404);
+            }
+
+            const current = currentResult.rows[0];
+
+            if (!current.is_active) {
+                return await reject('Only an active allocation can be transferred');
+            }
+            if (current.room_id === parseInt(room_id)) {
+                return await reject('Student is already in this room');
+            }
+
+            // Leaving the old room is a checkout: same inspection rule as DELETE
+            const inspections = await client.query<{ inspection_type: string }>(
+                'SELECT inspection_type FROM room_inspections WHERE allocation_id = $1',
+                [allocationId]
+            );
+            const inspected = inspections.rows.map(row => row.inspection_type);
+
+            if (inspected.includes('check_in') && !inspected.includes('check_out')) {
+                return await reject('Record the check-out inspection before moving this student', 409);
+            }
+
+            // Lock the target room so its occupancy can't change under us
+            const roomResult = await client.query<{
+                capacity: number;
+                current_occupancy: number;
+                room_number: string;
+                gender_allowed: string;
+            }>(
+                `SELECT r.capacity, r.current_occupancy, r.room_number, h.gender_allowed
+                 FROM rooms r
+                 INNER JOIN hostels h ON r.hostel_id = h.id
+                 WHERE r.id = $1 AND r.is_available = TRUE AND NOT room_is_blacked_out(r.id)
+                 FOR UPDATE OF r`,
+                [room_id]
+            );
+
+            if (roomResult.rows.length === 0) {
+                return await reject('Room not found or not available');
+            }
+
+            const room = roomResult.rows[0];
+            if (room.current_occupancy >= room.capacity) {
+                return await reject('Room is at full capacity');
+            }
+            if (room.gender_allowed !== 'other' && current.gender !== room.gender_allowed) {
+                return await reject(`Room is for ${room.gender_allowed} students only`);
+            }
+
+            if (bed_id) {
+                const bedResult = await client.query<{ is_available: boolean; occupied: boolean; held: boolean }>(
+                    `SELECT b.is_available,
+                       EXISTS (SELECT 1 FROM allocations WHERE bed_id = b.id AND is_active = TRUE) as occupied,
+                       EXISTS (
+                         SELECT 1 FROM waitlist_entries w
+                         WHERE w.offered_bed_id = b.id
+                           AND w.status = 'offered'
+                           AND w.offer_expires_at > CURRENT_TIMESTAMP
+                           AND w.student_id <> $3
+                       ) as held
+                     FROM beds b
+                     WHERE b.id = $1 AND b.room_id = $2`,
+                    [bed_id, room_id, current.student_id]
+                );
+
+                if (bedResult.rows.length === 0) {
+                    return await reject('Bed not found in this room');
+                }
+                if (!bedResult.rows[0].is_available || bedResult.rows[0].occupied) {
+                    return await reject('Bed is not free');
+                }
+                if (bedResult.rows[0].held) {
+                    return await reject('Bed is held for another student by a waitlist offer', 409);
+                }
+            }
+
+            // End the current allocation (trigger frees the bed)
+            await client.query(
+                `UPDATE allocations
+                 SET is_active = FALSE, actual_checkout = CURRENT_DATE
+                 WHERE id = $1`,
+                [allocationId]
+            );
+
+            // Create the new allocation (trigger takes the requested or first free bed).
+            // Keep the old expected checkout unless a new one is given or it has already passed.
+            const newResult = await client.query<Allocation>(
+                `INSERT INTO allocations (
+                  student_id, room_id, bed_id, allocation_date, expected_checkout, notes, is_active, previous_allocation_id
+                ) VALUES (
+                  $1, $2, $3, CURRENT_DATE,
+                  COALESCE($4::DATE, CASE WHEN $5::DATE >= CURRENT_DATE THEN $5::DATE END),
+                  $6, TRUE, $7
+                )
+                RETURNING *`,
+                [
+                    current.student_id,
+                    room_id,
+                    bed_id || null,
+                    expected_checkout || null,
+                    current.expected_checkout,
+                    notes || `Transferred from allocation #${allocationId}`,
+                    allocationId
+                ]
+            );
+
+            const newAllocation = newResult.rows[0];
+
+            // Carry outstanding dues over to the new allocation
+            const paymentsResult = await client.query(
+                `UPDATE payments
+                 SET allocation_id = $1
+                 WHERE allocation_id = $2 AND payment_status <> 'paid'
+                 RETURNING id`,
+                [newAllocation.id, allocationId]
+            );
+
+            await client.query('COMMIT');
+
+            let message = `Student moved to room ${room.room_number}`;
+
+            // Offer the freed bed to the waitlist; best-effort, the move stands either way
+            try {
+                const offers = await offerFreedBeds(current.room_id);
+                if (offers.length > 0) {
+                    message += `. Old bed offered to ${offers.map(offer => offer.student_name).join(', ')} from the waitlist`;
+                }
+            } catch (offerError) {
+                console.error('Waitlist offer failed:', offerError);
+            }
+
+            return NextResponse.json(
+                {
+                    success: true,
+                    data: {
+                        allocation: newAllocation,
+                        previous_allocation_id: allocationId,
+                        payments_moved: paymentsResult.rowCount
+                    },
+                    message
+                },
+                { status: 201 }
+            );
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
+        }
+    } catch (error) {
+        console.error('Allocation transfer API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,131 @@
+/**
+ * Expected Checkouts API (App Router)
+ * ====================================
+ * Stays ending soon or overstayed, the job's event log, and the admin trigger
+ * for the expected-checkout job. The same job runs from cron via
+ * scripts/process-expected-checkouts.mjs; both call the
+ * process_expected_checkouts() function defined in triggers.sql.
+ *
+ * Endpoints:
+ * - GET /api/allocations/checkouts - Upcoming checkouts, overstays and events (own only for students)
+ *   Query: ?days=7
+ * - POST /api/allocations/checkouts - Run the job
+ *   Body: { as_of?, reminder_days?, grace_days?, auto_checkout? }
+ *
+ * See src/lib/checkouts.ts for what the job does.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { ApiResponse, CheckoutEvent, CheckoutJobResult, UpcomingCheckout } from '@/lib/types';
+import {
+    GRACE_DAYS,
+    listCheckoutEvents,
+    listUpcomingCheckouts,
+    processExpectedCheckouts,
+    REMINDER_DAYS
+} from '@/lib/checkouts';
+
+/**
+ * GET /api/allocations/checkouts
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await authorize(request, [...MANAGEMENT_ROLES, 'student']);
+        if (auth.error) return auth.error;
+
+        const days = parseInt(request.nextUrl.searchParams.get('days') || String(REMINDER_DAYS));
+
+        if (isNaN(days) || days < 0) {
+            return NextResponse.json(
+                { success: false, error: 'days must be a whole number of days' },
+                { status: 400 }
+            );
+        }
+
+        const studentFilter = auth.user.role === 'student' ? { student_id: auth.user.student_id } : {};
+
+        const [stays, events] = await Promise.all([
+            listUpcomingCheckouts({ ...studentFilter, days }),
+            listCheckoutEvents(studentFilter)
+        ]);
+
+        return NextResponse.json<ApiResponse<{
+            upcoming: UpcomingCheckout[];
+            overstays: UpcomingCheckout[];
+            events: CheckoutEvent[];
+        }>>({
+            success: true,
+            data: {
+                upcoming: stays.filter(stay => stay.days_left >= 0),
+                overstays: stays.filter(stay => stay.days_left < 0),
+                events
+            }
+        });
+    } catch (error) {
+        console.error('Expected checkouts API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/allocations/checkouts
+ *
+ * Body: { as_of?: 'YYYY-MM-DD', reminder_days?: 7, grace_days?: 3, auto_checkout?: false }
+ * as_of defaults to today. Stays are only ended when auto_checkout is true.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const body = await request.json().catch(() => ({}));
+        const asOf: string | null = body.as_of || null;
+        const reminderDays = body.reminder_days ?? REMINDER_DAYS;
+        const graceDays = body.grace_days ?? GRACE_DAYS;
+        const autoCheckout = body.auto_checkout === true;
+
+        if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+            return NextResponse.json(
+                { success: false, error: 'as_of must be a date in YYYY-MM-DD format' },
+                { status: 400 }
+            );
+        }
+
+        if (!Number.isInteger(reminderDays) || reminderDays < 0 || !Number.isInteger(graceDays) || graceDays < 0) {
+            return NextResponse.json(
+                { success: false, error: 'reminder_days and grace_days must be whole numbers of days' },
+                { status: 400 }
+            );
+        }
+
+        const summary = await processExpectedCheckouts({
+            as_of: asOf,
+            reminder_days: reminderDays,
+            grace_days: graceDays,
+            auto_checkout: autoCheckout
+        });
+
+        let message = `Logged ${summary.reminders_logged} reminder(s) and ${summary.overstays_logged} new overstay(s)`;
+        if (autoCheckout) {
+            message += `; checked out ${summary.checkouts_done} stay(s)` +
+                (summary.checkouts_blocked ? `, ${summary.checkouts_blocked} waiting on a check-out inspection` : '') +
+                (summary.waitlist_offers ? `, ${summary.waitlist_offers} bed(s) offered from the waitlist` : '');
+        }
+
+        return NextResponse.json<ApiResponse<CheckoutJobResult>>({
+            success: true,
+            data: summary,
+            message
+        });
+    } catch (error) {
+        console.error('Expected checkouts API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,53 @@
+/**
+ * Academic Rollover Audit API (App Router)
+ * =========================================
+ * Endpoint: GET /api/allocations/rollover/[id] - One rollover and every change it made
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { getRolloverChanges, listRollovers } from '@/lib/rollover';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/allocations/rollover/[id]
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const rolloverId = parseInt(id);
+
+        if (isNaN(rolloverId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid rollover ID' },
+                { status: 400 }
+            );
+        }
+
+        const [rollover] = await listRollovers({ id: rolloverId });
+
+        if (!rollover) {
+            return NextResponse.json(
+                { success: false, error: 'Rollover not found' },
+                { status: 404 }
+            );
+        }
+
+        const changes = await getRolloverChanges(rolloverId);
+
+        return NextResponse.json({
+            success: true,
+            data: { rollover, changes }
+        });
+    } catch (error) {
+        console.error('Rollover API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
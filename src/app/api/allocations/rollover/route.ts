@@ -0,0 +1,152 @@
+/**
+ * Academic Year Rollover API (App Router)
+ * ========================================
+ * End allocations for graduating students, keep or release rooms for
+ * returning students and move everyone up a year, in one transaction.
+ *
+ * Endpoints:
+ * - GET /api/allocations/rollover - Past rollovers
+ * - POST /api/allocations/rollover - Preview ({ dry_run: true }) or run a rollover
+ *
+ * See src/lib/rollover.ts for the rules.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { AcademicRollover, ApiResponse } from '@/lib/types';
+import { listRollovers, previewRollover, runRollover } from '@/lib/rollover';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/allocations/rollover
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const rollovers = await listRollovers();
+
+        return NextResponse.json<ApiResponse<AcademicRollover[]>>({
+            success: true,
+            data: rollovers
+        });
+    } catch (error) {
+        console.error('Rollover API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/allocations/rollover
+ *
+ * Body: {
+ *   academic_year, max_year_of_study, rollover_date,
+ *   retain_rooms?, new_expected_checkout?, dry_run?
+ * }
+ * new_expected_checkout is required when retain_rooms is true.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const body = await request.json();
+        const academicYear = typeof body.academic_year === 'string' ? body.academic_year.trim() : '';
+        const maxYear = parseInt(body.max_year_of_study);
+        const rolloverDate: string = body.rollover_date || '';
+        const retainRooms = body.retain_rooms === true;
+        const newExpectedCheckout: string | null = retainRooms ? body.new_expected_checkout || null : null;
+        const dryRun = body.dry_run === true;
+
+        if (!academicYear || !rolloverDate || isNaN(maxYear)) {
+            return NextResponse.json(
+                { success: false, error: 'Missing required fields: academic_year, max_year_of_study, rollover_date' },
+                { status: 400 }
+            );
+        }
+
+        if (academicYear.length > 20) {
+            return NextResponse.json(
+                { success: false, error: 'academic_year must be at most 20 characters' },
+                { status: 400 }
+            );
+        }
+
+        if (maxYear < 1 || maxYear > 6) {
+            return NextResponse.json(
+                { success: false, error: 'max_year_of_study must be between 1 and 6' },
+                { status: 400 }
+            );
+        }
+
+        if (![rolloverDate, newExpectedCheckout].every(d => d === null || DATE_PATTERN.test(d))) {
+            return NextResponse.json(
+                { success: false, error: 'Dates must be in YYYY-MM-DD format' },
+                { status: 400 }
+            );
+        }
+
+        if (retainRooms && (!newExpectedCheckout || newExpectedCheckout <= rolloverDate)) {
+            return NextResponse.json(
+                { success: false, error: 'Retained rooms need a new_expected_checkout after the rollover date' },
+                { status: 400 }
+            );
+        }
+
+        const options = { academicYear, maxYear, rolloverDate, retainRooms, newExpectedCheckout };
+
+        if (dryRun) {
+            const preview = await previewRollover(options);
+
+            if ('error' in preview) {
+                return NextResponse.json(
+                    { success: false, error: preview.error },
+                    { status: preview.status }
+                );
+            }
+
+            const { summary } = preview;
+            return NextResponse.json({
+                success: true,
+                data: preview,
+                message: `${summary.students_graduated} student(s) would graduate, ${summary.students_promoted} move up a year; ` +
+                    `${summary.allocations_ended} allocation(s) would end and ${summary.allocations_renewed} be renewed` +
+                    (summary.blocked ? `; ${summary.blocked} blocked by a missing check-out inspection` : '')
+            });
+        }
+
+        const result = await runRollover({ ...options, createdBy: auth.user.username });
+
+        if ('error' in result) {
+            return NextResponse.json(
+                { success: false, error: result.error },
+                { status: result.status }
+            );
+        }
+
+        const { rollover } = result;
+        return NextResponse.json(
+            {
+                success: true,
+                data: result,
+                message: `Rolled over ${rollover.academic_year}: ${rollover.students_graduated} graduated, ` +
+                    `${rollover.students_promoted} moved up a year, ${rollover.allocations_ended} allocation(s) ended, ` +
+                    `${rollover.allocations_renewed} renewed` +
+                    (result.blocked ? `; ${result.blocked} blocked by a missing check-out inspection` : '') +
+                    (result.waitlist_offers ? `; ${result.waitlist_offers} bed(s) offered from the waitlist` : '')
+            },
+            { status: 201 }
+        );
+    } catch (error) {
+        console.error('Rollover API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -5,17 +5,27 @@
  * 
  * Endpoints:
  * - GET /api/allocations - List all allocations
+ *   (?format=csv|xlsx downloads every matching allocation)
  * - POST /api/allocations - Create a new allocation
+ *   With waitlist_if_full: true a full room queues the student on the
+ *   waitlist for that room instead of failing (202)
+ *   With a future allocation_date the bed is booked from that date to
+ *   expected_checkout instead (see /api/bookings)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { query } from '@/lib/db';
+import { getClient, query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
 import { PaginatedResponse } from '@/lib/types';
+import { addToWaitlist } from '@/lib/waitlist';
+import { createBooking } from '@/lib/bookings';
+import { ExportColumn, exportResponse, getExportFormat } from '@/lib/export';
 
 interface Allocation {
     id: number;
     student_id: number;
     room_id: number;
+    bed_id: number | null;
     allocation_date: Date;
     expected_checkout: Date | null;
     actual_checkout: Date | null;
@@ -27,24 +37,53 @@ interface Allocation {
     student_name?: string;
     registration_number?: string;
     room_number?: string;
+    bed_label?: string | null;
     hostel_name?: string;
 }
 
+const EXPORT_COLUMNS: ExportColumn[] = [
+    { key: 'registration_number', header: 'Registration Number' },
+    { key: 'student_name', header: 'Student' },
+    { key: 'hostel_name', header: 'Hostel' },
+    { key: 'room_number', header: 'Room' },
+    { key: 'bed_label', header: 'Bed' },
+    { key: 'allocation_date', header: 'Allocated On' },
+    { key: 'expected_checkout', header: 'Expected Checkout' },
+    { key: 'actual_checkout', header: 'Checked Out' },
+    { key: 'is_active', header: 'Active' },
+    { key: 'notes', header: 'Notes' }
+];
+
 /**
  * GET /api/allocations
  */
 export async function GET(request: NextRequest) {
     try {
+        const auth = await authorize(request, [...MANAGEMENT_ROLES, 'student']);
+        if (auth.error) return auth.error;
+
         const searchParams = request.nextUrl.searchParams;
         const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
         const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')));
         const offset = (page - 1) * limit;
 
-        const studentId = searchParams.get('student_id');
+        let studentId = searchParams.get('student_id');
         const roomId = searchParams.get('room_id');
         const hostelId = searchParams.get('hostel_id');
         const isActive = searchParams.get('is_active');
 
+        // Students only see their own allocations, or who is in their current room
+        if (auth.user.role === 'student') {
+            const ownRoom = await query<{ room_id: number }>(
+                'SELECT room_id FROM allocations WHERE student_id = $1 AND is_active = TRUE',
+                [auth.user.student_id]
+            );
+            const isRoommateLookup = roomId !== null && ownRoom.rows[0]?.room_id === parseInt(roomId);
+            if (!isRoommateLookup) {
+                studentId = String(auth.user.student_id);
+            }
+        }
+
         const conditions: string[] = [];
         const params: (string | number | boolean)[] = [];
         let paramIndex = 1;
@@ -72,28 +111,37 @@ export async function GET(request: NextRequest) {
 
         const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
-        const countResult = await query<{ count: string }>(
-            `SELECT COUNT(*) as count 
-             FROM allocations a
-             INNER JOIN rooms r ON a.room_id = r.id
-             ${whereClause}`,
-            params
-        );
-        const total = parseInt(countResult.rows[0].count);
-
-        const dataResult = await query<Allocation>(
-            `SELECT 
+        const listSql = `SELECT 
               a.*,
               s.first_name || ' ' || s.last_name as student_name,
               s.registration_number,
               r.room_number,
+              b.bed_label,
               h.name as hostel_name
              FROM allocations a
              INNER JOIN students s ON a.student_id = s.id
              INNER JOIN rooms r ON a.room_id = r.id
              INNER JOIN hostels h ON r.hostel_id = h.id
+             LEFT JOIN beds b ON a.bed_id = b.id
              ${whereClause}
-             ORDER BY a.allocation_date DESC
+             ORDER BY a.allocation_date DESC`;
+
+        const format = getExportFormat(searchParams);
+        if (format) {
+            return exportResponse(format, 'allocations', EXPORT_COLUMNS, listSql, params);
+        }
+
+        const countResult = await query<{ count: string }>(
+            `SELECT COUNT(*) as count 
+             FROM allocations a
+             INNER JOIN rooms r ON a.room_id = r.id
+             ${whereClause}`,
+            params
+        );
+        const total = parseInt(countResult.rows[0].count);
+
+        const dataResult = await query<Allocation>(
+            `${listSql}
              LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
             [...params, limit, offset]
         );
@@ -121,14 +169,20 @@ export async function GET(request: NextRequest) {
  * POST /api/allocations
  * 
  * Creates a new room allocation for a student.
+ * bed_id is optional; without it the first free bed in the room is used.
+ * allocation_date defaults to today; a later date books the bed instead.
  * The database trigger will automatically:
+ * - Pick or validate the bed
  * - Update the room's current_occupancy
  * - Deactivate previous allocations for the student
  */
 export async function POST(request: NextRequest) {
     try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
         const body = await request.json();
-        const { student_id, room_id, expected_checkout, notes } = body;
+        const { student_id, room_id, bed_id, allocation_date, expected_checkout, notes, waitlist_if_full } = body;
 
         if (!student_id || !room_id) {
             return NextResponse.json(
@@ -137,6 +191,63 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (allocation_date) {
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(allocation_date)) {
+                return NextResponse.json(
+                    { success: false, error: 'allocation_date must be a date in YYYY-MM-DD format' },
+                    { status: 400 }
+                );
+            }
+
+            const when = await query<{ past: boolean; future: boolean }>(
+                'SELECT $1::DATE < CURRENT_DATE as past, $1::DATE > CURRENT_DATE as future',
+                [allocation_date]
+            );
+
+            if (when.rows[0].past) {
+                return NextResponse.json(
+                    { success: false, error: 'allocation_date cannot be in the past' },
+                    { status: 400 }
+                );
+            }
+
+            // Future-dated: reserve the bed; it becomes an allocation on arrival
+            if (when.rows[0].future) {
+                if (!expected_checkout) {
+                    return NextResponse.json(
+                        { success: false, error: 'A future-dated allocation needs an expected_checkout' },
+                        { status: 400 }
+                    );
+                }
+
+                const booking = await createBooking({
+                    student_id: parseInt(student_id),
+                    room_id: parseInt(room_id),
+                    bed_id: bed_id ? parseInt(bed_id) : null,
+                    starts_on: allocation_date,
+                    ends_on: expected_checkout,
+                    notes,
+                    created_by: auth.user.username
+                });
+
+                if ('error' in booking) {
+                    return NextResponse.json(
+                        { success: false, error: booking.error },
+                        { status: booking.status }
+                    );
+                }
+
+                return NextResponse.json(
+                    {
+                        success: true,
+                        data: booking,
+                        message: `Bed ${booking.bed_label} booked from ${booking.starts_on}; the allocation starts on arrival`
+                    },
+                    { status: 201 }
+                );
+            }
+        }
+
         // Verify student exists and is active
         const studentCheck = await query(
             'SELECT id, gender FROM students WHERE id = $1 AND is_active = TRUE',
@@ -149,18 +260,22 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Verify room exists and has capacity
+        // Verify room exists and has a bed free for the stay, by the allocation
+        // trigger's rule: beds held by waitlist offers or booked by other
+        // students during the stay count as taken (bed_is_free)
         const roomCheck = await query<{
             id: number;
-            capacity: number;
-            current_occupancy: number;
+            free_beds: number;
             gender_allowed: string;
         }>(
-            `SELECT r.id, r.capacity, r.current_occupancy, h.gender_allowed 
+            `SELECT r.id, h.gender_allowed,
+               (SELECT COUNT(*) FROM beds b
+                WHERE b.room_id = r.id
+                  AND bed_is_free(b.id, $2, CURRENT_DATE, $3::DATE))::INTEGER as free_beds
              FROM rooms r
              INNER JOIN hostels h ON r.hostel_id = h.id
-             WHERE r.id = $1 AND r.is_available = TRUE`,
-            [room_id]
+             WHERE r.id = $1 AND r.is_available = TRUE AND NOT room_is_blacked_out(r.id)`,
+            [room_id, student_id, expected_checkout || null]
         );
 
         if (roomCheck.rows.length === 0) {
@@ -171,13 +286,90 @@ export async function POST(request: NextRequest) {
         }
 
         const room = roomCheck.rows[0];
-        if (room.current_occupancy >= room.capacity) {
+        if (room.free_beds < 1) {
+            if (waitlist_if_full) {
+                const entry = await addToWaitlist({
+                    student_id: parseInt(student_id),
+                    room_id: parseInt(room_id),
+                    notes,
+                    created_by: auth.user.username
+                });
+
+                if ('error' in entry) {
+                    return NextResponse.json(
+                        { success: false, error: `Room is at full capacity and could not waitlist: ${entry.error}` },
+                        { status: entry.status }
+                    );
+                }
+
+                return NextResponse.json(
+                    {
+                        success: true,
+                        data: entry,
+                        message: `Room is at full capacity; added to its waitlist at position ${entry.position}`
+                    },
+                    { status: 202 }
+                );
+            }
+
             return NextResponse.json(
                 { success: false, error: 'Room is at full capacity' },
                 { status: 400 }
             );
         }
 
+        if (bed_id) {
+            const bedCheck = await query<{ is_available: boolean; occupied: boolean; held: boolean; booked: boolean }>(
+                `SELECT b.is_available,
+                   EXISTS (SELECT 1 FROM allocations WHERE bed_id = b.id AND is_active = TRUE) as occupied,
+                   EXISTS (
+                     SELECT 1 FROM waitlist_entries w
+                     WHERE w.offered_bed_id = b.id
+                       AND w.status = 'offered'
+                       AND w.offer_expires_at > CURRENT_TIMESTAMP
+                       AND w.student_id <> $3
+                   ) as held,
+                   EXISTS (
+                     SELECT 1 FROM bed_bookings bb
+                     WHERE bb.bed_id = b.id
+                       AND bb.status = 'booked'
+                       AND bb.student_id <> $3
+                       AND bb.stay && daterange(CURRENT_DATE, $4::DATE)
+                   ) as booked
+                 FROM beds b
+                 WHERE b.id = $1 AND b.room_id = $2`,
+                [bed_id, room_id, student_id, expected_checkout || null]
+            );
+
+            if (bedCheck.rows.length === 0) {
+                return NextResponse.json(
+                    { success: false, error: 'Bed not found in this room' },
+                    { status: 400 }
+                );
+            }
+
+            if (!bedCheck.rows[0].is_available || bedCheck.rows[0].occupied) {
+                return NextResponse.json(
+                    { success: false, error: 'Bed is not free' },
+                    { status: 400 }
+                );
+            }
+
+            if (bedCheck.rows[0].held) {
+                return NextResponse.json(
+                    { success: false, error: 'Bed is held for another student by a waitlist offer' },
+                    { status: 409 }
+                );
+            }
+
+            if (bedCheck.rows[0].booked) {
+                return NextResponse.json(
+                    { success: false, error: 'Bed is booked for another student during the stay' },
+                    { status: 409 }
+                );
+            }
+        }
+
         // Check gender compatibility
         const student = studentCheck.rows[0] as { id: number; gender: string };
         if (room.gender_allowed !== 'other' && student.gender !== room.gender_allowed) {
@@ -187,36 +379,49 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Check if student already has an active allocation
-        const existingAllocation = await query(
-            'SELECT id FROM allocations WHERE student_id = $1 AND is_active = TRUE',
-            [student_id]
-        );
+        // The old allocation only ends if the new one is created
+        const client = await getClient();
+
+        try {
+            await client.query('BEGIN');
 
-        if (existingAllocation.rows.length > 0) {
-            // Deactivate existing allocation
-            await query(
+            // Deactivate any existing allocation
+            await client.query(
                 `UPDATE allocations 
                  SET is_active = FALSE, actual_checkout = CURRENT_DATE 
                  WHERE student_id = $1 AND is_active = TRUE`,
                 [student_id]
             );
-        }
 
-        // Create the allocation
-        // NOTE: Room occupancy is automatically updated by the database trigger 'trg_check_room_capacity'
-        const result = await query<Allocation>(
-            `INSERT INTO allocations (
-              student_id, room_id, allocation_date, expected_checkout, notes, is_active
-            ) VALUES ($1, $2, CURRENT_DATE, $3, $4, TRUE)
-            RETURNING *`,
-            [student_id, room_id, expected_checkout || null, notes || null]
-        );
+            // Create the allocation
+            // NOTE: Bed and room occupancy are handled by the database trigger 'trg_check_room_capacity'
+            const result = await client.query<Allocation>(
+                `INSERT INTO allocations (
+                  student_id, room_id, bed_id, allocation_date, expected_checkout, notes, is_active
+                ) VALUES ($1, $2, $3, CURRENT_DATE, $4, $5, TRUE)
+                RETURNING *`,
+                [student_id, room_id, bed_id || null, expected_checkout || null, notes || null]
+            );
 
-        return NextResponse.json(
-            { success: true, data: result.rows[0], message: 'Allocation created successfully' },
-            { status: 201 }
-        );
+            await client.query('COMMIT');
+
+            return NextResponse.json(
+                { success: true, data: result.rows[0], message: 'Allocation created successfully' },
+                { status: 201 }
+            );
+        } catch (error) {
+            await client.query('ROLLBACK');
+            // The bed was taken, held or booked after the checks above
+            if ((error as { code?: string }).code === 'P0001') {
+                return NextResponse.json(
+                    { success: false, error: (error as Error).message },
+                    { status: 409 }
+                );
+            }
+            throw error;
+        } finally {
+            client.release();
+        }
     } catch (error) {
         console.error('Allocations API error:', error);
         return NextResponse.json(
@@ -0,0 +1,197 @@
+/**
+ * Allocation Swap API Route (App Router)
+ * =======================================
+ * Exchange the rooms of two students.
+ *
+ * Endpoint: POST /api/allocations/swap
+ * Body: { first_allocation_id, second_allocation_id }
+ *
+ * DBMS CONCEPTS:
+ * - TRANSACTION: both old allocations are ended before either new one is created,
+ *   so the capacity trigger never sees a full room gain an extra occupant
+ * - ROW LOCKING: both allocations are locked in id order so two overlapping
+ *   swaps can't deadlock or act on stale rows
+ * - SELF-REFERENCING FK: each new allocation points back at the one it replaced
+ * - A bed the capacity trigger refuses (e.g. booked for another student) is a 409
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getClient } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { Allocation } from '@/lib/types';
+
+interface SwapRow extends Allocation {
+    student_name: string;
+    gender: string;
+    room_number: string;
+    gender_allowed: string;
+}
+
+/**
+ * POST /api/allocations/swap
+ *
+ * Each student keeps their expected checkout (unless it has already passed)
+ * and their outstanding payments follow them to the new allocation.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const body = await request.json();
+        const firstId = parseInt(body.first_allocation_id);
+        const secondId = parseInt(body.second_allocation_id);
+
+        if (isNaN(firstId) || isNaN(secondId)) {
+            return NextResponse.json(
+                { success: false, error: 'Missing required fields: first_allocation_id, second_allocation_id' },
+                { status: 400 }
+            );
+        }
+
+        if (firstId === secondId) {
+            return NextResponse.json(
+                { success: false, error: 'Cannot swap an allocation with itself' },
+                { status: 400 }
+            );
+        }
+
+        const client = await getClient();
+
+        // Undo everything and answer with a client error
+        const reject = async (error: string, status = 400) => {
+            await client.query('ROLLBACK');
+            return NextResponse.json({ success: false, error }, { status });
+        };
+
+        try {
+            await client.query('BEGIN');
+
+            const lockedResult = await client.query<SwapRow>(
+                `SELECT
+                  a.*,
+                  s.first_name || ' ' || s.last_name as student_name,
+                  s.gender,
+                  r.room_number,
+                  h.gender_allowed
+                 FROM allocations a
+                 INNER JOIN students s ON a.student_id = s.id
+                 INNER JOIN rooms r ON a.room_id = r.id
+                 INNER JOIN hostels h ON r.hostel_id = h.id
+                 WHERE a.id IN ($1, $2)
+                 ORDER BY a.id
+                 FOR UPDATE OF a`,
+                [firstId, secondId]
+            );
+
+            const first = lockedResult.rows.find(row => row.id === firstId);
+            const second = lockedResult.rows.find(row => row.id === secondId);
+
+            if (!first || !second) {
+                return await reject('Allocation not found', 404);
+            }
+            if (!first.is_active || !second.is_active) {
+                return await reject('Only active allocations can be swapped');
+            }
+            if (first.room_id === second.room_id) {
+                return await reject('Both students are already in the same room');
+            }
+
+            // Each student must be allowed in the other's hostel
+            for (const [student, target] of [[first, second], [second, first]]) {
+                if (target.gender_allowed !== 'other' && student.gender !== target.gender_allowed) {
+                    return await reject(
+                        `${student.student_name} cannot move to room ${target.room_number}: ` +
+                        `it is for ${target.gender_allowed} students only`
+                    );
+                }
+            }
+
+            // End both allocations first (trigger frees both beds)
+            await client.query(
+                `UPDATE allocations
+                 SET is_active = FALSE, actual_checkout = CURRENT_DATE
+                 WHERE id IN ($1, $2)`,
+                [firstId, secondId]
+            );
+
+            const swapped: Allocation[] = [];
+            let paymentsMoved = 0;
+
+            for (const [student, target] of [[first, second], [second, first]]) {
+                // Take over the other student's bed (trigger checks it is free)
+                const newResult = await client.query<Allocation>(
+                    `INSERT INTO allocations (
+                      student_id, room_id, bed_id, allocation_date, expected_checkout, notes, is_active, previous_allocation_id
+                    ) VALUES (
+                      $1, $2, $3, CURRENT_DATE,
+                      CASE WHEN $4::DATE >= CURRENT_DATE THEN $4::DATE END,
+                      $5, TRUE, $6
+                    )
+                    RETURNING *`,
+                    [
+                        student.student_id,
+                        target.room_id,
+                        target.bed_id,
+                        student.expected_checkout,
+                        `Swapped rooms with ${target.student_name} (allocation #${target.id})`,
+                        student.id
+                    ]
+                );
+
+                const newAllocation = newResult.rows[0];
+                swapped.push(newAllocation);
+
+                // Carry outstanding dues over to the new allocation
+                const paymentsResult = await client.query(
+                    `UPDATE payments
+                     SET allocation_id = $1
+                     WHERE allocation_id = $2 AND payment_status <> 'paid'`,
+                    [newAllocation.id, student.id]
+                );
+                paymentsMoved += paymentsResult.rowCount ?? 0;
+            }
+
+            await client.query('COMMIT');
+
+            return NextResponse.json(
+                {
+                    success: true,
+                    data: {
+                        allocations: swapped,
+                        previous_allocation_ids: [firstId, secondId],
+                        payments_moved: paymentsMoved
+                    },
+                    message: `${first.student_name} and ${second.student_name} swapped rooms ` +
+                        `${first.room_number} and ${second.room_number}`
+                },
+                { status: 201 }
+            );
+        } catch (error) {
+            await client.query('ROLLBACK');
+            // A bed is booked for someone else during the stay, or out of service
+            if ((error as { code?: string }).code === 'P0001') {
+                return NextResponse.json(
+                    { success: false, error: (error as Error).message },
+                    { status: 409 }
+                );
+            }
+            // A bed was taken by another allocation at the same moment
+            if ((error as { code?: string }).code === '23505') {
+                return NextResponse.json(
+                    { success: false, error: 'One of the beds changed hands during the swap; try again' },
+                    { status: 409 }
+                );
+            }
+            throw error;
+        } finally {
+            client.release();
+        }
+    } catch (error) {
+        console.error('Allocation swap API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -4,8 +4,9 @@
  * Get complaint statistics by category.
  */
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
 import { ApiResponse } from '@/lib/types';
 
 interface CategoryStats {
@@ -20,8 +21,11 @@ interface CategoryStats {
 /**
  * GET /api/analytics/categories
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
     try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
         const result = await query(`
             SELECT 
                 category,
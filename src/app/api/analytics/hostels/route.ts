@@ -4,8 +4,9 @@
  * Get hostel occupancy and complaint statistics.
  */
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
 import { ApiResponse } from '@/lib/types';
 
 interface HostelStats {
@@ -25,8 +26,11 @@ interface HostelStats {
 /**
  * GET /api/analytics/hostels
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
     try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
         const result = await query<HostelStats>(`
             SELECT 
                 h.id as hostel_id,
@@ -6,6 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
 import { ApiResponse } from '@/lib/types';
 
 interface ResolutionStats {
@@ -31,6 +32,9 @@ interface ResolutionStats {
  */
 export async function GET(request: NextRequest) {
     try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
         const searchParams = request.nextUrl.searchParams;
         const hostelId = searchParams.get('hostel_id');
         const days = parseInt(searchParams.get('days') || '30');
@@ -6,6 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
 import { ApiResponse } from '@/lib/types';
 
 interface RoomStats {
@@ -37,6 +38,9 @@ interface RoomStats {
  */
 export async function GET(request: NextRequest) {
     try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
         const searchParams = request.nextUrl.searchParams;
         const hostelId = searchParams.get('hostel_id');
 
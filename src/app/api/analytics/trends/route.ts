@@ -6,6 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
 import { ApiResponse } from '@/lib/types';
 
 interface MonthlyTrend {
@@ -19,6 +20,9 @@ interface MonthlyTrend {
  */
 export async function GET(request: NextRequest) {
     try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
         const searchParams = request.nextUrl.searchParams;
         const months = parseInt(searchParams.get('months') || '6');
 
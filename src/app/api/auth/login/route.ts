@@ -0,0 +1,78 @@
+/**
+ * Login API Route (App Router)
+ * ============================
+ * POST /api/auth/login - Verify credentials and start a session
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { createSession, homePathFor, SESSION_COOKIE, verifyPassword } from '@/lib/auth';
+import { SessionUser } from '@/lib/types';
+
+interface UserWithHash extends SessionUser {
+    password_hash: string;
+}
+
+/**
+ * POST /api/auth/login
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const { username, password } = body;
+
+        if (!username || !password) {
+            return NextResponse.json(
+                { success: false, error: 'Missing required fields: username, password' },
+                { status: 400 }
+            );
+        }
+
+        const result = await query<UserWithHash>(
+            `SELECT id, username, role, display_name, student_id, staff_id, password_hash
+             FROM users
+             WHERE LOWER(username) = LOWER($1) AND is_active = TRUE`,
+            [username.trim()]
+        );
+
+        // Same message for unknown user and wrong password to avoid leaking usernames
+        const invalidCredentials = NextResponse.json(
+            { success: false, error: 'Invalid username or password' },
+            { status: 401 }
+        );
+
+        if (result.rows.length === 0) {
+            return invalidCredentials;
+        }
+
+        const { password_hash, ...user } = result.rows[0];
+        if (!(await verifyPassword(password, password_hash))) {
+            return invalidCredentials;
+        }
+
+        const { token, expiresAt } = await createSession(user.id);
+        await query('UPDATE users SET last_login_at = CURRENT_TIMESTAMP WHERE id = $1', [user.id]);
+
+        const response = NextResponse.json({
+            success: true,
+            data: { user, redirect: homePathFor(user.role) },
+            message: 'Logged in successfully'
+        });
+
+        response.cookies.set(SESSION_COOKIE, token, {
+            httpOnly: true,
+            sameSite: 'lax',
+            secure: process.env.NODE_ENV === 'production',
+            path: '/',
+            expires: expiresAt
+        });
+
+        return response;
+    } catch (error) {
+        console.error('Login API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,30 @@
+/**
+ * Logout API Route (App Router)
+ * ==============================
+ * POST /api/auth/logout - End the current session
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { destroySession, SESSION_COOKIE } from '@/lib/auth';
+
+/**
+ * POST /api/auth/logout
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const token = request.cookies.get(SESSION_COOKIE)?.value;
+        if (token) {
+            await destroySession(token);
+        }
+
+        const response = NextResponse.json({ success: true, message: 'Logged out successfully' });
+        response.cookies.delete(SESSION_COOKIE);
+        return response;
+    } catch (error) {
+        console.error('Logout API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,30 @@
+/**
+ * Current User API Route (App Router)
+ * ====================================
+ * GET /api/auth/me - Return the logged-in user for the current session
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { ApiResponse, SessionUser } from '@/lib/types';
+
+/**
+ * GET /api/auth/me
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await authorize(request);
+        if (auth.error) return auth.error;
+
+        return NextResponse.json<ApiResponse<SessionUser>>({
+            success: true,
+            data: auth.user
+        });
+    } catch (error) {
+        console.error('Current user API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
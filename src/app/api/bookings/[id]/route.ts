@@ -0,0 +1,99 @@
+/**
+ * Bed Booking Detail API (App Router)
+ * ====================================
+ * Endpoints:
+ * - GET /api/bookings/[id] - One booking (own only for students)
+ * - DELETE /api/bookings/[id] - Cancel a booking that has not been checked in
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, forbidden, MANAGEMENT_ROLES } from '@/lib/auth';
+import { ApiResponse, BedBooking } from '@/lib/types';
+import { cancelBooking, listBookings } from '@/lib/bookings';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/bookings/[id]
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, [...MANAGEMENT_ROLES, 'student']);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const bookingId = parseInt(id);
+
+        if (isNaN(bookingId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid booking ID' },
+                { status: 400 }
+            );
+        }
+
+        const [booking] = await listBookings({ id: bookingId });
+
+        if (!booking) {
+            return NextResponse.json(
+                { success: false, error: 'Booking not found' },
+                { status: 404 }
+            );
+        }
+
+        if (auth.user.role === 'student' && booking.student_id !== auth.user.student_id) {
+            return forbidden();
+        }
+
+        return NextResponse.json<ApiResponse<BedBooking>>({
+            success: true,
+            data: booking
+        });
+    } catch (error) {
+        console.error('Bookings API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/bookings/[id]
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const bookingId = parseInt(id);
+
+        if (isNaN(bookingId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid booking ID' },
+                { status: 400 }
+            );
+        }
+
+        const result = await cancelBooking(bookingId);
+
+        if ('error' in result) {
+            return NextResponse.json(
+                { success: false, error: result.error },
+                { status: result.status }
+            );
+        }
+
+        return NextResponse.json<ApiResponse<BedBooking>>({
+            success: true,
+            data: result,
+            message: 'Booking cancelled'
+        });
+    } catch (error) {
+        console.error('Bookings API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
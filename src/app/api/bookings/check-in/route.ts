@@ -0,0 +1,52 @@
+/**
+ * Bed Bookings Check-In Job API (App Router)
+ * ===========================================
+ * Admin trigger for the booking check-in job. The same job runs from cron via
+ * scripts/start-bed-bookings.mjs; both call the start_bed_bookings() function
+ * defined in triggers.sql, so running it twice changes nothing.
+ *
+ * Endpoint: POST /api/bookings/check-in - Turn bookings that are due into allocations
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { ApiResponse, BookingJobResult } from '@/lib/types';
+import { startBedBookings } from '@/lib/bookings';
+
+/**
+ * POST /api/bookings/check-in
+ *
+ * Body: { as_of?: 'YYYY-MM-DD' }
+ * as_of defaults to today.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const body = await request.json().catch(() => ({}));
+        const asOf: string | null = body.as_of || null;
+
+        if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+            return NextResponse.json(
+                { success: false, error: 'as_of must be a date in YYYY-MM-DD format' },
+                { status: 400 }
+            );
+        }
+
+        const summary = await startBedBookings(asOf);
+
+        return NextResponse.json<ApiResponse<BookingJobResult>>({
+            success: true,
+            data: summary,
+            message: `Checked in ${summary.bookings_started} booking(s), ${summary.bookings_blocked} still blocked, ` +
+                `${summary.bookings_expired} expired`
+        });
+    } catch (error) {
+        console.error('Booking check-in API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,115 @@
+/**
+ * Bed Bookings API (App Router)
+ * ==============================
+ * Beds reserved for future date ranges. A booking becomes an allocation on
+ * its arrival day (see POST /api/bookings/check-in).
+ *
+ * Endpoints:
+ * - GET /api/bookings - List bookings (own only for students)
+ *   Query: ?status=booked|checked_in|cancelled|expired&hostel_id=&room_id=&student_id=
+ * - POST /api/bookings - Book a bed
+ *   Body: { student_id, starts_on, ends_on, bed_id? | room_id? | hostel_id? (+ room_type?), notes? }
+ *
+ * See src/lib/bookings.ts for the date-range rules.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { ApiResponse, BedBooking } from '@/lib/types';
+import { createBooking, listBookings } from '@/lib/bookings';
+
+/**
+ * GET /api/bookings
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await authorize(request, [...MANAGEMENT_ROLES, 'student']);
+        if (auth.error) return auth.error;
+
+        const searchParams = request.nextUrl.searchParams;
+        const filters: Parameters<typeof listBookings>[0] = {
+            status: searchParams.get('status') || undefined
+        };
+
+        for (const key of ['hostel_id', 'room_id', 'student_id'] as const) {
+            const value = searchParams.get(key);
+            if (!value) continue;
+            const parsed = parseInt(value);
+            if (isNaN(parsed)) {
+                return NextResponse.json(
+                    { success: false, error: `Invalid ${key}` },
+                    { status: 400 }
+                );
+            }
+            filters[key] = parsed;
+        }
+
+        if (auth.user.role === 'student') {
+            filters.student_id = auth.user.student_id;
+        }
+
+        const bookings = await listBookings(filters);
+
+        return NextResponse.json<ApiResponse<BedBooking[]>>({
+            success: true,
+            data: bookings
+        });
+    } catch (error) {
+        console.error('Bookings API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/bookings
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const body = await request.json();
+        const { student_id, hostel_id, room_id, bed_id, room_type, starts_on, ends_on, notes } = body;
+
+        if (!student_id || !starts_on || !ends_on) {
+            return NextResponse.json(
+                { success: false, error: 'Missing required fields: student_id, starts_on, ends_on' },
+                { status: 400 }
+            );
+        }
+
+        const result = await createBooking({
+            student_id,
+            hostel_id,
+            room_id,
+            bed_id,
+            room_type,
+            starts_on,
+            ends_on,
+            notes,
+            created_by: auth.user.username
+        });
+
+        if ('error' in result) {
+            return NextResponse.json(
+                { success: false, error: result.error },
+                { status: result.status }
+            );
+        }
+
+        return NextResponse.json<ApiResponse<BedBooking>>({
+            success: true,
+            data: result,
+            message: `Booked bed ${result.bed_label} in room ${result.room_number} from ${result.starts_on} to ${result.ends_on}`
+        }, { status: 201 });
+    } catch (error) {
+        console.error('Bookings API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -6,11 +6,13 @@
  * Endpoints:
  * - GET /api/complaints/[id] - Get complaint details with history
  * - PUT /api/complaints/[id] - Update complaint (status, assign staff, resolve)
+ *   Staff may only update the status and notes of complaints assigned to them.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
-import { ApiResponse, Complaint } from '@/lib/types';
+import { authorize, canAccessStudent, forbidden, MANAGEMENT_ROLES } from '@/lib/auth';
+import { ApiResponse, Complaint, SessionUser } from '@/lib/types';
 
 interface ComplaintLog {
     id: number;
@@ -27,11 +29,24 @@ interface ComplaintWithHistory extends Complaint {
 
 type RouteContext = { params: Promise<{ id: string }> };
 
+/**
+ * Students see their own complaints; staff see the ones assigned to them
+ */
+function canAccessComplaint(user: SessionUser, complaint: Complaint): boolean {
+    if (user.role === 'staff') {
+        return complaint.assigned_staff_id === user.staff_id;
+    }
+    return canAccessStudent(user, complaint.student_id);
+}
+
 /**
  * GET /api/complaints/[id]
  */
 export async function GET(request: NextRequest, context: RouteContext) {
     try {
+        const auth = await authorize(request);
+        if (auth.error) return auth.error;
+
         const { id } = await context.params;
         const complaintId = parseInt(id);
 
@@ -51,6 +66,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
               s.email as student_email,
               s.phone as student_phone,
               r.room_number,
+              b.bed_label,
               r.floor,
               h.name as hostel_name,
               h.warden_name,
@@ -62,6 +78,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
              INNER JOIN students s ON c.student_id = s.id
              INNER JOIN rooms r ON c.room_id = r.id
              INNER JOIN hostels h ON r.hostel_id = h.id
+             LEFT JOIN beds b ON c.bed_id = b.id
              LEFT JOIN maintenance_staff ms ON c.assigned_staff_id = ms.id
              WHERE c.id = $1`,
             [complaintId]
@@ -74,6 +91,8 @@ export async function GET(request: NextRequest, context: RouteContext) {
             );
         }
 
+        if (!canAccessComplaint(auth.user, complaintResult.rows[0])) return forbidden();
+
         // Get complaint history
         const historyResult = await query<ComplaintLog>(
             `SELECT * FROM complaint_logs 
@@ -103,6 +122,9 @@ export async function GET(request: NextRequest, context: RouteContext) {
  */
 export async function PUT(request: NextRequest, context: RouteContext) {
     try {
+        const auth = await authorize(request, [...MANAGEMENT_ROLES, 'staff']);
+        if (auth.error) return auth.error;
+
         const { id } = await context.params;
         const complaintId = parseInt(id);
 
@@ -131,6 +153,11 @@ export async function PUT(request: NextRequest, context: RouteContext) {
 
         const existing = existingResult.rows[0];
 
+        if (!canAccessComplaint(auth.user, existing)) return forbidden();
+        if (auth.user.role === 'staff' && (assigned_staff_id !== undefined || priority !== undefined)) {
+            return forbidden('Only admins and wardens can reassign or reprioritise complaints');
+        }
+
         // Validate status transition
         const validStatuses = ['open', 'assigned', 'in_progress', 'resolved', 'closed'];
         if (status && !validStatuses.includes(status)) {
@@ -5,6 +5,7 @@
  * 
  * Endpoints:
  * - GET /api/complaints - List all complaints with filtering
+ *   (?format=csv|xlsx downloads every matching complaint)
  * - POST /api/complaints - Raise a new complaint
  * 
  * DBMS CONCEPTS:
@@ -15,7 +16,28 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
+import { authorize, canAccessStudent, forbidden, MANAGEMENT_ROLES } from '@/lib/auth';
+import { autoAssignComplaint } from '@/lib/complaintRouting';
 import { PaginatedResponse, Complaint } from '@/lib/types';
+import { ExportColumn, exportResponse, getExportFormat } from '@/lib/export';
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+    { key: 'id', header: 'ID', numeric: true },
+    { key: 'created_at', header: 'Raised At' },
+    { key: 'registration_number', header: 'Registration Number' },
+    { key: 'student_name', header: 'Student' },
+    { key: 'hostel_name', header: 'Hostel' },
+    { key: 'room_number', header: 'Room' },
+    { key: 'bed_label', header: 'Bed' },
+    { key: 'category', header: 'Category' },
+    { key: 'title', header: 'Title' },
+    { key: 'description', header: 'Description' },
+    { key: 'priority', header: 'Priority', numeric: true },
+    { key: 'status', header: 'Status' },
+    { key: 'staff_name', header: 'Assigned To' },
+    { key: 'resolved_at', header: 'Resolved At' },
+    { key: 'resolution_notes', header: 'Resolution Notes' }
+];
 
 /**
  * GET /api/complaints
@@ -24,6 +46,9 @@ import { PaginatedResponse, Complaint } from '@/lib/types';
  */
 export async function GET(request: NextRequest) {
     try {
+        const auth = await authorize(request);
+        if (auth.error) return auth.error;
+
         const searchParams = request.nextUrl.searchParams;
         const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
         const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')));
@@ -31,7 +56,10 @@ export async function GET(request: NextRequest) {
 
         const status = searchParams.get('status');
         const category = searchParams.get('category');
-        const studentId = searchParams.get('student_id');
+        // Students see only their own complaints
+        const studentId = auth.user.role === 'student'
+            ? String(auth.user.student_id)
+            : searchParams.get('student_id');
         const roomId = searchParams.get('room_id');
         const hostelId = searchParams.get('hostel_id');
         const priority = searchParams.get('priority');
@@ -80,23 +108,20 @@ export async function GET(request: NextRequest) {
             conditions.push(`c.assigned_staff_id IS NULL`);
         }
 
-        const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        // Maintenance staff only see the work assigned to them
+        if (auth.user.role === 'staff') {
+            conditions.push(`c.assigned_staff_id = $${paramIndex++}`);
+            params.push(auth.user.staff_id as number);
+        }
 
-        const countResult = await query<{ count: string }>(
-            `SELECT COUNT(*) as count 
-             FROM complaints c
-             INNER JOIN rooms r ON c.room_id = r.id
-             ${whereClause}`,
-            params
-        );
-        const total = parseInt(countResult.rows[0].count);
+        const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
-        const dataResult = await query<Complaint>(
-            `SELECT 
+        const listSql = `SELECT 
               c.*,
               s.first_name || ' ' || s.last_name as student_name,
               s.registration_number,
               r.room_number,
+              b.bed_label,
               h.name as hostel_name,
               ms.name as staff_name,
               ms.phone as staff_phone,
@@ -105,6 +130,7 @@ export async function GET(request: NextRequest) {
              INNER JOIN students s ON c.student_id = s.id
              INNER JOIN rooms r ON c.room_id = r.id
              INNER JOIN hostels h ON r.hostel_id = h.id
+             LEFT JOIN beds b ON c.bed_id = b.id
              LEFT JOIN maintenance_staff ms ON c.assigned_staff_id = ms.id
              ${whereClause}
              ORDER BY 
@@ -115,7 +141,24 @@ export async function GET(request: NextRequest) {
                  ELSE 4 
                END,
                c.priority ASC,
-               c.created_at DESC
+               c.created_at DESC`;
+
+        const format = getExportFormat(searchParams);
+        if (format) {
+            return exportResponse(format, 'complaints', EXPORT_COLUMNS, listSql, params);
+        }
+
+        const countResult = await query<{ count: string }>(
+            `SELECT COUNT(*) as count 
+             FROM complaints c
+             INNER JOIN rooms r ON c.room_id = r.id
+             ${whereClause}`,
+            params
+        );
+        const total = parseInt(countResult.rows[0].count);
+
+        const dataResult = await query<Complaint>(
+            `${listSql}
              LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
             [...params, limit, offset]
         );
@@ -143,11 +186,16 @@ export async function GET(request: NextRequest) {
  * POST /api/complaints
  * 
  * Creates a new maintenance complaint.
+ * If the room's hostel has auto-assignment enabled, the complaint is routed
+ * to a matching staff member straight away.
  */
 export async function POST(request: NextRequest) {
     try {
+        const auth = await authorize(request, [...MANAGEMENT_ROLES, 'student']);
+        if (auth.error) return auth.error;
+
         const body = await request.json();
-        const { student_id, room_id, category, title, description, priority } = body;
+        const { student_id, room_id, bed_id, category, title, description, priority } = body;
 
         // Validate required fields
         if (!student_id || !room_id || !category || !title || !description) {
@@ -157,6 +205,10 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (!canAccessStudent(auth.user, student_id)) {
+            return forbidden('Students can only raise complaints for themselves');
+        }
+
         // Validate category
         const validCategories = [
             'electrical', 'plumbing', 'furniture', 'cleaning',
@@ -202,16 +254,44 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Bed is optional, for issues with one bed rather than the whole room
+        if (bed_id) {
+            const bedCheck = await query(
+                'SELECT id FROM beds WHERE id = $1 AND room_id = $2',
+                [bed_id, room_id]
+            );
+            if (bedCheck.rows.length === 0) {
+                return NextResponse.json(
+                    { success: false, error: 'Bed not found in this room' },
+                    { status: 400 }
+                );
+            }
+        }
+
         const result = await query<Complaint>(
             `INSERT INTO complaints (
-              student_id, room_id, category, title, description, priority, status
-            ) VALUES ($1, $2, $3, $4, $5, $6, 'open')
+              student_id, room_id, bed_id, category, title, description, priority, status
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, 'open')
             RETURNING *`,
-            [student_id, room_id, category, title, description, finalPriority]
+            [student_id, room_id, bed_id || null, category, title, description, finalPriority]
         );
+        let complaint = result.rows[0];
+        let message = 'Complaint raised successfully';
+
+        // Routing is best-effort: the complaint stays open for manual assignment if it fails
+        try {
+            const routing = await autoAssignComplaint(complaint.id);
+            if (routing?.assigned) {
+                const refreshed = await query<Complaint>('SELECT * FROM complaints WHERE id = $1', [complaint.id]);
+                complaint = refreshed.rows[0];
+                message = `Complaint raised and assigned to ${routing.staff_name}`;
+            }
+        } catch (routingError) {
+            console.error('Complaint auto-routing failed:', routingError);
+        }
 
         return NextResponse.json(
-            { success: true, data: result.rows[0], message: 'Complaint raised successfully' },
+            { success: true, data: complaint, message },
             { status: 201 }
         );
     } catch (error) {
@@ -0,0 +1,147 @@
+/**
+ * Complaint Routing API (App Router)
+ * ===================================
+ * Configure and run automatic assignment of complaints to maintenance staff.
+ *
+ * Endpoints:
+ * - GET /api/complaints/routing - Auto-assignment setting for each hostel
+ * - PUT /api/complaints/routing - Turn auto-assignment on/off for a hostel
+ * - POST /api/complaints/routing - Route the open backlog ({ dry_run: true } previews only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { applyRouting, planRouting, RoutingDecision } from '@/lib/complaintRouting';
+import { ApiResponse } from '@/lib/types';
+
+interface HostelRoutingSetting {
+    hostel_id: number;
+    hostel_name: string;
+    auto_assign_complaints: boolean;
+    open_unassigned: number;
+}
+
+/**
+ * GET /api/complaints/routing
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const result = await query<HostelRoutingSetting>(
+            `SELECT
+              h.id as hostel_id,
+              h.name as hostel_name,
+              h.auto_assign_complaints,
+              COUNT(c.id) FILTER (WHERE c.status = 'open' AND c.assigned_staff_id IS NULL) as open_unassigned
+             FROM hostels h
+             LEFT JOIN rooms r ON r.hostel_id = h.id
+             LEFT JOIN complaints c ON c.room_id = r.id
+             GROUP BY h.id, h.name, h.auto_assign_complaints
+             ORDER BY h.name`
+        );
+
+        return NextResponse.json<ApiResponse<HostelRoutingSetting[]>>({
+            success: true,
+            data: result.rows
+        });
+    } catch (error) {
+        console.error('Complaint routing API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/complaints/routing
+ *
+ * Body: { hostel_id, enabled }
+ */
+export async function PUT(request: NextRequest) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const body = await request.json();
+        const { hostel_id, enabled } = body;
+
+        if (!hostel_id || typeof enabled !== 'boolean') {
+            return NextResponse.json(
+                { success: false, error: 'Missing required fields: hostel_id, enabled' },
+                { status: 400 }
+            );
+        }
+
+        const result = await query(
+            `UPDATE hostels SET auto_assign_complaints = $1 WHERE id = $2
+             RETURNING id as hostel_id, name as hostel_name, auto_assign_complaints`,
+            [enabled, hostel_id]
+        );
+
+        if (result.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Hostel not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: result.rows[0],
+            message: `Auto-assignment ${enabled ? 'enabled' : 'disabled'} for ${result.rows[0].hostel_name}`
+        });
+    } catch (error) {
+        console.error('Complaint routing API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/complaints/routing
+ *
+ * Body: { hostel_id?, dry_run? }
+ * Routes every open, unassigned complaint (optionally in one hostel).
+ * With dry_run the proposed assignments are returned and nothing is written.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const body = await request.json().catch(() => ({}));
+        const hostelId = body.hostel_id ? parseInt(body.hostel_id) : undefined;
+        const dryRun = body.dry_run === true;
+
+        const plan = await planRouting({ hostelId });
+
+        if (dryRun) {
+            return NextResponse.json<ApiResponse<RoutingDecision[]>>({
+                success: true,
+                data: plan,
+                message: `${plan.filter(d => d.staff_id).length} of ${plan.length} open complaint(s) can be assigned`
+            });
+        }
+
+        const applied = await applyRouting(plan);
+        const assignedCount = applied.filter(d => d.assigned).length;
+
+        return NextResponse.json<ApiResponse<RoutingDecision[]>>({
+            success: true,
+            data: applied,
+            message: `Assigned ${assignedCount} of ${applied.length} open complaint(s)`
+        });
+    } catch (error) {
+        console.error('Complaint routing API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,77 @@
+/**
+ * Hostel Availability API (App Router)
+ * =====================================
+ * Endpoint: GET /api/hostels/[id]/availability?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * How many beds are free in the hostel on each night from `from` up to (not
+ * including) `to`, and how many are free for the whole range, i.e. could be
+ * booked for that exact stay. Residents, live bookings, maintenance windows
+ * and out-of-service beds all count as taken.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { ApiResponse, HostelAvailability } from '@/lib/types';
+import { getHostelAvailability, MAX_CALENDAR_DAYS } from '@/lib/bookings';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/hostels/[id]/availability
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const hostelId = parseInt(id);
+
+        if (isNaN(hostelId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid hostel ID' },
+                { status: 400 }
+            );
+        }
+
+        const from = request.nextUrl.searchParams.get('from') || '';
+        const to = request.nextUrl.searchParams.get('to') || '';
+
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+            return NextResponse.json(
+                { success: false, error: 'from and to must be dates in YYYY-MM-DD format' },
+                { status: 400 }
+            );
+        }
+
+        const nights = (Date.parse(to) - Date.parse(from)) / 86400000;
+
+        if (isNaN(nights) || nights < 1 || nights > MAX_CALENDAR_DAYS) {
+            return NextResponse.json(
+                { success: false, error: `to must be 1 to ${MAX_CALENDAR_DAYS} days after from` },
+                { status: 400 }
+            );
+        }
+
+        const availability = await getHostelAvailability(hostelId, from, to);
+
+        if (!availability) {
+            return NextResponse.json(
+                { success: false, error: 'Hostel not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json<ApiResponse<HostelAvailability>>({
+            success: true,
+            data: availability,
+            message: `${availability.free_whole_range} of ${availability.total_beds} bed(s) free for the whole stay`
+        });
+    } catch (error) {
+        console.error('Hostel availability API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,389 @@
+/**
+ * Hostel Detail API Route (App Router)
+ * =====================================
+ * Handle operations on individual hostels by ID.
+ *
+ * Endpoints:
+ * - GET /api/hostels/[id] - Hostel info, warden, occupancy and complaint stats
+ * - PUT /api/hostels/[id] - Update hostel details (is_active: true recommissions)
+ * - DELETE /api/hostels/[id] - Decommission the hostel
+ *
+ * DBMS CONCEPTS:
+ * - SOFT DELETE: a decommissioned hostel keeps its rooms, allocation history
+ *   and complaints; the rooms FK is ON DELETE RESTRICT so they can never be
+ *   wiped by a hard delete
+ * - ROW LOCKING: the hostel's rooms are locked before checking for residents,
+ *   so no allocation can slip in while the hostel is being closed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getClient, query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { ApiResponse, Hostel, HostelDetail } from '@/lib/types';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/hostels/[id]
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const hostelId = parseInt(id);
+
+        if (isNaN(hostelId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid hostel ID' },
+                { status: 400 }
+            );
+        }
+
+        const result = await query<HostelDetail>(
+            `SELECT
+              h.*,
+              COALESCE(rs.total_capacity, 0)::INTEGER as total_capacity,
+              COALESCE(rs.total_occupancy, 0)::INTEGER as total_occupancy,
+              CASE
+                WHEN COALESCE(rs.total_capacity, 0) > 0
+                THEN ROUND(rs.total_occupancy::NUMERIC / rs.total_capacity * 100, 2)::FLOAT
+                ELSE 0
+              END as occupancy_rate,
+              COALESCE(rs.available_beds, 0)::INTEGER as available_beds,
+              COALESCE(rs.rooms_out_of_service, 0)::INTEGER as rooms_out_of_service,
+              COALESCE(cs.total_complaints, 0)::INTEGER as total_complaints,
+              COALESCE(cs.open_complaints, 0)::INTEGER as open_complaints,
+              COALESCE(cs.resolved_complaints, 0)::INTEGER as resolved_complaints,
+              COALESCE((
+                SELECT JSON_AGG(JSON_BUILD_OBJECT(
+                  'id', ms.id,
+                  'name', ms.name,
+                  'phone', ms.phone,
+                  'specialization', ms.specialization,
+                  'is_available', ms.is_available
+                ) ORDER BY ms.name)
+                FROM maintenance_staff ms
+                WHERE ms.hostel_id = h.id
+              ), '[]') as maintenance_staff
+             FROM hostels h
+             LEFT JOIN (
+               SELECT
+                 r.hostel_id,
+                 SUM(r.capacity) as total_capacity,
+                 SUM(r.current_occupancy) as total_occupancy,
+                 SUM(r.capacity - r.current_occupancy) FILTER (
+                   WHERE r.is_available = TRUE AND NOT room_is_blacked_out(r.id)
+                 ) as available_beds,
+                 COUNT(*) FILTER (
+                   WHERE r.is_available = FALSE OR room_is_blacked_out(r.id)
+                 ) as rooms_out_of_service
+               FROM rooms r
+               GROUP BY r.hostel_id
+             ) rs ON rs.hostel_id = h.id
+             LEFT JOIN (
+               SELECT
+                 r.hostel_id,
+                 COUNT(*) as total_complaints,
+                 COUNT(*) FILTER (WHERE c.status IN ('open', 'assigned', 'in_progress')) as open_complaints,
+                 COUNT(*) FILTER (WHERE c.status IN ('resolved', 'closed')) as resolved_complaints
+               FROM complaints c
+               INNER JOIN rooms r ON c.room_id = r.id
+               GROUP BY r.hostel_id
+             ) cs ON cs.hostel_id = h.id
+             WHERE h.id = $1`,
+            [hostelId]
+        );
+
+        if (result.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Hostel not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json<ApiResponse<HostelDetail>>({
+            success: true,
+            data: result.rows[0]
+        });
+    } catch (error) {
+        console.error('Hostel detail API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/hostels/[id]
+ *
+ * Body: { name?, address?, gender_allowed?, warden_name?, warden_contact?,
+ *         auto_assign_complaints?, is_active? }
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const hostelId = parseInt(id);
+
+        if (isNaN(hostelId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid hostel ID' },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json();
+        const {
+            name,
+            address,
+            gender_allowed,
+            warden_name,
+            warden_contact,
+            auto_assign_complaints,
+            is_active
+        } = body;
+
+        if (gender_allowed !== undefined && !['male', 'female', 'other'].includes(gender_allowed)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid gender_allowed. Must be male, female, or other' },
+                { status: 400 }
+            );
+        }
+
+        if (is_active === false) {
+            return NextResponse.json(
+                { success: false, error: 'Use DELETE /api/hostels/[id] to decommission a hostel' },
+                { status: 400 }
+            );
+        }
+
+        // Residents must still be allowed in the hostel after a gender change
+        if (gender_allowed !== undefined && gender_allowed !== 'other') {
+            const mismatched = await query<{ count: string }>(
+                `SELECT COUNT(*) as count
+                 FROM allocations a
+                 INNER JOIN rooms r ON a.room_id = r.id
+                 INNER JOIN students s ON a.student_id = s.id
+                 WHERE r.hostel_id = $1 AND a.is_active = TRUE AND s.gender <> $2`,
+                [hostelId, gender_allowed]
+            );
+            const count = parseInt(mismatched.rows[0].count);
+            if (count > 0) {
+                return NextResponse.json(
+                    { success: false, error: `${count} current resident(s) would not be allowed in a ${gender_allowed}-only hostel` },
+                    { status: 409 }
+                );
+            }
+        }
+
+        const updates: string[] = [];
+        const params: (string | number | boolean | null)[] = [];
+        let paramIndex = 1;
+
+        if (name !== undefined) {
+            updates.push(`name = $${paramIndex++}`);
+            params.push(name);
+        }
+        if (address !== undefined) {
+            updates.push(`address = $${paramIndex++}`);
+            params.push(address || null);
+        }
+        if (gender_allowed !== undefined) {
+            updates.push(`gender_allowed = $${paramIndex++}`);
+            params.push(gender_allowed);
+        }
+        if (warden_name !== undefined) {
+            updates.push(`warden_name = $${paramIndex++}`);
+            params.push(warden_name || null);
+        }
+        if (warden_contact !== undefined) {
+            updates.push(`warden_contact = $${paramIndex++}`);
+            params.push(warden_contact || null);
+        }
+        if (auto_assign_complaints !== undefined) {
+            updates.push(`auto_assign_complaints = $${paramIndex++}`);
+            params.push(Boolean(auto_assign_complaints));
+        }
+        if (is_active === true) {
+            // Recommissioning leaves the rooms closed; they are reopened one by one
+            updates.push('is_active = TRUE', 'decommissioned_at = NULL');
+        }
+
+        if (updates.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'No fields to update' },
+                { status: 400 }
+            );
+        }
+
+        params.push(hostelId);
+
+        const result = await query<Hostel>(
+            `UPDATE hostels
+             SET ${updates.join(', ')}
+             WHERE id = $${paramIndex}
+             RETURNING *`,
+            params
+        );
+
+        if (result.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Hostel not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: result.rows[0],
+            message: 'Hostel updated successfully'
+        });
+    } catch (error) {
+        console.error('Hostel detail API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/hostels/[id]
+ *
+ * Closes every room, cancels open maintenance windows, waitlist entries and
+ * bed bookings that point at the hostel, and marks it decommissioned.
+ * Refused while any student still lives there.
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const hostelId = parseInt(id);
+
+        if (isNaN(hostelId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid hostel ID' },
+                { status: 400 }
+            );
+        }
+
+        const client = await getClient();
+
+        // Undo everything and answer with a client error
+        const reject = async (error: string, status = 400) => {
+            await client.query('ROLLBACK');
+            return NextResponse.json({ success: false, error }, { status });
+        };
+
+        try {
+            await client.query('BEGIN');
+
+            const hostelResult = await client.query<Hostel>(
+                'SELECT * FROM hostels WHERE id = $1 FOR UPDATE',
+                [hostelId]
+            );
+
+            if (hostelResult.rows.length === 0) {
+                return await reject('Hostel not found', 404);
+            }
+
+            const hostel = hostelResult.rows[0];
+
+            if (!hostel.is_active) {
+                return await reject(`${hostel.name} is already decommissioned`);
+            }
+
+            await client.query('SELECT id FROM rooms WHERE hostel_id = $1 FOR UPDATE', [hostelId]);
+
+            const residents = await client.query<{ count: string }>(
+                `SELECT COUNT(*) as count
+                 FROM allocations a
+                 INNER JOIN rooms r ON a.room_id = r.id
+                 WHERE r.hostel_id = $1 AND a.is_active = TRUE`,
+                [hostelId]
+            );
+            const residentCount = parseInt(residents.rows[0].count);
+
+            if (residentCount > 0) {
+                return await reject(
+                    `${hostel.name} still has ${residentCount} active allocation(s). Move or check out all residents first.`,
+                    409
+                );
+            }
+
+            // Windows must not re-open rooms of a closed hostel when they end
+            await client.query(
+                `UPDATE room_blackouts
+                 SET status = 'cancelled', closed_room = FALSE
+                 WHERE status IN ('scheduled', 'active')
+                   AND room_id IN (SELECT id FROM rooms WHERE hostel_id = $1)`,
+                [hostelId]
+            );
+
+            const roomsResult = await client.query(
+                'UPDATE rooms SET is_available = FALSE WHERE hostel_id = $1 AND is_available = TRUE',
+                [hostelId]
+            );
+
+            const waitlistResult = await client.query(
+                `UPDATE waitlist_entries
+                 SET status = 'cancelled'
+                 WHERE status IN ('waiting', 'offered')
+                   AND (
+                     hostel_id = $1
+                     OR room_id IN (SELECT id FROM rooms WHERE hostel_id = $1)
+                     OR offered_room_id IN (SELECT id FROM rooms WHERE hostel_id = $1)
+                   )`,
+                [hostelId]
+            );
+
+            // Bookings could never check in to a closed hostel
+            const bookingsResult = await client.query(
+                `UPDATE bed_bookings
+                 SET status = 'cancelled'
+                 WHERE status = 'booked'
+                   AND room_id IN (SELECT id FROM rooms WHERE hostel_id = $1)`,
+                [hostelId]
+            );
+
+            const updated = await client.query<Hostel>(
+                `UPDATE hostels
+                 SET is_active = FALSE, decommissioned_at = CURRENT_TIMESTAMP
+                 WHERE id = $1
+                 RETURNING *`,
+                [hostelId]
+            );
+
+            await client.query('COMMIT');
+
+            return NextResponse.json({
+                success: true,
+                data: {
+                    hostel: updated.rows[0],
+                    rooms_closed: roomsResult.rowCount ?? 0,
+                    waitlist_cancelled: waitlistResult.rowCount ?? 0,
+                    bookings_cancelled: bookingsResult.rowCount ?? 0
+                },
+                message: `${hostel.name} decommissioned`
+            });
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
+        }
+    } catch (error) {
+        console.error('Hostel detail API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
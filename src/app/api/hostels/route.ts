@@ -4,21 +4,31 @@
  * RESTful API for managing hostels.
  * 
  * Endpoints:
- * - GET /api/hostels - List all hostels
+ * - GET /api/hostels - List hostels (?include_inactive=true adds decommissioned ones)
  * - POST /api/hostels - Create a new hostel
+ *
+ * Detail, update and decommission live in /api/hostels/[id].
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
+import { authorize } from '@/lib/auth';
 import { ApiResponse, Hostel } from '@/lib/types';
 
 /**
  * GET /api/hostels
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
     try {
+        const auth = await authorize(request);
+        if (auth.error) return auth.error;
+
+        const includeInactive = request.nextUrl.searchParams.get('include_inactive') === 'true';
+
         const result = await query<Hostel>(
-            `SELECT * FROM hostels ORDER BY name`
+            `SELECT * FROM hostels
+             ${includeInactive ? '' : 'WHERE is_active = TRUE'}
+             ORDER BY is_active DESC, name`
         );
 
         return NextResponse.json<ApiResponse<Hostel[]>>({
@@ -39,6 +49,9 @@ export async function GET() {
  */
 export async function POST(request: NextRequest) {
     try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
         const body = await request.json();
         const { name, address, gender_allowed, warden_name, warden_contact } = body;
 
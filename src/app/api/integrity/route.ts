@@ -0,0 +1,67 @@
+/**
+ * Data Integrity API (App Router)
+ * ================================
+ * Checks the denormalized room and hostel counters against the rows they
+ * count, lists records that contradict each other, and repairs the counters.
+ *
+ * Endpoints:
+ * - GET /api/integrity - Counter mismatches and anomalies (read-only)
+ * - POST /api/integrity - Repair drifted counters in one transaction, then re-check
+ *
+ * See src/lib/integrity.ts for the individual checks.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { ApiResponse, CounterMismatch, IntegrityReport } from '@/lib/types';
+import { repairCounters, runIntegrityChecks } from '@/lib/integrity';
+
+/**
+ * GET /api/integrity
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const report = await runIntegrityChecks();
+
+        return NextResponse.json<ApiResponse<IntegrityReport>>({
+            success: true,
+            data: report,
+            message: `${report.counter_mismatches.length} counter mismatch(es), ${report.anomalies.length} anomaly(ies)`
+        });
+    } catch (error) {
+        console.error('Integrity API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/integrity
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const { repaired, unrepaired } = await repairCounters();
+        const report = await runIntegrityChecks();
+
+        return NextResponse.json<ApiResponse<IntegrityReport & { repaired: CounterMismatch[]; unrepaired: CounterMismatch[] }>>({
+            success: true,
+            data: { ...report, repaired, unrepaired },
+            message: `Repaired ${repaired.length} counter(s)` +
+                (unrepaired.length ? `; ${unrepaired.length} overfull room(s) need allocations ended first` : '')
+        });
+    } catch (error) {
+        console.error('Integrity API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,119 @@
+/**
+ * Payment Receipt PDF Route (App Router)
+ * =======================================
+ * Download the receipt for a paid payment.
+ *
+ * Endpoint: GET /api/payments/[id]/receipt.pdf
+ *
+ * Students may download receipts for their own payments only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, canAccessStudent, forbidden } from '@/lib/auth';
+import { buildReceiptPdf, ReceiptDocument } from '@/lib/paymentDocuments';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/payments/[id]/receipt.pdf
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const paymentId = parseInt(id);
+
+        if (isNaN(paymentId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid payment ID' },
+                { status: 400 }
+            );
+        }
+
+        // Room comes from the allocation the payment was raised against,
+        // falling back to the student's current room
+        const result = await query<Omit<ReceiptDocument, 'amount' | 'installments'> & {
+            student_id: number;
+            payment_status: string;
+            amount: string;
+        }>(
+            `SELECT
+              p.id as payment_id,
+              p.student_id,
+              p.payment_status,
+              p.receipt_number,
+              p.payment_date::TEXT as payment_date,
+              p.due_date::TEXT as due_date,
+              p.amount,
+              p.semester,
+              p.payment_method,
+              p.transaction_id,
+              p.notes,
+              s.first_name || ' ' || s.last_name as student_name,
+              s.registration_number,
+              r.room_number,
+              h.name as hostel_name
+             FROM payments p
+             INNER JOIN students s ON p.student_id = s.id
+             LEFT JOIN allocations pa ON p.allocation_id = pa.id
+             LEFT JOIN allocations ca ON ca.student_id = p.student_id AND ca.is_active = TRUE
+             LEFT JOIN rooms r ON r.id = COALESCE(pa.room_id, ca.room_id)
+             LEFT JOIN hostels h ON r.hostel_id = h.id
+             WHERE p.id = $1`,
+            [paymentId]
+        );
+
+        if (result.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Payment not found' },
+                { status: 404 }
+            );
+        }
+
+        const payment = result.rows[0];
+        if (!canAccessStudent(auth.user, payment.student_id)) return forbidden();
+
+        if (payment.payment_status !== 'paid' || !payment.receipt_number) {
+            return NextResponse.json(
+                { success: false, error: 'A receipt is only available once the payment is fully paid' },
+                { status: 400 }
+            );
+        }
+
+        const installments = await query<{
+            paid_on: string;
+            amount: string;
+            payment_method: string;
+            transaction_id: string | null;
+        }>(
+            `SELECT paid_on::TEXT as paid_on, amount, payment_method, transaction_id
+             FROM payment_transactions
+             WHERE payment_id = $1
+             ORDER BY paid_on, id`,
+            [paymentId]
+        );
+
+        const pdf = buildReceiptPdf({
+            ...payment,
+            amount: parseFloat(payment.amount),
+            installments: installments.rows.map(row => ({ ...row, amount: parseFloat(row.amount) }))
+        });
+
+        return new NextResponse(new Uint8Array(pdf), {
+            headers: {
+                'Content-Type': 'application/pdf',
+                'Content-Disposition': `attachment; filename="${payment.receipt_number}.pdf"`,
+                'Cache-Control': 'private, no-store'
+            }
+        });
+    } catch (error) {
+        console.error('Payment receipt API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -2,16 +2,29 @@
  * Payment Update API
  * ====================
  * PUT /api/payments/[id] - Update a payment record (e.g., mark as paid)
+ * GET /api/payments/[id] - Fetch a single payment
+ *
+ * Students may view and pay their own payments; management may update any.
+ * Marking a payment as paid records a receipt for the outstanding balance in
+ * the payment ledger (see /api/payments/[id]/transactions for installments);
+ * the database then assigns its receipt number. Client-supplied receipt
+ * numbers are rejected.
+ * Pending or overdue can only be set while nothing has been received.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
+import { authorize, canAccessStudent, forbidden, MANAGEMENT_ROLES } from '@/lib/auth';
+import { recordReceipt } from '@/lib/paymentLedger';
 
 export async function PUT(
     request: NextRequest,
     context: { params: Promise<{ id: string }> }
 ) {
     try {
+        const auth = await authorize(request, [...MANAGEMENT_ROLES, 'student']);
+        if (auth.error) return auth.error;
+
         const { id } = await context.params;
         const paymentId = parseInt(id);
 
@@ -23,26 +36,70 @@ export async function PUT(
         }
 
         const body = await request.json();
-        const { payment_status, payment_date, receipt_number } = body;
+        const { payment_status, payment_date, payment_method, receipt_number } = body;
+
+        if (receipt_number !== undefined) {
+            return NextResponse.json(
+                { success: false, error: 'Receipt numbers are assigned automatically when a payment is paid' },
+                { status: 400 }
+            );
+        }
+
+        if (auth.user.role === 'student') {
+            const ownerResult = await query<{ student_id: number }>(
+                'SELECT student_id FROM payments WHERE id = $1',
+                [paymentId]
+            );
+            if (ownerResult.rows.length > 0 && !canAccessStudent(auth.user, ownerResult.rows[0].student_id)) {
+                return forbidden();
+            }
+            if (payment_status && payment_status !== 'paid') {
+                return forbidden('Students can only mark their payments as paid');
+            }
+        }
+
+        if (payment_status === 'partial') {
+            return NextResponse.json(
+                { success: false, error: 'Partial status is set automatically; record an installment instead' },
+                { status: 400 }
+            );
+        }
+
+        // Settle the outstanding balance through the ledger; its trigger sets
+        // the status and payment date
+        let settled = null;
+        if (payment_status === 'paid') {
+            const receipt = await recordReceipt(paymentId, {
+                payment_method: payment_method || 'cash',
+                paid_on: auth.user.role === 'student' ? null : payment_date,
+                recorded_by: auth.user.username
+            });
+
+            if ('error' in receipt) {
+                return NextResponse.json(
+                    { success: false, error: receipt.error },
+                    { status: receipt.status }
+                );
+            }
+            settled = receipt.payment;
+        }
 
         // Build update query dynamically based on provided fields
         const updates: string[] = [];
         const values: (string | number)[] = [];
         let paramIndex = 1;
 
-        if (payment_status) {
+        if (payment_status && payment_status !== 'paid') {
             updates.push(`payment_status = $${paramIndex++}`);
             values.push(payment_status);
         }
 
-        if (payment_date) {
-            updates.push(`payment_date = $${paramIndex++}`);
-            values.push(payment_date);
-        }
-
-        if (receipt_number) {
-            updates.push(`receipt_number = $${paramIndex++}`);
-            values.push(receipt_number);
+        if (updates.length === 0 && settled) {
+            return NextResponse.json({
+                success: true,
+                data: settled,
+                message: 'Payment updated successfully'
+            });
         }
 
         if (updates.length === 0) {
@@ -58,19 +115,28 @@ export async function PUT(
         // Add the payment ID as the last parameter
         values.push(paymentId);
 
+        // Pending and overdue only describe a due with nothing received yet;
+        // once money is in the ledger its trigger owns the status
         const updateQuery = `
             UPDATE payments 
             SET ${updates.join(', ')}
-            WHERE id = $${paramIndex}
+            WHERE id = $${paramIndex} AND amount_paid = 0
             RETURNING *
         `;
 
         const result = await query(updateQuery, values);
 
         if (result.rows.length === 0) {
+            const existing = await query('SELECT id FROM payments WHERE id = $1', [paymentId]);
+            if (existing.rows.length === 0) {
+                return NextResponse.json(
+                    { success: false, error: 'Payment not found' },
+                    { status: 404 }
+                );
+            }
             return NextResponse.json(
-                { success: false, error: 'Payment not found' },
-                { status: 404 }
+                { success: false, error: 'Payment already has money recorded against it; its status follows the ledger' },
+                { status: 409 }
             );
         }
 
@@ -94,6 +160,9 @@ export async function GET(
     context: { params: Promise<{ id: string }> }
 ) {
     try {
+        const auth = await authorize(request);
+        if (auth.error) return auth.error;
+
         const { id } = await context.params;
         const paymentId = parseInt(id);
 
@@ -119,6 +188,8 @@ export async function GET(
             );
         }
 
+        if (!canAccessStudent(auth.user, result.rows[0].student_id)) return forbidden();
+
         return NextResponse.json({
             success: true,
             data: result.rows[0]
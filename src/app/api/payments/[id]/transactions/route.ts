@@ -0,0 +1,151 @@
+/**
+ * Payment Transactions API Route (App Router)
+ * ============================================
+ * Installments received against a single payment (due).
+ *
+ * Endpoints:
+ * - GET /api/payments/[id]/transactions - Receipts recorded so far
+ * - POST /api/payments/[id]/transactions - Record a full or partial payment
+ *
+ * Students may view and pay their own dues; management may record receipts
+ * for anyone (e.g. cash taken at the office).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, canAccessStudent, forbidden, MANAGEMENT_ROLES } from '@/lib/auth';
+import { recordReceipt } from '@/lib/paymentLedger';
+import { ApiResponse, PaymentTransaction } from '@/lib/types';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function findPaymentOwner(paymentId: number): Promise<number | null> {
+    const result = await query<{ student_id: number }>(
+        'SELECT student_id FROM payments WHERE id = $1',
+        [paymentId]
+    );
+    return result.rows[0]?.student_id ?? null;
+}
+
+/**
+ * GET /api/payments/[id]/transactions
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, [...MANAGEMENT_ROLES, 'student']);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const paymentId = parseInt(id);
+
+        if (isNaN(paymentId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid payment ID' },
+                { status: 400 }
+            );
+        }
+
+        const ownerId = await findPaymentOwner(paymentId);
+        if (ownerId === null) {
+            return NextResponse.json(
+                { success: false, error: 'Payment not found' },
+                { status: 404 }
+            );
+        }
+        if (!canAccessStudent(auth.user, ownerId)) return forbidden();
+
+        const result = await query<PaymentTransaction>(
+            `SELECT * FROM payment_transactions
+             WHERE payment_id = $1
+             ORDER BY paid_on ASC, id ASC`,
+            [paymentId]
+        );
+
+        return NextResponse.json<ApiResponse<PaymentTransaction[]>>({
+            success: true,
+            data: result.rows
+        });
+    } catch (error) {
+        console.error('Payment transactions API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/payments/[id]/transactions
+ *
+ * Body: { payment_method, amount?, transaction_id?, paid_on?, notes? }
+ * Leaving out amount settles the whole outstanding balance.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, [...MANAGEMENT_ROLES, 'student']);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const paymentId = parseInt(id);
+
+        if (isNaN(paymentId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid payment ID' },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json();
+        const { amount, payment_method, transaction_id, paid_on, notes } = body;
+
+        if (!payment_method) {
+            return NextResponse.json(
+                { success: false, error: 'Missing required field: payment_method' },
+                { status: 400 }
+            );
+        }
+
+        const ownerId = await findPaymentOwner(paymentId);
+        if (ownerId === null) {
+            return NextResponse.json(
+                { success: false, error: 'Payment not found' },
+                { status: 404 }
+            );
+        }
+        if (!canAccessStudent(auth.user, ownerId)) return forbidden();
+
+        const result = await recordReceipt(paymentId, {
+            amount: amount !== undefined && amount !== null && amount !== '' ? parseFloat(amount) : undefined,
+            payment_method,
+            transaction_id,
+            // Students pay "now"; only staff at the office can back-date a receipt
+            paid_on: auth.user.role === 'student' ? null : paid_on,
+            notes,
+            recorded_by: auth.user.username
+        });
+
+        if ('error' in result) {
+            return NextResponse.json(
+                { success: false, error: result.error },
+                { status: result.status }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                success: true,
+                data: result,
+                message: result.payment.payment_status === 'paid'
+                    ? 'Payment completed'
+                    : `Installment recorded; ₹${(result.payment.amount - result.payment.amount_paid).toFixed(2)} outstanding`
+            },
+            { status: 201 }
+        );
+    } catch (error) {
+        console.error('Payment transactions API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,119 @@
+/**
+ * Semester Billing Runs API (App Router)
+ * =======================================
+ * Generate semester fee invoices for every active allocation.
+ *
+ * Endpoints:
+ * - GET /api/payments/billing-runs - Past billing runs
+ * - POST /api/payments/billing-runs - Preview ({ dry_run: true }) or create a run
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { createBillingRun, previewBillingRun } from '@/lib/billing';
+import { ApiResponse, BillingRun } from '@/lib/types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/payments/billing-runs
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const result = await query<BillingRun>(
+            'SELECT * FROM billing_runs ORDER BY created_at DESC LIMIT 50'
+        );
+
+        return NextResponse.json<ApiResponse<BillingRun[]>>({
+            success: true,
+            data: result.rows
+        });
+    } catch (error) {
+        console.error('Billing runs API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/payments/billing-runs
+ *
+ * Body: { semester, period_start, period_end, due_date, dry_run? }
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const body = await request.json();
+        const { semester, period_start, period_end, due_date } = body;
+        const dryRun = body.dry_run === true;
+
+        if (!semester || !period_start || !period_end || !due_date) {
+            return NextResponse.json(
+                { success: false, error: 'Missing required fields: semester, period_start, period_end, due_date' },
+                { status: 400 }
+            );
+        }
+
+        if (![period_start, period_end, due_date].every(d => DATE_PATTERN.test(d))) {
+            return NextResponse.json(
+                { success: false, error: 'Dates must be in YYYY-MM-DD format' },
+                { status: 400 }
+            );
+        }
+
+        if (period_end < period_start) {
+            return NextResponse.json(
+                { success: false, error: 'period_end must be on or after period_start' },
+                { status: 400 }
+            );
+        }
+
+        const period = { semester: String(semester).trim(), periodStart: period_start, periodEnd: period_end };
+
+        if (dryRun) {
+            const lines = await previewBillingRun(period);
+            const billable = lines.filter(line => !line.already_billed && line.amount > 0);
+            const total = billable.reduce((sum, line) => sum + line.amount, 0);
+
+            return NextResponse.json({
+                success: true,
+                data: {
+                    lines,
+                    invoices_to_create: billable.length,
+                    already_billed: lines.length - billable.length,
+                    total_amount: parseFloat(total.toFixed(2))
+                },
+                message: `${billable.length} invoice(s) totalling ₹${total.toFixed(2)} would be created`
+            });
+        }
+
+        const { run, billed, skipped } = await createBillingRun({
+            ...period,
+            dueDate: due_date,
+            createdBy: auth.user.username
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                data: { run, billed, skipped },
+                message: `Created ${run.invoices_created} invoice(s) for ${run.semester} totalling ₹${run.total_amount}; ${skipped} skipped`
+            },
+            { status: 201 }
+        );
+    } catch (error) {
+        console.error('Billing runs API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
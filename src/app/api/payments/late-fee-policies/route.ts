@@ -0,0 +1,119 @@
+/**
+ * Late Fee Policies API (App Router)
+ * ===================================
+ * Per-hostel late fee rules used by the overdue payments job.
+ *
+ * Endpoints:
+ * - GET /api/payments/late-fee-policies - Policy for every hostel (null when none)
+ * - PUT /api/payments/late-fee-policies - Create or replace a hostel's policy
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { LateFeePolicy } from '@/lib/types';
+
+/**
+ * GET /api/payments/late-fee-policies
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const result = await query(
+            `SELECT
+              h.id as hostel_id,
+              h.name as hostel_name,
+              lp.id,
+              lp.grace_days,
+              lp.fee_type,
+              lp.fee_value,
+              lp.max_fee,
+              lp.is_active
+             FROM hostels h
+             LEFT JOIN late_fee_policies lp ON lp.hostel_id = h.id
+             ORDER BY h.name`
+        );
+
+        return NextResponse.json({
+            success: true,
+            data: result.rows
+        });
+    } catch (error) {
+        console.error('Late fee policies API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/payments/late-fee-policies
+ *
+ * Body: { hostel_id, fee_type, fee_value, grace_days?, max_fee?, is_active? }
+ */
+export async function PUT(request: NextRequest) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const body = await request.json();
+        const { hostel_id, fee_type, fee_value, grace_days, max_fee, is_active } = body;
+
+        if (!hostel_id || !fee_type || !fee_value) {
+            return NextResponse.json(
+                { success: false, error: 'Missing required fields: hostel_id, fee_type, fee_value' },
+                { status: 400 }
+            );
+        }
+
+        if (!['flat', 'percent'].includes(fee_type)) {
+            return NextResponse.json(
+                { success: false, error: "fee_type must be 'flat' or 'percent'" },
+                { status: 400 }
+            );
+        }
+
+        if (fee_type === 'percent' && fee_value > 100) {
+            return NextResponse.json(
+                { success: false, error: 'Percentage late fee cannot exceed 100' },
+                { status: 400 }
+            );
+        }
+
+        // UPSERT: one policy row per hostel
+        const result = await query<LateFeePolicy>(
+            `INSERT INTO late_fee_policies (hostel_id, grace_days, fee_type, fee_value, max_fee, is_active)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             ON CONFLICT (hostel_id) DO UPDATE SET
+               grace_days = EXCLUDED.grace_days,
+               fee_type = EXCLUDED.fee_type,
+               fee_value = EXCLUDED.fee_value,
+               max_fee = EXCLUDED.max_fee,
+               is_active = EXCLUDED.is_active
+             RETURNING *`,
+            [
+                hostel_id,
+                grace_days ?? 0,
+                fee_type,
+                fee_value,
+                max_fee || null,
+                is_active ?? true
+            ]
+        );
+
+        return NextResponse.json({
+            success: true,
+            data: result.rows[0],
+            message: 'Late fee policy saved'
+        });
+    } catch (error) {
+        console.error('Late fee policies API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
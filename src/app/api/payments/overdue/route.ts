@@ -0,0 +1,117 @@
+/**
+ * Overdue Payments Job API (App Router)
+ * ======================================
+ * Admin trigger for the overdue payments job. The same job runs from cron via
+ * scripts/process-overdue-payments.mjs; both call the process_overdue_payments()
+ * function defined in triggers.sql, so running it twice changes nothing.
+ *
+ * Endpoints:
+ * - GET /api/payments/overdue - What the next run would pick up
+ * - POST /api/payments/overdue - Mark past-due payments overdue and apply late fees
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { ApiResponse, OverdueJobResult } from '@/lib/types';
+
+/**
+ * GET /api/payments/overdue
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const result = await query<{ pending_past_due: string; overdue_without_fee: string }>(
+            `SELECT
+              -- Part-paid bills go overdue too
+              COUNT(*) FILTER (
+                WHERE p.payment_status IN ('pending', 'partial') AND p.due_date < CURRENT_DATE
+              ) as pending_past_due,
+              COUNT(*) FILTER (
+                WHERE p.payment_status = 'overdue'
+                  AND p.late_fee_for IS NULL
+                  AND NOT EXISTS (SELECT 1 FROM payments f WHERE f.late_fee_for = p.id)
+              ) as overdue_without_fee
+             FROM payments p`
+        );
+
+        const row = result.rows[0];
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                pending_past_due: parseInt(row.pending_past_due),
+                overdue_without_fee: parseInt(row.overdue_without_fee)
+            }
+        });
+    } catch (error) {
+        console.error('Overdue payments API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/payments/overdue
+ *
+ * Body: { as_of?: 'YYYY-MM-DD', apply_late_fees?: boolean }
+ * as_of defaults to today and cannot be later; late fees are applied unless
+ * apply_late_fees is false.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const body = await request.json().catch(() => ({}));
+        const asOf: string | null = body.as_of || null;
+        const applyLateFees = body.apply_late_fees !== false;
+
+        // The regex alone lets through days such as 2025-02-30
+        if (asOf && (!/^\d{4}-\d{2}-\d{2}$/.test(asOf) || isNaN(Date.parse(asOf))
+            || new Date(`${asOf}T00:00:00Z`).toISOString().slice(0, 10) !== asOf)) {
+            return NextResponse.json(
+                { success: false, error: 'as_of must be a date in YYYY-MM-DD format' },
+                { status: 400 }
+            );
+        }
+
+        if (asOf) {
+            // A future as_of would fine payments that are not due yet
+            const when = await query<{ future: boolean }>('SELECT $1::DATE > CURRENT_DATE as future', [asOf]);
+            if (when.rows[0].future) {
+                return NextResponse.json(
+                    { success: false, error: 'as_of cannot be in the future' },
+                    { status: 400 }
+                );
+            }
+        }
+
+        const result = await query<OverdueJobResult>(
+            `SELECT
+              COALESCE($1::DATE, CURRENT_DATE)::TEXT as as_of,
+              payments_marked,
+              late_fees_created
+             FROM process_overdue_payments(COALESCE($1::DATE, CURRENT_DATE), $2)`,
+            [asOf, applyLateFees]
+        );
+
+        const summary = result.rows[0];
+
+        return NextResponse.json<ApiResponse<OverdueJobResult>>({
+            success: true,
+            data: summary,
+            message: `Marked ${summary.payments_marked} payment(s) overdue and created ${summary.late_fees_created} late fee(s)`
+        });
+    } catch (error) {
+        console.error('Overdue payments API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -5,24 +5,53 @@
  * 
  * Endpoints:
  * - GET /api/payments - List all payments
+ *   (?format=csv|xlsx downloads every matching payment, e.g. ?overdue=true&format=csv)
  * - POST /api/payments - Record a new payment
+ *
+ * Receipt numbers are never taken from the client: the database assigns the
+ * next RCP-YYYY-NNNN number when a payment becomes paid (see triggers.sql).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { query } from '@/lib/db';
+import { getClient, query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { recordReceipt } from '@/lib/paymentLedger';
 import { PaginatedResponse, Payment } from '@/lib/types';
+import { ExportColumn, exportResponse, getExportFormat } from '@/lib/export';
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+    { key: 'registration_number', header: 'Registration Number' },
+    { key: 'student_name', header: 'Student' },
+    { key: 'student_email', header: 'Email' },
+    { key: 'semester', header: 'Semester' },
+    { key: 'amount', header: 'Amount', numeric: true },
+    { key: 'amount_paid', header: 'Paid', numeric: true },
+    { key: 'due_date', header: 'Due Date' },
+    { key: 'payment_status', header: 'Status' },
+    { key: 'days_overdue', header: 'Days Overdue', numeric: true },
+    { key: 'payment_date', header: 'Last Payment' },
+    { key: 'payment_method', header: 'Method' },
+    { key: 'receipt_number', header: 'Receipt' },
+    { key: 'notes', header: 'Notes' }
+];
 
 /**
  * GET /api/payments
  */
 export async function GET(request: NextRequest) {
     try {
+        const auth = await authorize(request, [...MANAGEMENT_ROLES, 'student']);
+        if (auth.error) return auth.error;
+
         const searchParams = request.nextUrl.searchParams;
         const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
         const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')));
         const offset = (page - 1) * limit;
 
-        const studentId = searchParams.get('student_id');
+        // Students see only their own payments
+        const studentId = auth.user.role === 'student'
+            ? String(auth.user.student_id)
+            : searchParams.get('student_id');
         const status = searchParams.get('status');
         const semester = searchParams.get('semester');
         const overdue = searchParams.get('overdue');
@@ -52,14 +81,7 @@ export async function GET(request: NextRequest) {
 
         const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
-        const countResult = await query<{ count: string }>(
-            `SELECT COUNT(*) as count FROM payments p ${whereClause}`,
-            params
-        );
-        const total = parseInt(countResult.rows[0].count);
-
-        const dataResult = await query<Payment>(
-            `SELECT 
+        const listSql = `SELECT 
               p.*,
               s.first_name || ' ' || s.last_name as student_name,
               s.registration_number,
@@ -75,7 +97,21 @@ export async function GET(request: NextRequest) {
                  WHEN 'partial' THEN 3 
                  ELSE 4 
                END,
-               p.due_date ASC
+               p.due_date ASC`;
+
+        const format = getExportFormat(searchParams);
+        if (format) {
+            return exportResponse(format, 'payments', EXPORT_COLUMNS, listSql, params);
+        }
+
+        const countResult = await query<{ count: string }>(
+            `SELECT COUNT(*) as count FROM payments p ${whereClause}`,
+            params
+        );
+        const total = parseInt(countResult.rows[0].count);
+
+        const dataResult = await query<Payment>(
+            `${listSql}
              LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
             [...params, limit, offset]
         );
@@ -104,6 +140,9 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
     try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
         const body = await request.json();
         const {
             student_id,
@@ -133,6 +172,13 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (receipt_number !== undefined) {
+            return NextResponse.json(
+                { success: false, error: 'Receipt numbers are assigned automatically when a payment is paid' },
+                { status: 400 }
+            );
+        }
+
         const studentCheck = await query(
             'SELECT id FROM students WHERE id = $1',
             [student_id]
@@ -149,43 +195,73 @@ export async function POST(request: NextRequest) {
             finalStatus = 'paid';
         }
 
-        let finalReceiptNumber = receipt_number;
-        if (finalStatus === 'paid' && !receipt_number) {
-            const year = new Date().getFullYear();
-            const countResult = await query<{ count: string }>(
-                `SELECT COUNT(*) as count FROM payments WHERE EXTRACT(YEAR FROM created_at) = $1`,
-                [year]
+        if (finalStatus === 'partial') {
+            return NextResponse.json(
+                { success: false, error: 'Create the payment, then record installments against it' },
+                { status: 400 }
             );
-            const count = parseInt(countResult.rows[0].count) + 1;
-            finalReceiptNumber = `RCP-${year}-${count.toString().padStart(4, '0')}`;
         }
 
-        const result = await query<Payment>(
-            `INSERT INTO payments (
-              student_id, allocation_id, amount, due_date, payment_date,
-              payment_status, payment_method, transaction_id, receipt_number,
-              semester, notes
-            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
-            RETURNING *`,
-            [
-                student_id,
-                allocation_id || null,
-                amount,
-                due_date,
-                payment_date || null,
-                finalStatus,
-                payment_method || null,
-                transaction_id || null,
-                finalReceiptNumber || null,
-                semester || null,
-                notes || null
-            ]
-        );
+        // The due and its receipt are saved together or not at all
+        const client = await getClient();
 
-        return NextResponse.json(
-            { success: true, data: result.rows[0], message: 'Payment recorded successfully' },
-            { status: 201 }
-        );
+        try {
+            await client.query('BEGIN');
+
+            const result = await client.query<Payment>(
+                `INSERT INTO payments (
+                  student_id, allocation_id, amount, due_date, payment_date,
+                  payment_status, payment_method, transaction_id,
+                  semester, notes
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+                RETURNING *`,
+                [
+                    student_id,
+                    allocation_id || null,
+                    amount,
+                    due_date,
+                    payment_date || null,
+                    // A paid due starts out pending; the receipt below settles it
+                    finalStatus === 'paid' ? 'pending' : finalStatus,
+                    payment_method || null,
+                    transaction_id || null,
+                    semester || null,
+                    notes || null
+                ]
+            );
+
+            let payment = result.rows[0];
+
+            // Record the money in the ledger so amount_paid and status agree with it
+            if (finalStatus === 'paid') {
+                const receipt = await recordReceipt(payment.id, {
+                    payment_method: payment_method || 'cash',
+                    transaction_id,
+                    paid_on: payment_date,
+                    recorded_by: auth.user.username
+                }, client);
+                if ('error' in receipt) {
+                    await client.query('ROLLBACK');
+                    return NextResponse.json(
+                        { success: false, error: receipt.error },
+                        { status: receipt.status }
+                    );
+                }
+                payment = receipt.payment;
+            }
+
+            await client.query('COMMIT');
+
+            return NextResponse.json(
+                { success: true, data: payment, message: 'Payment recorded successfully' },
+                { status: 201 }
+            );
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
+        }
     } catch (error) {
         console.error('Payments API error:', error);
         return NextResponse.json(
@@ -2,12 +2,16 @@
  * Student Payments API Route (App Router)
  * ========================================
  * Get payment history for a specific student.
+ *
+ * Totals are based on money actually received (payments.amount_paid), so a
+ * partly paid due counts its paid part as paid and the rest as outstanding.
  * 
  * Endpoint: GET /api/payments/student/[id]
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
+import { authorize, canAccessStudent, forbidden } from '@/lib/auth';
 import { ApiResponse, Payment } from '@/lib/types';
 
 interface PaymentSummary {
@@ -16,6 +20,7 @@ interface PaymentSummary {
         total_paid: number;
         total_pending: number;
         total_overdue: number;
+        outstanding_balance: number;
         payment_count: number;
     };
 }
@@ -37,6 +42,10 @@ export async function GET(request: NextRequest, context: RouteContext) {
             );
         }
 
+        const auth = await authorize(request);
+        if (auth.error) return auth.error;
+        if (!canAccessStudent(auth.user, studentId)) return forbidden();
+
         // Verify student exists
         const studentCheck = await query(
             'SELECT id FROM students WHERE id = $1',
@@ -53,6 +62,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
         const paymentsResult = await query<Payment>(
             `SELECT 
                 p.*,
+                p.amount - p.amount_paid as balance,
                 CURRENT_DATE - p.due_date as days_overdue
              FROM payments p
              WHERE p.student_id = $1
@@ -65,12 +75,20 @@ export async function GET(request: NextRequest, context: RouteContext) {
             total_paid: string;
             total_pending: string;
             total_overdue: string;
+            outstanding_balance: string;
             payment_count: string;
         }>(
             `SELECT 
-                COALESCE(SUM(amount) FILTER (WHERE payment_status = 'paid'), 0) as total_paid,
-                COALESCE(SUM(amount) FILTER (WHERE payment_status = 'pending'), 0) as total_pending,
-                COALESCE(SUM(amount) FILTER (WHERE payment_status = 'overdue'), 0) as total_overdue,
+                COALESCE(SUM(amount_paid), 0) as total_paid,
+                COALESCE(SUM(amount - amount_paid) FILTER (
+                    WHERE payment_status = 'pending'
+                       OR (payment_status = 'partial' AND due_date >= CURRENT_DATE)
+                ), 0) as total_pending,
+                COALESCE(SUM(amount - amount_paid) FILTER (
+                    WHERE payment_status = 'overdue'
+                       OR (payment_status = 'partial' AND due_date < CURRENT_DATE)
+                ), 0) as total_overdue,
+                COALESCE(SUM(amount - amount_paid) FILTER (WHERE payment_status <> 'paid'), 0) as outstanding_balance,
                 COUNT(*) as payment_count
              FROM payments
              WHERE student_id = $1`,
@@ -87,6 +105,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
                     total_paid: parseFloat(summary.total_paid),
                     total_pending: parseFloat(summary.total_pending),
                     total_overdue: parseFloat(summary.total_overdue),
+                    outstanding_balance: parseFloat(summary.outstanding_balance),
                     payment_count: parseInt(summary.payment_count)
                 }
             }
@@ -0,0 +1,160 @@
+/**
+ * Student Fee Statement PDF Route (App Router)
+ * =============================================
+ * Download a statement of charges and receipts for a student.
+ *
+ * Endpoint: GET /api/payments/student/[id]/statement.pdf?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Charges are dated by due date and receipts by the day they were paid.
+ * Without a range the statement covers the current calendar year up to today.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, canAccessStudent, forbidden } from '@/lib/auth';
+import { buildStatementPdf, StatementDocument } from '@/lib/paymentDocuments';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/payments/student/[id]/statement.pdf
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const { id } = await context.params;
+        const studentId = parseInt(id);
+
+        if (isNaN(studentId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid student ID' },
+                { status: 400 }
+            );
+        }
+
+        const auth = await authorize(request);
+        if (auth.error) return auth.error;
+        if (!canAccessStudent(auth.user, studentId)) return forbidden();
+
+        const searchParams = request.nextUrl.searchParams;
+        const today = new Date().toISOString().split('T')[0];
+        const from = searchParams.get('from') || `${today.slice(0, 4)}-01-01`;
+        const to = searchParams.get('to') || today;
+
+        if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+            return NextResponse.json(
+                { success: false, error: 'from and to must be dates in YYYY-MM-DD format' },
+                { status: 400 }
+            );
+        }
+
+        if (to < from) {
+            return NextResponse.json(
+                { success: false, error: 'to must be on or after from' },
+                { status: 400 }
+            );
+        }
+
+        const studentResult = await query<{
+            student_name: string;
+            registration_number: string;
+            room_number: string | null;
+            hostel_name: string | null;
+        }>(
+            `SELECT
+              s.first_name || ' ' || s.last_name as student_name,
+              s.registration_number,
+              r.room_number,
+              h.name as hostel_name
+             FROM students s
+             LEFT JOIN allocations a ON a.student_id = s.id AND a.is_active = TRUE
+             LEFT JOIN rooms r ON a.room_id = r.id
+             LEFT JOIN hostels h ON r.hostel_id = h.id
+             WHERE s.id = $1`,
+            [studentId]
+        );
+
+        if (studentResult.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Student not found' },
+                { status: 404 }
+            );
+        }
+
+        // Everything charged minus everything received before the range starts
+        const openingResult = await query<{ opening_balance: string }>(
+            `SELECT
+              COALESCE((SELECT SUM(amount) FROM payments
+                        WHERE student_id = $1 AND due_date < $2::DATE), 0)
+              - COALESCE((SELECT SUM(t.amount) FROM payment_transactions t
+                          INNER JOIN payments p ON t.payment_id = p.id
+                          WHERE p.student_id = $1 AND t.paid_on < $2::DATE), 0)
+              as opening_balance`,
+            [studentId, from]
+        );
+
+        // UNION ALL: charges and receipts merged into one dated ledger
+        const entriesResult = await query<{ date: string; description: string; charge: string; credit: string }>(
+            `SELECT date::TEXT as date, description, charge, credit
+             FROM (
+               SELECT
+                 p.due_date as date,
+                 COALESCE(p.semester, 'Fee') ||
+                   CASE WHEN p.late_fee_for IS NOT NULL THEN ' late fee' ELSE ' charge' END ||
+                   ' (#' || p.id || ')' as description,
+                 p.amount as charge,
+                 0 as credit,
+                 1 as sort_order,
+                 p.id as sort_id
+               FROM payments p
+               WHERE p.student_id = $1 AND p.due_date BETWEEN $2::DATE AND $3::DATE
+
+               UNION ALL
+
+               SELECT
+                 t.paid_on as date,
+                 'Payment received, ' || REPLACE(t.payment_method, '_', ' ') ||
+                   COALESCE(' ' || p.receipt_number, '') || ' (#' || p.id || ')' as description,
+                 0 as charge,
+                 t.amount as credit,
+                 2 as sort_order,
+                 t.id as sort_id
+               FROM payment_transactions t
+               INNER JOIN payments p ON t.payment_id = p.id
+               WHERE p.student_id = $1 AND t.paid_on BETWEEN $2::DATE AND $3::DATE
+             ) ledger
+             ORDER BY date, sort_order, sort_id`,
+            [studentId, from, to]
+        );
+
+        const statement: StatementDocument = {
+            ...studentResult.rows[0],
+            from,
+            to,
+            opening_balance: parseFloat(openingResult.rows[0].opening_balance),
+            entries: entriesResult.rows.map(row => ({
+                date: row.date,
+                description: row.description,
+                charge: parseFloat(row.charge),
+                credit: parseFloat(row.credit)
+            }))
+        };
+
+        const pdf = buildStatementPdf(statement);
+
+        return new NextResponse(new Uint8Array(pdf), {
+            headers: {
+                'Content-Type': 'application/pdf',
+                'Content-Disposition': `attachment; filename="statement-${statement.registration_number}-${from}-${to}.pdf"`,
+                'Cache-Control': 'private, no-store'
+            }
+        });
+    } catch (error) {
+        console.error('Student statement API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
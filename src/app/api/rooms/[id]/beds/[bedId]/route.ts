@@ -0,0 +1,102 @@
+/**
+ * Bed Detail API Route (App Router)
+ * ==================================
+ * Update a single bed's fittings and service status.
+ *
+ * Endpoint: PUT /api/rooms/[id]/beds/[bedId]
+ * Body: { has_desk?, locker_number?, is_available?, notes? }
+ *
+ * Taking a bed out of service does not move its occupant; it only stops
+ * the bed from being handed out to new allocations.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { Bed } from '@/lib/types';
+
+type RouteContext = { params: Promise<{ id: string; bedId: string }> };
+
+/**
+ * PUT /api/rooms/[id]/beds/[bedId]
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const { id, bedId } = await context.params;
+        const roomId = parseInt(id);
+        const bedIdNum = parseInt(bedId);
+
+        if (isNaN(roomId) || isNaN(bedIdNum)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid room or bed ID' },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json();
+        const { has_desk, locker_number, is_available, notes } = body;
+
+        const updates: string[] = [];
+        const params: (string | number | boolean | null)[] = [];
+        let paramIndex = 1;
+
+        if (has_desk !== undefined) {
+            updates.push(`has_desk = $${paramIndex++}`);
+            params.push(Boolean(has_desk));
+        }
+
+        if (locker_number !== undefined) {
+            updates.push(`locker_number = $${paramIndex++}`);
+            params.push(locker_number || null);
+        }
+
+        if (is_available !== undefined) {
+            updates.push(`is_available = $${paramIndex++}`);
+            params.push(Boolean(is_available));
+        }
+
+        if (notes !== undefined) {
+            updates.push(`notes = $${paramIndex++}`);
+            params.push(notes || null);
+        }
+
+        if (updates.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'No fields to update' },
+                { status: 400 }
+            );
+        }
+
+        params.push(bedIdNum, roomId);
+
+        const result = await query<Bed>(
+            `UPDATE beds
+             SET ${updates.join(', ')}
+             WHERE id = $${paramIndex} AND room_id = $${paramIndex + 1}
+             RETURNING *`,
+            params
+        );
+
+        if (result.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Bed not found in this room' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: result.rows[0],
+            message: `Bed ${result.rows[0].bed_label} updated successfully`
+        });
+    } catch (error) {
+        console.error('Bed detail API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,76 @@
+/**
+ * Room Beds API Route (App Router)
+ * =================================
+ * Per-bed layout of a room: who sleeps where and which beds have open issues.
+ *
+ * Endpoint: GET /api/rooms/[id]/beds
+ *
+ * Beds themselves are created and removed by the trg_sync_room_beds trigger
+ * when a room's capacity changes; PUT /api/rooms/[id]/beds/[bedId] edits one.
+ * Students may only view the beds of their own room.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, forbidden } from '@/lib/auth';
+import { ApiResponse, Bed } from '@/lib/types';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/rooms/[id]/beds
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const roomId = parseInt(id);
+
+        if (isNaN(roomId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid room ID' },
+                { status: 400 }
+            );
+        }
+
+        if (auth.user.role === 'student') {
+            const ownRoom = await query(
+                'SELECT 1 FROM allocations WHERE student_id = $1 AND room_id = $2 AND is_active = TRUE',
+                [auth.user.student_id, roomId]
+            );
+            if (ownRoom.rows.length === 0) return forbidden();
+        }
+
+        const result = await query<Bed>(
+            `SELECT
+              b.*,
+              a.id as allocation_id,
+              s.id as student_id,
+              s.first_name || ' ' || s.last_name as student_name,
+              s.registration_number,
+              (
+                SELECT COUNT(*)::INTEGER FROM complaints c
+                WHERE c.bed_id = b.id AND c.status IN ('open', 'assigned', 'in_progress')
+              ) as open_complaints
+             FROM beds b
+             LEFT JOIN allocations a ON a.bed_id = b.id AND a.is_active = TRUE
+             LEFT JOIN students s ON a.student_id = s.id
+             WHERE b.room_id = $1
+             ORDER BY b.bed_label`,
+            [roomId]
+        );
+
+        return NextResponse.json<ApiResponse<Bed[]>>({
+            success: true,
+            data: result.rows
+        });
+    } catch (error) {
+        console.error('Room beds API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
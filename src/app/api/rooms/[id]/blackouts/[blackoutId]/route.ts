@@ -0,0 +1,131 @@
+/**
+ * Room Blackout Detail API Route (App Router)
+ * ============================================
+ * One maintenance window and the relocation plan for its room.
+ *
+ * Endpoints:
+ * - GET /api/rooms/[id]/blackouts/[blackoutId] - Window with relocation plan
+ *   and the bed bookings inside it
+ * - DELETE /api/rooms/[id]/blackouts/[blackoutId] - Cancel a scheduled or active window
+ *
+ * Cancelling an active window re-opens the room if this window closed it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { applyRoomBlackouts, buildRelocationPlan, findAffectedBookings, listBlackouts } from '@/lib/roomBlackouts';
+
+type RouteContext = { params: Promise<{ id: string; blackoutId: string }> };
+
+/**
+ * GET /api/rooms/[id]/blackouts/[blackoutId]
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const { id, blackoutId } = await context.params;
+        const roomId = parseInt(id);
+        const blackoutIdNum = parseInt(blackoutId);
+
+        if (isNaN(roomId) || isNaN(blackoutIdNum)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid room or blackout ID' },
+                { status: 400 }
+            );
+        }
+
+        const [blackout] = await listBlackouts({ id: blackoutIdNum, room_id: roomId });
+
+        if (!blackout) {
+            return NextResponse.json(
+                { success: false, error: 'Maintenance window not found' },
+                { status: 404 }
+            );
+        }
+
+        // Finished windows no longer displace anyone
+        const open = ['scheduled', 'active'].includes(blackout.status);
+        const relocation_plan = open ? await buildRelocationPlan(blackout) : [];
+        const affected_bookings = open ? await findAffectedBookings(blackout) : [];
+
+        return NextResponse.json({
+            success: true,
+            data: { blackout, relocation_plan, affected_bookings }
+        });
+    } catch (error) {
+        console.error('Room blackout API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/rooms/[id]/blackouts/[blackoutId]
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const { id, blackoutId } = await context.params;
+        const roomId = parseInt(id);
+        const blackoutIdNum = parseInt(blackoutId);
+
+        if (isNaN(roomId) || isNaN(blackoutIdNum)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid room or blackout ID' },
+                { status: 400 }
+            );
+        }
+
+        const existing = await query<{ status: string }>(
+            'SELECT status FROM room_blackouts WHERE id = $1 AND room_id = $2',
+            [blackoutIdNum, roomId]
+        );
+
+        if (existing.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Maintenance window not found' },
+                { status: 404 }
+            );
+        }
+
+        // Conditional UPDATE: finished windows stay in the record
+        const result = await query(
+            `UPDATE room_blackouts
+             SET status = 'cancelled'
+             WHERE id = $1 AND status IN ('scheduled', 'active')
+             RETURNING id`,
+            [blackoutIdNum]
+        );
+
+        if (result.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: `Window is already ${existing.rows[0].status}` },
+                { status: 400 }
+            );
+        }
+
+        const summary = await applyRoomBlackouts();
+        const [blackout] = await listBlackouts({ id: blackoutIdNum });
+
+        return NextResponse.json({
+            success: true,
+            data: blackout,
+            message: summary.rooms_reopened > 0
+                ? 'Maintenance cancelled and room re-opened'
+                : 'Maintenance cancelled'
+        });
+    } catch (error) {
+        console.error('Room blackout API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,181 @@
+/**
+ * Room Blackouts API Route (App Router)
+ * ======================================
+ * Maintenance windows for one room.
+ *
+ * Endpoints:
+ * - GET /api/rooms/[id]/blackouts - List the room's windows
+ * - POST /api/rooms/[id]/blackouts - Schedule a window
+ *
+ * A window starting today closes the room straight away. When the room is
+ * occupied the response carries a relocation plan for its residents, and it
+ * lists the bed bookings that fall inside the window.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { ApiResponse, RoomBlackout } from '@/lib/types';
+import {
+    applyRoomBlackouts,
+    BLACKOUT_REASONS,
+    buildRelocationPlan,
+    findAffectedBookings,
+    listBlackouts
+} from '@/lib/roomBlackouts';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/rooms/[id]/blackouts
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const roomId = parseInt(id);
+
+        if (isNaN(roomId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid room ID' },
+                { status: 400 }
+            );
+        }
+
+        const blackouts = await listBlackouts({ room_id: roomId });
+
+        return NextResponse.json<ApiResponse<RoomBlackout[]>>({
+            success: true,
+            data: blackouts
+        });
+    } catch (error) {
+        console.error('Room blackouts API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/rooms/[id]/blackouts
+ *
+ * Body: { reason, starts_on: 'YYYY-MM-DD', ends_on: 'YYYY-MM-DD', notes? }
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const roomId = parseInt(id);
+
+        if (isNaN(roomId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid room ID' },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json();
+        const { reason, starts_on, ends_on, notes } = body;
+
+        if (!reason || !starts_on || !ends_on) {
+            return NextResponse.json(
+                { success: false, error: 'Missing required fields: reason, starts_on, ends_on' },
+                { status: 400 }
+            );
+        }
+
+        if (!BLACKOUT_REASONS.includes(reason)) {
+            return NextResponse.json(
+                { success: false, error: `Invalid reason. Must be one of: ${BLACKOUT_REASONS.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(starts_on) || !/^\d{4}-\d{2}-\d{2}$/.test(ends_on)) {
+            return NextResponse.json(
+                { success: false, error: 'Dates must be in YYYY-MM-DD format' },
+                { status: 400 }
+            );
+        }
+
+        if (ends_on < starts_on) {
+            return NextResponse.json(
+                { success: false, error: 'End date cannot be before start date' },
+                { status: 400 }
+            );
+        }
+
+        const room = await query('SELECT id FROM rooms WHERE id = $1', [roomId]);
+
+        if (room.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Room not found' },
+                { status: 404 }
+            );
+        }
+
+        const ended = await query<{ ended: boolean }>('SELECT $1::DATE < CURRENT_DATE as ended', [ends_on]);
+
+        if (ended.rows[0].ended) {
+            return NextResponse.json(
+                { success: false, error: 'The window has already ended' },
+                { status: 400 }
+            );
+        }
+
+        const overlap = await query<{ starts_on: string; ends_on: string }>(
+            `SELECT starts_on::TEXT as starts_on, ends_on::TEXT as ends_on
+             FROM room_blackouts
+             WHERE room_id = $1
+               AND status IN ('scheduled', 'active')
+               AND starts_on <= $3::DATE
+               AND ends_on >= $2::DATE
+             LIMIT 1`,
+            [roomId, starts_on, ends_on]
+        );
+
+        if (overlap.rows.length > 0) {
+            const clash = overlap.rows[0];
+            return NextResponse.json(
+                { success: false, error: `Overlaps an existing window (${clash.starts_on} to ${clash.ends_on})` },
+                { status: 409 }
+            );
+        }
+
+        const inserted = await query<{ id: number }>(
+            `INSERT INTO room_blackouts (room_id, reason, starts_on, ends_on, notes, created_by)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             RETURNING id`,
+            [roomId, reason, starts_on, ends_on, notes || null, auth.user.username]
+        );
+
+        // Close the room now if the window has already started
+        await applyRoomBlackouts();
+
+        const [blackout] = await listBlackouts({ id: inserted.rows[0].id });
+        const relocation_plan = await buildRelocationPlan(blackout);
+        const affected_bookings = await findAffectedBookings(blackout);
+
+        const notices = [
+            relocation_plan.length > 0 ? `${relocation_plan.length} resident(s) need to move out.` : '',
+            affected_bookings.length > 0 ? `${affected_bookings.length} booking(s) fall inside the window.` : ''
+        ].filter(Boolean);
+
+        return NextResponse.json({
+            success: true,
+            data: { blackout, relocation_plan, affected_bookings },
+            message: notices.length > 0 ? `Maintenance scheduled. ${notices.join(' ')}` : 'Maintenance scheduled'
+        }, { status: 201 });
+    } catch (error) {
+        console.error('Room blackouts API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
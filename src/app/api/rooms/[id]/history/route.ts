@@ -0,0 +1,56 @@
+/**
+ * Room Occupancy History API (App Router)
+ * ========================================
+ * Endpoint: GET /api/rooms/[id]/history - Every student who has lived in the
+ * room, newest first, with billing and damage totals per stay, and every
+ * complaint about the room
+ *
+ * See src/lib/stayHistory.ts for how complaints are linked to stays.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { ApiResponse, RoomTimeline } from '@/lib/types';
+import { getRoomTimeline } from '@/lib/stayHistory';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/rooms/[id]/history
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const roomId = parseInt(id);
+
+        if (isNaN(roomId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid room ID' },
+                { status: 400 }
+            );
+        }
+
+        const timeline = await getRoomTimeline(roomId);
+
+        if (!timeline) {
+            return NextResponse.json(
+                { success: false, error: 'Room not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json<ApiResponse<RoomTimeline>>({
+            success: true,
+            data: timeline
+        });
+    } catch (error) {
+        console.error('Room history API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
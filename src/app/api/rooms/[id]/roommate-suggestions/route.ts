@@ -0,0 +1,57 @@
+/**
+ * Roommate Suggestions API Route (App Router)
+ * ============================================
+ * Unallocated students ranked by how well they fit a room's current occupants.
+ *
+ * Endpoint: GET /api/rooms/[id]/roommate-suggestions?limit=10
+ *
+ * See src/lib/roommateMatching.ts for the scoring rules.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { suggestRoommates } from '@/lib/roommateMatching';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/rooms/[id]/roommate-suggestions
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const roomId = parseInt(id);
+
+        if (isNaN(roomId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid room ID' },
+                { status: 400 }
+            );
+        }
+
+        const limit = Math.min(parseInt(request.nextUrl.searchParams.get('limit') || '10') || 10, 50);
+
+        const result = await suggestRoommates(roomId, limit);
+
+        if ('error' in result) {
+            return NextResponse.json(
+                { success: false, error: result.error },
+                { status: result.status }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: result
+        });
+    } catch (error) {
+        console.error('Roommate suggestions API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,327 @@
+/**
+ * Room Detail API Route (App Router)
+ * ===================================
+ * Handle operations on individual rooms by ID.
+ *
+ * Endpoints:
+ * - GET /api/rooms/[id] - Get room details with hostel info
+ * - PUT /api/rooms/[id] - Update rent, capacity, amenities or availability
+ * - DELETE /api/rooms/[id] - Remove a room that has never been lived in
+ *
+ * Capacity can never drop below the current occupancy, and rooms with
+ * allocation history are taken out of service (is_available = false)
+ * rather than deleted, since deleting would cascade away that history.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize } from '@/lib/auth';
+import { ApiResponse, Room } from '@/lib/types';
+
+const ROOM_TYPES = ['single', 'double', 'triple', 'dormitory'];
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/rooms/[id]
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const roomId = parseInt(id);
+
+        if (isNaN(roomId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid room ID' },
+                { status: 400 }
+            );
+        }
+
+        const result = await query<Room>(
+            `SELECT
+              r.*,
+              h.name as hostel_name,
+              room_is_blacked_out(r.id) as in_blackout
+             FROM rooms r
+             INNER JOIN hostels h ON r.hostel_id = h.id
+             WHERE r.id = $1`,
+            [roomId]
+        );
+
+        if (result.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Room not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json<ApiResponse<Room>>({
+            success: true,
+            data: result.rows[0]
+        });
+    } catch (error) {
+        console.error('Room detail API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/rooms/[id]
+ *
+ * Body: { room_number?, floor?, room_type?, capacity?, rent_amount?,
+ *         has_ac?, has_attached_bathroom?, is_available? }
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const roomId = parseInt(id);
+
+        if (isNaN(roomId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid room ID' },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json();
+        const {
+            room_number,
+            floor,
+            room_type,
+            capacity,
+            rent_amount,
+            has_ac,
+            has_attached_bathroom,
+            is_available
+        } = body;
+
+        const existing = await query<Room & { hostel_active: boolean }>(
+            `SELECT r.*, h.is_active as hostel_active
+             FROM rooms r
+             INNER JOIN hostels h ON r.hostel_id = h.id
+             WHERE r.id = $1`,
+            [roomId]
+        );
+
+        if (existing.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Room not found' },
+                { status: 404 }
+            );
+        }
+
+        const room = existing.rows[0];
+
+        if (is_available === true && !room.hostel_active) {
+            return NextResponse.json(
+                { success: false, error: 'Rooms of a decommissioned hostel cannot be reopened' },
+                { status: 409 }
+            );
+        }
+
+        if (room_type !== undefined && !ROOM_TYPES.includes(room_type)) {
+            return NextResponse.json(
+                { success: false, error: `Invalid room type. Must be one of: ${ROOM_TYPES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        if (capacity !== undefined) {
+            const newCapacity = parseInt(capacity);
+
+            if (isNaN(newCapacity) || newCapacity < 1 || newCapacity > 10) {
+                return NextResponse.json(
+                    { success: false, error: 'Capacity must be between 1 and 10' },
+                    { status: 400 }
+                );
+            }
+
+            if (newCapacity < room.current_occupancy) {
+                return NextResponse.json(
+                    {
+                        success: false,
+                        error: `Room ${room.room_number} has ${room.current_occupancy} resident(s); capacity cannot go below that`
+                    },
+                    { status: 409 }
+                );
+            }
+        }
+
+        if (rent_amount !== undefined && (isNaN(parseFloat(rent_amount)) || parseFloat(rent_amount) < 0)) {
+            return NextResponse.json(
+                { success: false, error: 'Rent amount must be zero or more' },
+                { status: 400 }
+            );
+        }
+
+        const updates: string[] = [];
+        const params: (string | number | boolean | null)[] = [];
+        let paramIndex = 1;
+
+        if (room_number !== undefined) {
+            updates.push(`room_number = $${paramIndex++}`);
+            params.push(room_number);
+        }
+        if (floor !== undefined) {
+            updates.push(`floor = $${paramIndex++}`);
+            params.push(parseInt(floor));
+        }
+        if (room_type !== undefined) {
+            updates.push(`room_type = $${paramIndex++}`);
+            params.push(room_type);
+        }
+        if (capacity !== undefined) {
+            updates.push(`capacity = $${paramIndex++}`);
+            params.push(parseInt(capacity));
+        }
+        if (rent_amount !== undefined) {
+            updates.push(`rent_amount = $${paramIndex++}`);
+            params.push(parseFloat(rent_amount));
+        }
+        if (has_ac !== undefined) {
+            updates.push(`has_ac = $${paramIndex++}`);
+            params.push(Boolean(has_ac));
+        }
+        if (has_attached_bathroom !== undefined) {
+            updates.push(`has_attached_bathroom = $${paramIndex++}`);
+            params.push(Boolean(has_attached_bathroom));
+        }
+        if (is_available !== undefined) {
+            updates.push(`is_available = $${paramIndex++}`);
+            params.push(Boolean(is_available));
+        }
+
+        if (updates.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'No fields to update' },
+                { status: 400 }
+            );
+        }
+
+        if (room_number !== undefined && room_number !== room.room_number) {
+            const duplicate = await query(
+                'SELECT 1 FROM rooms WHERE hostel_id = $1 AND room_number = $2 AND id <> $3',
+                [room.hostel_id, room_number, roomId]
+            );
+            if (duplicate.rows.length > 0) {
+                return NextResponse.json(
+                    { success: false, error: `Room ${room_number} already exists in this hostel` },
+                    { status: 409 }
+                );
+            }
+        }
+
+        params.push(roomId);
+
+        // trg_sync_room_beds adds or removes beds to match a new capacity
+        let result;
+        try {
+            result = await query<Room>(
+                `UPDATE rooms
+                 SET ${updates.join(', ')}
+                 WHERE id = $${paramIndex}
+                 RETURNING *`,
+                params
+            );
+        } catch (updateError) {
+            // The trigger refuses to remove occupied or booked beds
+            if ((updateError as { code?: string }).code === 'P0001') {
+                return NextResponse.json(
+                    { success: false, error: (updateError as Error).message },
+                    { status: 409 }
+                );
+            }
+            throw updateError;
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: result.rows[0],
+            message: 'Room updated successfully'
+        });
+    } catch (error) {
+        console.error('Room detail API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/rooms/[id]
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const roomId = parseInt(id);
+
+        if (isNaN(roomId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid room ID' },
+                { status: 400 }
+            );
+        }
+
+        const usage = await query<{ room_number: string; active: number; past: number }>(
+            `SELECT
+              r.room_number,
+              COUNT(a.id) FILTER (WHERE a.is_active = TRUE)::INTEGER as active,
+              COUNT(a.id) FILTER (WHERE a.is_active = FALSE)::INTEGER as past
+             FROM rooms r
+             LEFT JOIN allocations a ON a.room_id = r.id
+             WHERE r.id = $1
+             GROUP BY r.id`,
+            [roomId]
+        );
+
+        if (usage.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Room not found' },
+                { status: 404 }
+            );
+        }
+
+        const { room_number, active, past } = usage.rows[0];
+
+        if (active > 0) {
+            return NextResponse.json(
+                { success: false, error: `Room ${room_number} is occupied by ${active} student(s). Move them out first.` },
+                { status: 409 }
+            );
+        }
+
+        if (past > 0) {
+            return NextResponse.json(
+                { success: false, error: `Room ${room_number} has allocation history. Mark it unavailable instead.` },
+                { status: 409 }
+            );
+        }
+
+        // Beds, blackouts, complaints and waitlist entries go with the room (ON DELETE CASCADE)
+        await query('DELETE FROM rooms WHERE id = $1', [roomId]);
+
+        return NextResponse.json({
+            success: true,
+            message: `Room ${room_number} deleted`
+        });
+    } catch (error) {
+        console.error('Room detail API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,13 +1,14 @@
 /**
  * Available Rooms API (App Router)
  * =================================
- * Fetches rooms that have available capacity for new allocations.
+ * Fetches rooms that have free beds for new allocations.
  * 
  * Uses the available_rooms VIEW defined in views.sql.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
 import { ApiResponse } from '@/lib/types';
 
 interface AvailableRoom {
@@ -20,6 +21,7 @@ interface AvailableRoom {
     capacity: number;
     current_occupancy: number;
     available_beds: number;
+    free_bed_labels: string;
     rent_amount: number;
     has_ac: boolean;
     has_attached_bathroom: boolean;
@@ -30,6 +32,9 @@ interface AvailableRoom {
  */
 export async function GET(request: NextRequest) {
     try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
         const searchParams = request.nextUrl.searchParams;
         const gender = searchParams.get('gender');
         const hostelId = searchParams.get('hostel_id');
@@ -75,14 +80,21 @@ export async function GET(request: NextRequest) {
                       r.room_type,
                       r.capacity,
                       r.current_occupancy,
-                      r.capacity - r.current_occupancy as available_beds,
+                      COUNT(b.id)::INTEGER as available_beds,
+                      STRING_AGG(b.bed_label, ', ' ORDER BY b.bed_label) as free_bed_labels,
                       r.rent_amount,
                       r.has_ac,
                       r.has_attached_bathroom
                     FROM rooms r
                     INNER JOIN hostels h ON r.hostel_id = h.id
+                    INNER JOIN beds b ON b.room_id = r.id
+                      AND b.is_available = TRUE
+                      AND NOT EXISTS (
+                        SELECT 1 FROM allocations a
+                        WHERE a.bed_id = b.id AND a.is_active = TRUE
+                      )
                     WHERE r.is_available = TRUE
-                      AND r.current_occupancy < r.capacity
+                    GROUP BY r.id, h.id
                     ORDER BY h.name, r.room_number
                 `);
 
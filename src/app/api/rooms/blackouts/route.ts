@@ -0,0 +1,78 @@
+/**
+ * Room Blackouts Job API (App Router)
+ * ====================================
+ * All maintenance windows, and the admin trigger for the room blackouts job.
+ * The same job runs from cron via scripts/apply-room-blackouts.mjs; both call
+ * the apply_room_blackouts() function defined in triggers.sql, so running it
+ * twice changes nothing.
+ *
+ * Endpoints:
+ * - GET /api/rooms/blackouts - List windows (?status=scheduled|active|completed|cancelled)
+ * - POST /api/rooms/blackouts - Start and end windows that are due
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { ApiResponse, BlackoutJobResult, RoomBlackout } from '@/lib/types';
+import { applyRoomBlackouts, listBlackouts } from '@/lib/roomBlackouts';
+
+/**
+ * GET /api/rooms/blackouts
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const status = request.nextUrl.searchParams.get('status') || undefined;
+        const blackouts = await listBlackouts({ status });
+
+        return NextResponse.json<ApiResponse<RoomBlackout[]>>({
+            success: true,
+            data: blackouts
+        });
+    } catch (error) {
+        console.error('Room blackouts API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/rooms/blackouts
+ *
+ * Body: { as_of?: 'YYYY-MM-DD' }
+ * as_of defaults to today.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const body = await request.json().catch(() => ({}));
+        const asOf: string | null = body.as_of || null;
+
+        if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+            return NextResponse.json(
+                { success: false, error: 'as_of must be a date in YYYY-MM-DD format' },
+                { status: 400 }
+            );
+        }
+
+        const summary = await applyRoomBlackouts(asOf);
+
+        return NextResponse.json<ApiResponse<BlackoutJobResult>>({
+            success: true,
+            data: summary,
+            message: `Closed ${summary.rooms_closed} room(s) and re-opened ${summary.rooms_reopened} room(s)`
+        });
+    } catch (error) {
+        console.error('Room blackouts API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
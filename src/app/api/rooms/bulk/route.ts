@@ -0,0 +1,174 @@
+/**
+ * Bulk Room Generator API Route (App Router)
+ * ===========================================
+ * Create a whole floor or wing of identical rooms from a numbering pattern.
+ *
+ * Endpoint: POST /api/rooms/bulk
+ * Body: {
+ *   hostel_id, pattern: 'B-3{01..20}', floor, room_type, rent_amount,
+ *   capacity?, has_ac?, has_attached_bathroom?, dry_run?
+ * }
+ *
+ * Capacity defaults to the room type (single 1, double 2, triple 3) and is
+ * required for dormitories. Room numbers that already exist in the hostel
+ * are skipped, so a pattern can be re-run to fill gaps. With dry_run the
+ * rooms are listed but not created.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize } from '@/lib/auth';
+import { Room } from '@/lib/types';
+import { expandRoomPattern } from '@/lib/roomPatterns';
+
+const DEFAULT_CAPACITY: Record<string, number> = {
+    single: 1,
+    double: 2,
+    triple: 3
+};
+
+const ROOM_TYPES = ['single', 'double', 'triple', 'dormitory'];
+
+/**
+ * POST /api/rooms/bulk
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const body = await request.json();
+        const {
+            hostel_id,
+            pattern,
+            floor,
+            room_type,
+            capacity,
+            rent_amount,
+            has_ac,
+            has_attached_bathroom,
+            dry_run
+        } = body;
+
+        if (!hostel_id || !pattern || floor === undefined || floor === '' || !room_type || rent_amount === undefined || rent_amount === '') {
+            return NextResponse.json(
+                { success: false, error: 'Missing required fields: hostel_id, pattern, floor, room_type, rent_amount' },
+                { status: 400 }
+            );
+        }
+
+        if (!ROOM_TYPES.includes(room_type)) {
+            return NextResponse.json(
+                { success: false, error: `Invalid room type. Must be one of: ${ROOM_TYPES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const roomCapacity = capacity ? parseInt(capacity) : DEFAULT_CAPACITY[room_type];
+
+        if (!roomCapacity || isNaN(roomCapacity) || roomCapacity < 1 || roomCapacity > 10) {
+            return NextResponse.json(
+                { success: false, error: 'Capacity must be between 1 and 10 (required for dormitories)' },
+                { status: 400 }
+            );
+        }
+
+        const floorNumber = parseInt(floor);
+        const rent = parseFloat(rent_amount);
+
+        if (isNaN(floorNumber) || floorNumber < 0 || isNaN(rent) || rent < 0) {
+            return NextResponse.json(
+                { success: false, error: 'Floor and rent amount must be zero or more' },
+                { status: 400 }
+            );
+        }
+
+        if (typeof pattern !== 'string') {
+            return NextResponse.json(
+                { success: false, error: 'Pattern must be text such as B-3{01..20}' },
+                { status: 400 }
+            );
+        }
+
+        const expanded = expandRoomPattern(pattern);
+
+        if ('error' in expanded) {
+            return NextResponse.json(
+                { success: false, error: expanded.error },
+                { status: 400 }
+            );
+        }
+
+        const hostelCheck = await query<{ is_active: boolean }>('SELECT is_active FROM hostels WHERE id = $1', [hostel_id]);
+        if (hostelCheck.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Hostel not found' },
+                { status: 400 }
+            );
+        }
+        if (!hostelCheck.rows[0].is_active) {
+            return NextResponse.json(
+                { success: false, error: 'Hostel is decommissioned' },
+                { status: 409 }
+            );
+        }
+
+        const { rooms } = expanded;
+        const numberPlaceholders = rooms.map((_, i) => `$${i + 2}`).join(', ');
+
+        const existing = await query<{ room_number: string }>(
+            `SELECT room_number FROM rooms WHERE hostel_id = $1 AND room_number IN (${numberPlaceholders})`,
+            [hostel_id, ...rooms]
+        );
+        const taken = new Set(existing.rows.map(row => row.room_number));
+        const toCreate = rooms.filter(room => !taken.has(room));
+        const skipped = rooms.filter(room => taken.has(room));
+
+        if (dry_run || toCreate.length === 0) {
+            return NextResponse.json({
+                success: true,
+                data: { created: [], to_create: toCreate, skipped },
+                message: dry_run
+                    ? `${toCreate.length} room(s) would be created, ${skipped.length} already exist`
+                    : 'All rooms in this pattern already exist'
+            });
+        }
+
+        // One multi-row INSERT, so the whole floor is created or none of it.
+        // trg_sync_room_beds and trg_update_room_count fire for every row.
+        const values = toCreate.map((_, i) => `($${i + 8})`).join(', ');
+
+        const result = await query<Room>(
+            `INSERT INTO rooms (
+              hostel_id, room_number, floor, room_type, capacity,
+              rent_amount, has_ac, has_attached_bathroom
+            )
+            SELECT $1, v.room_number, $2, $3::room_type, $4, $5, $6, $7
+            FROM (VALUES ${values}) AS v(room_number)
+            ON CONFLICT (hostel_id, room_number) DO NOTHING
+            RETURNING *`,
+            [
+                hostel_id,
+                floorNumber,
+                room_type,
+                roomCapacity,
+                rent,
+                Boolean(has_ac),
+                Boolean(has_attached_bathroom),
+                ...toCreate
+            ]
+        );
+
+        return NextResponse.json({
+            success: true,
+            data: { created: result.rows, to_create: [], skipped },
+            message: `Created ${result.rows.length} room(s)` + (skipped.length > 0 ? `, skipped ${skipped.length} existing` : '')
+        }, { status: 201 });
+    } catch (error) {
+        console.error('Bulk rooms API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
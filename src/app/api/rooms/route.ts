@@ -5,18 +5,39 @@
  * 
  * Endpoints:
  * - GET /api/rooms - List all rooms with hostel info
+ *   (?format=csv|xlsx downloads every matching room)
  * - POST /api/rooms - Create a new room
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
+import { authorize } from '@/lib/auth';
 import { PaginatedResponse, Room } from '@/lib/types';
+import { ExportColumn, exportResponse, getExportFormat } from '@/lib/export';
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+    { key: 'hostel_name', header: 'Hostel' },
+    { key: 'room_number', header: 'Room' },
+    { key: 'floor', header: 'Floor', numeric: true },
+    { key: 'room_type', header: 'Type' },
+    { key: 'capacity', header: 'Capacity', numeric: true },
+    { key: 'current_occupancy', header: 'Occupancy', numeric: true },
+    { key: 'available_beds', header: 'Free Beds', numeric: true },
+    { key: 'rent_amount', header: 'Rent', numeric: true },
+    { key: 'has_ac', header: 'AC' },
+    { key: 'has_attached_bathroom', header: 'Attached Bathroom' },
+    { key: 'is_available', header: 'Available' },
+    { key: 'in_blackout', header: 'In Maintenance' }
+];
 
 /**
  * GET /api/rooms
  */
 export async function GET(request: NextRequest) {
     try {
+        const auth = await authorize(request);
+        if (auth.error) return auth.error;
+
         const searchParams = request.nextUrl.searchParams;
         const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
         const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')));
@@ -41,18 +62,44 @@ export async function GET(request: NextRequest) {
             params.push(roomType);
         }
 
+        // A room inside a maintenance window counts as unavailable
         if (available === 'true') {
-            conditions.push(`r.is_available = TRUE`);
+            conditions.push(`r.is_available = TRUE AND NOT room_is_blacked_out(r.id)`);
         } else if (available === 'false') {
-            conditions.push(`r.is_available = FALSE`);
+            conditions.push(`(r.is_available = FALSE OR room_is_blacked_out(r.id))`);
         }
 
+        // Vacancy means a bed that is in service and not taken
         if (hasVacancy === 'true') {
-            conditions.push(`r.current_occupancy < r.capacity`);
+            conditions.push(`NOT room_is_blacked_out(r.id) AND EXISTS (
+              SELECT 1 FROM beds b
+              WHERE b.room_id = r.id AND b.is_available = TRUE
+                AND NOT EXISTS (SELECT 1 FROM allocations a WHERE a.bed_id = b.id AND a.is_active = TRUE)
+            )`);
         }
 
         const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
+        const listSql = `SELECT 
+              r.*,
+              h.name as hostel_name,
+              h.gender_allowed,
+              room_is_blacked_out(r.id) as in_blackout,
+              (
+                SELECT COUNT(*)::INTEGER FROM beds b
+                WHERE b.room_id = r.id AND b.is_available = TRUE
+                  AND NOT EXISTS (SELECT 1 FROM allocations a WHERE a.bed_id = b.id AND a.is_active = TRUE)
+              ) as available_beds
+             FROM rooms r
+             INNER JOIN hostels h ON r.hostel_id = h.id
+             ${whereClause}
+             ORDER BY h.name, r.room_number`;
+
+        const format = getExportFormat(searchParams);
+        if (format) {
+            return exportResponse(format, 'rooms', EXPORT_COLUMNS, listSql, params);
+        }
+
         const countResult = await query<{ count: string }>(
             `SELECT COUNT(*) as count 
              FROM rooms r 
@@ -63,15 +110,7 @@ export async function GET(request: NextRequest) {
         const total = parseInt(countResult.rows[0].count);
 
         const dataResult = await query<Room>(
-            `SELECT 
-              r.*,
-              h.name as hostel_name,
-              h.gender_allowed,
-              (r.capacity - r.current_occupancy) as available_beds
-             FROM rooms r
-             INNER JOIN hostels h ON r.hostel_id = h.id
-             ${whereClause}
-             ORDER BY h.name, r.room_number
+            `${listSql}
              LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
             [...params, limit, offset]
         );
@@ -97,9 +136,14 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/rooms
+ *
+ * Beds A, B, C... up to the capacity are created by the trg_sync_room_beds trigger.
  */
 export async function POST(request: NextRequest) {
     try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
         const body = await request.json();
         const {
             hostel_id,
@@ -119,13 +163,19 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const hostelCheck = await query('SELECT id FROM hostels WHERE id = $1', [hostel_id]);
+        const hostelCheck = await query<{ is_active: boolean }>('SELECT is_active FROM hostels WHERE id = $1', [hostel_id]);
         if (hostelCheck.rows.length === 0) {
             return NextResponse.json(
                 { success: false, error: 'Hostel not found' },
                 { status: 400 }
             );
         }
+        if (!hostelCheck.rows[0].is_active) {
+            return NextResponse.json(
+                { success: false, error: 'Hostel is decommissioned' },
+                { status: 409 }
+            );
+        }
 
         const result = await query<Room>(
             `INSERT INTO rooms (
@@ -0,0 +1,62 @@
+/**
+ * Staff Login Account API (App Router)
+ * ====================================
+ * Endpoint: PUT /api/staff/[id]/account - Set the staff login's password,
+ * creating the login on first use (management only)
+ *
+ * See src/lib/accounts.ts for the account rules.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { setAccountPassword } from '@/lib/accounts';
+import { ApiResponse, User } from '@/lib/types';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * PUT /api/staff/[id]/account
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const staffId = parseInt(id);
+
+        if (isNaN(staffId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid staff ID' },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json();
+        const result = await setAccountPassword({ staff_id: staffId }, body.password);
+
+        if ('error' in result) {
+            return NextResponse.json(
+                { success: false, error: result.error },
+                { status: result.status }
+            );
+        }
+
+        return NextResponse.json<ApiResponse<User>>(
+            {
+                success: true,
+                data: result.user,
+                message: result.created
+                    ? `Login created for ${result.user.username}`
+                    : `Password reset for ${result.user.username}`
+            },
+            { status: result.created ? 201 : 200 }
+        );
+    } catch (error) {
+        console.error('Staff account API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
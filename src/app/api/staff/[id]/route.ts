@@ -0,0 +1,254 @@
+/**
+ * Staff Detail API Route (App Router)
+ * ====================================
+ * Handle operations on individual maintenance staff members.
+ *
+ * Endpoints:
+ * - GET /api/staff/[id] - Get staff details with assigned complaints
+ * - PUT /api/staff/[id] - Update details, hostel assignment or availability
+ * - DELETE /api/staff/[id] - Remove a staff member with no open work
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { ApiResponse, Complaint, MaintenanceStaff } from '@/lib/types';
+
+interface StaffWithComplaints extends MaintenanceStaff {
+    complaints: Complaint[];
+}
+
+const validSpecializations = [
+    'electrical', 'plumbing', 'furniture', 'cleaning',
+    'pest_control', 'internet', 'security', 'other'
+];
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/staff/[id]
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const staffId = parseInt(id);
+
+        if (isNaN(staffId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid staff ID' },
+                { status: 400 }
+            );
+        }
+
+        const staffResult = await query<MaintenanceStaff>(
+            `SELECT ms.*, h.name as hostel_name
+             FROM maintenance_staff ms
+             LEFT JOIN hostels h ON ms.hostel_id = h.id
+             WHERE ms.id = $1`,
+            [staffId]
+        );
+
+        if (staffResult.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Staff member not found' },
+                { status: 404 }
+            );
+        }
+
+        const complaintsResult = await query<Complaint>(
+            `SELECT
+              c.*,
+              r.room_number,
+              h.name as hostel_name
+             FROM complaints c
+             INNER JOIN rooms r ON c.room_id = r.id
+             INNER JOIN hostels h ON r.hostel_id = h.id
+             WHERE c.assigned_staff_id = $1
+             ORDER BY c.created_at DESC
+             LIMIT 50`,
+            [staffId]
+        );
+
+        return NextResponse.json<ApiResponse<StaffWithComplaints>>({
+            success: true,
+            data: {
+                ...staffResult.rows[0],
+                complaints: complaintsResult.rows
+            }
+        });
+    } catch (error) {
+        console.error('Staff detail API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/staff/[id]
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const staffId = parseInt(id);
+
+        if (isNaN(staffId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid staff ID' },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json();
+        const { name, email, phone, specialization, hostel_id, is_available } = body;
+
+        if (specialization && !validSpecializations.includes(specialization)) {
+            return NextResponse.json(
+                { success: false, error: `Invalid specialization. Must be one of: ${validSpecializations.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const updates: string[] = [];
+        const params: (string | number | boolean | null)[] = [];
+        let paramIndex = 1;
+
+        if (name !== undefined) {
+            updates.push(`name = $${paramIndex++}`);
+            params.push(name);
+        }
+        if (email !== undefined) {
+            updates.push(`email = $${paramIndex++}`);
+            params.push(email || null);
+        }
+        if (phone !== undefined) {
+            updates.push(`phone = $${paramIndex++}`);
+            params.push(phone);
+        }
+        if (specialization !== undefined) {
+            updates.push(`specialization = $${paramIndex++}`);
+            params.push(specialization || null);
+        }
+        if (hostel_id !== undefined) {
+            if (hostel_id) {
+                const hostelCheck = await query('SELECT id FROM hostels WHERE id = $1', [hostel_id]);
+                if (hostelCheck.rows.length === 0) {
+                    return NextResponse.json(
+                        { success: false, error: 'Hostel not found' },
+                        { status: 400 }
+                    );
+                }
+            }
+            updates.push(`hostel_id = $${paramIndex++}`);
+            params.push(hostel_id || null);
+        }
+        if (is_available !== undefined) {
+            updates.push(`is_available = $${paramIndex++}`);
+            params.push(Boolean(is_available));
+        }
+
+        if (updates.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'No fields to update' },
+                { status: 400 }
+            );
+        }
+
+        params.push(staffId);
+
+        const result = await query<MaintenanceStaff>(
+            `UPDATE maintenance_staff
+             SET ${updates.join(', ')}
+             WHERE id = $${paramIndex}
+             RETURNING *`,
+            params
+        );
+
+        if (result.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Staff member not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: result.rows[0],
+            message: 'Staff member updated successfully'
+        });
+    } catch (error) {
+        console.error('Staff detail API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/staff/[id]
+ *
+ * Staff with complaints still in progress must be reassigned first.
+ * Past complaints keep their history; the FK sets assigned_staff_id to NULL.
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const staffId = parseInt(id);
+
+        if (isNaN(staffId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid staff ID' },
+                { status: 400 }
+            );
+        }
+
+        const activeResult = await query<{ count: string }>(
+            `SELECT COUNT(*) as count FROM complaints
+             WHERE assigned_staff_id = $1 AND status IN ('assigned', 'in_progress')`,
+            [staffId]
+        );
+        const activeCount = parseInt(activeResult.rows[0].count);
+
+        if (activeCount > 0) {
+            return NextResponse.json(
+                { success: false, error: `Staff member has ${activeCount} active complaint(s). Reassign them before removing.` },
+                { status: 400 }
+            );
+        }
+
+        const result = await query<MaintenanceStaff>(
+            'DELETE FROM maintenance_staff WHERE id = $1 RETURNING *',
+            [staffId]
+        );
+
+        if (result.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Staff member not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: result.rows[0],
+            message: 'Staff member removed successfully'
+        });
+    } catch (error) {
+        console.error('Staff detail API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,153 @@
+/**
+ * Maintenance Staff API Routes (App Router)
+ * ==========================================
+ * RESTful API for managing maintenance staff.
+ *
+ * Endpoints:
+ * - GET /api/staff - List staff with their complaint counts
+ * - POST /api/staff - Add a staff member
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { ApiResponse, MaintenanceStaff } from '@/lib/types';
+
+const validSpecializations = [
+    'electrical', 'plumbing', 'furniture', 'cleaning',
+    'pest_control', 'internet', 'security', 'other'
+];
+
+/**
+ * GET /api/staff
+ *
+ * Query params: specialization, hostel_id, is_available, search
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const searchParams = request.nextUrl.searchParams;
+        const specialization = searchParams.get('specialization');
+        const hostelId = searchParams.get('hostel_id');
+        const isAvailable = searchParams.get('is_available');
+        const search = searchParams.get('search');
+
+        const conditions: string[] = [];
+        const params: (string | number)[] = [];
+        let paramIndex = 1;
+
+        if (specialization) {
+            conditions.push(`ms.specialization = $${paramIndex++}`);
+            params.push(specialization);
+        }
+
+        if (hostelId) {
+            conditions.push(`ms.hostel_id = $${paramIndex++}`);
+            params.push(parseInt(hostelId));
+        }
+
+        if (isAvailable === 'true') {
+            conditions.push(`ms.is_available = TRUE`);
+        } else if (isAvailable === 'false') {
+            conditions.push(`ms.is_available = FALSE`);
+        }
+
+        if (search) {
+            conditions.push(`(ms.name ILIKE $${paramIndex} OR ms.email ILIKE $${paramIndex} OR ms.phone ILIKE $${paramIndex})`);
+            params.push(`%${search}%`);
+            paramIndex++;
+        }
+
+        const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const result = await query<MaintenanceStaff>(
+            `SELECT
+              ms.*,
+              h.name as hostel_name,
+              COUNT(c.id) FILTER (WHERE c.status IN ('assigned', 'in_progress')) as active_complaints,
+              COUNT(c.id) FILTER (WHERE c.status IN ('resolved', 'closed')) as resolved_complaints
+             FROM maintenance_staff ms
+             LEFT JOIN hostels h ON ms.hostel_id = h.id
+             LEFT JOIN complaints c ON c.assigned_staff_id = ms.id
+             ${whereClause}
+             GROUP BY ms.id, h.name
+             ORDER BY ms.name`,
+            params
+        );
+
+        return NextResponse.json<ApiResponse<MaintenanceStaff[]>>({
+            success: true,
+            data: result.rows
+        });
+    } catch (error) {
+        console.error('Staff API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/staff
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const body = await request.json();
+        const { name, email, phone, specialization, hostel_id, is_available } = body;
+
+        if (!name || !phone) {
+            return NextResponse.json(
+                { success: false, error: 'Missing required fields: name, phone' },
+                { status: 400 }
+            );
+        }
+
+        if (specialization && !validSpecializations.includes(specialization)) {
+            return NextResponse.json(
+                { success: false, error: `Invalid specialization. Must be one of: ${validSpecializations.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        if (hostel_id) {
+            const hostelCheck = await query('SELECT id FROM hostels WHERE id = $1', [hostel_id]);
+            if (hostelCheck.rows.length === 0) {
+                return NextResponse.json(
+                    { success: false, error: 'Hostel not found' },
+                    { status: 400 }
+                );
+            }
+        }
+
+        const result = await query<MaintenanceStaff>(
+            `INSERT INTO maintenance_staff (name, email, phone, specialization, hostel_id, is_available)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             RETURNING *`,
+            [
+                name,
+                email || null,
+                phone,
+                specialization || null,
+                hostel_id || null,
+                is_available ?? true
+            ]
+        );
+
+        return NextResponse.json(
+            { success: true, data: result.rows[0], message: 'Staff member added successfully' },
+            { status: 201 }
+        );
+    } catch (error) {
+        console.error('Staff API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
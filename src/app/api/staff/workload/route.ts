@@ -0,0 +1,43 @@
+/**
+ * Staff Workload API (App Router)
+ * ================================
+ * Current workload and resolution performance per staff member.
+ *
+ * Uses the staff_workload VIEW defined in views.sql.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
+import { ApiResponse, StaffWorkload } from '@/lib/types';
+
+/**
+ * GET /api/staff/workload
+ *
+ * Query params: available_only=true to hide unavailable staff
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
+        const availableOnly = request.nextUrl.searchParams.get('available_only') === 'true';
+
+        const result = await query<StaffWorkload>(
+            `SELECT * FROM staff_workload
+             ${availableOnly ? 'WHERE is_available = TRUE' : ''}
+             ORDER BY active_complaints DESC, staff_name`
+        );
+
+        return NextResponse.json<ApiResponse<StaffWorkload[]>>({
+            success: true,
+            data: result.rows
+        });
+    } catch (error) {
+        console.error('Staff workload API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,56 @@
+/**
+ * Student Stay History API (App Router)
+ * ======================================
+ * Endpoint: GET /api/students/[id]/history - Every room the student has lived
+ * in, with the payments and complaints of each stay (students: own only)
+ *
+ * See src/lib/stayHistory.ts for how payments and complaints are linked.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, canAccessStudent, forbidden } from '@/lib/auth';
+import { ApiResponse, StudentTimeline } from '@/lib/types';
+import { getStudentTimeline } from '@/lib/stayHistory';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/students/[id]/history
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const { id } = await context.params;
+        const studentId = parseInt(id);
+
+        if (isNaN(studentId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid student ID' },
+                { status: 400 }
+            );
+        }
+
+        const auth = await authorize(request);
+        if (auth.error) return auth.error;
+        if (!canAccessStudent(auth.user, studentId)) return forbidden();
+
+        const timeline = await getStudentTimeline(studentId);
+
+        if (!timeline) {
+            return NextResponse.json(
+                { success: false, error: 'Student not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json<ApiResponse<StudentTimeline>>({
+            success: true,
+            data: timeline
+        });
+    } catch (error) {
+        console.error('Student history API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,147 @@
+/**
+ * Student Lifestyle API Route (App Router)
+ * =========================================
+ * Roommate questionnaire answers used by roommate matching.
+ *
+ * Endpoints:
+ * - GET /api/students/[id]/lifestyle - Current answers (all null if never filled in)
+ * - PUT /api/students/[id]/lifestyle - Save answers
+ *
+ * Body: { sleep_schedule?, study_habits?, smokes?, cleanliness? }
+ * Every answer is optional; null clears it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, canAccessStudent, forbidden } from '@/lib/auth';
+import { ApiResponse, StudentLifestyle } from '@/lib/types';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const SLEEP_SCHEDULES = ['early_bird', 'night_owl', 'flexible'];
+const STUDY_HABITS = ['silent_room', 'background_noise', 'outside_room'];
+
+/**
+ * GET /api/students/[id]/lifestyle
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+    try {
+        const { id } = await context.params;
+        const studentId = parseInt(id);
+
+        if (isNaN(studentId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid student ID' },
+                { status: 400 }
+            );
+        }
+
+        const auth = await authorize(request);
+        if (auth.error) return auth.error;
+        if (!canAccessStudent(auth.user, studentId)) return forbidden();
+
+        const result = await query<StudentLifestyle>(
+            'SELECT * FROM student_lifestyle WHERE student_id = $1',
+            [studentId]
+        );
+
+        return NextResponse.json<ApiResponse<Partial<StudentLifestyle>>>({
+            success: true,
+            data: result.rows[0] || {
+                student_id: studentId,
+                sleep_schedule: null,
+                study_habits: null,
+                smokes: null,
+                cleanliness: null
+            }
+        });
+    } catch (error) {
+        console.error('Student lifestyle API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/students/[id]/lifestyle
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+    try {
+        const { id } = await context.params;
+        const studentId = parseInt(id);
+
+        if (isNaN(studentId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid student ID' },
+                { status: 400 }
+            );
+        }
+
+        const auth = await authorize(request);
+        if (auth.error) return auth.error;
+        if (!canAccessStudent(auth.user, studentId)) return forbidden();
+
+        const body = await request.json();
+        const sleepSchedule = body.sleep_schedule || null;
+        const studyHabits = body.study_habits || null;
+        const smokes = typeof body.smokes === 'boolean' ? body.smokes : null;
+        const cleanliness = body.cleanliness === null || body.cleanliness === undefined || body.cleanliness === ''
+            ? null
+            : parseInt(body.cleanliness);
+
+        if (sleepSchedule && !SLEEP_SCHEDULES.includes(sleepSchedule)) {
+            return NextResponse.json(
+                { success: false, error: `Invalid sleep schedule. Must be one of: ${SLEEP_SCHEDULES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        if (studyHabits && !STUDY_HABITS.includes(studyHabits)) {
+            return NextResponse.json(
+                { success: false, error: `Invalid study habits. Must be one of: ${STUDY_HABITS.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        if (cleanliness !== null && (isNaN(cleanliness) || cleanliness < 1 || cleanliness > 5)) {
+            return NextResponse.json(
+                { success: false, error: 'Cleanliness must be between 1 and 5' },
+                { status: 400 }
+            );
+        }
+
+        const student = await query('SELECT id FROM students WHERE id = $1', [studentId]);
+        if (student.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Student not found' },
+                { status: 404 }
+            );
+        }
+
+        const result = await query<StudentLifestyle>(
+            `INSERT INTO student_lifestyle (student_id, sleep_schedule, study_habits, smokes, cleanliness)
+             VALUES ($1, $2, $3, $4, $5)
+             ON CONFLICT (student_id) DO UPDATE SET
+               sleep_schedule = EXCLUDED.sleep_schedule,
+               study_habits = EXCLUDED.study_habits,
+               smokes = EXCLUDED.smokes,
+               cleanliness = EXCLUDED.cleanliness
+             RETURNING *`,
+            [studentId, sleepSchedule, studyHabits, smokes, cleanliness]
+        );
+
+        return NextResponse.json({
+            success: true,
+            data: result.rows[0],
+            message: 'Roommate preferences saved'
+        });
+    } catch (error) {
+        console.error('Student lifestyle API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -5,14 +5,18 @@
  * 
  * Endpoints:
  * - GET /api/students/[id] - Get student details with allocation info
- * - PUT /api/students/[id] - Update student information
+ * - PUT /api/students/[id] - Update student information (students may only edit their contact details)
  * - DELETE /api/students/[id] - Soft delete (deactivate) student
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
+import { authorize, canAccessStudent, forbidden } from '@/lib/auth';
 import { ApiResponse, Student } from '@/lib/types';
 
+// Fields a student may change on their own profile; everything else is managed by admin/warden
+const SELF_EDITABLE_FIELDS = ['email', 'phone', 'address', 'guardian_name', 'guardian_phone'];
+
 interface StudentWithDetails extends Student {
     room_id?: number;
     room_number?: string;
@@ -40,6 +44,10 @@ export async function GET(request: NextRequest, context: RouteContext) {
             );
         }
 
+        const auth = await authorize(request);
+        if (auth.error) return auth.error;
+        if (!canAccessStudent(auth.user, studentId)) return forbidden();
+
         const result = await query<StudentWithDetails>(`
             SELECT 
               s.*,
@@ -48,14 +56,14 @@ export async function GET(request: NextRequest, context: RouteContext) {
               h.name as hostel_name,
               a.allocation_date,
               COALESCE((
-                SELECT SUM(amount) 
+                SELECT SUM(amount_paid) 
                 FROM payments 
-                WHERE student_id = s.id AND payment_status = 'paid'
+                WHERE student_id = s.id
               ), 0) as total_paid,
               COALESCE((
-                SELECT SUM(amount) 
+                SELECT SUM(amount - amount_paid) 
                 FROM payments 
-                WHERE student_id = s.id AND payment_status IN ('pending', 'overdue')
+                WHERE student_id = s.id AND payment_status IN ('pending', 'overdue', 'partial')
               ), 0) as total_pending,
               COALESCE((
                 SELECT COUNT(*) 
@@ -104,7 +112,19 @@ export async function PUT(request: NextRequest, context: RouteContext) {
             );
         }
 
+        const auth = await authorize(request);
+        if (auth.error) return auth.error;
+        if (!canAccessStudent(auth.user, studentId)) return forbidden();
+
         const body = await request.json();
+
+        if (auth.user.role === 'student') {
+            const restricted = Object.keys(body).filter(field => !SELF_EDITABLE_FIELDS.includes(field));
+            if (restricted.length > 0) {
+                return forbidden(`Students cannot change: ${restricted.join(', ')}`);
+            }
+        }
+
         const {
             first_name,
             last_name,
@@ -216,6 +236,9 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
             );
         }
 
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
         // Soft delete - just mark as inactive
         const result = await query<Student>(
             `UPDATE students 
@@ -0,0 +1,88 @@
+/**
+ * Student Import API Route (App Router)
+ * ======================================
+ * Onboard a batch of students from a CSV or XLSX sheet.
+ *
+ * Endpoint: POST /api/students/import
+ * Body (multipart/form-data): { file, commit? }
+ *
+ * Without commit the sheet is only validated and the report is returned.
+ * With commit=true the valid rows are inserted (and allocated when the
+ * sheet has a room_number column) in a single transaction; invalid rows are
+ * left out and listed in the same report.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { ApiResponse, StudentImportReport } from '@/lib/types';
+import { commitStudentImport, previewStudentImport, readImportFile } from '@/lib/studentImport';
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * POST /api/students/import
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
+        const form = await request.formData();
+        const file = form.get('file');
+        const commit = form.get('commit') === 'true';
+
+        if (!(file instanceof File) || file.size === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Attach a .csv or .xlsx file' },
+                { status: 400 }
+            );
+        }
+
+        if (file.size > MAX_FILE_BYTES) {
+            return NextResponse.json(
+                { success: false, error: 'File is larger than 5 MB' },
+                { status: 400 }
+            );
+        }
+
+        let table: string[][];
+        try {
+            table = readImportFile(file.name, Buffer.from(await file.arrayBuffer()));
+        } catch (err) {
+            return NextResponse.json(
+                { success: false, error: err instanceof Error ? err.message : 'Could not read the file' },
+                { status: 400 }
+            );
+        }
+
+        const report = commit
+            ? await commitStudentImport(table, auth.user.username)
+            : await previewStudentImport(table);
+
+        if ('error' in report) {
+            return NextResponse.json(
+                { success: false, error: report.error },
+                { status: 400 }
+            );
+        }
+
+        let message = `${report.valid_rows} of ${report.total_rows} row(s) are valid`;
+        if (commit) {
+            message = `Imported ${report.created} student(s)` +
+                (report.allocated ? `, ${report.allocated} allocated to rooms` : '') +
+                (report.invalid_rows > 0 ? `; ${report.invalid_rows} row(s) skipped` : '');
+        }
+
+        return NextResponse.json<ApiResponse<StudentImportReport>>({
+            success: true,
+            data: report,
+            message
+        }, { status: commit && report.created ? 201 : 200 });
+    } catch (error) {
+        console.error('Student import API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
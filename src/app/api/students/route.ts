@@ -5,18 +5,41 @@
  * 
  * Endpoints:
  * - GET /api/students - List all students with pagination
+ *   (?format=csv|xlsx downloads every matching student)
  * - POST /api/students - Create a new student
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
+import { authorize, MANAGEMENT_ROLES } from '@/lib/auth';
 import { PaginatedResponse, Student } from '@/lib/types';
+import { ExportColumn, exportResponse, getExportFormat } from '@/lib/export';
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+    { key: 'registration_number', header: 'Registration Number' },
+    { key: 'first_name', header: 'First Name' },
+    { key: 'last_name', header: 'Last Name' },
+    { key: 'email', header: 'Email' },
+    { key: 'phone', header: 'Phone' },
+    { key: 'gender', header: 'Gender' },
+    { key: 'date_of_birth', header: 'Date of Birth' },
+    { key: 'department', header: 'Department' },
+    { key: 'year_of_study', header: 'Year of Study', numeric: true },
+    { key: 'guardian_name', header: 'Guardian Name' },
+    { key: 'guardian_phone', header: 'Guardian Phone' },
+    { key: 'address', header: 'Address' },
+    { key: 'is_active', header: 'Active' },
+    { key: 'created_at', header: 'Created At' }
+];
 
 /**
  * GET /api/students
  */
 export async function GET(request: NextRequest) {
     try {
+        const auth = await authorize(request, MANAGEMENT_ROLES);
+        if (auth.error) return auth.error;
+
         const searchParams = request.nextUrl.searchParams;
         const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
         const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '10')));
@@ -54,6 +77,15 @@ export async function GET(request: NextRequest) {
 
         const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
+        const listSql = `SELECT * FROM students 
+             ${whereClause}
+             ORDER BY created_at DESC, last_name, first_name`;
+
+        const format = getExportFormat(searchParams);
+        if (format) {
+            return exportResponse(format, 'students', EXPORT_COLUMNS, listSql, params);
+        }
+
         const countResult = await query<{ count: string }>(
             `SELECT COUNT(*) as count FROM students ${whereClause}`,
             params
@@ -61,9 +93,7 @@ export async function GET(request: NextRequest) {
         const total = parseInt(countResult.rows[0].count);
 
         const dataResult = await query<Student>(
-            `SELECT * FROM students 
-             ${whereClause}
-             ORDER BY created_at DESC, last_name, first_name
+            `${listSql}
              LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
             [...params, limit, offset]
         );
@@ -92,6 +122,9 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
     try {
+        const auth = await authorize(request, ['admin']);
+        if (auth.error) return auth.error;
+
         const body = await request.json();
         const {
             registration_number,
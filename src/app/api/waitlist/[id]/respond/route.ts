@@ -0,0 +1,85 @@
+/**
+ * Waitlist Offer Response API Route (App Router)
+ * ===============================================
+ * Accept or decline a bed offered from the waitlist.
+ *
+ * Endpoint: POST /api/waitlist/[id]/respond
+ * Body: { accept: boolean }
+ *
+ * Accepting allocates the held bed; declining offers it to the next student.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, canAccessStudent, forbidden, MANAGEMENT_ROLES } from '@/lib/auth';
+import { respondToOffer } from '@/lib/waitlist';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/waitlist/[id]/respond
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, [...MANAGEMENT_ROLES, 'student']);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const entryId = parseInt(id);
+
+        if (isNaN(entryId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid waitlist entry ID' },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json();
+
+        if (typeof body.accept !== 'boolean') {
+            return NextResponse.json(
+                { success: false, error: 'accept must be true or false' },
+                { status: 400 }
+            );
+        }
+
+        const owner = await query<{ student_id: number }>(
+            'SELECT student_id FROM waitlist_entries WHERE id = $1',
+            [entryId]
+        );
+
+        if (owner.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Waitlist entry not found' },
+                { status: 404 }
+            );
+        }
+
+        if (!canAccessStudent(auth.user, owner.rows[0].student_id)) return forbidden();
+
+        const result = await respondToOffer(entryId, body.accept, auth.user.username);
+
+        if ('error' in result) {
+            return NextResponse.json(
+                { success: false, error: result.error },
+                { status: result.status }
+            );
+        }
+
+        const { entry } = result;
+
+        return NextResponse.json({
+            success: true,
+            data: result,
+            message: body.accept
+                ? `Offer accepted: Room ${entry.offered_room_number}, Bed ${entry.offered_bed_label}`
+                : 'Offer declined'
+        });
+    } catch (error) {
+        console.error('Waitlist respond API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
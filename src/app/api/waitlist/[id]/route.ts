@@ -0,0 +1,89 @@
+/**
+ * Waitlist Entry API Route (App Router)
+ * ======================================
+ * Leave the waitlist.
+ *
+ * Endpoint: DELETE /api/waitlist/[id] - Cancel a waiting entry or an open offer
+ *
+ * Cancelling an open offer passes its bed on to the next in line.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { authorize, canAccessStudent, forbidden, MANAGEMENT_ROLES } from '@/lib/auth';
+import { offerFreedBeds } from '@/lib/waitlist';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * DELETE /api/waitlist/[id]
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+    try {
+        const auth = await authorize(request, [...MANAGEMENT_ROLES, 'student']);
+        if (auth.error) return auth.error;
+
+        const { id } = await context.params;
+        const entryId = parseInt(id);
+
+        if (isNaN(entryId)) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid waitlist entry ID' },
+                { status: 400 }
+            );
+        }
+
+        const existing = await query<{ student_id: number; status: string; offered_room_id: number | null }>(
+            'SELECT student_id, status, offered_room_id FROM waitlist_entries WHERE id = $1',
+            [entryId]
+        );
+
+        if (existing.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: 'Waitlist entry not found' },
+                { status: 404 }
+            );
+        }
+
+        const entry = existing.rows[0];
+
+        if (!canAccessStudent(auth.user, entry.student_id)) return forbidden();
+
+        // Conditional UPDATE: only open entries can be cancelled
+        const result = await query(
+            `UPDATE waitlist_entries
+             SET status = 'cancelled'
+             WHERE id = $1 AND status IN ('waiting', 'offered')
+             RETURNING *`,
+            [entryId]
+        );
+
+        if (result.rows.length === 0) {
+            return NextResponse.json(
+                { success: false, error: `Entry is already ${entry.status}` },
+                { status: 400 }
+            );
+        }
+
+        // Best-effort: the cancellation stands even if the bed cannot be re-offered
+        if (entry.status === 'offered' && entry.offered_room_id) {
+            try {
+                await offerFreedBeds(entry.offered_room_id);
+            } catch (offerError) {
+                console.error('Waitlist re-offer failed:', offerError);
+            }
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: result.rows[0],
+            message: 'Removed from the waitlist'
+        });
+    } catch (error) {
+        console.error('Waitlist entry API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,118 @@
+/**
+ * Waitlist API Routes (App Router)
+ * =================================
+ * Queue for a bed in a full hostel, room type or room.
+ *
+ * Endpoints:
+ * - GET /api/waitlist - Entries with queue positions (own only for students)
+ *   Query: ?status=waiting&hostel_id=1&student_id=5
+ * - POST /api/waitlist - Join the waitlist
+ *   Body: { student_id, hostel_id?, room_type?, room_id?, notes? }
+ *
+ * See src/lib/waitlist.ts for how positions and offers work.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, canAccessStudent, forbidden, MANAGEMENT_ROLES } from '@/lib/auth';
+import { ApiResponse, WaitlistEntry } from '@/lib/types';
+import { addToWaitlist, expireWaitlistOffers, listWaitlist, WaitlistFilters } from '@/lib/waitlist';
+
+/**
+ * GET /api/waitlist
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await authorize(request, [...MANAGEMENT_ROLES, 'student']);
+        if (auth.error) return auth.error;
+
+        const searchParams = request.nextUrl.searchParams;
+        const filters: WaitlistFilters = {};
+
+        if (auth.user.role === 'student') {
+            filters.student_id = auth.user.student_id;
+        } else if (searchParams.get('student_id')) {
+            filters.student_id = parseInt(searchParams.get('student_id')!);
+        }
+        if (searchParams.get('hostel_id')) {
+            filters.hostel_id = parseInt(searchParams.get('hostel_id')!);
+        }
+        if (searchParams.get('status')) {
+            filters.status = searchParams.get('status')!;
+        }
+
+        // Lapsed offers are swept before reading so statuses and positions are current
+        try {
+            await expireWaitlistOffers();
+        } catch (sweepError) {
+            console.error('Waitlist offer expiry failed:', sweepError);
+        }
+
+        const entries = await listWaitlist(filters);
+
+        return NextResponse.json<ApiResponse<WaitlistEntry[]>>({
+            success: true,
+            data: entries
+        });
+    } catch (error) {
+        console.error('Waitlist API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/waitlist
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await authorize(request, [...MANAGEMENT_ROLES, 'student']);
+        if (auth.error) return auth.error;
+
+        const body = await request.json();
+        const studentId = parseInt(String(body.student_id ?? auth.user.student_id));
+
+        if (isNaN(studentId)) {
+            return NextResponse.json(
+                { success: false, error: 'Missing required field: student_id' },
+                { status: 400 }
+            );
+        }
+
+        if (!canAccessStudent(auth.user, studentId)) {
+            return forbidden('Students can only join the waitlist for themselves');
+        }
+
+        const result = await addToWaitlist({
+            student_id: studentId,
+            hostel_id: body.hostel_id ? parseInt(body.hostel_id) : null,
+            room_type: body.room_type || null,
+            room_id: body.room_id ? parseInt(body.room_id) : null,
+            notes: body.notes,
+            created_by: auth.user.username
+        });
+
+        if ('error' in result) {
+            return NextResponse.json(
+                { success: false, error: result.error },
+                { status: result.status }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                success: true,
+                data: result,
+                message: `Added to the waitlist at position ${result.position}`
+            },
+            { status: 201 }
+        );
+    } catch (error) {
+        console.error('Waitlist API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
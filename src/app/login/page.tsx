@@ -0,0 +1,111 @@
+'use client';
+
+/**
+ * Login Page
+ * ===========
+ * Sign-in form for admins, wardens, maintenance staff and students.
+ * After login each role lands on its own portal (or the page it was sent from).
+ */
+
+import { useState, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+
+function LoginContent() {
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const next = searchParams.get('next');
+
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [submitting, setSubmitting] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitting(true);
+        setError(null);
+
+        try {
+            const res = await fetch('/api/auth/login', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ username, password })
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                // Only follow same-site relative paths from ?next=
+                const target = next && next.startsWith('/') && !next.startsWith('//') ? next : data.data.redirect;
+                router.push(target);
+                router.refresh();
+            } else {
+                setError(data.error || 'Login failed');
+            }
+        } catch (err) {
+            console.error('Login failed:', err);
+            setError('Login failed. Please try again.');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="min-h-[calc(100vh-144px)] bg-gradient-to-br from-slate-50 via-indigo-50 to-purple-50 flex items-center justify-center py-16 px-6">
+            <div className="bg-white rounded-2xl shadow-xl shadow-indigo-500/10 border border-slate-100 p-8 w-full max-w-md">
+                <div className="text-center mb-8">
+                    <div className="text-4xl mb-3">🔐</div>
+                    <h1 className="text-2xl font-bold text-indigo-950">Sign in to HostelMS</h1>
+                    <p className="text-sm text-gray-500 mt-1">Use your admin, warden, staff or student account</p>
+                </div>
+
+                {error && (
+                    <div className="mb-6 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+                        {error}
+                    </div>
+                )}
+
+                <form onSubmit={handleSubmit} className="space-y-5">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="username">Username or email</label>
+                        <input
+                            id="username"
+                            type="text"
+                            autoComplete="username"
+                            className="w-full px-4 py-2.5 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                            value={username}
+                            onChange={(e) => setUsername(e.target.value)}
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="password">Password</label>
+                        <input
+                            id="password"
+                            type="password"
+                            autoComplete="current-password"
+                            className="w-full px-4 py-2.5 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            required
+                        />
+                    </div>
+                    <button
+                        type="submit"
+                        disabled={submitting}
+                        className="w-full py-2.5 rounded-lg bg-indigo-600 text-white font-semibold hover:bg-indigo-700 disabled:opacity-60 transition-colors"
+                    >
+                        {submitting ? 'Signing in...' : 'Sign In'}
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+}
+
+export default function LoginPage() {
+    return (
+        <Suspense fallback={<div className="min-h-[200px] flex items-center justify-center"><div className="animate-spin rounded-full h-10 w-10 border-4 border-indigo-200 border-t-indigo-600"></div></div>}>
+            <LoginContent />
+        </Suspense>
+    );
+}
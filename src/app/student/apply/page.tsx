@@ -0,0 +1,296 @@
+'use client';
+
+/**
+ * Student Room Application Page
+ * ==============================
+ * Submit ranked room preferences and preferred roommates for the current
+ * allocation round, and see the outcome once it is published.
+ */
+
+import { useEffect, useState, Suspense } from 'react';
+import { useCurrentUser } from '@/lib/useCurrentUser';
+import Link from 'next/link';
+import { AllocationRound, Hostel, RoomApplication } from '@/lib/types';
+
+interface ChoiceForm {
+    hostel_id: string;
+    room_type: string;
+    wants_ac: string;
+    wants_attached_bathroom: string;
+}
+
+const emptyChoice: ChoiceForm = { hostel_id: '', room_type: '', wants_ac: '', wants_attached_bathroom: '' };
+
+const MAX_CHOICES = 5;
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all bg-white';
+
+// '' = no preference, 'yes' / 'no' map to true / false
+const toPreference = (value: string) => (value === '' ? null : value === 'yes');
+const fromPreference = (value: boolean | null) => (value === null ? '' : value ? 'yes' : 'no');
+
+function ApplyContent() {
+    const { user } = useCurrentUser();
+    const studentId = user?.student_id;
+
+    const [loading, setLoading] = useState(true);
+    const [round, setRound] = useState<AllocationRound | null>(null);
+    const [application, setApplication] = useState<RoomApplication | null>(null);
+    const [hostels, setHostels] = useState<Hostel[]>([]);
+    const [gender, setGender] = useState('');
+    const [choices, setChoices] = useState<ChoiceForm[]>([{ ...emptyChoice }]);
+    const [roommates, setRoommates] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    const loadApplication = async (roundId: number) => {
+        const res = await fetch(`/api/allocation-rounds/${roundId}/applications`);
+        const data = await res.json();
+        const own: RoomApplication | undefined = data.success ? data.data[0] : undefined;
+
+        setApplication(own || null);
+        if (own) {
+            setChoices(own.choices.map(choice => ({
+                hostel_id: choice.hostel_id ? String(choice.hostel_id) : '',
+                room_type: choice.room_type || '',
+                wants_ac: fromPreference(choice.wants_ac),
+                wants_attached_bathroom: fromPreference(choice.wants_attached_bathroom)
+            })));
+            setRoommates(own.roommates.map(r => r.registration_number).join(', '));
+        }
+    };
+
+    useEffect(() => {
+        const fetchData = async () => {
+            if (!studentId) return;
+
+            try {
+                const [roundsRes, hostelsRes, studentRes] = await Promise.all([
+                    fetch('/api/allocation-rounds'),
+                    fetch('/api/hostels?limit=100'),
+                    fetch(`/api/students/${studentId}`)
+                ]);
+                const roundsData = await roundsRes.json();
+                const hostelsData = await hostelsRes.json();
+                const studentData = await studentRes.json();
+
+                if (hostelsData.success) setHostels(hostelsData.data);
+                if (studentData.success) setGender(studentData.data.gender);
+
+                if (roundsData.success && roundsData.data.length > 0) {
+                    // The open round if there is one, otherwise the latest
+                    const rounds: AllocationRound[] = roundsData.data;
+                    const current = rounds.find(r => r.status === 'open') || rounds[0];
+                    setRound(current);
+                    await loadApplication(current.id);
+                }
+            } catch (error) {
+                console.error('Failed to fetch application data:', error);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchData();
+    }, [studentId]);
+
+    const updateChoice = (index: number, field: keyof ChoiceForm, value: string) => {
+        setChoices(choices.map((choice, i) => (i === index ? { ...choice, [field]: value } : choice)));
+    };
+
+    const moveChoice = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= choices.length) return;
+        const reordered = [...choices];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        setChoices(reordered);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!round || !studentId) return;
+
+        setSubmitting(true);
+        setMessage(null);
+
+        try {
+            const res = await fetch(`/api/allocation-rounds/${round.id}/applications`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    student_id: studentId,
+                    choices: choices.map(choice => ({
+                        hostel_id: choice.hostel_id ? parseInt(choice.hostel_id) : null,
+                        room_type: choice.room_type || null,
+                        wants_ac: toPreference(choice.wants_ac),
+                        wants_attached_bathroom: toPreference(choice.wants_attached_bathroom)
+                    })),
+                    roommates: roommates.split(',').map(r => r.trim()).filter(Boolean)
+                })
+            });
+
+            const data = await res.json();
+            if (data.success) {
+                setMessage({ type: 'success', text: data.message });
+                await loadApplication(round.id);
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to submit application' });
+            }
+        } catch {
+            setMessage({ type: 'error', text: 'An error occurred. Please try again.' });
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    if (loading) return <div className="min-h-[200px] flex items-center justify-center"><div className="animate-spin rounded-full h-10 w-10 border-4 border-indigo-200 border-t-indigo-600"></div></div>;
+
+    const isOpen = round?.status === 'open';
+    const eligibleHostels = hostels.filter(h => h.gender_allowed === 'other' || h.gender_allowed === gender);
+
+    return (
+        <div className="max-w-4xl mx-auto px-6 py-8">
+            <Link href="/student" className="inline-flex items-center text-gray-500 hover:text-indigo-600 mb-6 transition-colors font-medium">
+                <span className="mr-2">←</span> Back to Dashboard
+            </Link>
+            <div className="mb-8">
+                <h1 className="text-3xl font-bold text-gray-900 mb-1">Room Application</h1>
+                <p className="text-gray-500">
+                    {round ? `${round.name} · ${isOpen ? 'Applications open' : round.status === 'published' ? 'Results published' : 'Applications closed'}` : 'No allocation round yet'}
+                </p>
+            </div>
+
+            {message && (
+                <div className={`p-4 rounded-lg mb-6 ${message.type === 'success' ? 'bg-green-50 text-green-700 border border-green-200' : 'bg-red-50 text-red-700 border border-red-200'}`}>
+                    {message.text}
+                </div>
+            )}
+
+            {!round ? (
+                <div className="bg-white rounded-xl p-12 text-center border border-gray-200 shadow-sm">
+                    <div className="text-5xl mb-4 grayscale opacity-50">📝</div>
+                    <h2 className="text-xl font-bold text-gray-900 mb-1">No Applications Open</h2>
+                    <p className="text-gray-500">The hostel office has not opened an allocation round yet.</p>
+                </div>
+            ) : (
+                <>
+                    {application && application.status !== 'submitted' && (
+                        <div className={`p-5 rounded-xl mb-6 border ${application.status === 'allocated' ? 'bg-green-50 border-green-200 text-green-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+                            <div className="font-semibold mb-1">
+                                {application.status === 'allocated' ? '🎉 You have been allocated a room' : 'No room could be allocated'}
+                            </div>
+                            <div className="text-sm">{application.result_notes}</div>
+                            {application.status === 'allocated' && (
+                                <Link href="/student/room" className="inline-block mt-2 text-sm font-medium underline">View my room</Link>
+                            )}
+                        </div>
+                    )}
+
+                    <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                        <div className="bg-gray-50/50 px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+                            <h2 className="text-lg font-bold text-gray-900">Preferences (most wanted first)</h2>
+                            {application && (
+                                <span className="text-xs text-gray-500">
+                                    Submitted {new Date(application.submitted_at).toLocaleDateString()}
+                                </span>
+                            )}
+                        </div>
+                        <div className="p-6 space-y-4">
+                            {choices.map((choice, index) => (
+                                <div key={index} className="grid grid-cols-1 md:grid-cols-[auto_1fr_1fr_1fr_1fr_auto] gap-3 items-end p-4 rounded-lg border border-gray-100 bg-gray-50/50">
+                                    <div className="text-lg font-bold text-indigo-600 w-8">#{index + 1}</div>
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-500 mb-1">Hostel</label>
+                                        <select className={inputClass} value={choice.hostel_id} disabled={!isOpen}
+                                            onChange={(e) => updateChoice(index, 'hostel_id', e.target.value)}>
+                                            <option value="">Any hostel</option>
+                                            {eligibleHostels.map(h => (
+                                                <option key={h.id} value={h.id}>{h.name}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-500 mb-1">Room Type</label>
+                                        <select className={inputClass} value={choice.room_type} disabled={!isOpen}
+                                            onChange={(e) => updateChoice(index, 'room_type', e.target.value)}>
+                                            <option value="">Any type</option>
+                                            <option value="single">Single</option>
+                                            <option value="double">Double</option>
+                                            <option value="triple">Triple</option>
+                                            <option value="dormitory">Dormitory</option>
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-500 mb-1">AC</label>
+                                        <select className={inputClass} value={choice.wants_ac} disabled={!isOpen}
+                                            onChange={(e) => updateChoice(index, 'wants_ac', e.target.value)}>
+                                            <option value="">Don&apos;t mind</option>
+                                            <option value="yes">With AC</option>
+                                            <option value="no">Without AC</option>
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-500 mb-1">Bathroom</label>
+                                        <select className={inputClass} value={choice.wants_attached_bathroom} disabled={!isOpen}
+                                            onChange={(e) => updateChoice(index, 'wants_attached_bathroom', e.target.value)}>
+                                            <option value="">Don&apos;t mind</option>
+                                            <option value="yes">Attached</option>
+                                            <option value="no">Shared</option>
+                                        </select>
+                                    </div>
+                                    {isOpen && (
+                                        <div className="flex gap-1">
+                                            <button type="button" className="px-2 py-2 text-gray-500 hover:text-indigo-600" title="Move up" onClick={() => moveChoice(index, -1)}>↑</button>
+                                            <button type="button" className="px-2 py-2 text-gray-500 hover:text-indigo-600" title="Move down" onClick={() => moveChoice(index, 1)}>↓</button>
+                                            {choices.length > 1 && (
+                                                <button type="button" className="px-2 py-2 text-gray-400 hover:text-red-600" title="Remove"
+                                                    onClick={() => setChoices(choices.filter((_, i) => i !== index))}>✕</button>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+
+                            {isOpen && choices.length < MAX_CHOICES && (
+                                <button type="button" className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+                                    onClick={() => setChoices([...choices, { ...emptyChoice }])}>
+                                    + Add another preference
+                                </button>
+                            )}
+
+                            <div className="pt-4 border-t border-gray-100">
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Preferred Roommates</label>
+                                <input
+                                    type="text"
+                                    className={inputClass}
+                                    placeholder="Registration numbers, comma separated (up to 3)"
+                                    value={roommates}
+                                    disabled={!isOpen}
+                                    onChange={(e) => setRoommates(e.target.value)}
+                                />
+                                <p className="text-xs text-gray-500 mt-1">
+                                    You are most likely to be placed together if your roommates list you too.
+                                </p>
+                            </div>
+                        </div>
+                        {isOpen && (
+                            <div className="px-6 py-4 bg-gray-50 flex justify-end gap-3 border-t border-gray-100">
+                                <button type="submit" disabled={submitting} className="px-4 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 transition-colors shadow-sm disabled:opacity-50">
+                                    {submitting ? 'Saving...' : application ? 'Update Application' : 'Submit Application'}
+                                </button>
+                            </div>
+                        )}
+                    </form>
+                </>
+            )}
+        </div>
+    );
+}
+
+export default function StudentApplyPage() {
+    return (
+        <Suspense fallback={<div className="max-w-7xl mx-auto px-6 py-8"><div className="min-h-[200px] flex items-center justify-center"><div className="animate-spin rounded-full h-10 w-10 border-4 border-indigo-200 border-t-indigo-600"></div></div></div>}>
+            <ApplyContent />
+        </Suspense>
+    );
+}
@@ -7,7 +7,7 @@
  */
 
 import { useEffect, useState, Suspense } from 'react';
-import { useSearchParams } from 'next/navigation';
+import { useCurrentUser } from '@/lib/useCurrentUser';
 import Link from 'next/link';
 
 interface Complaint {
@@ -41,8 +41,8 @@ const statusConfig: Record<string, string> = {
 };
 
 function ComplaintsContent() {
-    const searchParams = useSearchParams();
-    const studentId = parseInt(searchParams.get('id') || '1');
+    const { user } = useCurrentUser();
+    const studentId = user?.student_id;
     const [roomId, setRoomId] = useState<number>(0);
 
     const [complaints, setComplaints] = useState<Complaint[]>([]);
@@ -60,6 +60,8 @@ function ComplaintsContent() {
     // Fetch room ID for the student
     useEffect(() => {
         async function fetchRoom() {
+            if (!studentId) return;
+
             try {
                 const res = await fetch(`/api/students/${studentId}`);
                 const data = await res.json();
@@ -74,6 +76,8 @@ function ComplaintsContent() {
     }, [studentId]);
 
     const fetchComplaints = async () => {
+        if (!studentId) return;
+
         setLoading(true);
         try {
             const res = await fetch(`/api/complaints?student_id=${studentId}`);
@@ -139,7 +143,7 @@ function ComplaintsContent() {
 
     return (
         <div className="max-w-7xl mx-auto px-6 py-8">
-            <Link href={`/student?id=${studentId}`} className="inline-flex items-center text-gray-500 hover:text-indigo-600 mb-6 transition-colors font-medium">
+            <Link href="/student" className="inline-flex items-center text-gray-500 hover:text-indigo-600 mb-6 transition-colors font-medium">
                 <span className="mr-2">←</span> Back to Dashboard
             </Link>
 
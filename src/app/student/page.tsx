@@ -4,11 +4,11 @@
  * Student Portal Dashboard
  * =========================
  * Main student portal page showing room, payments, and complaints overview.
- * Uses a demo student for demonstration purposes.
+ * Shows the record of the logged-in student.
  */
 
 import { useEffect, useState, Suspense } from 'react';
-import { useSearchParams } from 'next/navigation';
+import { useCurrentUser } from '@/lib/useCurrentUser';
 import Link from 'next/link';
 
 interface StudentData {
@@ -24,45 +24,19 @@ interface StudentData {
 }
 
 function StudentPortalContent() {
-    const searchParams = useSearchParams();
-    const urlId = searchParams.get('id');
+    const { user } = useCurrentUser();
+    const studentId = user?.student_id;
 
     const [student, setStudent] = useState<StudentData | null>(null);
     const [loading, setLoading] = useState(true);
-    const [selectedStudentId, setSelectedStudentId] = useState<number>(urlId ? parseInt(urlId) : 1);
-    const [students, setStudents] = useState<Array<{ id: number; name: string }>>([]);
-
-    useEffect(() => {
-        // Fetch list of students for demo selection
-        async function fetchStudents() {
-            try {
-                const res = await fetch('/api/students?limit=50');
-                const data = await res.json();
-                if (data.success && data.data.length > 0) {
-                    setStudents(data.data.map((s: { id: number; first_name: string; last_name: string }) => ({
-                        id: s.id,
-                        name: `${s.first_name} ${s.last_name}`
-                    })));
-
-                    // Only auto-select first student if no ID in URL
-                    if (!urlId) {
-                        setSelectedStudentId(data.data[0].id);
-                    }
-                }
-            } catch (error) {
-                console.error('Failed to fetch students:', error);
-            }
-        }
-        fetchStudents();
-    }, [urlId]);
 
     useEffect(() => {
         async function fetchStudentData() {
-            if (!selectedStudentId) return;
+            if (!studentId) return;
 
             setLoading(true);
             try {
-                const res = await fetch(`/api/students/${selectedStudentId}`);
+                const res = await fetch(`/api/students/${studentId}`);
                 const data = await res.json();
 
                 if (data.success) {
@@ -86,7 +60,7 @@ function StudentPortalContent() {
         }
 
         fetchStudentData();
-    }, [selectedStudentId]);
+    }, [studentId]);
 
     if (loading && !student) {
         return (
@@ -100,21 +74,6 @@ function StudentPortalContent() {
 
     return (
         <div className="max-w-6xl mx-auto px-6 py-8">
-            {/* Demo Mode Selector */}
-            <div className="flex items-center gap-3 p-4 bg-amber-50 rounded-xl border border-amber-200 mb-8 w-fit text-sm text-amber-900 font-medium">
-                <span className="text-lg">👤</span>
-                <span>Viewing as:</span>
-                <select
-                    className="p-2 bg-white border border-amber-300 rounded-lg outline-none focus:ring-2 focus:ring-amber-400"
-                    value={selectedStudentId}
-                    onChange={(e) => setSelectedStudentId(parseInt(e.target.value))}
-                >
-                    {students.map((s) => (
-                        <option key={s.id} value={s.id}>{s.name}</option>
-                    ))}
-                </select>
-            </div>
-
             {student && (
                 <>
                     {/* Welcome Header */}
@@ -163,28 +122,42 @@ function StudentPortalContent() {
                     {/* Quick Actions */}
                     <h2 className="text-xl font-semibold text-gray-800 mb-6">Quick Actions</h2>
                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-12">
-                        <Link href={`/student/profile?id=${student.id}`} className="flex items-center gap-4 p-5 bg-white rounded-xl shadow-sm border border-gray-200 hover:-translate-y-1 hover:shadow-md hover:border-indigo-200 transition-all group">
+                        <Link href="/student/profile" className="flex items-center gap-4 p-5 bg-white rounded-xl shadow-sm border border-gray-200 hover:-translate-y-1 hover:shadow-md hover:border-indigo-200 transition-all group">
                             <div className="text-2xl bg-blue-50 w-12 h-12 flex items-center justify-center rounded-full group-hover:bg-blue-100 transition-colors">👤</div>
                             <div>
                                 <h3 className="font-medium text-gray-900">My Profile</h3>
                                 <p className="text-xs text-gray-500">View & edit your details</p>
                             </div>
                         </Link>
-                        <Link href={`/student/room?id=${student.id}`} className="flex items-center gap-4 p-5 bg-white rounded-xl shadow-sm border border-gray-200 hover:-translate-y-1 hover:shadow-md hover:border-indigo-200 transition-all group">
+                        <Link href="/student/room" className="flex items-center gap-4 p-5 bg-white rounded-xl shadow-sm border border-gray-200 hover:-translate-y-1 hover:shadow-md hover:border-indigo-200 transition-all group">
                             <div className="text-2xl bg-purple-50 w-12 h-12 flex items-center justify-center rounded-full group-hover:bg-purple-100 transition-colors">🏠</div>
                             <div>
                                 <h3 className="font-medium text-gray-900">Room Details</h3>
                                 <p className="text-xs text-gray-500">View room & roommates</p>
                             </div>
                         </Link>
-                        <Link href={`/student/payments?id=${student.id}`} className="flex items-center gap-4 p-5 bg-white rounded-xl shadow-sm border border-gray-200 hover:-translate-y-1 hover:shadow-md hover:border-indigo-200 transition-all group">
+                        <Link href="/student/apply" className="flex items-center gap-4 p-5 bg-white rounded-xl shadow-sm border border-gray-200 hover:-translate-y-1 hover:shadow-md hover:border-indigo-200 transition-all group">
+                            <div className="text-2xl bg-indigo-50 w-12 h-12 flex items-center justify-center rounded-full group-hover:bg-indigo-100 transition-colors">📝</div>
+                            <div>
+                                <h3 className="font-medium text-gray-900">Room Application</h3>
+                                <p className="text-xs text-gray-500">Rank rooms & roommates</p>
+                            </div>
+                        </Link>
+                        <Link href="/student/waitlist" className="flex items-center gap-4 p-5 bg-white rounded-xl shadow-sm border border-gray-200 hover:-translate-y-1 hover:shadow-md hover:border-indigo-200 transition-all group">
+                            <div className="text-2xl bg-sky-50 w-12 h-12 flex items-center justify-center rounded-full group-hover:bg-sky-100 transition-colors">⏳</div>
+                            <div>
+                                <h3 className="font-medium text-gray-900">Waitlist</h3>
+                                <p className="text-xs text-gray-500">Queue for a full hostel</p>
+                            </div>
+                        </Link>
+                        <Link href="/student/payments" className="flex items-center gap-4 p-5 bg-white rounded-xl shadow-sm border border-gray-200 hover:-translate-y-1 hover:shadow-md hover:border-indigo-200 transition-all group">
                             <div className="text-2xl bg-green-50 w-12 h-12 flex items-center justify-center rounded-full group-hover:bg-green-100 transition-colors">💳</div>
                             <div>
                                 <h3 className="font-medium text-gray-900">Payments</h3>
                                 <p className="text-xs text-gray-500">View fee history & dues</p>
                             </div>
                         </Link>
-                        <Link href={`/student/complaints?id=${student.id}`} className="flex items-center gap-4 p-5 bg-white rounded-xl shadow-sm border border-gray-200 hover:-translate-y-1 hover:shadow-md hover:border-indigo-200 transition-all group">
+                        <Link href="/student/complaints" className="flex items-center gap-4 p-5 bg-white rounded-xl shadow-sm border border-gray-200 hover:-translate-y-1 hover:shadow-md hover:border-indigo-200 transition-all group">
                             <div className="text-2xl bg-amber-50 w-12 h-12 flex items-center justify-center rounded-full group-hover:bg-amber-100 transition-colors">🔧</div>
                             <div>
                                 <h3 className="font-medium text-gray-900">Complaints</h3>
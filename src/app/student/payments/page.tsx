@@ -1,12 +1,13 @@
 'use client';
 
 import { useState, useEffect, Suspense } from 'react';
-import { useSearchParams } from 'next/navigation';
+import { useCurrentUser } from '@/lib/useCurrentUser';
 import Link from 'next/link';
 
 interface Payment {
     id: number;
     amount: string;
+    amount_paid: string;
     due_date: string;
     payment_date: string | null;
     payment_status: 'pending' | 'paid' | 'overdue' | 'partial';
@@ -15,6 +16,9 @@ interface Payment {
     notes: string | null;
 }
 
+// What is still owed on a due after the installments paid so far
+const balanceOf = (p: Payment) => parseFloat(p.amount) - parseFloat(p.amount_paid);
+
 const statusConfig: Record<string, string> = {
     paid: 'bg-green-100 text-green-800 border-green-200',
     pending: 'bg-amber-100 text-amber-800 border-amber-200',
@@ -23,8 +27,8 @@ const statusConfig: Record<string, string> = {
 };
 
 function StudentPaymentsContent() {
-    const searchParams = useSearchParams();
-    const studentId = parseInt(searchParams.get('id') || '1');
+    const { user } = useCurrentUser();
+    const studentId = user?.student_id;
 
     const [loading, setLoading] = useState(true);
     const [payments, setPayments] = useState<Payment[]>([]);
@@ -32,8 +36,14 @@ function StudentPaymentsContent() {
     const [showPaymentModal, setShowPaymentModal] = useState(false);
     const [processingPayment, setProcessingPayment] = useState(false);
     const [paymentSuccess, setPaymentSuccess] = useState(false);
+    const [paymentMethod, setPaymentMethod] = useState('upi');
+    const [payAmounts, setPayAmounts] = useState<Record<number, string>>({});
+    const [statementFrom, setStatementFrom] = useState(`${new Date().getFullYear()}-01-01`);
+    const [statementTo, setStatementTo] = useState(new Date().toISOString().split('T')[0]);
 
     const fetchPayments = async () => {
+        if (!studentId) return;
+
         try {
             const res = await fetch(`/api/payments?student_id=${studentId}&limit=50`);
             const data = await res.json();
@@ -42,14 +52,13 @@ function StudentPaymentsContent() {
                 const paymentList: Payment[] = data.data;
                 setPayments(paymentList);
 
-                // Calculate totals
+                // Calculate totals from what was actually received
                 const paid = paymentList
-                    .filter(p => p.payment_status === 'paid')
-                    .reduce((sum, p) => sum + parseFloat(p.amount), 0);
+                    .reduce((sum, p) => sum + parseFloat(p.amount_paid), 0);
 
                 const pending = paymentList
                     .filter(p => ['pending', 'overdue', 'partial'].includes(p.payment_status))
-                    .reduce((sum, p) => sum + parseFloat(p.amount), 0);
+                    .reduce((sum, p) => sum + balanceOf(p), 0);
 
                 setStats({ totalPaid: paid, totalPending: pending });
             }
@@ -70,10 +79,20 @@ function StudentPaymentsContent() {
     // State for selected payments (partial payment support)
     const [selectedPaymentIds, setSelectedPaymentIds] = useState<Set<number>>(new Set());
 
+    // Amount to pay on a due: what the student typed, or the full balance
+    const payAmountFor = (p: Payment) => {
+        const entered = payAmounts[p.id];
+        return entered === undefined ? balanceOf(p) : parseFloat(entered) || 0;
+    };
+
     // Calculate selected amount
     const selectedAmount = pendingPayments
         .filter(p => selectedPaymentIds.has(p.id))
-        .reduce((sum, p) => sum + parseFloat(p.amount), 0);
+        .reduce((sum, p) => sum + payAmountFor(p), 0);
+
+    const hasInvalidAmount = pendingPayments
+        .filter(p => selectedPaymentIds.has(p.id))
+        .some(p => payAmountFor(p) <= 0 || payAmountFor(p) > balanceOf(p));
 
     // Toggle payment selection
     const togglePaymentSelection = (paymentId: number) => {
@@ -114,19 +133,22 @@ function StudentPaymentsContent() {
         setProcessingPayment(true);
 
         try {
-            // Process only selected payments
+            // Process only selected payments; each becomes one installment in the ledger
             const paymentsToProcess = pendingPayments.filter(p => selectedPaymentIds.has(p.id));
 
             for (const payment of paymentsToProcess) {
-                await fetch(`/api/payments/${payment.id}`, {
-                    method: 'PUT',
+                const res = await fetch(`/api/payments/${payment.id}/transactions`, {
+                    method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify({
-                        payment_status: 'paid',
-                        payment_date: new Date().toISOString().split('T')[0],
-                        receipt_number: `RCP-${Date.now().toString().slice(-8)}`
+                        amount: payAmountFor(payment),
+                        payment_method: paymentMethod
                     })
                 });
+                const data = await res.json();
+                if (!data.success) {
+                    throw new Error(data.error);
+                }
             }
 
             setPaymentSuccess(true);
@@ -136,13 +158,15 @@ function StudentPaymentsContent() {
                 setShowPaymentModal(false);
                 setPaymentSuccess(false);
                 setSelectedPaymentIds(new Set());
+                setPayAmounts({});
                 setLoading(true);
                 await fetchPayments();
             }, 2000);
 
         } catch (error) {
             console.error('Payment failed:', error);
-            alert('Payment failed. Please try again.');
+            alert(error instanceof Error && error.message ? error.message : 'Payment failed. Please try again.');
+            await fetchPayments();
         } finally {
             setProcessingPayment(false);
         }
@@ -153,7 +177,7 @@ function StudentPaymentsContent() {
 
     return (
         <div className="max-w-7xl mx-auto px-6 py-8">
-            <Link href={`/student?id=${studentId}`} className="inline-flex items-center text-gray-500 hover:text-indigo-600 mb-6 transition-colors font-medium">
+            <Link href="/student" className="inline-flex items-center text-gray-500 hover:text-indigo-600 mb-6 transition-colors font-medium">
                 <span className="mr-2">←</span> Back to Dashboard
             </Link>
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
@@ -184,6 +208,30 @@ function StudentPaymentsContent() {
                         ₹{stats.totalPending.toLocaleString()}
                     </div>
                 </div>
+                <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100 relative overflow-hidden">
+                    <div className="text-sm font-medium text-gray-500 mb-2">Fee Statement</div>
+                    <div className="flex items-center gap-2 mb-3">
+                        <input
+                            type="date"
+                            value={statementFrom}
+                            onChange={(e) => setStatementFrom(e.target.value)}
+                            className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                        <span className="text-gray-400 text-sm">to</span>
+                        <input
+                            type="date"
+                            value={statementTo}
+                            onChange={(e) => setStatementTo(e.target.value)}
+                            className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                    </div>
+                    <a
+                        href={`/api/payments/student/${studentId}/statement.pdf?from=${statementFrom}&to=${statementTo}`}
+                        className="inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-800"
+                    >
+                        📄 Download PDF
+                    </a>
+                </div>
             </div>
 
             <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
@@ -223,6 +271,11 @@ function StudentPaymentsContent() {
                                         </td>
                                         <td className="px-6 py-4">
                                             <div className="font-bold text-gray-900">₹{parseFloat(payment.amount).toLocaleString()}</div>
+                                            {payment.payment_status !== 'paid' && parseFloat(payment.amount_paid) > 0 && (
+                                                <div className="text-xs text-blue-600 mt-0.5">
+                                                    Paid ₹{parseFloat(payment.amount_paid).toLocaleString()} · ₹{balanceOf(payment).toLocaleString()} left
+                                                </div>
+                                            )}
                                         </td>
                                         <td className="px-6 py-4">
                                             <span className={`inline-flex px-2.5 py-1 rounded-full text-xs font-semibold capitalize border ${statusConfig[payment.payment_status] || 'bg-gray-100 text-gray-800'}`}>
@@ -233,6 +286,14 @@ function StudentPaymentsContent() {
                                             <span className="font-mono text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
                                                 {payment.receipt_number || '-'}
                                             </span>
+                                            {payment.payment_status === 'paid' && payment.receipt_number && (
+                                                <a
+                                                    href={`/api/payments/${payment.id}/receipt.pdf`}
+                                                    className="block text-xs text-indigo-600 hover:text-indigo-800 font-medium mt-1.5"
+                                                >
+                                                    📄 Download
+                                                </a>
+                                            )}
                                         </td>
                                     </tr>
                                 ))
@@ -305,17 +366,48 @@ function StudentPaymentsContent() {
                                                         />
                                                         <div>
                                                             <div className="text-sm font-medium text-gray-900">{p.semester || 'Fee Payment'}</div>
-                                                            <div className="text-xs text-gray-500">Due: {new Date(p.due_date).toLocaleDateString()}</div>
+                                                            <div className="text-xs text-gray-500">
+                                                                Due: {new Date(p.due_date).toLocaleDateString()} · Balance ₹{balanceOf(p).toLocaleString()}
+                                                            </div>
                                                         </div>
                                                     </div>
-                                                    <span className={`font-bold ${selectedPaymentIds.has(p.id) ? 'text-indigo-600' : 'text-gray-900'}`}>
-                                                        ₹{parseFloat(p.amount).toLocaleString()}
-                                                    </span>
+                                                    {selectedPaymentIds.has(p.id) ? (
+                                                        <div className="flex items-center gap-1">
+                                                            <span className="text-sm text-gray-500">₹</span>
+                                                            <input
+                                                                type="number"
+                                                                min="1"
+                                                                max={balanceOf(p)}
+                                                                step="0.01"
+                                                                value={payAmounts[p.id] ?? String(balanceOf(p))}
+                                                                onChange={(e) => setPayAmounts(prev => ({ ...prev, [p.id]: e.target.value }))}
+                                                                className="w-24 px-2 py-1 text-right font-bold text-indigo-600 border border-indigo-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                                                title="Pay part of this due by entering a smaller amount"
+                                                            />
+                                                        </div>
+                                                    ) : (
+                                                        <span className="font-bold text-gray-900">
+                                                            ₹{balanceOf(p).toLocaleString()}
+                                                        </span>
+                                                    )}
                                                 </label>
                                             ))}
                                         </div>
                                     </div>
 
+                                    <div className="mb-4">
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Payment Method</label>
+                                        <select
+                                            value={paymentMethod}
+                                            onChange={(e) => setPaymentMethod(e.target.value)}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                        >
+                                            <option value="upi">UPI</option>
+                                            <option value="card">Card</option>
+                                            <option value="bank_transfer">Bank Transfer</option>
+                                        </select>
+                                    </div>
+
                                     <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-6">
                                         <p className="text-xs text-amber-800">
                                             ⚠️ This is a demo payment. No actual transaction will occur.
@@ -332,7 +424,7 @@ function StudentPaymentsContent() {
                                         </button>
                                         <button
                                             onClick={handlePayNow}
-                                            disabled={processingPayment || selectedPaymentIds.size === 0}
+                                            disabled={processingPayment || selectedPaymentIds.size === 0 || hasInvalidAmount}
                                             className="flex-1 px-4 py-2.5 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                                         >
                                             {processingPayment ? (
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, Suspense } from 'react';
-import { useSearchParams } from 'next/navigation';
+import { useCurrentUser } from '@/lib/useCurrentUser';
 import Link from 'next/link';
 
 interface Student {
@@ -19,9 +19,38 @@ interface Student {
     is_active: boolean;
 }
 
+interface Lifestyle {
+    sleep_schedule: string;
+    study_habits: string;
+    smokes: string;
+    cleanliness: string;
+}
+
+const emptyLifestyle: Lifestyle = { sleep_schedule: '', study_habits: '', smokes: '', cleanliness: '' };
+
+const SLEEP_OPTIONS: Record<string, string> = {
+    early_bird: 'Early bird (asleep before 11pm)',
+    night_owl: 'Night owl (up past midnight)',
+    flexible: 'Flexible'
+};
+
+const STUDY_OPTIONS: Record<string, string> = {
+    silent_room: 'In my room, in silence',
+    background_noise: 'In my room, music or noise is fine',
+    outside_room: 'Mostly outside (library, labs)'
+};
+
+const CLEANLINESS_OPTIONS: Record<string, string> = {
+    '1': '1 - Relaxed',
+    '2': '2',
+    '3': '3 - Average',
+    '4': '4',
+    '5': '5 - Very tidy'
+};
+
 function StudentProfileContent() {
-    const searchParams = useSearchParams();
-    const studentId = searchParams.get('id') || '1'; // Default to demo student 1
+    const { user } = useCurrentUser();
+    const studentId = user?.student_id;
 
     const [student, setStudent] = useState<Student | null>(null);
     const [loading, setLoading] = useState(true);
@@ -37,8 +66,14 @@ function StudentProfileContent() {
         address: ''
     });
 
+    const [lifestyle, setLifestyle] = useState<Lifestyle>(emptyLifestyle);
+    const [lifestyleForm, setLifestyleForm] = useState<Lifestyle>(emptyLifestyle);
+    const [editingLifestyle, setEditingLifestyle] = useState(false);
+
     useEffect(() => {
         const fetchStudent = async () => {
+            if (!studentId) return;
+
             try {
                 const res = await fetch(`/api/students/${studentId}`);
                 const data = await res.json();
@@ -53,6 +88,19 @@ function StudentProfileContent() {
                     });
                 }
 
+                const lifestyleRes = await fetch(`/api/students/${studentId}/lifestyle`);
+                const lifestyleData = await lifestyleRes.json();
+                if (lifestyleData.success) {
+                    const answers = {
+                        sleep_schedule: lifestyleData.data.sleep_schedule || '',
+                        study_habits: lifestyleData.data.study_habits || '',
+                        smokes: lifestyleData.data.smokes === null ? '' : String(lifestyleData.data.smokes),
+                        cleanliness: lifestyleData.data.cleanliness === null ? '' : String(lifestyleData.data.cleanliness)
+                    };
+                    setLifestyle(answers);
+                    setLifestyleForm(answers);
+                }
+
             } catch (error) {
                 console.error('Failed to fetch profile:', error);
             } finally {
@@ -87,6 +135,42 @@ function StudentProfileContent() {
         }
     };
 
+    const handleLifestyleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setStatus(null);
+
+        try {
+            const res = await fetch(`/api/students/${studentId}/lifestyle`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    sleep_schedule: lifestyleForm.sleep_schedule || null,
+                    study_habits: lifestyleForm.study_habits || null,
+                    smokes: lifestyleForm.smokes === '' ? null : lifestyleForm.smokes === 'true',
+                    cleanliness: lifestyleForm.cleanliness || null
+                })
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                setLifestyle(lifestyleForm);
+                setStatus({ type: 'success', message: data.message });
+                setEditingLifestyle(false);
+            } else {
+                setStatus({ type: 'error', message: data.error || 'Failed to save roommate preferences' });
+            }
+        } catch {
+            setStatus({ type: 'error', message: 'An error occurred' });
+        }
+    };
+
+    const lifestyleFields: { key: keyof Lifestyle; label: string; options: Record<string, string> }[] = [
+        { key: 'sleep_schedule', label: 'Sleep Schedule', options: SLEEP_OPTIONS },
+        { key: 'study_habits', label: 'Study Habits', options: STUDY_OPTIONS },
+        { key: 'smokes', label: 'Smoking', options: { false: 'Non-smoker', true: 'Smoker' } },
+        { key: 'cleanliness', label: 'Cleanliness', options: CLEANLINESS_OPTIONS }
+    ];
+
     if (loading) return <div className="min-h-[200px] flex items-center justify-center"><div className="animate-spin rounded-full h-10 w-10 border-4 border-indigo-200 border-t-indigo-600"></div></div>;
     if (!student) return <div className="max-w-4xl mx-auto px-6 py-8 text-center text-gray-500">Student not found</div>;
 
@@ -94,7 +178,7 @@ function StudentProfileContent() {
 
     return (
         <div className="max-w-4xl mx-auto px-6 py-8">
-            <Link href={`/student?id=${studentId}`} className="inline-flex items-center text-gray-500 hover:text-indigo-600 mb-6 transition-colors font-medium">
+            <Link href="/student" className="inline-flex items-center text-gray-500 hover:text-indigo-600 mb-6 transition-colors font-medium">
                 <span className="mr-2">←</span> Back to Dashboard
             </Link>
             <div className="text-center mb-10">
@@ -260,6 +344,74 @@ function StudentProfileContent() {
                     </div>
                 </div>
             </form>
+
+            <form onSubmit={handleLifestyleSubmit}>
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden mb-6">
+                    <div className="bg-gray-50/50 px-8 py-5 border-b border-gray-100">
+                        <div className="flex justify-between items-center">
+                            <div>
+                                <h3 className="text-lg font-bold text-gray-900">Roommate Preferences</h3>
+                                <p className="text-sm text-gray-500">Helps the hostel office pair you with compatible roommates</p>
+                            </div>
+                            {!editingLifestyle && (
+                                <button
+                                    type="button"
+                                    onClick={() => setEditingLifestyle(true)}
+                                    className="text-indigo-600 hover:text-indigo-700 text-sm font-medium hover:underline"
+                                >
+                                    Edit Preferences
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                    <div className="p-8">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-6">
+                            {lifestyleFields.map(field => (
+                                <div key={field.key}>
+                                    <label className="block text-sm font-medium text-gray-500 mb-1.5">{field.label}</label>
+                                    {editingLifestyle ? (
+                                        <select
+                                            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all bg-white"
+                                            value={lifestyleForm[field.key]}
+                                            onChange={(e) => setLifestyleForm({ ...lifestyleForm, [field.key]: e.target.value })}
+                                        >
+                                            <option value="">Prefer not to say</option>
+                                            {Object.entries(field.options).map(([value, label]) => (
+                                                <option key={value} value={value}>{label}</option>
+                                            ))}
+                                        </select>
+                                    ) : (
+                                        <div className="text-gray-900 font-medium text-lg border-b border-gray-100 pb-1">
+                                            {field.options[lifestyle[field.key]] || '-'}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+
+                        {editingLifestyle && (
+                            <div className="flex justify-end gap-3 mt-8 pt-6 border-t border-gray-100">
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        setEditingLifestyle(false);
+                                        setLifestyleForm(lifestyle);
+                                    }}
+                                    className="px-6 py-2.5 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 font-medium transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    className="px-6 py-2.5 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 transition-colors shadow-sm"
+                                >
+                                    Save Preferences
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </form>
         </div>
     );
 }
@@ -1,8 +1,9 @@
 'use client';
 
 import { useState, useEffect, Suspense } from 'react';
-import { useSearchParams } from 'next/navigation';
+import { useCurrentUser } from '@/lib/useCurrentUser';
 import Link from 'next/link';
+import { RoomInspection, StudentTimeline, UpcomingCheckout } from '@/lib/types';
 
 interface Allocation {
     id: number;
@@ -10,6 +11,7 @@ interface Allocation {
     room_id: number;
     student_name: string;
     room_number: string;
+    bed_label: string | null;
     hostel_name: string;
     allocation_date: string;
     expected_checkout: string | null;
@@ -27,18 +29,99 @@ interface RoomDetails {
     hostel_name: string;
 }
 
+function StayHistory({ history }: { history: StudentTimeline }) {
+    if (history.stays.length === 0 && history.unlinked_payments.length === 0) return null;
+
+    return (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden mt-8">
+            <div className="bg-gray-50/50 px-6 py-4 border-b border-gray-100">
+                <h2 className="text-lg font-bold text-gray-900">Stay History</h2>
+            </div>
+            <div className="divide-y divide-gray-100">
+                {history.stays.map(stay => (
+                    <div key={stay.allocation_id} className="p-6">
+                        <div className="flex flex-wrap justify-between items-start gap-2 mb-3">
+                            <div>
+                                <div className="font-semibold text-gray-900">
+                                    {stay.hostel_name}, Room {stay.room_number}{stay.bed_label && `, Bed ${stay.bed_label}`}
+                                </div>
+                                <div className="text-sm text-gray-500">
+                                    {new Date(stay.allocation_date).toLocaleDateString()} – {stay.actual_checkout
+                                        ? new Date(stay.actual_checkout).toLocaleDateString()
+                                        : stay.is_active ? 'present' : 'unknown'}
+                                    {stay.nights !== null && ` · ${stay.nights} night(s)`}
+                                </div>
+                            </div>
+                            {stay.is_active && (
+                                <span className="px-2 py-1 rounded-full text-xs font-semibold bg-green-50 text-green-700 border border-green-200">Current</span>
+                            )}
+                        </div>
+                        {stay.payments.length > 0 && (
+                            <div className="mb-2">
+                                {stay.payments.map(payment => (
+                                    <div key={payment.id} className="flex justify-between text-sm py-1">
+                                        <span className="text-gray-700">{payment.semester || payment.notes || `Payment #${payment.id}`}</span>
+                                        <span className="text-gray-500">
+                                            ₹{payment.amount_paid} / ₹{payment.amount} · <span className="capitalize">{payment.payment_status}</span>
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {stay.damage_charges > 0 && (
+                            <p className="text-sm text-red-700 mb-2">Damage charges: ₹{stay.damage_charges}</p>
+                        )}
+                        {stay.complaints.length > 0 && (
+                            <p className="text-sm text-gray-500">
+                                Complaints: {stay.complaints.map(complaint => `${complaint.title} (${complaint.status.replace('_', ' ')})`).join(', ')}
+                            </p>
+                        )}
+                    </div>
+                ))}
+                {history.unlinked_payments.length > 0 && (
+                    <div className="p-6">
+                        <div className="font-semibold text-gray-900 mb-2">Other Payments</div>
+                        {history.unlinked_payments.map(payment => (
+                            <div key={payment.id} className="flex justify-between text-sm py-1">
+                                <span className="text-gray-700">{payment.semester || payment.notes || `Payment #${payment.id}`}</span>
+                                <span className="text-gray-500">
+                                    ₹{payment.amount_paid} / ₹{payment.amount} · <span className="capitalize">{payment.payment_status}</span>
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
+
 function StudentRoomContent() {
-    const searchParams = useSearchParams();
-    const studentId = parseInt(searchParams.get('id') || '1');
+    const { user } = useCurrentUser();
+    const studentId = user?.student_id;
 
     const [loading, setLoading] = useState(true);
     const [allocation, setAllocation] = useState<Allocation | null>(null);
     const [roomDetails, setRoomDetails] = useState<RoomDetails | null>(null);
     const [roommates, setRoommates] = useState<Allocation[]>([]);
+    const [inspections, setInspections] = useState<RoomInspection[]>([]);
+    const [signComments, setSignComments] = useState<Record<number, string>>({});
+    const [signError, setSignError] = useState('');
+    const [checkoutDue, setCheckoutDue] = useState<UpcomingCheckout | null>(null);
+    const [history, setHistory] = useState<StudentTimeline | null>(null);
 
     useEffect(() => {
         const fetchData = async () => {
+            if (!studentId) return;
+
             try {
+                // Every stay so far, shown even when the student has no room now
+                const historyRes = await fetch(`/api/students/${studentId}/history`);
+                const historyData = await historyRes.json();
+                if (historyData.success) {
+                    setHistory(historyData.data);
+                }
+
                 // 1. Get current allocation for student
                 const allocRes = await fetch(`/api/allocations?student_id=${studentId}&is_active=true`);
                 const allocData = await allocRes.json();
@@ -59,7 +142,22 @@ function StudentRoomContent() {
                     setRoommates(roommatesData.data.filter((a: Allocation) => a.student_id !== studentId));
                 }
 
-                // 3. Get extra room info (rent, amenities)
+                // 3. Check-in / check-out inspections awaiting or bearing the student's signature
+                const inspectionsRes = await fetch(`/api/allocations/${currentAlloc.id}/inspections`);
+                const inspectionsData = await inspectionsRes.json();
+                if (inspectionsData.success) {
+                    setInspections(inspectionsData.data.inspections);
+                }
+
+                // 4. Checkout reminder when the expected checkout is near or has passed
+                const checkoutsRes = await fetch('/api/allocations/checkouts');
+                const checkoutsData = await checkoutsRes.json();
+                if (checkoutsData.success) {
+                    const stays: UpcomingCheckout[] = [...checkoutsData.data.overstays, ...checkoutsData.data.upcoming];
+                    setCheckoutDue(stays.find(stay => stay.allocation_id === currentAlloc.id) || null);
+                }
+
+                // 5. Get extra room info (rent, amenities)
                 const allRoomsRes = await fetch(`/api/rooms?limit=100`);
                 const allRoomsData = await allRoomsRes.json();
                 if (allRoomsData.success) {
@@ -77,26 +175,48 @@ function StudentRoomContent() {
         fetchData();
     }, [studentId]);
 
+    const handleSign = async (inspection: RoomInspection) => {
+        setSignError('');
+        try {
+            const res = await fetch(`/api/allocations/${inspection.allocation_id}/inspections/${inspection.id}/sign`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ comments: signComments[inspection.id] || null })
+            });
+            const data = await res.json();
+            if (data.success) {
+                setInspections(prev => prev.map(i => (i.id === inspection.id ? { ...i, ...data.data } : i)));
+            } else {
+                setSignError(data.error || 'Failed to sign inspection');
+            }
+        } catch {
+            setSignError('An error occurred');
+        }
+    };
+
     if (loading) return <div className="min-h-[200px] flex items-center justify-center"><div className="animate-spin rounded-full h-10 w-10 border-4 border-indigo-200 border-t-indigo-600"></div></div>;
 
     if (!allocation) {
         return (
             <div className="max-w-7xl mx-auto px-6 py-8">
-                <Link href={`/student?id=${studentId}`} className="inline-flex items-center text-gray-500 hover:text-indigo-600 mb-6 transition-colors font-medium">
+                <Link href="/student" className="inline-flex items-center text-gray-500 hover:text-indigo-600 mb-6 transition-colors font-medium">
                     <span className="mr-2">←</span> Back to Dashboard
                 </Link>
                 <div className="bg-white rounded-xl p-12 text-center border border-gray-200 shadow-sm">
                     <div className="text-5xl mb-4 grayscale opacity-50">🏠</div>
                     <h2 className="text-xl font-bold text-gray-900 mb-1">No Room Allocated</h2>
-                    <p className="text-gray-500">You have not been assigned a room yet.</p>
+                    <p className="text-gray-500">
+                        {history && history.stays.length > 0 ? 'You do not have a room at the moment.' : 'You have not been assigned a room yet.'}
+                    </p>
                 </div>
+                {history && <StayHistory history={history} />}
             </div>
         );
     }
 
     return (
         <div className="max-w-7xl mx-auto px-6 py-8">
-            <Link href={`/student?id=${studentId}`} className="inline-flex items-center text-gray-500 hover:text-indigo-600 mb-6 transition-colors font-medium">
+            <Link href="/student" className="inline-flex items-center text-gray-500 hover:text-indigo-600 mb-6 transition-colors font-medium">
                 <span className="mr-2">←</span> Back to Dashboard
             </Link>
             <div className="mb-8">
@@ -104,6 +224,21 @@ function StudentRoomContent() {
                 <p className="text-gray-500">Current accommodation details</p>
             </div>
 
+            {checkoutDue && (
+                <div className={`p-4 rounded-xl border mb-8 ${checkoutDue.days_left < 0 ? 'bg-red-50 text-red-700 border-red-200' : 'bg-amber-50 text-amber-800 border-amber-200'}`}>
+                    <div className="font-semibold">
+                        {checkoutDue.days_left < 0
+                            ? `Your expected checkout was ${new Date(checkoutDue.expected_checkout).toLocaleDateString()}`
+                            : `Your checkout is due ${checkoutDue.days_left === 0 ? 'today' : `in ${checkoutDue.days_left} day(s)`}, on ${new Date(checkoutDue.expected_checkout).toLocaleDateString()}`}
+                    </div>
+                    <div className="text-sm mt-1">
+                        {checkoutDue.days_left < 0
+                            ? 'Please contact the warden to check out or extend your stay.'
+                            : 'Please arrange your check-out inspection with the warden before you leave.'}
+                    </div>
+                </div>
+            )}
+
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden mb-8">
                 <div className="bg-gray-50/50 px-6 py-4 border-b border-gray-100">
                     <h2 className="text-lg font-bold text-gray-900">Room Details</h2>
@@ -114,6 +249,12 @@ function StudentRoomContent() {
                             <span className="block text-sm font-medium text-gray-500 mb-1">Room Number</span>
                             <div className="text-2xl font-bold text-indigo-900">{allocation.room_number}</div>
                         </div>
+                        {allocation.bed_label && (
+                            <div>
+                                <span className="block text-sm font-medium text-gray-500 mb-1">Bed</span>
+                                <div className="text-lg font-semibold text-gray-900">{allocation.bed_label}</div>
+                            </div>
+                        )}
                         <div>
                             <span className="block text-sm font-medium text-gray-500 mb-1">Hostel Block</span>
                             <div className="text-lg font-semibold text-gray-900">{allocation.hostel_name}</div>
@@ -150,6 +291,73 @@ function StudentRoomContent() {
                 </div>
             </div>
 
+            {inspections.length > 0 && (
+                <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden mb-8">
+                    <div className="bg-gray-50/50 px-6 py-4 border-b border-gray-100">
+                        <h2 className="text-lg font-bold text-gray-900">Room Inspections</h2>
+                    </div>
+                    <div className="p-6 space-y-6">
+                        {signError && (
+                            <div className="p-3 rounded-lg bg-red-50 text-red-700 border border-red-200 text-sm">{signError}</div>
+                        )}
+                        {inspections.map(inspection => (
+                            <div key={inspection.id}>
+                                <div className="flex justify-between items-center mb-2">
+                                    <h3 className="font-semibold text-gray-900">
+                                        {inspection.inspection_type === 'check_in' ? 'Check-in' : 'Check-out'} inspection
+                                    </h3>
+                                    <span className="text-xs text-gray-500">
+                                        By {inspection.inspected_by} on {new Date(inspection.inspected_at).toLocaleDateString()}
+                                    </span>
+                                </div>
+                                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 mb-3">
+                                    {inspection.items.map(item => (
+                                        <div key={item.item_name} className="flex justify-between text-sm px-3 py-2 rounded-lg bg-gray-50 border border-gray-100">
+                                            <span className="text-gray-700">{item.item_name}{item.quantity !== 1 && ` × ${item.quantity}`}</span>
+                                            <span className={`capitalize font-medium ${item.item_condition === 'good' ? 'text-green-700' : item.item_condition === 'fair' ? 'text-amber-700' : 'text-red-700'}`}>
+                                                {item.item_condition}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                                {inspection.condition_notes && <p className="text-sm text-gray-500 mb-2">Notes: {inspection.condition_notes}</p>}
+                                {inspection.damages && inspection.damages.length > 0 && (
+                                    <p className="text-sm text-red-700 mb-2">
+                                        Damages: {inspection.damages.map(damage => damage.waived
+                                            ? `${damage.item_name} (waived)`
+                                            : damage.charge_amount !== null
+                                                ? `${damage.item_name} (₹${damage.charge_amount})`
+                                                : damage.item_name).join(', ')}
+                                    </p>
+                                )}
+                                {inspection.student_signed_at ? (
+                                    <p className="text-sm text-green-700 font-medium">
+                                        ✓ You signed on {new Date(inspection.student_signed_at).toLocaleDateString()}
+                                        {inspection.student_comments && <span className="text-gray-500 font-normal"> — {inspection.student_comments}</span>}
+                                    </p>
+                                ) : (
+                                    <div className="flex flex-col sm:flex-row gap-2">
+                                        <input
+                                            type="text"
+                                            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all text-sm"
+                                            placeholder="Comments (optional, e.g. anything you disagree with)"
+                                            value={signComments[inspection.id] || ''}
+                                            onChange={(e) => setSignComments({ ...signComments, [inspection.id]: e.target.value })}
+                                        />
+                                        <button
+                                            className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 transition-colors shadow-sm"
+                                            onClick={() => handleSign(inspection)}
+                                        >
+                                            Sign Inspection
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
                 <div className="bg-gray-50/50 px-6 py-4 border-b border-gray-100">
                     <h2 className="text-lg font-bold text-gray-900">Roommates</h2>
@@ -177,6 +385,8 @@ function StudentRoomContent() {
                     )}
                 </div>
             </div>
+
+            {history && <StayHistory history={history} />}
         </div>
     );
 }
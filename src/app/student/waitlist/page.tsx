@@ -0,0 +1,267 @@
+'use client';
+
+/**
+ * Student Waitlist Page
+ * ======================
+ * Queue for a bed when the hostel or room type you want is full, see your
+ * position, and accept or decline a bed when one is offered.
+ */
+
+import { useEffect, useState, Suspense } from 'react';
+import { useCurrentUser } from '@/lib/useCurrentUser';
+import Link from 'next/link';
+import { Hostel, WaitlistEntry } from '@/lib/types';
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all bg-white';
+
+const describeTarget = (entry: WaitlistEntry) => {
+    if (entry.room_id) return `${entry.hostel_name}, Room ${entry.room_number}`;
+    return [entry.hostel_name || 'Any hostel', entry.room_type ? `${entry.room_type} room` : 'any room type'].join(', ');
+};
+
+function WaitlistContent() {
+    const { user } = useCurrentUser();
+    const studentId = user?.student_id;
+
+    const [loading, setLoading] = useState(true);
+    const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+    const [hostels, setHostels] = useState<Hostel[]>([]);
+    const [gender, setGender] = useState('');
+    const [hasRoom, setHasRoom] = useState(false);
+    const [form, setForm] = useState({ hostel_id: '', room_type: '' });
+    const [submitting, setSubmitting] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    const loadEntries = async () => {
+        const res = await fetch('/api/waitlist');
+        const data = await res.json();
+        if (data.success) setEntries(data.data);
+    };
+
+    useEffect(() => {
+        const fetchData = async () => {
+            if (!studentId) return;
+
+            try {
+                const [hostelsRes, studentRes] = await Promise.all([
+                    fetch('/api/hostels?limit=100'),
+                    fetch(`/api/students/${studentId}`)
+                ]);
+                const hostelsData = await hostelsRes.json();
+                const studentData = await studentRes.json();
+
+                if (hostelsData.success) setHostels(hostelsData.data);
+                if (studentData.success) {
+                    setGender(studentData.data.gender);
+                    setHasRoom(!!studentData.data.room_id);
+                }
+                await loadEntries();
+            } catch (error) {
+                console.error('Failed to fetch waitlist:', error);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchData();
+    }, [studentId]);
+
+    const handleJoin = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitting(true);
+        setMessage(null);
+
+        try {
+            const res = await fetch('/api/waitlist', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    student_id: studentId,
+                    hostel_id: form.hostel_id || null,
+                    room_type: form.room_type || null
+                })
+            });
+            const data = await res.json();
+            if (data.success) {
+                setMessage({ type: 'success', text: data.message });
+                await loadEntries();
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to join the waitlist' });
+            }
+        } catch {
+            setMessage({ type: 'error', text: 'An error occurred. Please try again.' });
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const handleRespond = async (entry: WaitlistEntry, accept: boolean) => {
+        if (!accept && !confirm('Decline this bed? It will be offered to the next student and you leave the waitlist.')) return;
+        setMessage(null);
+
+        try {
+            const res = await fetch(`/api/waitlist/${entry.id}/respond`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ accept })
+            });
+            const data = await res.json();
+            if (data.success) {
+                setMessage({ type: 'success', text: data.message });
+                if (accept) setHasRoom(true);
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to respond to offer' });
+            }
+            await loadEntries();
+        } catch {
+            setMessage({ type: 'error', text: 'An error occurred. Please try again.' });
+        }
+    };
+
+    const handleLeave = async (entry: WaitlistEntry) => {
+        if (!confirm('Leave the waitlist? You will lose your place in the queue.')) return;
+        setMessage(null);
+
+        try {
+            const res = await fetch(`/api/waitlist/${entry.id}`, { method: 'DELETE' });
+            const data = await res.json();
+            setMessage(data.success
+                ? { type: 'success', text: data.message }
+                : { type: 'error', text: data.error || 'Failed to leave the waitlist' });
+            await loadEntries();
+        } catch {
+            setMessage({ type: 'error', text: 'An error occurred. Please try again.' });
+        }
+    };
+
+    if (loading) return <div className="min-h-[200px] flex items-center justify-center"><div className="animate-spin rounded-full h-10 w-10 border-4 border-indigo-200 border-t-indigo-600"></div></div>;
+
+    const current = entries.find(e => e.status === 'waiting' || e.status === 'offered');
+    const history = entries.filter(e => e !== current);
+    const eligibleHostels = hostels.filter(h => h.gender_allowed === 'other' || h.gender_allowed === gender);
+
+    return (
+        <div className="max-w-4xl mx-auto px-6 py-8">
+            <Link href="/student" className="inline-flex items-center text-gray-500 hover:text-indigo-600 mb-6 transition-colors font-medium">
+                <span className="mr-2">←</span> Back to Dashboard
+            </Link>
+            <div className="mb-8">
+                <h1 className="text-3xl font-bold text-gray-900 mb-1">Waitlist</h1>
+                <p className="text-gray-500">Get offered a bed as soon as one frees up</p>
+            </div>
+
+            {message && (
+                <div className={`p-4 rounded-lg mb-6 ${message.type === 'success' ? 'bg-green-50 text-green-700 border border-green-200' : 'bg-red-50 text-red-700 border border-red-200'}`}>
+                    {message.text}
+                </div>
+            )}
+
+            {current ? (
+                <div className={`p-6 rounded-xl mb-6 border shadow-sm ${current.status === 'offered' ? 'bg-green-50 border-green-200' : 'bg-white border-gray-200'}`}>
+                    {current.status === 'offered' ? (
+                        <>
+                            <div className="text-lg font-bold text-green-800 mb-1">🎉 A bed is available for you</div>
+                            <p className="text-green-800">
+                                {current.offered_hostel_name}, Room {current.offered_room_number}, Bed {current.offered_bed_label}
+                            </p>
+                            {current.offer_expires_at && (
+                                <p className="text-sm text-green-700 mt-1">
+                                    Respond by {new Date(current.offer_expires_at).toLocaleString()} or it goes to the next student.
+                                </p>
+                            )}
+                            <div className="flex gap-3 mt-4">
+                                <button onClick={() => handleRespond(current, true)} className="px-4 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 transition-colors shadow-sm">
+                                    Accept Bed
+                                </button>
+                                <button onClick={() => handleRespond(current, false)} className="px-4 py-2 bg-white text-gray-700 border border-gray-300 font-medium rounded-lg hover:bg-gray-50 transition-colors">
+                                    Decline
+                                </button>
+                            </div>
+                        </>
+                    ) : (
+                        <div className="flex justify-between items-center gap-4">
+                            <div>
+                                <div className="text-sm text-gray-500">Waiting for</div>
+                                <div className="text-lg font-bold text-gray-900 capitalize">{describeTarget(current)}</div>
+                                <div className="text-xs text-gray-500 mt-1">Joined {new Date(current.created_at).toLocaleDateString()}</div>
+                            </div>
+                            <div className="text-center">
+                                <div className="text-4xl font-bold text-indigo-600">#{current.position}</div>
+                                <div className="text-xs text-gray-500 uppercase tracking-wide">in queue</div>
+                            </div>
+                        </div>
+                    )}
+                    <button onClick={() => handleLeave(current)} className="mt-4 text-sm text-gray-500 hover:text-red-600 hover:underline">
+                        Leave waitlist
+                    </button>
+                </div>
+            ) : hasRoom ? (
+                <div className="bg-white rounded-xl p-12 text-center border border-gray-200 shadow-sm mb-6">
+                    <div className="text-5xl mb-4 grayscale opacity-50">🏠</div>
+                    <h2 className="text-xl font-bold text-gray-900 mb-1">You already have a room</h2>
+                    <p className="text-gray-500">Ask the hostel office about a transfer if you want to move.</p>
+                </div>
+            ) : (
+                <form onSubmit={handleJoin} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden mb-6">
+                    <div className="bg-gray-50/50 px-6 py-4 border-b border-gray-100">
+                        <h2 className="text-lg font-bold text-gray-900">Join the Waitlist</h2>
+                    </div>
+                    <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Hostel</label>
+                            <select className={inputClass} value={form.hostel_id}
+                                onChange={(e) => setForm({ ...form, hostel_id: e.target.value })}>
+                                <option value="">Any hostel</option>
+                                {eligibleHostels.map(h => (
+                                    <option key={h.id} value={h.id}>{h.name}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Room Type</label>
+                            <select className={inputClass} value={form.room_type}
+                                onChange={(e) => setForm({ ...form, room_type: e.target.value })}>
+                                <option value="">Any type</option>
+                                <option value="single">Single</option>
+                                <option value="double">Double</option>
+                                <option value="triple">Triple</option>
+                                <option value="dormitory">Dormitory</option>
+                            </select>
+                        </div>
+                    </div>
+                    <div className="px-6 py-4 bg-gray-50 flex justify-end border-t border-gray-100">
+                        <button type="submit" disabled={submitting || (!form.hostel_id && !form.room_type)} className="px-4 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 transition-colors shadow-sm disabled:opacity-50">
+                            {submitting ? 'Joining...' : 'Join Waitlist'}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {history.length > 0 && (
+                <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                    <div className="bg-gray-50/50 px-6 py-4 border-b border-gray-100">
+                        <h2 className="text-lg font-bold text-gray-900">Past Entries</h2>
+                    </div>
+                    <ul className="divide-y divide-gray-100">
+                        {history.map(entry => (
+                            <li key={entry.id} className="px-6 py-3 flex justify-between items-center text-sm">
+                                <span className="text-gray-700 capitalize">{describeTarget(entry)}</span>
+                                <span className="px-2 py-0.5 rounded-full text-xs font-semibold uppercase tracking-wide bg-gray-100 text-gray-600">
+                                    {entry.status}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default function StudentWaitlistPage() {
+    return (
+        <Suspense fallback={<div className="max-w-7xl mx-auto px-6 py-8"><div className="min-h-[200px] flex items-center justify-center"><div className="animate-spin rounded-full h-10 w-10 border-4 border-indigo-200 border-t-indigo-600"></div></div></div>}>
+            <WaitlistContent />
+        </Suspense>
+    );
+}
@@ -7,15 +7,38 @@
  */
 
 import Link from 'next/link';
-import { usePathname } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
+import { UserRole } from '@/lib/types';
+import { useCurrentUser } from '@/lib/useCurrentUser';
+
+const NAV_LINKS: { href: string; label: string; roles: UserRole[] }[] = [
+    { href: '/admin', label: 'Admin Portal', roles: ['admin', 'warden'] },
+    { href: '/admin/complaints', label: 'My Work Orders', roles: ['staff'] },
+    { href: '/student', label: 'Student Portal', roles: ['student'] },
+    { href: '/admin/analytics', label: 'Analytics', roles: ['admin', 'warden'] },
+];
 
 export default function Navbar() {
     const pathname = usePathname();
+    const router = useRouter();
+    const { user } = useCurrentUser();
 
     const isActive = (path: string) => {
         return pathname?.startsWith(path);
     };
 
+    const handleLogout = async () => {
+        try {
+            await fetch('/api/auth/logout', { method: 'POST' });
+        } catch (error) {
+            console.error('Logout failed:', error);
+        }
+        router.push('/login');
+        router.refresh();
+    };
+
+    const links = user ? NAV_LINKS.filter(link => link.roles.includes(user.role)) : [];
+
     return (
         <nav className="bg-gradient-to-br from-indigo-950 to-indigo-900 sticky top-0 z-50 shadow-lg px-6">
             <div className="max-w-7xl mx-auto flex items-center justify-between h-16">
@@ -25,41 +48,44 @@ export default function Navbar() {
                 </Link>
 
                 <div className="hidden md:flex items-center gap-2">
-                    <Link
-                        href="/admin"
-                        className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${isActive('/admin')
-                                ? 'bg-white/15 text-white'
-                                : 'text-white/70 hover:text-white hover:bg-white/10'
-                            }`}
-                    >
-                        Admin Portal
-                    </Link>
-                    <Link
-                        href="/student"
-                        className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${isActive('/student')
-                                ? 'bg-white/15 text-white'
-                                : 'text-white/70 hover:text-white hover:bg-white/10'
-                            }`}
-                    >
-                        Student Portal
-                    </Link>
-                    <Link
-                        href="/admin/analytics"
-                        className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${isActive('/admin/analytics')
-                                ? 'bg-white/15 text-white'
-                                : 'text-white/70 hover:text-white hover:bg-white/10'
-                            }`}
-                    >
-                        Analytics
-                    </Link>
+                    {links.map(link => (
+                        <Link
+                            key={link.href}
+                            href={link.href}
+                            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${isActive(link.href)
+                                    ? 'bg-white/15 text-white'
+                                    : 'text-white/70 hover:text-white hover:bg-white/10'
+                                }`}
+                        >
+                            {link.label}
+                        </Link>
+                    ))}
                 </div>
 
                 <div className="flex items-center gap-4">
-                    <span className="px-3 py-1 bg-amber-500/20 text-amber-400 text-xs font-semibold rounded-full border border-amber-500/30">Demo Mode</span>
+                    {user ? (
+                        <>
+                            <span className="text-sm text-white/80">
+                                {user.display_name || user.username}
+                                <span className="ml-2 px-2 py-0.5 bg-violet-500/20 text-violet-200 text-xs font-semibold rounded-full border border-violet-400/30 capitalize">{user.role}</span>
+                            </span>
+                            <button
+                                onClick={handleLogout}
+                                className="px-3 py-1.5 rounded-lg text-sm font-medium text-white/70 hover:text-white hover:bg-white/10 transition-all"
+                            >
+                                Logout
+                            </button>
+                        </>
+                    ) : (
+                        <Link
+                            href="/login"
+                            className="px-4 py-2 rounded-lg text-sm font-medium bg-white/15 text-white hover:bg-white/25 transition-all"
+                        >
+                            Sign In
+                        </Link>
+                    )}
                 </div>
             </div>
         </nav>
     );
 }
-
-
@@ -0,0 +1,36 @@
+interface ExportButtonsProps {
+    // List route, e.g. '/api/payments'
+    endpoint: string;
+    // The page's current filters; empty values are left out
+    filters?: Record<string, string | null | undefined>;
+    className?: string;
+}
+
+/**
+ * CSV and Excel download links for a list route's ?format= export.
+ */
+export function ExportButtons({
+    endpoint,
+    filters = {},
+    className = 'btn btn-secondary'
+}: ExportButtonsProps) {
+    const href = (format: 'csv' | 'xlsx') => {
+        const params = new URLSearchParams();
+        Object.entries(filters).forEach(([key, value]) => {
+            if (value) params.append(key, value);
+        });
+        params.append('format', format);
+        return `${endpoint}?${params}`;
+    };
+
+    return (
+        <>
+            <a className={className} href={href('csv')} download>
+                ⬇ CSV
+            </a>
+            <a className={className} href={href('xlsx')} download>
+                ⬇ Excel
+            </a>
+        </>
+    );
+}
@@ -0,0 +1,112 @@
+/**
+ * Login Accounts Module
+ * ======================
+ * Creates and resets the users row a student or staff member logs in with.
+ *
+ * ACCOUNT RULES:
+ * 1. The username is the person's email, as for the seeded accounts, so an
+ *    email change is picked up the next time the password is set
+ * 2. Setting a password creates the account if there is none yet, and
+ *    re-activates and resets it otherwise
+ * 3. A reset signs the account out everywhere (its sessions are deleted)
+ * 4. Staff members need an email on file to get an account
+ */
+
+import { getClient } from '@/lib/db';
+import { hashPassword } from '@/lib/auth';
+import { User } from '@/lib/types';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export type AccountOwner = { student_id: number } | { staff_id: number };
+
+const ACCOUNT_COLUMNS = `
+    id, username, role, display_name, student_id, staff_id, is_active, last_login_at, created_at, updated_at`;
+
+/**
+ * Set the password of a student's or staff member's login, creating the
+ * login on first use
+ */
+export async function setAccountPassword(
+    owner: AccountOwner,
+    password: unknown
+): Promise<{ user: User; created: boolean } | { error: string; status: number }> {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`, status: 400 };
+    }
+
+    const isStudent = 'student_id' in owner;
+    const ownerId = isStudent ? owner.student_id : owner.staff_id;
+    const ownerColumn = isStudent ? 'student_id' : 'staff_id';
+
+    const client = await getClient();
+
+    const reject = async (error: string, status: number) => {
+        await client.query('ROLLBACK');
+        return { error, status };
+    };
+
+    try {
+        await client.query('BEGIN');
+
+        const person = await client.query<{ email: string | null; display_name: string }>(
+            isStudent
+                ? `SELECT email, first_name || ' ' || last_name as display_name FROM students WHERE id = $1`
+                : 'SELECT email, name as display_name FROM maintenance_staff WHERE id = $1',
+            [ownerId]
+        );
+
+        if (person.rows.length === 0) {
+            return await reject(isStudent ? 'Student not found' : 'Staff member not found', 404);
+        }
+
+        const { email, display_name } = person.rows[0];
+        if (!email) {
+            return await reject('Add an email address first; it is the login username', 400);
+        }
+
+        const passwordHash = await hashPassword(password);
+
+        const existing = await client.query<{ id: number }>(
+            `SELECT id FROM users WHERE ${ownerColumn} = $1 FOR UPDATE`,
+            [ownerId]
+        );
+
+        let result;
+        try {
+            result = existing.rows.length > 0
+                ? await client.query<User>(
+                    `UPDATE users
+                     SET username = $2, password_hash = $3, display_name = $4, is_active = TRUE
+                     WHERE id = $1
+                     RETURNING ${ACCOUNT_COLUMNS}`,
+                    [existing.rows[0].id, email, passwordHash, display_name]
+                )
+                : await client.query<User>(
+                    `INSERT INTO users (username, password_hash, role, display_name, ${ownerColumn})
+                     VALUES ($1, $2, $3, $4, $5)
+                     RETURNING ${ACCOUNT_COLUMNS}`,
+                    [email, passwordHash, isStudent ? 'student' : 'staff', display_name, ownerId]
+                );
+        } catch (error) {
+            if ((error as { code?: string }).code === '23505') {
+                return await reject(`${email} is already the username of another login`, 409);
+            }
+            throw error;
+        }
+
+        // Sign the account out everywhere after a reset
+        if (existing.rows.length > 0) {
+            await client.query('DELETE FROM sessions WHERE user_id = $1', [existing.rows[0].id]);
+        }
+
+        await client.query('COMMIT');
+
+        return { user: result.rows[0], created: existing.rows.length === 0 };
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+}
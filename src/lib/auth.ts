@@ -0,0 +1,153 @@
+/**
+ * Authentication & Authorization Module
+ * ======================================
+ * Session-based login backed by the users and sessions tables.
+ *
+ * KEY CONCEPTS:
+ * 1. PASSWORD HASHING: Passwords are stored as salted scrypt hashes, never as plain text
+ * 2. OPAQUE SESSIONS: The browser only holds a random token; the database stores its hash
+ * 3. ROLE-BASED ACCESS: Every API route declares which roles may call it
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { SessionUser, UserRole } from '@/lib/types';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'hms_session';
+export const SESSION_TTL_HOURS = 12;
+
+// Roles that run the hostel day to day and may see every student's records
+export const MANAGEMENT_ROLES: UserRole[] = ['admin', 'warden'];
+
+/**
+ * Hash a password as "scrypt$<salt>$<key>" (hex encoded)
+ */
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16).toString('hex');
+    const key = await scryptAsync(password, salt, 64);
+    return `scrypt$${salt}$${key.toString('hex')}`;
+}
+
+/**
+ * Check a password against a stored hash using a constant-time comparison
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+    const [scheme, salt, keyHex] = storedHash.split('$');
+    if (scheme !== 'scrypt' || !salt || !keyHex) return false;
+
+    const expected = Buffer.from(keyHex, 'hex');
+    const actual = await scryptAsync(password, salt, expected.length);
+    return timingSafeEqual(actual, expected);
+}
+
+function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Start a new session for a user and return the raw token for the cookie
+ */
+export async function createSession(userId: number): Promise<{ token: string; expiresAt: Date }> {
+    const token = randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + SESSION_TTL_HOURS * 60 * 60 * 1000);
+
+    await query(
+        `INSERT INTO sessions (user_id, token_hash, expires_at) VALUES ($1, $2, $3)`,
+        [userId, hashToken(token), expiresAt]
+    );
+
+    // Housekeeping: expired sessions are never valid again
+    await query('DELETE FROM sessions WHERE expires_at < CURRENT_TIMESTAMP');
+
+    return { token, expiresAt };
+}
+
+/**
+ * End a session (logout)
+ */
+export async function destroySession(token: string): Promise<void> {
+    await query('DELETE FROM sessions WHERE token_hash = $1', [hashToken(token)]);
+}
+
+/**
+ * Resolve a session token to the logged-in user, or null if missing/expired
+ */
+export async function getSessionUser(token: string | undefined): Promise<SessionUser | null> {
+    if (!token) return null;
+
+    const result = await query<SessionUser>(
+        `SELECT u.id, u.username, u.role, u.display_name, u.student_id, u.staff_id
+         FROM sessions s
+         INNER JOIN users u ON s.user_id = u.id
+         WHERE s.token_hash = $1
+           AND s.expires_at > CURRENT_TIMESTAMP
+           AND u.is_active = TRUE`,
+        [hashToken(token)]
+    );
+
+    return result.rows[0] || null;
+}
+
+type AuthResult =
+    | { user: SessionUser; error?: undefined }
+    | { user?: undefined; error: NextResponse };
+
+/**
+ * Authenticate the request and check the caller's role
+ *
+ * @param request - Incoming request (the session cookie is read from it)
+ * @param roles - Roles allowed to proceed; omit to allow any logged-in user
+ *
+ * @example
+ * const auth = await authorize(request, MANAGEMENT_ROLES);
+ * if (auth.error) return auth.error;
+ * // auth.user is now available
+ */
+export async function authorize(request: NextRequest, roles?: UserRole[]): Promise<AuthResult> {
+    const user = await getSessionUser(request.cookies.get(SESSION_COOKIE)?.value);
+
+    if (!user) {
+        return {
+            error: NextResponse.json(
+                { success: false, error: 'Authentication required' },
+                { status: 401 }
+            )
+        };
+    }
+
+    if (roles && !roles.includes(user.role)) {
+        return { error: forbidden() };
+    }
+
+    return { user };
+}
+
+/**
+ * Standard 403 response for authenticated users acting outside their role
+ */
+export function forbidden(message = 'You do not have permission to perform this action'): NextResponse {
+    return NextResponse.json({ success: false, error: message }, { status: 403 });
+}
+
+/**
+ * Whether a user may read or act on a given student's records.
+ * Management sees everyone; students only see themselves.
+ */
+export function canAccessStudent(user: SessionUser, studentId: number): boolean {
+    return MANAGEMENT_ROLES.includes(user.role) || user.student_id === studentId;
+}
+
+/**
+ * Landing page for each role after login
+ */
+export function homePathFor(role: UserRole): string {
+    switch (role) {
+        case 'student': return '/student';
+        case 'staff': return '/admin/complaints';
+        default: return '/admin';
+    }
+}
@@ -0,0 +1,355 @@
+/**
+ * Batch Allocation Module
+ * ========================
+ * Turns the applications of an allocation round into room allocations.
+ *
+ * ALLOCATION RULES:
+ * 1. Priority: higher year of study first, then earlier submission
+ * 2. Each applicant's choices are tried in rank order; within a choice the
+ *    fullest room that still has space wins, so rooms fill up before new
+ *    ones are opened
+ * 3. Two applicants who list each other as roommates are placed together
+ *    when a room with enough free beds matches the higher-priority one's
+ *    choices; otherwise they are placed separately
+ * 4. A one-sided roommate request is honoured when that roommate's room
+ *    matches one of the applicant's choices
+ * 5. Hostel gender_allowed and free beds are always respected
+ *
+ * The plan is computed the same way for the dry run and for publishing;
+ * publishing recomputes it inside the transaction with the rooms locked.
+ */
+
+import { PoolClient } from 'pg';
+import { getClient } from '@/lib/db';
+import { AllocationPlanEntry, AllocationRound, Room, RoomApplicationChoice } from '@/lib/types';
+
+interface Applicant {
+    application_id: number;
+    student_id: number;
+    student_name: string;
+    registration_number: string;
+    year_of_study: number | null;
+    gender: string;
+    is_active: boolean;
+    has_room: boolean;
+    choices: RoomApplicationChoice[];
+    roommate_ids: number[];
+}
+
+interface CandidateRoom {
+    id: number;
+    room_number: string;
+    room_type: Room['room_type'];
+    has_ac: boolean;
+    has_attached_bathroom: boolean;
+    hostel_id: number;
+    hostel_name: string;
+    gender_allowed: string;
+    free_beds: number;
+}
+
+export interface AllocationPlan {
+    round: AllocationRound;
+    entries: AllocationPlanEntry[];
+    allocated: number;
+    unallocated: number;
+}
+
+async function loadApplicants(client: PoolClient, roundId: number): Promise<Applicant[]> {
+    const applications = await client.query<Omit<Applicant, 'choices' | 'roommate_ids'>>(
+        `SELECT
+          ra.id as application_id,
+          s.id as student_id,
+          s.first_name || ' ' || s.last_name as student_name,
+          s.registration_number,
+          s.year_of_study,
+          s.gender,
+          s.is_active,
+          EXISTS (
+            SELECT 1 FROM allocations a WHERE a.student_id = s.id AND a.is_active = TRUE
+          ) as has_room
+         FROM room_applications ra
+         INNER JOIN students s ON ra.student_id = s.id
+         WHERE ra.round_id = $1
+         ORDER BY s.year_of_study DESC NULLS LAST, ra.submitted_at, ra.id`,
+        [roundId]
+    );
+
+    const choices = await client.query<RoomApplicationChoice & { application_id: number }>(
+        `SELECT c.*
+         FROM room_application_choices c
+         INNER JOIN room_applications ra ON c.application_id = ra.id
+         WHERE ra.round_id = $1
+         ORDER BY c.application_id, c.preference_rank`,
+        [roundId]
+    );
+
+    const roommates = await client.query<{ application_id: number; roommate_id: number }>(
+        `SELECT rr.application_id, rr.roommate_id
+         FROM room_application_roommates rr
+         INNER JOIN room_applications ra ON rr.application_id = ra.id
+         WHERE ra.round_id = $1`,
+        [roundId]
+    );
+
+    return applications.rows.map(row => ({
+        ...row,
+        choices: choices.rows.filter(choice => choice.application_id === row.application_id),
+        roommate_ids: roommates.rows
+            .filter(link => link.application_id === row.application_id)
+            .map(link => link.roommate_id)
+    }));
+}
+
+// Rooms in service with at least one bed free from today on (bed_is_free in
+// triggers.sql); round allocations have no expected checkout
+async function loadRooms(client: PoolClient): Promise<CandidateRoom[]> {
+    const result = await client.query<CandidateRoom>(
+        `SELECT
+          r.id,
+          r.room_number,
+          r.room_type,
+          r.has_ac,
+          r.has_attached_bathroom,
+          h.id as hostel_id,
+          h.name as hostel_name,
+          h.gender_allowed,
+          COUNT(b.id)::INTEGER as free_beds
+         FROM rooms r
+         INNER JOIN hostels h ON r.hostel_id = h.id
+         INNER JOIN beds b ON b.room_id = r.id AND bed_is_free(b.id)
+         WHERE r.is_available = TRUE
+           AND NOT room_is_blacked_out(r.id)
+         GROUP BY r.id, h.id
+         ORDER BY h.name, r.room_number`
+    );
+    return result.rows;
+}
+
+const matchesChoice = (room: CandidateRoom, choice: RoomApplicationChoice) =>
+    (choice.hostel_id === null || room.hostel_id === choice.hostel_id) &&
+    (choice.room_type === null || room.room_type === choice.room_type) &&
+    (choice.wants_ac === null || room.has_ac === choice.wants_ac) &&
+    (choice.wants_attached_bathroom === null || room.has_attached_bathroom === choice.wants_attached_bathroom);
+
+const allowsGender = (room: CandidateRoom, gender: string) =>
+    room.gender_allowed === 'other' || room.gender_allowed === gender;
+
+/**
+ * Work out who gets which room. Pure: reads the inputs, writes nothing.
+ */
+function buildPlan(applicants: Applicant[], rooms: CandidateRoom[]): AllocationPlanEntry[] {
+    const freeBeds = new Map(rooms.map(room => [room.id, room.free_beds]));
+    const roomOf = new Map<number, CandidateRoom>();
+    const entries = new Map<number, AllocationPlanEntry>();
+    const byStudent = new Map(applicants.map(applicant => [applicant.student_id, applicant]));
+
+    const record = (applicant: Applicant, room: CandidateRoom | null, rank: number | null, reason: string) => {
+        if (room) {
+            freeBeds.set(room.id, (freeBeds.get(room.id) ?? 0) - 1);
+            roomOf.set(applicant.student_id, room);
+        }
+        entries.set(applicant.student_id, {
+            application_id: applicant.application_id,
+            student_id: applicant.student_id,
+            student_name: applicant.student_name,
+            registration_number: applicant.registration_number,
+            year_of_study: applicant.year_of_study,
+            room_id: room?.id ?? null,
+            room_number: room?.room_number ?? null,
+            hostel_name: room?.hostel_name ?? null,
+            choice_rank: rank,
+            reason
+        });
+    };
+
+    // Fullest matching room with enough space for the whole group
+    const findRoom = (choice: RoomApplicationChoice, gender: string, beds: number) =>
+        rooms
+            .filter(room => matchesChoice(room, choice) && allowsGender(room, gender))
+            .filter(room => (freeBeds.get(room.id) ?? 0) >= beds)
+            .sort((a, b) => (freeBeds.get(a.id) ?? 0) - (freeBeds.get(b.id) ?? 0))[0];
+
+    const isEligible = (applicant: Applicant) =>
+        applicant.is_active && !applicant.has_room && !entries.has(applicant.student_id);
+
+    for (const applicant of applicants) {
+        if (entries.has(applicant.student_id)) continue;
+
+        if (!applicant.is_active) {
+            record(applicant, null, null, 'Student is not active');
+            continue;
+        }
+        if (applicant.has_room) {
+            record(applicant, null, null, 'Student already has an active room');
+            continue;
+        }
+        if (applicant.choices.length === 0) {
+            record(applicant, null, null, 'No preferences submitted');
+            continue;
+        }
+
+        // Rule 3: mutual roommate requests move as a group
+        const partners = applicant.roommate_ids
+            .map(id => byStudent.get(id))
+            .filter((partner): partner is Applicant =>
+                !!partner &&
+                partner.roommate_ids.includes(applicant.student_id) &&
+                partner.gender === applicant.gender &&
+                isEligible(partner)
+            );
+
+        let placed = false;
+
+        if (partners.length > 0) {
+            for (const choice of applicant.choices) {
+                const room = findRoom(choice, applicant.gender, partners.length + 1);
+                if (!room) continue;
+
+                const names = partners.map(partner => partner.student_name).join(', ');
+                record(applicant, room, choice.preference_rank,
+                    `Choice ${choice.preference_rank}, together with ${names}`);
+                for (const partner of partners) {
+                    record(partner, room, null,
+                        `Placed with ${applicant.student_name} (mutual roommate request, their choice ${choice.preference_rank})`);
+                }
+                placed = true;
+                break;
+            }
+        }
+        if (placed) continue;
+
+        const groupNote = partners.length > 0 ? '; no room fitted the whole roommate group' : '';
+
+        // Rule 4: join a requested roommate who is already placed
+        for (const roommateId of applicant.roommate_ids) {
+            const room = roomOf.get(roommateId);
+            const choice = room && applicant.choices.find(c => matchesChoice(room, c));
+            if (!room || !choice || !allowsGender(room, applicant.gender) || (freeBeds.get(room.id) ?? 0) < 1) continue;
+
+            record(applicant, room, choice.preference_rank,
+                `Choice ${choice.preference_rank}, with requested roommate ${byStudent.get(roommateId)?.student_name}${groupNote}`);
+            placed = true;
+            break;
+        }
+        if (placed) continue;
+
+        for (const choice of applicant.choices) {
+            const room = findRoom(choice, applicant.gender, 1);
+            if (!room) continue;
+
+            record(applicant, room, choice.preference_rank, `Choice ${choice.preference_rank}${groupNote}`);
+            placed = true;
+            break;
+        }
+        if (placed) continue;
+
+        record(applicant, null, null,
+            `No free bed matched any of ${applicant.choices.length} preference${applicant.choices.length > 1 ? 's' : ''}`);
+    }
+
+    // Report in priority order
+    return applicants.map(applicant => entries.get(applicant.student_id)!);
+}
+
+function summarise(round: AllocationRound, entries: AllocationPlanEntry[]): AllocationPlan {
+    const allocated = entries.filter(entry => entry.room_id !== null).length;
+    return { round, entries, allocated, unallocated: entries.length - allocated };
+}
+
+/**
+ * Dry run: who would get what and why, without writing anything
+ */
+export async function previewAllocationRound(roundId: number): Promise<AllocationPlan | null> {
+    const client = await getClient();
+
+    try {
+        const roundResult = await client.query<AllocationRound>(
+            'SELECT * FROM allocation_rounds WHERE id = $1',
+            [roundId]
+        );
+        if (roundResult.rows.length === 0) return null;
+
+        const applicants = await loadApplicants(client, roundId);
+        const rooms = await loadRooms(client);
+
+        return summarise(roundResult.rows[0], buildPlan(applicants, rooms));
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Publish: create the allocations, record each application's outcome and
+ * close the round, all in one transaction.
+ */
+export async function publishAllocationRound(
+    roundId: number,
+    publishedBy: string
+): Promise<AllocationPlan | { error: string; status: number }> {
+    const client = await getClient();
+
+    try {
+        await client.query('BEGIN');
+
+        const roundResult = await client.query<AllocationRound>(
+            'SELECT * FROM allocation_rounds WHERE id = $1 FOR UPDATE',
+            [roundId]
+        );
+
+        if (roundResult.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return { error: 'Allocation round not found', status: 404 };
+        }
+        if (roundResult.rows[0].status === 'published') {
+            await client.query('ROLLBACK');
+            return { error: 'This round has already been published', status: 400 };
+        }
+
+        // Lock every room in service so the plan's free beds stay free until COMMIT
+        await client.query('SELECT id FROM rooms WHERE is_available = TRUE ORDER BY id FOR UPDATE');
+
+        const applicants = await loadApplicants(client, roundId);
+        const rooms = await loadRooms(client);
+        const entries = buildPlan(applicants, rooms);
+
+        for (const entry of entries) {
+            let allocationId: number | null = null;
+
+            if (entry.room_id !== null) {
+                // Trigger picks the bed and updates occupancy
+                const allocation = await client.query<{ id: number }>(
+                    `INSERT INTO allocations (student_id, room_id, allocation_date, notes, is_active)
+                     VALUES ($1, $2, CURRENT_DATE, $3, TRUE)
+                     RETURNING id`,
+                    [entry.student_id, entry.room_id, `Allocated in round "${roundResult.rows[0].name}": ${entry.reason}`]
+                );
+                allocationId = allocation.rows[0].id;
+            }
+
+            await client.query(
+                `UPDATE room_applications
+                 SET status = $1, allocation_id = $2, result_notes = $3
+                 WHERE id = $4`,
+                [allocationId ? 'allocated' : 'unallocated', allocationId, entry.reason, entry.application_id]
+            );
+        }
+
+        const published = await client.query<AllocationRound>(
+            `UPDATE allocation_rounds
+             SET status = 'published', published_at = CURRENT_TIMESTAMP, published_by = $1
+             WHERE id = $2
+             RETURNING *`,
+            [publishedBy, roundId]
+        );
+
+        await client.query('COMMIT');
+
+        return summarise(published.rows[0], entries);
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+}
@@ -0,0 +1,149 @@
+/**
+ * Semester Billing Module
+ * ========================
+ * Generates one fee invoice (payments row) per active allocation for a semester.
+ *
+ * BILLING RULES:
+ * 1. rooms.rent_amount is the fee for a full semester
+ * 2. Allocations that start after the semester begins, or are expected to
+ *    check out before it ends, pay only for the days they overlap it
+ * 3. A student who already has a fee for the semester (generated or issued
+ *    by hand) is skipped; late-fee rows don't count
+ *
+ * The partial unique index uq_payments_semester_invoice backs up rule 3 so
+ * two runs started at the same time still can't bill a student twice.
+ */
+
+import { getClient, query } from '@/lib/db';
+import { BillingLine, BillingRun } from '@/lib/types';
+
+export interface BillingPeriod {
+    semester: string;
+    periodStart: string;
+    periodEnd: string;
+}
+
+// Proration happens in SQL so the preview and the real run use the same numbers.
+// $1 = period start, $2 = period end, $3 = semester label
+const BILLING_LINES_SQL = `
+    SELECT
+      line.*,
+      ROUND(line.rent_amount * line.billed_days / line.period_days, 2) as amount
+    FROM (
+      SELECT
+        a.id as allocation_id,
+        a.student_id,
+        s.first_name || ' ' || s.last_name as student_name,
+        s.registration_number,
+        h.name as hostel_name,
+        r.room_number,
+        r.rent_amount,
+        GREATEST(a.allocation_date, $1::DATE)::TEXT as billed_from,
+        LEAST(COALESCE(a.expected_checkout, $2::DATE), $2::DATE)::TEXT as billed_to,
+        LEAST(COALESCE(a.expected_checkout, $2::DATE), $2::DATE)
+          - GREATEST(a.allocation_date, $1::DATE) + 1 as billed_days,
+        $2::DATE - $1::DATE + 1 as period_days,
+        EXISTS (
+          SELECT 1 FROM payments p
+          WHERE p.student_id = a.student_id
+            AND p.semester = $3
+            AND p.late_fee_for IS NULL
+        ) as already_billed
+      FROM allocations a
+      INNER JOIN students s ON a.student_id = s.id
+      INNER JOIN rooms r ON a.room_id = r.id
+      INNER JOIN hostels h ON r.hostel_id = h.id
+      WHERE a.is_active = TRUE
+        AND a.allocation_date <= $2::DATE
+        AND (a.expected_checkout IS NULL OR a.expected_checkout >= $1::DATE)
+    ) line
+    ORDER BY line.hostel_name, line.room_number, line.student_name`;
+
+type RawBillingLine = Omit<BillingLine, 'rent_amount' | 'amount'> & { rent_amount: string; amount: string };
+
+function toBillingLine(row: RawBillingLine): BillingLine {
+    return {
+        ...row,
+        rent_amount: parseFloat(row.rent_amount),
+        amount: parseFloat(row.amount)
+    };
+}
+
+/**
+ * Work out what a billing run would charge without writing anything
+ */
+export async function previewBillingRun(period: BillingPeriod): Promise<BillingLine[]> {
+    const result = await query<RawBillingLine>(
+        BILLING_LINES_SQL,
+        [period.periodStart, period.periodEnd, period.semester]
+    );
+    return result.rows.map(toBillingLine);
+}
+
+/**
+ * Create the invoices for a semester in one transaction and record the run.
+ * Returns the run and the lines that were actually billed.
+ */
+export async function createBillingRun(
+    period: BillingPeriod & { dueDate: string; createdBy: string }
+): Promise<{ run: BillingRun; billed: BillingLine[]; skipped: number }> {
+    const client = await getClient();
+
+    try {
+        await client.query('BEGIN');
+
+        const runResult = await client.query<BillingRun>(
+            `INSERT INTO billing_runs (semester, period_start, period_end, due_date, created_by)
+             VALUES ($1, $2, $3, $4, $5)
+             RETURNING *`,
+            [period.semester, period.periodStart, period.periodEnd, period.dueDate, period.createdBy]
+        );
+        const run = runResult.rows[0];
+
+        const linesResult = await client.query<RawBillingLine>(
+            BILLING_LINES_SQL,
+            [period.periodStart, period.periodEnd, period.semester]
+        );
+        const lines = linesResult.rows.map(toBillingLine);
+
+        const billed: BillingLine[] = [];
+
+        for (const line of lines) {
+            if (line.already_billed || line.amount <= 0) continue;
+
+            const notes = line.billed_days < line.period_days
+                ? `Semester fee (prorated ${line.billed_days}/${line.period_days} days)`
+                : 'Semester fee';
+
+            const insert = await client.query(
+                `INSERT INTO payments (
+                  student_id, allocation_id, amount, due_date, payment_status, semester, notes, billing_run_id
+                ) VALUES ($1, $2, $3, $4, 'pending', $5, $6, $7)
+                ON CONFLICT (student_id, semester) WHERE billing_run_id IS NOT NULL DO NOTHING
+                RETURNING id`,
+                [line.student_id, line.allocation_id, line.amount, period.dueDate, period.semester, notes, run.id]
+            );
+
+            if (insert.rowCount) billed.push(line);
+        }
+
+        const totalAmount = billed.reduce((sum, line) => sum + line.amount, 0);
+
+        const updated = await client.query<BillingRun>(
+            `UPDATE billing_runs
+             SET invoices_created = $1, total_amount = $2
+             WHERE id = $3
+             RETURNING *`,
+            [billed.length, totalAmount.toFixed(2), run.id]
+        );
+
+        await client.query('COMMIT');
+
+        return { run: updated.rows[0], billed, skipped: lines.length - billed.length };
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+}
@@ -0,0 +1,408 @@
+/**
+ * Bed Bookings Module
+ * ====================
+ * Beds reserved for a future date range, the job that checks them in, and
+ * the per-night availability calendar of a hostel.
+ *
+ * A stay is the half-open range [starts_on, ends_on): the student arrives on
+ * starts_on and the bed is free again on ends_on, so back-to-back bookings do
+ * not overlap. Current residents occupy [allocation_date, expected_checkout),
+ * or indefinitely when no checkout date is set.
+ *
+ * DBMS CONCEPTS:
+ * - DATERANGE columns compared with && (overlaps) and @> (contains)
+ * - The exclusion constraints on bed_bookings reject a second booking of the
+ *   same bed or student for any shared night, even under concurrent inserts
+ *   (SQLSTATE 23P01); trg_check_bed_booking rejects clashes with residents
+ *   under the same room lock as allocations
+ * - generate_series() builds the calendar one row per night
+ */
+
+import { query } from '@/lib/db';
+import { BedBooking, BookingJobResult, HostelAvailability } from '@/lib/types';
+
+// Longest range the availability calendar will lay out night by night
+export const MAX_CALENDAR_DAYS = 366;
+
+export interface BookingRequest {
+    student_id: number;
+    hostel_id?: number | null;
+    room_id?: number | null;
+    bed_id?: number | null;
+    room_type?: string | null;
+    starts_on: string;
+    ends_on: string;
+    notes?: string | null;
+    created_by: string;
+}
+
+const BOOKING_COLUMNS = `
+    bb.id,
+    bb.student_id,
+    bb.room_id,
+    bb.bed_id,
+    lower(bb.stay)::TEXT as starts_on,
+    upper(bb.stay)::TEXT as ends_on,
+    bb.status,
+    bb.allocation_id,
+    bb.notes,
+    bb.created_by,
+    bb.created_at,
+    bb.updated_at,
+    s.first_name || ' ' || s.last_name as student_name,
+    s.registration_number,
+    r.room_number,
+    bd.bed_label,
+    h.id as hostel_id,
+    h.name as hostel_name`;
+
+// Every night a bed cannot be booked: residents (an overstayer holds the bed
+// at least until today), live bookings and maintenance windows. $1 is the
+// hostel.
+const UNAVAILABLE_SPANS_SQL = `
+    SELECT a.bed_id, daterange(
+      a.allocation_date,
+      CASE WHEN a.expected_checkout IS NULL THEN NULL
+           ELSE GREATEST(a.expected_checkout, CURRENT_DATE + 1) END
+    ) as span
+    FROM allocations a
+    INNER JOIN rooms r ON a.room_id = r.id
+    WHERE a.is_active = TRUE AND a.bed_id IS NOT NULL AND r.hostel_id = $1
+
+    UNION ALL
+
+    SELECT bb.bed_id, bb.stay
+    FROM bed_bookings bb
+    INNER JOIN rooms r ON bb.room_id = r.id
+    WHERE bb.status = 'booked' AND r.hostel_id = $1
+
+    UNION ALL
+
+    SELECT bd.id, daterange(rb.starts_on, rb.ends_on, '[]')
+    FROM room_blackouts rb
+    INNER JOIN rooms r ON rb.room_id = r.id
+    INNER JOIN beds bd ON bd.room_id = rb.room_id
+    WHERE rb.status IN ('scheduled', 'active') AND r.hostel_id = $1`;
+
+// Beds in service, in rooms in service, of hostel $1
+const HOSTEL_BEDS_SQL = `
+    SELECT bd.id as bed_id, r.id as room_id, r.room_number, r.room_type
+    FROM beds bd
+    INNER JOIN rooms r ON bd.room_id = r.id
+    WHERE r.hostel_id = $1 AND r.is_available = TRUE AND bd.is_available = TRUE`;
+
+/**
+ * Bookings, soonest arrival first. `during` keeps those whose stay shares a
+ * night with the inclusive date range [from, to].
+ */
+export async function listBookings(
+    filters: {
+        id?: number;
+        student_id?: number | null;
+        hostel_id?: number;
+        room_id?: number;
+        status?: string;
+        during?: { from: string; to: string };
+    } = {}
+): Promise<BedBooking[]> {
+    const conditions: string[] = [];
+    const params: (string | number | null)[] = [];
+    let paramIndex = 1;
+
+    if (filters.id !== undefined) {
+        conditions.push(`bb.id = $${paramIndex++}`);
+        params.push(filters.id);
+    }
+    if (filters.student_id !== undefined) {
+        conditions.push(`bb.student_id = $${paramIndex++}`);
+        params.push(filters.student_id);
+    }
+    if (filters.hostel_id !== undefined) {
+        conditions.push(`h.id = $${paramIndex++}`);
+        params.push(filters.hostel_id);
+    }
+    if (filters.room_id !== undefined) {
+        conditions.push(`bb.room_id = $${paramIndex++}`);
+        params.push(filters.room_id);
+    }
+    if (filters.status) {
+        conditions.push(`bb.status = $${paramIndex++}`);
+        params.push(filters.status);
+    }
+    if (filters.during) {
+        conditions.push(`bb.stay && daterange($${paramIndex++}::DATE, $${paramIndex++}::DATE, '[]')`);
+        params.push(filters.during.from, filters.during.to);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const result = await query<BedBooking>(
+        `SELECT ${BOOKING_COLUMNS}
+         FROM bed_bookings bb
+         INNER JOIN students s ON bb.student_id = s.id
+         INNER JOIN rooms r ON bb.room_id = r.id
+         INNER JOIN hostels h ON r.hostel_id = h.id
+         INNER JOIN beds bd ON bb.bed_id = bd.id
+         ${whereClause}
+         ORDER BY
+           CASE bb.status WHEN 'booked' THEN 1 ELSE 2 END,
+           lower(bb.stay), bb.id`,
+        params
+    );
+
+    return result.rows;
+}
+
+/**
+ * Book a bed for [starts_on, ends_on). A room overrides the hostel; without
+ * a bed the first one free for every night is picked.
+ */
+export async function createBooking(
+    request: BookingRequest
+): Promise<BedBooking | { error: string; status: number }> {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(request.starts_on) || !/^\d{4}-\d{2}-\d{2}$/.test(request.ends_on)) {
+        return { error: 'Dates must be in YYYY-MM-DD format', status: 400 };
+    }
+
+    if (request.ends_on <= request.starts_on) {
+        return { error: 'The departure date must be after the arrival date', status: 400 };
+    }
+
+    const future = await query<{ future: boolean }>('SELECT $1::DATE > CURRENT_DATE as future', [request.starts_on]);
+
+    if (!future.rows[0].future) {
+        return { error: 'Bookings must start after today; allocate a room for arrivals today', status: 400 };
+    }
+
+    const studentResult = await query<{ gender: string; room_number: string | null; expected_checkout: string | null }>(
+        `SELECT s.gender, r.room_number, a.expected_checkout::TEXT as expected_checkout
+         FROM students s
+         LEFT JOIN allocations a ON a.student_id = s.id AND a.is_active = TRUE
+         LEFT JOIN rooms r ON a.room_id = r.id
+         WHERE s.id = $1 AND s.is_active = TRUE`,
+        [request.student_id]
+    );
+
+    if (studentResult.rows.length === 0) {
+        return { error: 'Student not found or is not active', status: 400 };
+    }
+
+    const student = studentResult.rows[0];
+
+    // The check-in job can only start the booking once the current stay is over
+    if (student.room_number && (!student.expected_checkout || student.expected_checkout > request.starts_on)) {
+        return {
+            error: `Student lives in room ${student.room_number} until ${student.expected_checkout || 'further notice'}; ` +
+                'set an expected checkout on or before the arrival date first',
+            status: 400
+        };
+    }
+
+    let roomId = request.room_id || null;
+    let hostelId = request.bed_id || roomId ? null : request.hostel_id || null;
+
+    if (request.bed_id) {
+        const bed = await query<{ room_id: number }>('SELECT room_id FROM beds WHERE id = $1', [request.bed_id]);
+        if (bed.rows.length === 0) {
+            return { error: 'Bed not found', status: 404 };
+        }
+        if (request.room_id && bed.rows[0].room_id !== request.room_id) {
+            return { error: 'Bed not found in this room', status: 400 };
+        }
+        roomId = bed.rows[0].room_id;
+    }
+
+    if (roomId) {
+        const room = await query<{ hostel_id: number }>('SELECT hostel_id FROM rooms WHERE id = $1', [roomId]);
+        if (room.rows.length === 0) {
+            return { error: 'Room not found', status: 404 };
+        }
+        hostelId = room.rows[0].hostel_id;
+    }
+
+    if (!hostelId) {
+        return { error: 'Choose a hostel, a room or a bed to book', status: 400 };
+    }
+
+    const hostel = await query<{ name: string; gender_allowed: string }>(
+        'SELECT name, gender_allowed FROM hostels WHERE id = $1',
+        [hostelId]
+    );
+    if (hostel.rows.length === 0) {
+        return { error: 'Hostel not found', status: 404 };
+    }
+    if (hostel.rows[0].gender_allowed !== 'other' && hostel.rows[0].gender_allowed !== student.gender) {
+        return { error: `${hostel.rows[0].name} is for ${hostel.rows[0].gender_allowed} students only`, status: 400 };
+    }
+
+    const params: (string | number | null)[] = [hostelId, request.starts_on, request.ends_on];
+    let bedCondition = '';
+
+    if (request.bed_id) {
+        params.push(request.bed_id);
+        bedCondition = `AND hb.bed_id = $${params.length}`;
+    } else if (roomId) {
+        params.push(roomId);
+        bedCondition = `AND hb.room_id = $${params.length}`;
+    } else if (request.room_type) {
+        params.push(request.room_type);
+        bedCondition = `AND hb.room_type::TEXT = $${params.length}`;
+    }
+
+    const freeBed = await query<{ bed_id: number; room_id: number }>(
+        `WITH hostel_beds AS (${HOSTEL_BEDS_SQL}),
+         unavailable AS (${UNAVAILABLE_SPANS_SQL})
+         SELECT hb.bed_id, hb.room_id
+         FROM hostel_beds hb
+         INNER JOIN beds bd ON hb.bed_id = bd.id
+         WHERE NOT EXISTS (
+             SELECT 1 FROM unavailable u
+             WHERE u.bed_id = hb.bed_id AND u.span && daterange($2::DATE, $3::DATE)
+           )
+           ${bedCondition}
+         ORDER BY hb.room_number, bd.bed_label
+         LIMIT 1`,
+        params
+    );
+
+    if (freeBed.rows.length === 0) {
+        return {
+            error: request.bed_id
+                ? 'That bed is not free for every night of the stay'
+                : 'No bed is free for every night of the stay',
+            status: 409
+        };
+    }
+
+    let inserted;
+    try {
+        inserted = await query<{ id: number }>(
+            `INSERT INTO bed_bookings (student_id, room_id, bed_id, stay, notes, created_by)
+             VALUES ($1, $2, $3, daterange($4::DATE, $5::DATE), $6, $7)
+             RETURNING id`,
+            [
+                request.student_id,
+                freeBed.rows[0].room_id,
+                freeBed.rows[0].bed_id,
+                request.starts_on,
+                request.ends_on,
+                request.notes || null,
+                request.created_by
+            ]
+        );
+    } catch (error) {
+        // Lost a race for the bed, or the student already has a booking then
+        if ((error as { code?: string }).code === '23P01') {
+            return { error: 'The bed or the student is already booked for some of those nights', status: 409 };
+        }
+        // Lost a race to a new resident (trg_check_bed_booking)
+        if ((error as { code?: string }).code === 'P0001') {
+            return { error: (error as Error).message, status: 409 };
+        }
+        throw error;
+    }
+
+    const [booking] = await listBookings({ id: inserted.rows[0].id });
+    return booking;
+}
+
+/**
+ * Release a booking that has not been checked in yet
+ */
+export async function cancelBooking(id: number): Promise<BedBooking | { error: string; status: number }> {
+    const result = await query(
+        "UPDATE bed_bookings SET status = 'cancelled' WHERE id = $1 AND status = 'booked' RETURNING id",
+        [id]
+    );
+
+    if (result.rows.length === 0) {
+        const [existing] = await listBookings({ id });
+        return existing
+            ? { error: `Booking is already ${existing.status.replace('_', ' ')}`, status: 409 }
+            : { error: 'Booking not found', status: 404 };
+    }
+
+    const [booking] = await listBookings({ id });
+    return booking;
+}
+
+/**
+ * Run the check-in job (start_bed_bookings() in triggers.sql)
+ */
+export async function startBedBookings(asOf: string | null = null): Promise<BookingJobResult> {
+    const result = await query<BookingJobResult>(
+        `SELECT
+          COALESCE($1::DATE, CURRENT_DATE)::TEXT as as_of,
+          bookings_started,
+          bookings_blocked,
+          bookings_expired
+         FROM start_bed_bookings(COALESCE($1::DATE, CURRENT_DATE))`,
+        [asOf]
+    );
+
+    return result.rows[0];
+}
+
+/**
+ * Free beds in a hostel for each night of [from, to), per room and overall.
+ * Returns null when the hostel does not exist.
+ */
+export async function getHostelAvailability(
+    hostelId: number,
+    from: string,
+    to: string
+): Promise<HostelAvailability | null> {
+    const hostel = await query<{ name: string }>('SELECT name FROM hostels WHERE id = $1', [hostelId]);
+
+    if (hostel.rows.length === 0) return null;
+
+    const [days, rooms] = await Promise.all([
+        query<{ date: string; free_beds: number }>(
+            `WITH hostel_beds AS (${HOSTEL_BEDS_SQL}),
+             unavailable AS (${UNAVAILABLE_SPANS_SQL})
+             SELECT
+               night::DATE::TEXT as date,
+               COUNT(hb.bed_id) FILTER (
+                 WHERE NOT EXISTS (
+                   SELECT 1 FROM unavailable u
+                   WHERE u.bed_id = hb.bed_id AND u.span @> night::DATE
+                 )
+               )::INTEGER as free_beds
+             FROM generate_series($2::DATE, $3::DATE - 1, INTERVAL '1 day') night
+             LEFT JOIN hostel_beds hb ON TRUE
+             GROUP BY night
+             ORDER BY night`,
+            [hostelId, from, to]
+        ),
+        query<HostelAvailability['rooms'][number]>(
+            `WITH hostel_beds AS (${HOSTEL_BEDS_SQL}),
+             unavailable AS (${UNAVAILABLE_SPANS_SQL})
+             SELECT
+               hb.room_id,
+               hb.room_number,
+               hb.room_type::TEXT as room_type,
+               COUNT(*)::INTEGER as total_beds,
+               COUNT(*) FILTER (
+                 WHERE NOT EXISTS (
+                   SELECT 1 FROM unavailable u
+                   WHERE u.bed_id = hb.bed_id AND u.span && daterange($2::DATE, $3::DATE)
+                 )
+               )::INTEGER as free_whole_range
+             FROM hostel_beds hb
+             GROUP BY hb.room_id, hb.room_number, hb.room_type
+             ORDER BY hb.room_number`,
+            [hostelId, from, to]
+        )
+    ]);
+
+    return {
+        hostel_id: hostelId,
+        hostel_name: hostel.rows[0].name,
+        from,
+        to,
+        total_beds: rooms.rows.reduce((sum, room) => sum + room.total_beds, 0),
+        free_whole_range: rooms.rows.reduce((sum, room) => sum + room.free_whole_range, 0),
+        days: days.rows,
+        rooms: rooms.rows
+    };
+}
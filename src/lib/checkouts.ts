@@ -0,0 +1,157 @@
+/**
+ * Expected Checkouts Module
+ * ==========================
+ * Stays approaching or past allocations.expected_checkout, and the job that
+ * reminds, flags and (optionally) checks them out.
+ *
+ * JOB RULES (process_expected_checkouts() in triggers.sql):
+ * 1. A reminder is logged REMINDER_DAYS before the expected checkout
+ * 2. An overstay is logged the day after it
+ * 3. With auto-checkout on, stays more than GRACE_DAYS past it are ended the
+ *    way DELETE /api/allocations/[id] ends them, unless the check-out
+ *    inspection is still missing (logged as checkout_blocked)
+ *
+ * Each event is logged once per stay and expected date, so the job can run
+ * as often as needed. Beds freed here are offered to the waitlist.
+ */
+
+import { query } from '@/lib/db';
+import { CheckoutEvent, CheckoutJobResult, UpcomingCheckout } from '@/lib/types';
+import { offerFreedBeds } from '@/lib/waitlist';
+
+export const REMINDER_DAYS = 7;
+export const GRACE_DAYS = 3;
+
+export interface CheckoutJobOptions {
+    as_of?: string | null;
+    reminder_days?: number;
+    grace_days?: number;
+    auto_checkout?: boolean;
+}
+
+/**
+ * Active stays due to end within `days` days, overstays first
+ */
+export async function listUpcomingCheckouts(
+    filters: { student_id?: number | null; days?: number } = {}
+): Promise<UpcomingCheckout[]> {
+    const params: (string | number | null)[] = [filters.days ?? REMINDER_DAYS];
+    let studentCondition = '';
+
+    if (filters.student_id !== undefined) {
+        params.push(filters.student_id);
+        studentCondition = `AND a.student_id = $${params.length}`;
+    }
+
+    const result = await query<UpcomingCheckout>(
+        `SELECT
+          a.id as allocation_id,
+          s.id as student_id,
+          s.first_name || ' ' || s.last_name as student_name,
+          s.registration_number,
+          r.id as room_id,
+          r.room_number,
+          bd.bed_label,
+          h.name as hostel_name,
+          a.expected_checkout::TEXT as expected_checkout,
+          (a.expected_checkout - CURRENT_DATE)::INTEGER as days_left,
+          EXISTS (
+            SELECT 1 FROM room_inspections i
+            WHERE i.allocation_id = a.id AND i.inspection_type = 'check_in'
+          ) AND NOT EXISTS (
+            SELECT 1 FROM room_inspections i
+            WHERE i.allocation_id = a.id AND i.inspection_type = 'check_out'
+          ) as needs_inspection
+         FROM allocations a
+         INNER JOIN students s ON a.student_id = s.id
+         INNER JOIN rooms r ON a.room_id = r.id
+         INNER JOIN hostels h ON r.hostel_id = h.id
+         LEFT JOIN beds bd ON a.bed_id = bd.id
+         WHERE a.is_active = TRUE
+           AND a.expected_checkout <= CURRENT_DATE + $1::INTEGER
+           ${studentCondition}
+         ORDER BY a.expected_checkout, s.first_name, s.last_name`,
+        params
+    );
+
+    return result.rows;
+}
+
+/**
+ * The job's log, newest first
+ */
+export async function listCheckoutEvents(
+    filters: { student_id?: number | null; limit?: number } = {}
+): Promise<CheckoutEvent[]> {
+    const params: (string | number | null)[] = [filters.limit ?? 100];
+    let studentCondition = '';
+
+    if (filters.student_id !== undefined) {
+        params.push(filters.student_id);
+        studentCondition = `WHERE a.student_id = $${params.length}`;
+    }
+
+    const result = await query<CheckoutEvent>(
+        `SELECT
+          e.id,
+          e.allocation_id,
+          e.event_type,
+          e.expected_checkout::TEXT as expected_checkout,
+          e.event_date::TEXT as event_date,
+          e.details,
+          e.created_at,
+          s.id as student_id,
+          s.first_name || ' ' || s.last_name as student_name,
+          s.registration_number,
+          r.room_number,
+          h.name as hostel_name
+         FROM checkout_events e
+         INNER JOIN allocations a ON e.allocation_id = a.id
+         INNER JOIN students s ON a.student_id = s.id
+         INNER JOIN rooms r ON a.room_id = r.id
+         INNER JOIN hostels h ON r.hostel_id = h.id
+         ${studentCondition}
+         ORDER BY e.created_at DESC, e.id DESC
+         LIMIT $1`,
+        params
+    );
+
+    return result.rows;
+}
+
+/**
+ * Run the expected-checkout job, then offer any freed beds to the waitlist
+ */
+export async function processExpectedCheckouts(options: CheckoutJobOptions = {}): Promise<CheckoutJobResult> {
+    const result = await query<Omit<CheckoutJobResult, 'waitlist_offers'> & { freed_room_ids: number[] }>(
+        `SELECT
+          COALESCE($1::DATE, CURRENT_DATE)::TEXT as as_of,
+          reminders_logged,
+          overstays_logged,
+          checkouts_done,
+          checkouts_blocked,
+          freed_room_ids
+         FROM process_expected_checkouts(COALESCE($1::DATE, CURRENT_DATE), $2, $3, $4)`,
+        [
+            options.as_of || null,
+            options.reminder_days ?? REMINDER_DAYS,
+            options.grace_days ?? GRACE_DAYS,
+            options.auto_checkout ?? false
+        ]
+    );
+
+    const { freed_room_ids: freedRoomIds, ...summary } = result.rows[0];
+    let waitlistOffers = 0;
+
+    // Best-effort, as in the checkout endpoint: the checkouts stand either way
+    for (const roomId of freedRoomIds) {
+        try {
+            const offers = await offerFreedBeds(roomId);
+            waitlistOffers += offers.length;
+        } catch (offerError) {
+            console.error('Waitlist offer failed:', offerError);
+        }
+    }
+
+    return { ...summary, waitlist_offers: waitlistOffers };
+}
@@ -0,0 +1,199 @@
+/**
+ * Complaint Routing Module
+ * =========================
+ * Chooses a maintenance staff member for open complaints and assigns them.
+ *
+ * SELECTION RULES:
+ * 1. Staff must be available and specialise in the complaint's category
+ * 2. Staff assigned to the room's hostel win over floating staff (no hostel);
+ *    staff tied to a different hostel are never chosen
+ * 3. Remaining ties go to whoever has the fewest active complaints
+ *    according to the staff_workload view
+ *
+ * Assignments move the complaint to 'assigned', so the complaint status
+ * trigger writes the audit log entry (changed_by = 'auto-routing').
+ */
+
+import { query, transaction } from '@/lib/db';
+
+export interface RoutingDecision {
+    complaint_id: number;
+    complaint_title: string;
+    category: string;
+    hostel_id: number;
+    hostel_name: string;
+    staff_id: number | null;
+    staff_name: string | null;
+    staff_active_complaints: number | null;
+    reason: string;
+    assigned?: boolean;
+}
+
+interface RoutableComplaint {
+    id: number;
+    title: string;
+    category: string;
+    hostel_id: number;
+    hostel_name: string;
+}
+
+interface StaffCandidate {
+    staff_id: number;
+    staff_name: string;
+    specialization: string;
+    hostel_id: number | null;
+    active_complaints: number;
+}
+
+async function loadCandidates(): Promise<StaffCandidate[]> {
+    const result = await query<StaffCandidate & { active_complaints: string }>(
+        `SELECT
+          ms.id as staff_id,
+          ms.name as staff_name,
+          ms.specialization,
+          ms.hostel_id,
+          sw.active_complaints
+         FROM maintenance_staff ms
+         INNER JOIN staff_workload sw ON sw.staff_id = ms.id
+         WHERE ms.is_available = TRUE
+           AND ms.specialization IS NOT NULL`
+    );
+
+    return result.rows.map(row => ({
+        ...row,
+        active_complaints: parseInt(row.active_complaints)
+    }));
+}
+
+function chooseStaff(complaint: RoutableComplaint, candidates: StaffCandidate[]): RoutingDecision {
+    const decision: RoutingDecision = {
+        complaint_id: complaint.id,
+        complaint_title: complaint.title,
+        category: complaint.category,
+        hostel_id: complaint.hostel_id,
+        hostel_name: complaint.hostel_name,
+        staff_id: null,
+        staff_name: null,
+        staff_active_complaints: null,
+        reason: ''
+    };
+
+    const eligible = candidates
+        .filter(c => c.specialization === complaint.category)
+        .filter(c => c.hostel_id === complaint.hostel_id || c.hostel_id === null)
+        .sort((a, b) => {
+            const aLocal = a.hostel_id === complaint.hostel_id ? 0 : 1;
+            const bLocal = b.hostel_id === complaint.hostel_id ? 0 : 1;
+            return aLocal - bLocal || a.active_complaints - b.active_complaints || a.staff_id - b.staff_id;
+        });
+
+    if (eligible.length === 0) {
+        decision.reason = `No available ${complaint.category.replace('_', ' ')} staff for ${complaint.hostel_name}`;
+        return decision;
+    }
+
+    const chosen = eligible[0];
+    decision.staff_id = chosen.staff_id;
+    decision.staff_name = chosen.staff_name;
+    decision.staff_active_complaints = chosen.active_complaints;
+    decision.reason = chosen.hostel_id === complaint.hostel_id
+        ? `Least loaded ${complaint.category.replace('_', ' ')} staff in ${complaint.hostel_name}`
+        : `No ${complaint.hostel_name} staff available; least loaded floating staff`;
+
+    // Count this assignment so the next complaint in the same batch is balanced against it
+    chosen.active_complaints++;
+
+    return decision;
+}
+
+/**
+ * Work out who each open, unassigned complaint would go to without changing anything
+ *
+ * @param options.complaintId - Only plan this complaint
+ * @param options.hostelId - Only plan complaints in this hostel
+ * @param options.enabledOnly - Skip hostels where auto-assignment is switched off
+ */
+export async function planRouting(options: {
+    complaintId?: number;
+    hostelId?: number;
+    enabledOnly?: boolean;
+} = {}): Promise<RoutingDecision[]> {
+    const conditions = [`c.status = 'open'`, `c.assigned_staff_id IS NULL`];
+    const params: number[] = [];
+    let paramIndex = 1;
+
+    if (options.complaintId) {
+        conditions.push(`c.id = $${paramIndex++}`);
+        params.push(options.complaintId);
+    }
+
+    if (options.hostelId) {
+        conditions.push(`h.id = $${paramIndex++}`);
+        params.push(options.hostelId);
+    }
+
+    if (options.enabledOnly) {
+        conditions.push(`h.auto_assign_complaints = TRUE`);
+    }
+
+    const complaints = await query<RoutableComplaint>(
+        `SELECT c.id, c.title, c.category, h.id as hostel_id, h.name as hostel_name
+         FROM complaints c
+         INNER JOIN rooms r ON c.room_id = r.id
+         INNER JOIN hostels h ON r.hostel_id = h.id
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY c.priority ASC, c.created_at ASC`,
+        params
+    );
+
+    if (complaints.rows.length === 0) return [];
+
+    const candidates = await loadCandidates();
+    return complaints.rows.map(complaint => chooseStaff(complaint, candidates));
+}
+
+/**
+ * Apply planned decisions. A complaint that was picked up by someone else
+ * in the meantime is left alone and reported as not assigned.
+ */
+export async function applyRouting(decisions: RoutingDecision[]): Promise<RoutingDecision[]> {
+    const applied: RoutingDecision[] = [];
+
+    for (const decision of decisions) {
+        if (!decision.staff_id) {
+            applied.push({ ...decision, assigned: false });
+            continue;
+        }
+
+        const [, update] = await transaction([
+            // Transaction-local setting read by the complaint log trigger
+            { text: `SELECT set_config('app.current_user', 'auto-routing', TRUE)` },
+            {
+                text: `UPDATE complaints
+                       SET assigned_staff_id = $1, status = 'assigned'
+                       WHERE id = $2 AND status = 'open' AND assigned_staff_id IS NULL
+                       RETURNING id`,
+                params: [decision.staff_id, decision.complaint_id]
+            }
+        ]);
+
+        applied.push(update.rowCount
+            ? { ...decision, assigned: true }
+            : { ...decision, assigned: false, reason: 'Complaint was already assigned' }
+        );
+    }
+
+    return applied;
+}
+
+/**
+ * Route a newly created complaint if its hostel has auto-assignment enabled.
+ * Returns null when the hostel has routing switched off.
+ */
+export async function autoAssignComplaint(complaintId: number): Promise<RoutingDecision | null> {
+    const [decision] = await planRouting({ complaintId, enabledOnly: true });
+    if (!decision) return null;
+
+    const [result] = await applyRouting([decision]);
+    return result;
+}
@@ -0,0 +1,67 @@
+/**
+ * CSV Helpers
+ * ============
+ * RFC 4180 reading and writing for imports and downloadable reports.
+ * Plain string functions with no Node APIs, so pages can use them too.
+ */
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with commas,
+ * doubled quotes and line breaks, CRLF endings and a leading BOM.
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+/**
+ * Join rows into CSV text, quoting only the cells that need it
+ */
+export function toCsv(rows: (string | number | boolean | null | undefined)[][]): string {
+    return rows
+        .map(row => row
+            .map(value => {
+                const text = value === null || value === undefined ? '' : String(value);
+                return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+            })
+            .join(','))
+        .join('\r\n') + '\r\n';
+}
@@ -0,0 +1,152 @@
+/**
+ * List Export Module
+ * ===================
+ * Streams the full result of a list query as CSV or XLSX.
+ *
+ * DBMS CONCEPTS:
+ * - A server-side CURSOR (DECLARE ... FETCH) walks the result in batches,
+ *   so an export of every row never loads the whole table into memory
+ * - Cursors only live inside a transaction; the transaction is READ ONLY
+ *   and is rolled back if the download is abandoned
+ *
+ * List routes pass the same filtered, ordered SELECT they page through,
+ * without LIMIT/OFFSET, when the request carries ?format=csv|xlsx.
+ */
+
+import { getClient } from '@/lib/db';
+import { toCsv } from '@/lib/csv';
+import { writeXlsx, XlsxCell } from '@/lib/xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportColumn {
+    key: string;
+    header: string;
+    // Written as a number in XLSX (NUMERIC columns arrive from pg as strings)
+    numeric?: boolean;
+}
+
+const BATCH_SIZE = 500;
+
+/**
+ * The requested export format, or null for a normal JSON page
+ */
+export function getExportFormat(searchParams: URLSearchParams): ExportFormat | null {
+    const format = searchParams.get('format');
+    return format === 'csv' || format === 'xlsx' ? format : null;
+}
+
+async function* fetchBatches(sql: string, params: (string | number | boolean)[]): AsyncGenerator<Record<string, unknown>[]> {
+    const client = await getClient();
+    let inTransaction = false;
+
+    try {
+        await client.query('BEGIN READ ONLY');
+        inTransaction = true;
+        await client.query(`DECLARE export_rows NO SCROLL CURSOR FOR ${sql}`, params);
+
+        for (;;) {
+            const batch = await client.query(`FETCH ${BATCH_SIZE} FROM export_rows`);
+            if (batch.rows.length === 0) break;
+            yield batch.rows;
+        }
+
+        await client.query('COMMIT');
+        inTransaction = false;
+    } finally {
+        // Also reached when the client stops reading mid-download
+        try {
+            if (inTransaction) await client.query('ROLLBACK');
+        } finally {
+            client.release();
+        }
+    }
+}
+
+// DATE columns come back as local midnight; timestamps keep their time
+function cellValue(value: unknown, numeric: boolean): XlsxCell {
+    if (value === null || value === undefined) return null;
+    if (value instanceof Date) {
+        const pad = (n: number) => String(n).padStart(2, '0');
+        const day = `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+        return value.getHours() || value.getMinutes() || value.getSeconds()
+            ? `${day} ${pad(value.getHours())}:${pad(value.getMinutes())}`
+            : day;
+    }
+    if (typeof value === 'boolean') return value;
+    if (numeric && value !== '' && !isNaN(Number(value))) return Number(value);
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
+
+async function* toCells(batches: AsyncIterable<Record<string, unknown>[]>, columns: ExportColumn[]) {
+    for await (const rows of batches) {
+        yield rows.map(row => columns.map(column => cellValue(row[column.key], !!column.numeric)));
+    }
+}
+
+async function* csvChunks(columns: ExportColumn[], batches: AsyncIterable<XlsxCell[][]>): AsyncGenerator<Buffer> {
+    // BOM so Excel opens the file as UTF-8
+    yield Buffer.from('\uFEFF' + toCsv([columns.map(column => column.header)]), 'utf8');
+    for await (const rows of batches) {
+        yield Buffer.from(toCsv(rows), 'utf8');
+    }
+}
+
+/**
+ * Stream `sql` (no LIMIT) as a download named "<name>-<date>.<format>"
+ */
+export async function exportResponse(
+    format: ExportFormat,
+    name: string,
+    columns: ExportColumn[],
+    sql: string,
+    params: (string | number | boolean)[]
+): Promise<Response> {
+    // Run the query up front: a bad query fails here, before any bytes are sent
+    const batches = fetchBatches(sql, params);
+    const first = await batches.next();
+
+    async function* allBatches() {
+        if (first.done) return;
+        yield first.value;
+        yield* batches;
+    }
+
+    const cells = toCells(allBatches(), columns);
+    const chunks = format === 'csv'
+        ? csvChunks(columns, cells)
+        : writeXlsx(name, columns.map(column => column.header), cells);
+    const iterator = chunks[Symbol.asyncIterator]();
+
+    const stream = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                const next = await iterator.next();
+                if (next.done) controller.close();
+                else controller.enqueue(new Uint8Array(next.value));
+            } catch (error) {
+                console.error('Export stream error:', error);
+                await batches.return(undefined);
+                controller.error(error);
+            }
+        },
+        // The download was abandoned: close the cursor and free the connection
+        async cancel() {
+            await iterator.return(undefined);
+            await batches.return(undefined);
+        }
+    });
+
+    const fileName = `${name}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': format === 'csv'
+                ? 'text/csv; charset=utf-8'
+                : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+            'Content-Disposition': `attachment; filename="${fileName}"`,
+            'Cache-Control': 'no-store'
+        }
+    });
+}
@@ -0,0 +1,373 @@
+/**
+ * Room Inspections Module
+ * ========================
+ * Check-in and check-out inspections of a student's room, the damages found
+ * by comparing the two, and billing those damages as a payment.
+ *
+ * DAMAGE RULES:
+ * 1. Each check-out item is compared with the check-in item of the same name;
+ *    without a check-in record the item is assumed handed over in good
+ *    condition
+ * 2. An item is damaged when it comes back 'damaged' or 'missing' and was in
+ *    better shape at check-in ('good' -> 'fair' is normal wear)
+ * 3. Fewer items than were handed over counts as missing, whatever the
+ *    condition of the rest
+ * 4. Check-in items left off the check-out list count as missing
+ *
+ * The warden signs off by recording the inspection; the student countersigns
+ * through the sign endpoint. Damages are billed or waived by management.
+ */
+
+import { getClient, query } from '@/lib/db';
+import { InspectionDamage, InspectionItem, InspectionItemCondition, Payment, RoomInspection } from '@/lib/types';
+
+export const INSPECTION_CATEGORIES = ['furniture', 'fixtures', 'keys'];
+export const ITEM_CONDITIONS: InspectionItemCondition[] = ['good', 'fair', 'damaged', 'missing'];
+
+const CONDITION_RANK: Record<InspectionItemCondition, number> = {
+    good: 0,
+    fair: 1,
+    damaged: 2,
+    missing: 3
+};
+
+// Days a damage charge is given before it falls due
+const DAMAGE_DUE_DAYS = 14;
+
+interface InspectionInput {
+    inspection_type: RoomInspection['inspection_type'];
+    condition_notes?: string | null;
+    items: InspectionItem[];
+}
+
+type DamageFinding = Omit<InspectionDamage, 'id' | 'inspection_id' | 'charge_amount' | 'payment_id' | 'waived'>;
+
+/**
+ * Starting checklist for a room: one set of personal furniture per student,
+ * the room's fixtures and the key
+ */
+export function defaultChecklist(room: { has_ac: boolean; has_attached_bathroom: boolean }): InspectionItem[] {
+    const item = (category: InspectionItem['category'], item_name: string): InspectionItem => ({
+        category,
+        item_name,
+        quantity: 1,
+        item_condition: 'good',
+        notes: null
+    });
+
+    return [
+        item('furniture', 'Bed frame'),
+        item('furniture', 'Mattress'),
+        item('furniture', 'Study table'),
+        item('furniture', 'Chair'),
+        item('furniture', 'Wardrobe'),
+        item('fixtures', 'Ceiling fan'),
+        item('fixtures', 'Lights'),
+        item('fixtures', 'Windows'),
+        item('fixtures', 'Door and lock'),
+        ...(room.has_ac ? [item('fixtures', 'Air conditioner')] : []),
+        ...(room.has_attached_bathroom ? [item('fixtures', 'Bathroom fittings')] : []),
+        item('keys', 'Room key')
+    ];
+}
+
+/**
+ * First problem with a submitted checklist, or null when it is usable
+ */
+export function validateItems(items: unknown): string | null {
+    if (!Array.isArray(items) || items.length === 0) return 'items must list at least one checklist item';
+
+    const names = new Set<string>();
+    for (const item of items as InspectionItem[]) {
+        const name = typeof item?.item_name === 'string' ? item.item_name.trim() : '';
+        if (!name || name.length > 100) return 'Every item needs a name of at most 100 characters';
+        if (names.has(name.toLowerCase())) return `${name} is listed twice`;
+        names.add(name.toLowerCase());
+
+        if (!INSPECTION_CATEGORIES.includes(item.category)) {
+            return `${name}: category must be one of ${INSPECTION_CATEGORIES.join(', ')}`;
+        }
+        if (!ITEM_CONDITIONS.includes(item.item_condition)) {
+            return `${name}: condition must be one of ${ITEM_CONDITIONS.join(', ')}`;
+        }
+        if (!Number.isInteger(item.quantity ?? 1) || (item.quantity ?? 1) < 0) {
+            return `${name}: quantity must be a whole number`;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Compare a check-out checklist with the check-in one. Pure.
+ */
+export function findDamages(checkIn: InspectionItem[] | null, checkOut: InspectionItem[]): DamageFinding[] {
+    const before = new Map((checkIn || []).map(item => [item.item_name.toLowerCase(), item]));
+    const damages: DamageFinding[] = [];
+
+    for (const item of checkOut) {
+        const original = before.get(item.item_name.toLowerCase());
+        before.delete(item.item_name.toLowerCase());
+
+        const fromCondition = original?.item_condition ?? 'good';
+        // Nothing was handed over for an item already missing at check-in
+        const handedOver = fromCondition === 'missing' ? 0 : original?.quantity ?? item.quantity;
+        const missing = item.item_condition === 'missing'
+            ? handedOver
+            : Math.max(0, handedOver - item.quantity);
+        const worse = CONDITION_RANK[item.item_condition] >= CONDITION_RANK.damaged &&
+            CONDITION_RANK[item.item_condition] > CONDITION_RANK[fromCondition];
+
+        if (worse || missing > 0) {
+            damages.push({
+                item_name: item.item_name,
+                check_in_condition: original ? original.item_condition : null,
+                check_out_condition: missing > 0 && item.item_condition !== 'damaged' ? 'missing' : item.item_condition,
+                missing_quantity: missing
+            });
+        }
+    }
+
+    // Handed over at check-in but not accounted for at check-out
+    for (const original of before.values()) {
+        if (original.item_condition === 'missing' || original.quantity === 0) continue;
+        damages.push({
+            item_name: original.item_name,
+            check_in_condition: original.item_condition,
+            check_out_condition: 'missing',
+            missing_quantity: original.quantity
+        });
+    }
+
+    return damages;
+}
+
+/**
+ * Both inspections of an allocation with their items (and damages)
+ */
+export async function listInspections(allocationId: number): Promise<RoomInspection[]> {
+    const inspections = await query<RoomInspection>(
+        `SELECT * FROM room_inspections
+         WHERE allocation_id = $1
+         ORDER BY CASE inspection_type WHEN 'check_in' THEN 1 ELSE 2 END`,
+        [allocationId]
+    );
+    if (inspections.rows.length === 0) return [];
+
+    const ids = inspections.rows.map(inspection => inspection.id);
+    const placeholders = ids.map((_, i) => `$${i + 1}`).join(', ');
+
+    const items = await query<InspectionItem & { inspection_id: number }>(
+        `SELECT * FROM inspection_items
+         WHERE inspection_id IN (${placeholders})
+         ORDER BY CASE category WHEN 'furniture' THEN 1 WHEN 'fixtures' THEN 2 ELSE 3 END, id`,
+        ids
+    );
+    const damages = await query<InspectionDamage>(
+        `SELECT * FROM inspection_damages WHERE inspection_id IN (${placeholders}) ORDER BY id`,
+        ids
+    );
+
+    return inspections.rows.map(inspection => ({
+        ...inspection,
+        items: items.rows.filter(item => item.inspection_id === inspection.id),
+        ...(inspection.inspection_type === 'check_out'
+            ? { damages: damages.rows.filter(damage => damage.inspection_id === inspection.id) }
+            : {})
+    }));
+}
+
+/**
+ * Record the warden's inspection. A check-out inspection also records the
+ * damages found against the check-in one.
+ */
+export async function recordInspection(
+    allocationId: number,
+    input: InspectionInput,
+    inspectedBy: string
+): Promise<{ inspection: RoomInspection } | { error: string; status: number }> {
+    const client = await getClient();
+
+    const reject = async (error: string, status: number) => {
+        await client.query('ROLLBACK');
+        return { error, status };
+    };
+
+    try {
+        await client.query('BEGIN');
+
+        const allocation = await client.query<{ room_id: number; is_active: boolean }>(
+            'SELECT room_id, is_active FROM allocations WHERE id = $1 FOR UPDATE',
+            [allocationId]
+        );
+        if (allocation.rows.length === 0) return await reject('Allocation not found', 404);
+        if (!allocation.rows[0].is_active) return await reject('Allocation has already ended', 409);
+
+        const existing = await client.query<{ id: number; inspection_type: string }>(
+            'SELECT id, inspection_type FROM room_inspections WHERE allocation_id = $1',
+            [allocationId]
+        );
+        if (existing.rows.some(row => row.inspection_type === input.inspection_type)) {
+            const label = input.inspection_type === 'check_in' ? 'check-in' : 'check-out';
+            return await reject(`A ${label} inspection is already recorded for this allocation`, 409);
+        }
+
+        const inserted = await client.query<RoomInspection>(
+            `INSERT INTO room_inspections (allocation_id, room_id, inspection_type, condition_notes, inspected_by)
+             VALUES ($1, $2, $3, $4, $5)
+             RETURNING *`,
+            [allocationId, allocation.rows[0].room_id, input.inspection_type, input.condition_notes || null, inspectedBy]
+        );
+        const inspection = inserted.rows[0];
+
+        const items: InspectionItem[] = input.items.map(item => ({
+            category: item.category,
+            item_name: item.item_name.trim(),
+            quantity: item.quantity ?? 1,
+            item_condition: item.item_condition,
+            notes: item.notes || null
+        }));
+
+        for (const item of items) {
+            await client.query(
+                `INSERT INTO inspection_items (inspection_id, category, item_name, quantity, item_condition, notes)
+                 VALUES ($1, $2, $3, $4, $5, $6)`,
+                [inspection.id, item.category, item.item_name, item.quantity, item.item_condition, item.notes]
+            );
+        }
+
+        let damages: InspectionDamage[] | undefined;
+
+        if (input.inspection_type === 'check_out') {
+            const checkInId = existing.rows.find(row => row.inspection_type === 'check_in')?.id;
+            const checkInItems = checkInId
+                ? (await client.query<InspectionItem>('SELECT * FROM inspection_items WHERE inspection_id = $1', [checkInId])).rows
+                : null;
+
+            damages = [];
+            for (const damage of findDamages(checkInItems, items)) {
+                const row = await client.query<InspectionDamage>(
+                    `INSERT INTO inspection_damages (
+                      inspection_id, item_name, check_in_condition, check_out_condition, missing_quantity
+                    ) VALUES ($1, $2, $3, $4, $5)
+                    RETURNING *`,
+                    [inspection.id, damage.item_name, damage.check_in_condition, damage.check_out_condition, damage.missing_quantity]
+                );
+                damages.push(row.rows[0]);
+            }
+        }
+
+        await client.query('COMMIT');
+
+        return { inspection: { ...inspection, items, ...(damages ? { damages } : {}) } };
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Bill damages from a check-out inspection as one payment. A charge of 0
+ * waives the damage; damages left out of `charges` stay open.
+ */
+export async function chargeDamages(
+    inspectionId: number,
+    charges: { damage_id: number; amount: number }[],
+    dueDate: string | null
+): Promise<{ payment: Payment | null; damages: InspectionDamage[] } | { error: string; status: number }> {
+    const client = await getClient();
+
+    const reject = async (error: string, status: number) => {
+        await client.query('ROLLBACK');
+        return { error, status };
+    };
+
+    try {
+        await client.query('BEGIN');
+
+        const inspection = await client.query<{ allocation_id: number; student_id: number; inspection_type: string }>(
+            `SELECT i.allocation_id, a.student_id, i.inspection_type
+             FROM room_inspections i
+             INNER JOIN allocations a ON i.allocation_id = a.id
+             WHERE i.id = $1`,
+            [inspectionId]
+        );
+        if (inspection.rows.length === 0) return await reject('Inspection not found', 404);
+        if (inspection.rows[0].inspection_type !== 'check_out') {
+            return await reject('Only check-out inspections have damages to charge', 400);
+        }
+
+        const damages = await client.query<InspectionDamage>(
+            'SELECT * FROM inspection_damages WHERE inspection_id = $1 ORDER BY id FOR UPDATE',
+            [inspectionId]
+        );
+        const byId = new Map(damages.rows.map(damage => [damage.id, damage]));
+
+        const seen = new Set<number>();
+        for (const charge of charges) {
+            if (seen.has(charge.damage_id)) return await reject(`Damage ${charge.damage_id} is listed more than once`, 400);
+            seen.add(charge.damage_id);
+
+            const damage = byId.get(charge.damage_id);
+            if (!damage) return await reject(`Damage ${charge.damage_id} does not belong to this inspection`, 400);
+            if (damage.payment_id !== null || damage.waived) {
+                return await reject(`${damage.item_name} has already been charged or waived`, 409);
+            }
+        }
+
+        const billed = charges.filter(charge => charge.amount > 0);
+        let payment: Payment | null = null;
+
+        if (billed.length > 0) {
+            const total = billed.reduce((sum, charge) => sum + charge.amount, 0);
+            const description = billed
+                .map(charge => {
+                    const damage = byId.get(charge.damage_id) as InspectionDamage;
+                    return damage.missing_quantity > 0
+                        ? `${damage.item_name} (${damage.missing_quantity} missing)`
+                        : `${damage.item_name} (${damage.check_out_condition})`;
+                })
+                .join(', ');
+
+            const inserted = await client.query<Payment>(
+                `INSERT INTO payments (student_id, allocation_id, amount, due_date, payment_status, notes)
+                 VALUES ($1, $2, $3, COALESCE($4::DATE, CURRENT_DATE + $5::INTEGER), 'pending', $6)
+                 RETURNING *`,
+                [
+                    inspection.rows[0].student_id,
+                    inspection.rows[0].allocation_id,
+                    total,
+                    dueDate,
+                    DAMAGE_DUE_DAYS,
+                    `Damage charges: ${description}`
+                ]
+            );
+            payment = inserted.rows[0];
+        }
+
+        for (const charge of charges) {
+            await client.query(
+                `UPDATE inspection_damages
+                 SET charge_amount = $1, waived = $2, payment_id = $3
+                 WHERE id = $4`,
+                [charge.amount, charge.amount === 0, charge.amount > 0 && payment ? payment.id : null, charge.damage_id]
+            );
+        }
+
+        const updated = await client.query<InspectionDamage>(
+            'SELECT * FROM inspection_damages WHERE inspection_id = $1 ORDER BY id',
+            [inspectionId]
+        );
+
+        await client.query('COMMIT');
+
+        return { payment, damages: updated.rows };
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+}
@@ -0,0 +1,237 @@
+/**
+ * Data Integrity Module
+ * ======================
+ * Recomputes the denormalized counters from the rows they summarize and
+ * looks for records that contradict each other.
+ *
+ * COUNTERS:
+ * - rooms.current_occupancy = active allocations in the room
+ *   (kept by check_room_capacity and handle_allocation_delete)
+ * - hostels.total_rooms = rooms in the hostel (kept by update_hostel_room_count)
+ *
+ * The triggers clamp at zero with GREATEST(0, ...), so an underflow caused by
+ * manual SQL shows up here as drift rather than as an error.
+ *
+ * DBMS CONCEPTS:
+ * - Repairs run in one transaction that first takes SHARE ROW EXCLUSIVE locks
+ *   on allocations and rooms: reads carry on, but no allocation or room can
+ *   change between counting and writing the corrected value
+ * - An overfull room cannot be repaired, because the true count would break
+ *   the check_occupancy constraint; it is reported instead
+ */
+
+import { PoolClient } from 'pg';
+import { getClient, query } from '@/lib/db';
+import { CounterMismatch, IntegrityAnomaly, IntegrityReport } from '@/lib/types';
+
+const COUNTER_MISMATCHES_SQL = `
+    SELECT
+      'room_occupancy' as counter,
+      r.id,
+      h.name as hostel_name,
+      r.room_number,
+      r.current_occupancy as stored,
+      COUNT(a.id)::INTEGER as actual,
+      COUNT(a.id) <= r.capacity as repairable
+    FROM rooms r
+    INNER JOIN hostels h ON r.hostel_id = h.id
+    LEFT JOIN allocations a ON a.room_id = r.id AND a.is_active = TRUE
+    GROUP BY r.id, h.name
+    HAVING r.current_occupancy IS DISTINCT FROM COUNT(a.id)
+
+    UNION ALL
+
+    SELECT
+      'hostel_total_rooms' as counter,
+      h.id,
+      h.name as hostel_name,
+      NULL as room_number,
+      h.total_rooms as stored,
+      COUNT(r.id)::INTEGER as actual,
+      TRUE as repairable
+    FROM hostels h
+    LEFT JOIN rooms r ON r.hostel_id = h.id
+    GROUP BY h.id
+    HAVING h.total_rooms IS DISTINCT FROM COUNT(r.id)
+
+    ORDER BY counter DESC, hostel_name, room_number`;
+
+// Each check returns the offending rows as (entity_id, description)
+const ANOMALY_CHECKS: { check: string; entity: IntegrityAnomaly['entity']; sql: string }[] = [
+    {
+        check: 'inactive_student_allocation',
+        entity: 'allocation',
+        sql: `
+            SELECT a.id as entity_id,
+              s.first_name || ' ' || s.last_name || ' (' || s.registration_number || ') is inactive but still holds room '
+                || r.room_number || ' in ' || h.name as description
+            FROM allocations a
+            INNER JOIN students s ON a.student_id = s.id
+            INNER JOIN rooms r ON a.room_id = r.id
+            INNER JOIN hostels h ON r.hostel_id = h.id
+            WHERE a.is_active = TRUE AND s.is_active = FALSE`
+    },
+    {
+        check: 'room_over_capacity',
+        entity: 'room',
+        sql: `
+            SELECT r.id as entity_id,
+              'Room ' || r.room_number || ' in ' || h.name || ' has ' || COUNT(a.id)
+                || ' active allocations for ' || r.capacity || ' bed(s)' as description
+            FROM rooms r
+            INNER JOIN hostels h ON r.hostel_id = h.id
+            INNER JOIN allocations a ON a.room_id = r.id AND a.is_active = TRUE
+            GROUP BY r.id, h.name
+            HAVING COUNT(a.id) > r.capacity`
+    },
+    {
+        check: 'allocation_without_bed',
+        entity: 'allocation',
+        sql: `
+            SELECT a.id as entity_id,
+              'Active allocation of ' || s.first_name || ' ' || s.last_name || ' in room '
+                || r.room_number || ' has no bed' as description
+            FROM allocations a
+            INNER JOIN students s ON a.student_id = s.id
+            INNER JOIN rooms r ON a.room_id = r.id
+            WHERE a.is_active = TRUE AND a.bed_id IS NULL`
+    },
+    {
+        check: 'allocation_bed_in_other_room',
+        entity: 'allocation',
+        sql: `
+            SELECT a.id as entity_id,
+              'Allocation of ' || s.first_name || ' ' || s.last_name || ' is for room ' || r.room_number
+                || ' but its bed ' || bd.bed_label || ' belongs to room ' || br.room_number as description
+            FROM allocations a
+            INNER JOIN students s ON a.student_id = s.id
+            INNER JOIN rooms r ON a.room_id = r.id
+            INNER JOIN beds bd ON a.bed_id = bd.id
+            INNER JOIN rooms br ON bd.room_id = br.id
+            WHERE a.is_active = TRUE AND bd.room_id <> a.room_id`
+    },
+    {
+        check: 'bed_count_mismatch',
+        entity: 'room',
+        sql: `
+            SELECT r.id as entity_id,
+              'Room ' || r.room_number || ' in ' || h.name || ' has capacity ' || r.capacity
+                || ' but ' || COUNT(bd.id) || ' bed(s)' as description
+            FROM rooms r
+            INNER JOIN hostels h ON r.hostel_id = h.id
+            LEFT JOIN beds bd ON bd.room_id = r.id
+            GROUP BY r.id, h.name
+            HAVING COUNT(bd.id) <> r.capacity`
+    },
+    {
+        check: 'ended_allocation_without_checkout',
+        entity: 'allocation',
+        sql: `
+            SELECT a.id as entity_id,
+              'Allocation of ' || s.first_name || ' ' || s.last_name || ' in room ' || r.room_number
+                || ' has ended but has no checkout date' as description
+            FROM allocations a
+            INNER JOIN students s ON a.student_id = s.id
+            INNER JOIN rooms r ON a.room_id = r.id
+            WHERE a.is_active = FALSE AND a.actual_checkout IS NULL`
+    },
+    {
+        check: 'complaint_room_never_lived',
+        entity: 'complaint',
+        sql: `
+            SELECT c.id as entity_id,
+              'Complaint "' || c.title || '" by ' || s.first_name || ' ' || s.last_name || ' is for room '
+                || r.room_number || ' in ' || h.name || ', where the student never lived' as description
+            FROM complaints c
+            INNER JOIN students s ON c.student_id = s.id
+            INNER JOIN rooms r ON c.room_id = r.id
+            INNER JOIN hostels h ON r.hostel_id = h.id
+            WHERE NOT EXISTS (
+              SELECT 1 FROM allocations a
+              WHERE a.student_id = c.student_id AND a.room_id = c.room_id
+            )`
+    },
+    {
+        check: 'complaint_bed_in_other_room',
+        entity: 'complaint',
+        sql: `
+            SELECT c.id as entity_id,
+              'Complaint "' || c.title || '" is for room ' || r.room_number || ' but names bed '
+                || bd.bed_label || ' of room ' || br.room_number as description
+            FROM complaints c
+            INNER JOIN rooms r ON c.room_id = r.id
+            INNER JOIN beds bd ON c.bed_id = bd.id
+            INNER JOIN rooms br ON bd.room_id = br.id
+            WHERE bd.room_id <> c.room_id`
+    }
+];
+
+/**
+ * Counter drift and anomalies, without changing anything
+ */
+export async function runIntegrityChecks(): Promise<IntegrityReport> {
+    const [counters, ...checks] = await Promise.all([
+        query<CounterMismatch>(COUNTER_MISMATCHES_SQL),
+        ...ANOMALY_CHECKS.map(check =>
+            query<{ entity_id: number; description: string }>(`${check.sql} ORDER BY entity_id`)
+        )
+    ]);
+
+    const anomalies: IntegrityAnomaly[] = checks.flatMap((result, index) =>
+        result.rows.map(row => ({
+            check: ANOMALY_CHECKS[index].check,
+            entity: ANOMALY_CHECKS[index].entity,
+            entity_id: row.entity_id,
+            description: row.description
+        }))
+    );
+
+    return {
+        checked_at: new Date(),
+        counter_mismatches: counters.rows,
+        anomalies
+    };
+}
+
+async function updateCounter(client: PoolClient, mismatch: CounterMismatch): Promise<void> {
+    if (mismatch.counter === 'room_occupancy') {
+        await client.query(
+            'UPDATE rooms SET current_occupancy = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+            [mismatch.id, mismatch.actual]
+        );
+    } else {
+        await client.query(
+            'UPDATE hostels SET total_rooms = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+            [mismatch.id, mismatch.actual]
+        );
+    }
+}
+
+/**
+ * Recount and correct every drifted counter in one transaction.
+ * Anomalies are only reported; they need a person to decide the fix.
+ */
+export async function repairCounters(): Promise<{ repaired: CounterMismatch[]; unrepaired: CounterMismatch[] }> {
+    const client = await getClient();
+
+    try {
+        await client.query('BEGIN');
+        await client.query('LOCK TABLE allocations, rooms IN SHARE ROW EXCLUSIVE MODE');
+
+        const result = await client.query<CounterMismatch>(COUNTER_MISMATCHES_SQL);
+        const repaired = result.rows.filter(mismatch => mismatch.repairable);
+
+        for (const mismatch of repaired) {
+            await updateCounter(client, mismatch);
+        }
+
+        await client.query('COMMIT');
+
+        return { repaired, unrepaired: result.rows.filter(mismatch => !mismatch.repairable) };
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+}
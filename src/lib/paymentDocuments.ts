@@ -0,0 +1,225 @@
+/**
+ * Payment Documents Module
+ * =========================
+ * Lays out payment receipts and student fee statements as PDFs using the
+ * minimal writer in pdf.ts. Routes load the data; this module only draws it.
+ *
+ * Dates are expected as YYYY-MM-DD text (cast in SQL) so no timezone
+ * conversion happens between the database and the document.
+ */
+
+import { newPage, PAGE_HEIGHT, PAGE_WIDTH, PdfPage, renderPdf } from '@/lib/pdf';
+
+const MARGIN = 50;
+const RIGHT = PAGE_WIDTH - MARGIN;
+
+export interface ReceiptDocument {
+    receipt_number: string;
+    payment_id: number;
+    payment_date: string | null;
+    due_date: string;
+    student_name: string;
+    registration_number: string;
+    hostel_name: string | null;
+    room_number: string | null;
+    semester: string | null;
+    amount: number;
+    payment_method: string | null;
+    transaction_id: string | null;
+    notes: string | null;
+    installments: {
+        paid_on: string;
+        amount: number;
+        payment_method: string;
+        transaction_id: string | null;
+    }[];
+}
+
+export interface StatementDocument {
+    student_name: string;
+    registration_number: string;
+    hostel_name: string | null;
+    room_number: string | null;
+    from: string;
+    to: string;
+    opening_balance: number;
+    entries: {
+        date: string;
+        description: string;
+        charge: number;
+        credit: number;
+    }[];
+}
+
+const money = (value: number) => `Rs. ${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const methodLabel = (method: string | null) =>
+    method ? method.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase()) : '-';
+
+// Title block shared by both documents; returns the y position below it
+function drawHeader(page: PdfPage, title: string, subtitle: string): number {
+    page.texts.push({ x: MARGIN, y: PAGE_HEIGHT - 60, text: 'Smart Hostel Management System', size: 16, bold: true });
+    page.texts.push({ x: MARGIN, y: PAGE_HEIGHT - 78, text: title, size: 12 });
+    page.texts.push({ x: RIGHT, y: PAGE_HEIGHT - 60, text: subtitle, size: 10, bold: true, align: 'right' });
+    page.lines.push({ x1: MARGIN, y1: PAGE_HEIGHT - 90, x2: RIGHT, y2: PAGE_HEIGHT - 90, width: 1 });
+    return PAGE_HEIGHT - 120;
+}
+
+function drawField(page: PdfPage, y: number, label: string, value: string, x = MARGIN) {
+    page.texts.push({ x, y, text: label, size: 9 });
+    page.texts.push({ x: x + 110, y, text: value, size: 10, bold: true });
+}
+
+/**
+ * Receipt for a fully paid payment
+ */
+export function buildReceiptPdf(receipt: ReceiptDocument): Buffer {
+    const page = newPage();
+    let y = drawHeader(page, 'Payment Receipt', receipt.receipt_number);
+
+    const room = receipt.room_number
+        ? `${receipt.room_number}${receipt.hostel_name ? `, ${receipt.hostel_name}` : ''}`
+        : '-';
+
+    drawField(page, y, 'Student', receipt.student_name);
+    drawField(page, y, 'Date Paid', receipt.payment_date || '-', 320);
+    y -= 18;
+    drawField(page, y, 'Registration No.', receipt.registration_number);
+    drawField(page, y, 'Due Date', receipt.due_date, 320);
+    y -= 18;
+    drawField(page, y, 'Room / Hostel', room);
+    drawField(page, y, 'Payment ID', `#${receipt.payment_id}`, 320);
+    y -= 18;
+    drawField(page, y, 'Semester', receipt.semester || '-');
+    y -= 36;
+
+    // Installment table (a single row when paid in one go)
+    page.texts.push({ x: MARGIN, y, text: 'Date', size: 9, bold: true });
+    page.texts.push({ x: MARGIN + 90, y, text: 'Method', size: 9, bold: true });
+    page.texts.push({ x: MARGIN + 210, y, text: 'Transaction Ref.', size: 9, bold: true });
+    page.texts.push({ x: RIGHT, y, text: 'Amount', size: 9, bold: true, align: 'right' });
+    page.lines.push({ x1: MARGIN, y1: y - 6, x2: RIGHT, y2: y - 6 });
+    y -= 22;
+
+    const installments = receipt.installments.length > 0
+        ? receipt.installments
+        : [{
+            paid_on: receipt.payment_date || '-',
+            amount: receipt.amount,
+            payment_method: receipt.payment_method || '',
+            transaction_id: receipt.transaction_id
+        }];
+
+    for (const item of installments) {
+        page.texts.push({ x: MARGIN, y, text: item.paid_on, size: 10 });
+        page.texts.push({ x: MARGIN + 90, y, text: methodLabel(item.payment_method), size: 10 });
+        page.texts.push({ x: MARGIN + 210, y, text: item.transaction_id || '-', size: 10 });
+        page.texts.push({ x: RIGHT, y, text: money(item.amount), size: 10, align: 'right' });
+        y -= 18;
+    }
+
+    page.lines.push({ x1: MARGIN, y1: y + 6, x2: RIGHT, y2: y + 6 });
+    y -= 10;
+    page.texts.push({ x: RIGHT - 140, y, text: 'Total Paid', size: 11, bold: true });
+    page.texts.push({ x: RIGHT, y, text: money(receipt.amount), size: 11, bold: true, align: 'right' });
+
+    if (receipt.notes) {
+        y -= 36;
+        page.texts.push({ x: MARGIN, y, text: `Notes: ${receipt.notes}`, size: 9 });
+    }
+
+    page.texts.push({
+        x: MARGIN,
+        y: 60,
+        text: 'This is a computer-generated receipt and does not require a signature.',
+        size: 8
+    });
+
+    return renderPdf([page], `Receipt ${receipt.receipt_number}`);
+}
+
+/**
+ * Fee statement: charges and receipts in a date range with a running balance
+ */
+export function buildStatementPdf(statement: StatementDocument): Buffer {
+    const pages: PdfPage[] = [];
+    let page = newPage();
+    pages.push(page);
+
+    let y = drawHeader(page, 'Fee Statement', `${statement.from} to ${statement.to}`);
+
+    const room = statement.room_number
+        ? `${statement.room_number}${statement.hostel_name ? `, ${statement.hostel_name}` : ''}`
+        : '-';
+
+    drawField(page, y, 'Student', statement.student_name);
+    y -= 18;
+    drawField(page, y, 'Registration No.', statement.registration_number);
+    y -= 18;
+    drawField(page, y, 'Room / Hostel', room);
+    y -= 36;
+
+    const drawColumnHeaders = () => {
+        page.texts.push({ x: MARGIN, y, text: 'Date', size: 9, bold: true });
+        page.texts.push({ x: MARGIN + 75, y, text: 'Description', size: 9, bold: true });
+        page.texts.push({ x: RIGHT - 170, y, text: 'Charge', size: 9, bold: true, align: 'right' });
+        page.texts.push({ x: RIGHT - 85, y, text: 'Paid', size: 9, bold: true, align: 'right' });
+        page.texts.push({ x: RIGHT, y, text: 'Balance', size: 9, bold: true, align: 'right' });
+        page.lines.push({ x1: MARGIN, y1: y - 6, x2: RIGHT, y2: y - 6 });
+        y -= 22;
+    };
+
+    drawColumnHeaders();
+
+    let balance = statement.opening_balance;
+    page.texts.push({ x: MARGIN, y, text: statement.from, size: 9 });
+    page.texts.push({ x: MARGIN + 75, y, text: 'Opening balance', size: 9, bold: true });
+    page.texts.push({ x: RIGHT, y, text: money(balance), size: 9, align: 'right' });
+    y -= 16;
+
+    let totalCharged = 0;
+    let totalPaid = 0;
+
+    for (const entry of statement.entries) {
+        // Continue on a new page when this one is full
+        if (y < 90) {
+            page = newPage();
+            pages.push(page);
+            y = drawHeader(page, 'Fee Statement (continued)', `${statement.from} to ${statement.to}`);
+            drawColumnHeaders();
+        }
+
+        balance += entry.charge - entry.credit;
+        totalCharged += entry.charge;
+        totalPaid += entry.credit;
+
+        const description = entry.description.length > 48
+            ? `${entry.description.slice(0, 45)}...`
+            : entry.description;
+
+        page.texts.push({ x: MARGIN, y, text: entry.date, size: 9 });
+        page.texts.push({ x: MARGIN + 75, y, text: description, size: 9 });
+        page.texts.push({ x: RIGHT - 170, y, text: entry.charge ? money(entry.charge) : '', size: 9, align: 'right' });
+        page.texts.push({ x: RIGHT - 85, y, text: entry.credit ? money(entry.credit) : '', size: 9, align: 'right' });
+        page.texts.push({ x: RIGHT, y, text: money(balance), size: 9, align: 'right' });
+        y -= 16;
+    }
+
+    if (statement.entries.length === 0) {
+        page.texts.push({ x: MARGIN + 75, y, text: 'No activity in this period', size: 9 });
+        y -= 16;
+    }
+
+    page.lines.push({ x1: MARGIN, y1: y + 6, x2: RIGHT, y2: y + 6 });
+    y -= 10;
+    page.texts.push({ x: MARGIN + 75, y, text: 'Totals / Closing balance', size: 10, bold: true });
+    page.texts.push({ x: RIGHT - 170, y, text: money(totalCharged), size: 10, bold: true, align: 'right' });
+    page.texts.push({ x: RIGHT - 85, y, text: money(totalPaid), size: 10, bold: true, align: 'right' });
+    page.texts.push({ x: RIGHT, y, text: money(balance), size: 10, bold: true, align: 'right' });
+
+    pages.forEach((p, i) => {
+        p.texts.push({ x: RIGHT, y: 40, text: `Page ${i + 1} of ${pages.length}`, size: 8, align: 'right' });
+    });
+
+    return renderPdf(pages, `Fee statement ${statement.registration_number}`);
+}
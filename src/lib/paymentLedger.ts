@@ -0,0 +1,105 @@
+/**
+ * Payment Ledger Module
+ * ======================
+ * Records money received against a payment (due) in payment_transactions.
+ *
+ * The sync_payment_ledger trigger keeps payments.amount_paid, payment_date
+ * and payment_status in step with the ledger, so callers never set those
+ * directly. This module adds friendly validation on top: the trigger would
+ * also reject an overpayment, but only with a raw database error.
+ */
+
+import { PoolClient } from 'pg';
+import { getClient } from '@/lib/db';
+import { Payment, PaymentTransaction } from '@/lib/types';
+
+export interface ReceiptInput {
+    amount?: number;            // Defaults to the full outstanding balance
+    payment_method: string;
+    transaction_id?: string | null;
+    paid_on?: string | null;    // Defaults to today
+    notes?: string | null;
+    recorded_by: string;
+}
+
+export type ReceiptResult =
+    | { payment: Payment; transaction: PaymentTransaction }
+    | { error: string; status: number };
+
+/**
+ * Record one installment against a payment in a single transaction.
+ * Pass a client to run inside the caller's transaction instead; the caller
+ * then commits, or rolls back when an error is returned.
+ */
+export async function recordReceipt(
+    paymentId: number,
+    receipt: ReceiptInput,
+    client?: PoolClient
+): Promise<ReceiptResult> {
+    if (client) return applyReceipt(client, paymentId, receipt);
+
+    const ownClient = await getClient();
+
+    try {
+        await ownClient.query('BEGIN');
+
+        const result = await applyReceipt(ownClient, paymentId, receipt);
+
+        await ownClient.query('error' in result ? 'ROLLBACK' : 'COMMIT');
+        return result;
+    } catch (error) {
+        await ownClient.query('ROLLBACK');
+        throw error;
+    } finally {
+        ownClient.release();
+    }
+}
+
+async function applyReceipt(client: PoolClient, paymentId: number, receipt: ReceiptInput): Promise<ReceiptResult> {
+    const paymentResult = await client.query<{ amount: string; amount_paid: string }>(
+        'SELECT amount, amount_paid FROM payments WHERE id = $1 FOR UPDATE',
+        [paymentId]
+    );
+
+    if (paymentResult.rows.length === 0) {
+        return { error: 'Payment not found', status: 404 };
+    }
+
+    const { amount, amount_paid } = paymentResult.rows[0];
+    const balance = Math.round((parseFloat(amount) - parseFloat(amount_paid)) * 100) / 100;
+    const receiptAmount = receipt.amount ?? balance;
+
+    if (balance <= 0) {
+        return { error: 'Payment is already fully paid', status: 400 };
+    }
+    if (!(receiptAmount > 0)) {
+        return { error: 'Amount must be greater than 0', status: 400 };
+    }
+    if (receiptAmount > balance) {
+        return { error: `Amount exceeds the outstanding balance of ₹${balance.toFixed(2)}`, status: 400 };
+    }
+
+    const transactionResult = await client.query<PaymentTransaction>(
+        `INSERT INTO payment_transactions (
+          payment_id, amount, payment_method, transaction_id, paid_on, recorded_by, notes
+        ) VALUES ($1, $2, $3, $4, COALESCE($5::DATE, CURRENT_DATE), $6, $7)
+        RETURNING *`,
+        [
+            paymentId,
+            receiptAmount,
+            receipt.payment_method,
+            receipt.transaction_id || null,
+            receipt.paid_on || null,
+            receipt.recorded_by,
+            receipt.notes || null
+        ]
+    );
+
+    // Re-read the parent after the ledger trigger has updated it
+    const updated = await client.query<Payment>(
+        'SELECT * FROM payments WHERE id = $1',
+        [paymentId]
+    );
+
+    return { payment: updated.rows[0], transaction: transactionResult.rows[0] };
+}
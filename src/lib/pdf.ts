@@ -0,0 +1,120 @@
+/**
+ * Minimal PDF Writer
+ * ===================
+ * Builds simple text-and-rule PDF documents (receipts, statements) without
+ * any third-party library or external service.
+ *
+ * Only the standard Helvetica fonts are used, so text is limited to the
+ * WinAnsi character set; anything else (e.g. ₹) is replaced before writing.
+ * Coordinates are PDF points from the bottom-left corner of an A4 page.
+ */
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export interface PdfText {
+    x: number;
+    y: number;
+    text: string;
+    size?: number;
+    bold?: boolean;
+    align?: 'left' | 'right';
+}
+
+export interface PdfLine {
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+    width?: number;
+}
+
+export interface PdfPage {
+    texts: PdfText[];
+    lines: PdfLine[];
+}
+
+export function newPage(): PdfPage {
+    return { texts: [], lines: [] };
+}
+
+// Approximate Helvetica advance width (per 1pt of font size), good enough to right-align numbers
+function textWidth(text: string, size: number, bold: boolean): number {
+    let units = 0;
+    for (const char of text) {
+        if ('0123456789'.includes(char)) units += 556;
+        else if (' .,:;|!'.includes(char)) units += 278;
+        else if (char === char.toUpperCase() && char !== char.toLowerCase()) units += 667;
+        else units += 520;
+    }
+    return (units / 1000) * size * (bold ? 1.05 : 1);
+}
+
+function escapeText(text: string): string {
+    return text
+        .replace(/₹/g, 'Rs. ')
+        .replace(/[^\x20-\x7E]/g, '?')
+        .replace(/\\/g, '\\\\')
+        .replace(/\(/g, '\\(')
+        .replace(/\)/g, '\\)');
+}
+
+function pageContent(page: PdfPage): string {
+    const ops: string[] = [];
+
+    for (const line of page.lines) {
+        ops.push(`${line.width ?? 0.5} w ${line.x1} ${line.y1} m ${line.x2} ${line.y2} l S`);
+    }
+
+    for (const item of page.texts) {
+        const size = item.size ?? 10;
+        const bold = item.bold ?? false;
+        const x = item.align === 'right'
+            ? item.x - textWidth(escapeText(item.text), size, bold)
+            : item.x;
+        ops.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${item.y} Td (${escapeText(item.text)}) Tj ET`);
+    }
+
+    return ops.join('\n');
+}
+
+/**
+ * Serialise pages into a complete PDF file
+ */
+export function renderPdf(pages: PdfPage[], title: string): Buffer {
+    // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page + content pair per page
+    const objects: string[] = [];
+    const pageIds = pages.map((_, i) => 6 + i * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    objects[5] = `<< /Title (${escapeText(title)}) /Producer (Smart Hostel Management System) >>`;
+
+    pages.forEach((page, i) => {
+        const content = pageContent(page);
+        objects[pageIds[i]] =
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+        objects[pageIds[i] + 1] =
+            `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+
+    for (let id = 1; id < objects.length; id++) {
+        offsets[id] = Buffer.byteLength(output, 'latin1');
+        output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+        output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+}
@@ -0,0 +1,376 @@
+/**
+ * Academic Year Rollover Module
+ * ==============================
+ * Closes an academic year for every active student in one transaction.
+ *
+ * ROLLOVER RULES:
+ * 1. Students at or above the maximum year of study graduate: their active
+ *    allocation ends on the rollover date and the student is marked inactive
+ * 2. Everyone else moves up one year of study
+ * 3. Returning students either keep their room, with a new expected checkout,
+ *    or have their allocation ended so they can apply again
+ * 4. As with a normal checkout, a stay inspected at check-in is not ended
+ *    until its check-out inspection is recorded; it is listed as 'blocked'
+ *    and left active (a blocked graduate also stays active)
+ * 5. A renewal that would run into another student's booking of the bed is
+ *    also listed as 'blocked'; the stay keeps its old expected checkout
+ * 6. Students without a year of study are left alone
+ *
+ * Each academic year can be rolled over once (academic_rollovers is UNIQUE on
+ * it), and every change is written to academic_rollover_changes. The preview
+ * runs the same planning code as the real rollover.
+ */
+
+import { PoolClient } from 'pg';
+import { getClient, query } from '@/lib/db';
+import { AcademicRollover, RolloverChange } from '@/lib/types';
+import { offerFreedBeds } from '@/lib/waitlist';
+
+export interface RolloverOptions {
+    academicYear: string;
+    maxYear: number;
+    rolloverDate: string;
+    retainRooms: boolean;
+    newExpectedCheckout: string | null;
+}
+
+export interface RolloverSummary {
+    students_graduated: number;
+    students_promoted: number;
+    allocations_ended: number;
+    allocations_renewed: number;
+    blocked: number;
+}
+
+interface RolloverRow {
+    student_id: number;
+    student_name: string;
+    registration_number: string;
+    year_of_study: number;
+    allocation_id: number | null;
+    room_id: number | null;
+    hostel_name: string | null;
+    room_number: string | null;
+    expected_checkout: string | null;
+    needs_inspection: boolean;
+}
+
+const ROLLOVER_COLUMNS = `
+    id,
+    academic_year,
+    max_year_of_study,
+    rollover_date::TEXT as rollover_date,
+    retain_rooms,
+    new_expected_checkout::TEXT as new_expected_checkout,
+    students_graduated,
+    students_promoted,
+    allocations_ended,
+    allocations_renewed,
+    created_by,
+    created_at`;
+
+const ROLLOVER_STUDENTS_SQL = `
+    SELECT
+      s.id as student_id,
+      s.first_name || ' ' || s.last_name as student_name,
+      s.registration_number,
+      s.year_of_study,
+      a.id as allocation_id,
+      a.room_id,
+      h.name as hostel_name,
+      r.room_number,
+      a.expected_checkout::TEXT as expected_checkout,
+      COALESCE(
+        EXISTS (
+          SELECT 1 FROM room_inspections i
+          WHERE i.allocation_id = a.id AND i.inspection_type = 'check_in'
+        ) AND NOT EXISTS (
+          SELECT 1 FROM room_inspections i
+          WHERE i.allocation_id = a.id AND i.inspection_type = 'check_out'
+        ), FALSE
+      ) as needs_inspection
+    FROM students s
+    LEFT JOIN allocations a ON a.student_id = s.id AND a.is_active = TRUE
+    LEFT JOIN rooms r ON a.room_id = r.id
+    LEFT JOIN hostels h ON r.hostel_id = h.id
+    WHERE s.is_active = TRUE
+      AND s.year_of_study IS NOT NULL
+    ORDER BY s.year_of_study DESC, h.name, r.room_number, s.first_name, s.last_name`;
+
+function planChange(row: RolloverRow, options: RolloverOptions): RolloverChange {
+    const graduating = row.year_of_study >= options.maxYear;
+    const endsAllocation = row.allocation_id !== null && (graduating || !options.retainRooms);
+
+    const change: RolloverChange = {
+        student_id: row.student_id,
+        student_name: row.student_name,
+        registration_number: row.registration_number,
+        action: 'promote',
+        old_year_of_study: row.year_of_study,
+        new_year_of_study: graduating ? row.year_of_study : row.year_of_study + 1,
+        allocation_id: row.allocation_id,
+        hostel_name: row.hostel_name,
+        room_number: row.room_number,
+        old_expected_checkout: row.expected_checkout,
+        new_expected_checkout: row.expected_checkout,
+        allocation_ended: false,
+        details: null
+    };
+
+    if (endsAllocation && row.needs_inspection) {
+        change.action = 'blocked';
+        change.details = graduating
+            ? 'Check-out inspection not recorded: allocation left active and student not graduated'
+            : 'Check-out inspection not recorded: allocation left active';
+    } else if (graduating) {
+        change.action = 'graduate';
+        change.allocation_ended = row.allocation_id !== null;
+        change.details = change.allocation_ended ? 'Graduated; allocation ended' : 'Graduated';
+    } else if (row.allocation_id === null) {
+        change.details = 'No active allocation';
+    } else if (options.retainRooms) {
+        change.action = 'renew';
+        change.new_expected_checkout = options.newExpectedCheckout;
+        change.details = 'Keeps the room';
+    } else {
+        change.action = 'release';
+        change.allocation_ended = true;
+        change.details = 'Allocation ended for the new year';
+    }
+
+    return change;
+}
+
+function summarizeRollover(changes: RolloverChange[]): RolloverSummary {
+    return {
+        students_graduated: changes.filter(c => c.action === 'graduate').length,
+        students_promoted: changes.filter(c => c.new_year_of_study !== c.old_year_of_study).length,
+        allocations_ended: changes.filter(c => c.allocation_ended).length,
+        allocations_renewed: changes.filter(c => c.action === 'renew').length,
+        blocked: changes.filter(c => c.action === 'blocked').length
+    };
+}
+
+async function planRollover(
+    options: RolloverOptions,
+    client?: PoolClient
+): Promise<{ rows: RolloverRow[]; changes: RolloverChange[] }> {
+    // Inside the real rollover the students are locked until COMMIT
+    const sql = client ? `${ROLLOVER_STUDENTS_SQL} FOR UPDATE OF s` : ROLLOVER_STUDENTS_SQL;
+    const result = client
+        ? await client.query<RolloverRow>(sql)
+        : await query<RolloverRow>(sql);
+
+    return {
+        rows: result.rows,
+        changes: result.rows.map(row => planChange(row, options))
+    };
+}
+
+/**
+ * Work out what a rollover would change without writing anything
+ */
+export async function previewRollover(
+    options: RolloverOptions
+): Promise<{ changes: RolloverChange[]; summary: RolloverSummary } | { error: string; status: number }> {
+    const existing = await query('SELECT id FROM academic_rollovers WHERE academic_year = $1', [options.academicYear]);
+    if (existing.rows.length > 0) {
+        return { error: `${options.academicYear} has already been rolled over`, status: 409 };
+    }
+
+    const { changes } = await planRollover(options);
+    return { changes, summary: summarizeRollover(changes) };
+}
+
+/**
+ * Apply the rollover in one transaction and record every change.
+ * Freed beds are offered to the waitlist afterwards.
+ */
+export async function runRollover(
+    options: RolloverOptions & { createdBy: string }
+): Promise<
+    { rollover: AcademicRollover; changes: RolloverChange[]; blocked: number; waitlist_offers: number }
+    | { error: string; status: number }
+> {
+    const client = await getClient();
+    const freedRoomIds = new Set<number>();
+    let rollover: AcademicRollover;
+    let changes: RolloverChange[];
+
+    try {
+        await client.query('BEGIN');
+
+        const header = await client.query<{ id: number }>(
+            `INSERT INTO academic_rollovers (
+              academic_year, max_year_of_study, rollover_date, retain_rooms, new_expected_checkout, created_by
+            ) VALUES ($1, $2, $3, $4, $5, $6)
+            ON CONFLICT (academic_year) DO NOTHING
+            RETURNING id`,
+            [
+                options.academicYear,
+                options.maxYear,
+                options.rolloverDate,
+                options.retainRooms,
+                options.retainRooms ? options.newExpectedCheckout : null,
+                options.createdBy
+            ]
+        );
+
+        if (header.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return { error: `${options.academicYear} has already been rolled over`, status: 409 };
+        }
+
+        const rolloverId = header.rows[0].id;
+        const plan = await planRollover(options, client);
+        changes = plan.changes;
+
+        for (const [index, change] of changes.entries()) {
+            const row = plan.rows[index];
+
+            // Room occupancy follows through trg_check_room_capacity
+            if (change.allocation_ended) {
+                await client.query(
+                    `UPDATE allocations
+                     SET is_active = FALSE, actual_checkout = $2
+                     WHERE id = $1`,
+                    [change.allocation_id, options.rolloverDate]
+                );
+                if (row.room_id !== null) freedRoomIds.add(row.room_id);
+            } else if (change.action === 'renew') {
+                // A booking on the bed during the longer stay only blocks this student
+                await client.query('SAVEPOINT renew_allocation');
+                try {
+                    await client.query(
+                        'UPDATE allocations SET expected_checkout = $2 WHERE id = $1',
+                        [change.allocation_id, change.new_expected_checkout]
+                    );
+                    await client.query('RELEASE SAVEPOINT renew_allocation');
+                } catch (renewError) {
+                    if ((renewError as { code?: string }).code !== 'P0001') throw renewError;
+                    await client.query('ROLLBACK TO SAVEPOINT renew_allocation');
+                    change.action = 'blocked';
+                    change.new_expected_checkout = change.old_expected_checkout;
+                    change.details = `Room not renewed: ${(renewError as Error).message}`;
+                }
+            }
+
+            if (change.action === 'graduate') {
+                await client.query('UPDATE students SET is_active = FALSE WHERE id = $1', [change.student_id]);
+            } else if (change.new_year_of_study !== change.old_year_of_study) {
+                await client.query(
+                    'UPDATE students SET year_of_study = $2 WHERE id = $1',
+                    [change.student_id, change.new_year_of_study]
+                );
+            }
+
+            await client.query(
+                `INSERT INTO academic_rollover_changes (
+                  rollover_id, student_id, allocation_id, action, old_year_of_study, new_year_of_study,
+                  old_expected_checkout, new_expected_checkout, allocation_ended, details
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+                [
+                    rolloverId,
+                    change.student_id,
+                    change.allocation_id,
+                    change.action,
+                    change.old_year_of_study,
+                    change.new_year_of_study,
+                    change.old_expected_checkout,
+                    change.new_expected_checkout,
+                    change.allocation_ended,
+                    change.details
+                ]
+            );
+        }
+
+        const summary = summarizeRollover(changes);
+
+        const updated = await client.query<AcademicRollover>(
+            `UPDATE academic_rollovers
+             SET students_graduated = $2, students_promoted = $3, allocations_ended = $4, allocations_renewed = $5
+             WHERE id = $1
+             RETURNING ${ROLLOVER_COLUMNS}`,
+            [rolloverId, summary.students_graduated, summary.students_promoted, summary.allocations_ended, summary.allocations_renewed]
+        );
+        rollover = updated.rows[0];
+
+        await client.query('COMMIT');
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+
+    // Best-effort, as in the checkout endpoint: the rollover stands either way
+    let waitlistOffers = 0;
+    for (const roomId of freedRoomIds) {
+        try {
+            const offers = await offerFreedBeds(roomId);
+            waitlistOffers += offers.length;
+        } catch (offerError) {
+            console.error('Waitlist offer failed:', offerError);
+        }
+    }
+
+    return {
+        rollover,
+        changes,
+        blocked: changes.filter(c => c.action === 'blocked').length,
+        waitlist_offers: waitlistOffers
+    };
+}
+
+/**
+ * Past rollovers, newest first
+ */
+export async function listRollovers(filters: { id?: number } = {}): Promise<AcademicRollover[]> {
+    const params: number[] = [];
+    let whereClause = '';
+
+    if (filters.id !== undefined) {
+        params.push(filters.id);
+        whereClause = 'WHERE id = $1';
+    }
+
+    const result = await query<AcademicRollover>(
+        `SELECT ${ROLLOVER_COLUMNS}
+         FROM academic_rollovers
+         ${whereClause}
+         ORDER BY created_at DESC`,
+        params
+    );
+    return result.rows;
+}
+
+/**
+ * What one rollover changed, for the audit view
+ */
+export async function getRolloverChanges(rolloverId: number): Promise<RolloverChange[]> {
+    const result = await query<RolloverChange>(
+        `SELECT
+          c.student_id,
+          s.first_name || ' ' || s.last_name as student_name,
+          s.registration_number,
+          c.action,
+          c.old_year_of_study,
+          c.new_year_of_study,
+          c.allocation_id,
+          h.name as hostel_name,
+          r.room_number,
+          c.old_expected_checkout::TEXT as old_expected_checkout,
+          c.new_expected_checkout::TEXT as new_expected_checkout,
+          c.allocation_ended,
+          c.details
+         FROM academic_rollover_changes c
+         INNER JOIN students s ON c.student_id = s.id
+         LEFT JOIN allocations a ON c.allocation_id = a.id
+         LEFT JOIN rooms r ON a.room_id = r.id
+         LEFT JOIN hostels h ON r.hostel_id = h.id
+         WHERE c.rollover_id = $1
+         ORDER BY c.id`,
+        [rolloverId]
+    );
+    return result.rows;
+}
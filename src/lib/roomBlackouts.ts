@@ -0,0 +1,204 @@
+/**
+ * Room Blackouts Module
+ * ======================
+ * Maintenance windows that close a room, and the relocation plan for the
+ * students living in it.
+ *
+ * RELOCATION RULES:
+ * 1. Each occupant is offered a room of the same room type whose hostel
+ *    accepts their gender
+ * 2. The target must be in service and free of any maintenance window that
+ *    overlaps the blackout
+ * 3. Rooms in the same hostel win, then the fullest room with a free bed,
+ *    so occupants stay close and rooms fill before new ones are opened
+ * 4. Beds promised earlier in the plan are not promised twice
+ *
+ * The plan is advisory: moves are carried out with the normal transfer
+ * endpoint (POST /api/allocations/[id]/transfer).
+ *
+ * Bed bookings with a night inside a window are flagged, not cancelled: they
+ * cannot check in while the room is closed (JOB 4), so staff move or cancel
+ * them.
+ */
+
+import { query } from '@/lib/db';
+import { listBookings } from '@/lib/bookings';
+import { BedBooking, BlackoutJobResult, RelocationPlanEntry, RoomBlackout } from '@/lib/types';
+
+export const BLACKOUT_REASONS = ['renovation', 'pest_control', 'deep_cleaning', 'repairs', 'other'];
+
+interface CandidateRoom {
+    id: number;
+    room_number: string;
+    hostel_id: number;
+    hostel_name: string;
+    gender_allowed: string;
+    free_beds: number;
+}
+
+const BLACKOUT_COLUMNS = `
+    b.id,
+    b.room_id,
+    b.reason,
+    b.notes,
+    b.starts_on::TEXT as starts_on,
+    b.ends_on::TEXT as ends_on,
+    b.status,
+    b.closed_room,
+    b.created_by,
+    b.created_at,
+    b.updated_at,
+    r.room_number,
+    h.name as hostel_name,
+    (SELECT COUNT(*)::INTEGER FROM allocations a WHERE a.room_id = b.room_id AND a.is_active = TRUE) as occupants`;
+
+/**
+ * Maintenance windows, upcoming first
+ */
+export async function listBlackouts(filters: { id?: number; room_id?: number; status?: string } = {}): Promise<RoomBlackout[]> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    let paramIndex = 1;
+
+    if (filters.id !== undefined) {
+        conditions.push(`b.id = $${paramIndex++}`);
+        params.push(filters.id);
+    }
+    if (filters.room_id !== undefined) {
+        conditions.push(`b.room_id = $${paramIndex++}`);
+        params.push(filters.room_id);
+    }
+    if (filters.status) {
+        conditions.push(`b.status = $${paramIndex++}`);
+        params.push(filters.status);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const result = await query<RoomBlackout>(
+        `SELECT ${BLACKOUT_COLUMNS}
+         FROM room_blackouts b
+         INNER JOIN rooms r ON b.room_id = r.id
+         INNER JOIN hostels h ON r.hostel_id = h.id
+         ${whereClause}
+         ORDER BY
+           CASE b.status WHEN 'active' THEN 1 WHEN 'scheduled' THEN 2 ELSE 3 END,
+           b.starts_on, b.id`,
+        params
+    );
+
+    return result.rows;
+}
+
+/**
+ * Where the current occupants of a blacked-out room could go
+ */
+export async function buildRelocationPlan(blackout: RoomBlackout): Promise<RelocationPlanEntry[]> {
+    const occupants = await query<{
+        allocation_id: number;
+        student_id: number;
+        student_name: string;
+        registration_number: string;
+        gender: string;
+    }>(
+        `SELECT
+          a.id as allocation_id,
+          s.id as student_id,
+          s.first_name || ' ' || s.last_name as student_name,
+          s.registration_number,
+          s.gender
+         FROM allocations a
+         INNER JOIN students s ON a.student_id = s.id
+         WHERE a.room_id = $1 AND a.is_active = TRUE
+         ORDER BY s.first_name, s.last_name`,
+        [blackout.room_id]
+    );
+
+    if (occupants.rows.length === 0) return [];
+
+    const source = await query<{ hostel_id: number }>('SELECT hostel_id FROM rooms WHERE id = $1', [blackout.room_id]);
+    const sourceHostelId = source.rows[0]?.hostel_id;
+
+    // Same room type, in service, no window overlapping this one; a bed must
+    // be free from today on (bed_is_free), as a move keeps no end date in view
+    const candidates = await query<CandidateRoom>(
+        `SELECT
+          r.id,
+          r.room_number,
+          h.id as hostel_id,
+          h.name as hostel_name,
+          h.gender_allowed,
+          COUNT(bd.id)::INTEGER as free_beds
+         FROM rooms r
+         INNER JOIN hostels h ON r.hostel_id = h.id
+         INNER JOIN beds bd ON bd.room_id = r.id AND bed_is_free(bd.id)
+         WHERE r.id <> $1
+           AND r.is_available = TRUE
+           AND r.room_type = (SELECT room_type FROM rooms WHERE id = $1)
+           AND NOT EXISTS (
+             SELECT 1 FROM room_blackouts ob
+             WHERE ob.room_id = r.id
+               AND ob.status IN ('scheduled', 'active')
+               AND ob.starts_on <= $3::DATE
+               AND ob.ends_on >= $2::DATE
+           )
+         GROUP BY r.id, h.id`,
+        [blackout.room_id, blackout.starts_on, blackout.ends_on]
+    );
+
+    const freeBeds = new Map(candidates.rows.map(room => [room.id, room.free_beds]));
+
+    return occupants.rows.map(occupant => {
+        const target = candidates.rows
+            .filter(room => room.gender_allowed === 'other' || room.gender_allowed === occupant.gender)
+            .filter(room => (freeBeds.get(room.id) ?? 0) > 0)
+            .sort((a, b) =>
+                Number(b.hostel_id === sourceHostelId) - Number(a.hostel_id === sourceHostelId) ||
+                (freeBeds.get(a.id) ?? 0) - (freeBeds.get(b.id) ?? 0) ||
+                a.room_number.localeCompare(b.room_number)
+            )[0];
+
+        if (target) {
+            freeBeds.set(target.id, (freeBeds.get(target.id) ?? 0) - 1);
+        }
+
+        return {
+            allocation_id: occupant.allocation_id,
+            student_id: occupant.student_id,
+            student_name: occupant.student_name,
+            registration_number: occupant.registration_number,
+            target_room_id: target?.id ?? null,
+            target_room_number: target?.room_number ?? null,
+            target_hostel_name: target?.hostel_name ?? null,
+            reason: target
+                ? target.hostel_id === sourceHostelId ? 'Same hostel, same room type' : 'Same room type in another hostel'
+                : 'No free room of the same type for the whole window'
+        };
+    });
+}
+
+/**
+ * Live bookings of the room with a night inside the window
+ */
+export async function findAffectedBookings(blackout: RoomBlackout): Promise<BedBooking[]> {
+    return listBookings({
+        room_id: blackout.room_id,
+        status: 'booked',
+        during: { from: blackout.starts_on, to: blackout.ends_on }
+    });
+}
+
+/**
+ * Run the room blackouts job (JOB 2 in triggers.sql)
+ */
+export async function applyRoomBlackouts(asOf: string | null = null): Promise<BlackoutJobResult> {
+    const result = await query<BlackoutJobResult>(
+        `SELECT
+          COALESCE($1::DATE, CURRENT_DATE)::TEXT as as_of,
+          rooms_closed,
+          rooms_reopened
+         FROM apply_room_blackouts(COALESCE($1::DATE, CURRENT_DATE))`,
+        [asOf]
+    );
+    return result.rows[0];
+}
@@ -0,0 +1,57 @@
+/**
+ * Room Number Patterns
+ * =====================
+ * Expands a brace range into room numbers for the bulk room generator.
+ *
+ *   B-3{01..20}   ->  B-301, B-302, ... B-320
+ *   G{1..12}-W    ->  G1-W, G2-W, ... G12-W
+ *
+ * Exactly one {start..end} range is allowed. As in the shell, a leading
+ * zero on either bound pads every number to the wider bound.
+ */
+
+export const MAX_ROOMS_PER_PATTERN = 100;
+
+const RANGE = /\{(\d+)\.\.(\d+)\}/;
+
+export function expandRoomPattern(pattern: string): { rooms: string[] } | { error: string } {
+    const trimmed = pattern.trim();
+    const match = RANGE.exec(trimmed);
+
+    if (!match) {
+        return { error: 'Pattern needs a range such as B-3{01..20}' };
+    }
+
+    const prefix = trimmed.slice(0, match.index);
+    const suffix = trimmed.slice(match.index + match[0].length);
+
+    if (RANGE.test(suffix) || /[{}]/.test(prefix + suffix)) {
+        return { error: 'Pattern may contain only one {start..end} range' };
+    }
+
+    const [, startText, endText] = match;
+    const start = parseInt(startText, 10);
+    const end = parseInt(endText, 10);
+
+    if (end < start) {
+        return { error: 'Range end must not be below its start' };
+    }
+
+    if (end - start + 1 > MAX_ROOMS_PER_PATTERN) {
+        return { error: `A pattern can create at most ${MAX_ROOMS_PER_PATTERN} rooms` };
+    }
+
+    const padded = /^0\d/.test(startText) || /^0\d/.test(endText);
+    const width = padded ? Math.max(startText.length, endText.length) : 0;
+
+    const rooms: string[] = [];
+    for (let n = start; n <= end; n++) {
+        rooms.push(`${prefix}${String(n).padStart(width, '0')}${suffix}`);
+    }
+
+    if (rooms.some(room => room.length > 20)) {
+        return { error: 'Room numbers can be at most 20 characters' };
+    }
+
+    return { rooms };
+}
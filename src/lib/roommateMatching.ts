@@ -0,0 +1,221 @@
+/**
+ * Roommate Matching Module
+ * =========================
+ * Suggests unallocated students for the free beds of a shared room.
+ *
+ * MATCHING RULES:
+ * 1. Candidates are active students without an active allocation whose
+ *    gender the room's hostel accepts
+ * 2. Each candidate is compared with every current occupant on the
+ *    lifestyle questionnaire; answers missing on either side are skipped
+ *    - sleep schedule (weight 3): same = match, 'flexible' = partial
+ *    - study habits (weight 2): same = match, 'outside_room' = partial
+ *    - smoking (weight 3): must be the same
+ *    - cleanliness (weight 2): closer on the 1-5 scale is better
+ * 3. The score is the weighted match averaged over occupants (0-100);
+ *    it is null when the room is empty or nothing could be compared
+ * 4. Ties go to more occupants in the same department, then the smallest
+ *    gap in year of study, then name
+ */
+
+import { query } from '@/lib/db';
+import { RoommateSuggestion, StudentLifestyle } from '@/lib/types';
+
+type Answers = Pick<StudentLifestyle, 'sleep_schedule' | 'study_habits' | 'smokes' | 'cleanliness'>;
+
+interface Person extends Answers {
+    student_id: number;
+    student_name: string;
+    registration_number: string;
+    department: string | null;
+    year_of_study: number | null;
+}
+
+export interface RoommateSuggestions {
+    room_id: number;
+    room_number: string;
+    hostel_name: string;
+    free_beds: number;
+    occupants: Person[];
+    suggestions: RoommateSuggestion[];
+}
+
+const PERSON_COLUMNS = `
+    s.id as student_id,
+    s.first_name || ' ' || s.last_name as student_name,
+    s.registration_number,
+    s.department,
+    s.year_of_study,
+    l.sleep_schedule,
+    l.study_habits,
+    l.smokes,
+    l.cleanliness`;
+
+const SLEEP_LABELS: Record<string, string> = {
+    early_bird: 'early birds',
+    night_owl: 'night owls',
+    flexible: 'flexible sleepers'
+};
+
+/**
+ * Compare two students. Returns the weighted match (0-1) over the answers
+ * both gave, or null when there was nothing to compare.
+ */
+function comparePair(candidate: Answers, occupant: Person, reasons: Set<string>): number | null {
+    let earned = 0;
+    let possible = 0;
+    const name = occupant.student_name;
+
+    if (candidate.sleep_schedule && occupant.sleep_schedule) {
+        possible += 3;
+        if (candidate.sleep_schedule === occupant.sleep_schedule) {
+            earned += 3;
+            reasons.add(`Both ${SLEEP_LABELS[candidate.sleep_schedule]}`);
+        } else if (candidate.sleep_schedule === 'flexible' || occupant.sleep_schedule === 'flexible') {
+            earned += 2;
+        } else {
+            reasons.add(`Sleep schedule clashes with ${name}`);
+        }
+    }
+
+    if (candidate.study_habits && occupant.study_habits) {
+        possible += 2;
+        if (candidate.study_habits === occupant.study_habits) {
+            earned += 2;
+            reasons.add('Same study habits');
+        } else if (candidate.study_habits === 'outside_room' || occupant.study_habits === 'outside_room') {
+            earned += 1;
+        } else {
+            reasons.add(`Study noise preference differs from ${name}`);
+        }
+    }
+
+    if (candidate.smokes !== null && occupant.smokes !== null) {
+        possible += 3;
+        if (candidate.smokes === occupant.smokes) {
+            earned += 3;
+        } else {
+            reasons.add(`Smoking preference differs from ${name}`);
+        }
+    }
+
+    if (candidate.cleanliness !== null && occupant.cleanliness !== null) {
+        const gap = Math.abs(candidate.cleanliness - occupant.cleanliness);
+        possible += 2;
+        earned += 2 * (1 - gap / 4);
+        if (gap >= 3) reasons.add(`Very different tidiness from ${name}`);
+    }
+
+    return possible > 0 ? earned / possible : null;
+}
+
+function scoreCandidate(candidate: Person, occupants: Person[]): RoommateSuggestion {
+    const reasons = new Set<string>();
+    const matches = occupants
+        .map(occupant => comparePair(candidate, occupant, reasons))
+        .filter((match): match is number => match !== null);
+
+    const answered = candidate.sleep_schedule || candidate.study_habits ||
+        candidate.smokes !== null || candidate.cleanliness !== null;
+    if (!answered) reasons.add('Has not filled in the lifestyle questionnaire');
+
+    const sameDepartment = occupants.filter(o => candidate.department && o.department === candidate.department).length;
+    if (sameDepartment > 0) reasons.add(`Same department (${candidate.department})`);
+
+    const gaps = occupants
+        .filter(o => candidate.year_of_study !== null && o.year_of_study !== null)
+        .map(o => Math.abs((candidate.year_of_study ?? 0) - (o.year_of_study ?? 0)));
+
+    return {
+        student_id: candidate.student_id,
+        student_name: candidate.student_name,
+        registration_number: candidate.registration_number,
+        department: candidate.department,
+        year_of_study: candidate.year_of_study,
+        score: matches.length > 0
+            ? Math.round((matches.reduce((sum, match) => sum + match, 0) / matches.length) * 100)
+            : null,
+        same_department: sameDepartment,
+        year_gap: gaps.length > 0 ? Math.min(...gaps) : null,
+        reasons: [...reasons]
+    };
+}
+
+const compareSuggestions = (a: RoommateSuggestion, b: RoommateSuggestion) =>
+    (b.score ?? -1) - (a.score ?? -1) ||
+    b.same_department - a.same_department ||
+    (a.year_gap ?? Infinity) - (b.year_gap ?? Infinity) ||
+    a.student_name.localeCompare(b.student_name);
+
+/**
+ * Rank unallocated students for a room's free beds
+ */
+export async function suggestRoommates(
+    roomId: number,
+    limit: number
+): Promise<RoommateSuggestions | { error: string; status: number }> {
+    const roomResult = await query<{
+        room_number: string;
+        hostel_name: string;
+        gender_allowed: string;
+        free_beds: number;
+    }>(
+        `SELECT
+          r.room_number,
+          h.name as hostel_name,
+          h.gender_allowed,
+          (
+            SELECT COUNT(*)::INTEGER FROM beds b
+            WHERE b.room_id = r.id AND b.is_available = TRUE
+              AND NOT EXISTS (
+                SELECT 1 FROM allocations a WHERE a.bed_id = b.id AND a.is_active = TRUE
+              )
+          ) as free_beds
+         FROM rooms r
+         INNER JOIN hostels h ON r.hostel_id = h.id
+         WHERE r.id = $1`,
+        [roomId]
+    );
+
+    if (roomResult.rows.length === 0) {
+        return { error: 'Room not found', status: 404 };
+    }
+
+    const room = roomResult.rows[0];
+
+    const occupants = await query<Person>(
+        `SELECT ${PERSON_COLUMNS}
+         FROM allocations a
+         INNER JOIN students s ON a.student_id = s.id
+         LEFT JOIN student_lifestyle l ON l.student_id = s.id
+         WHERE a.room_id = $1 AND a.is_active = TRUE
+         ORDER BY s.first_name, s.last_name`,
+        [roomId]
+    );
+
+    const candidates = await query<Person>(
+        `SELECT ${PERSON_COLUMNS}
+         FROM students s
+         LEFT JOIN student_lifestyle l ON l.student_id = s.id
+         WHERE s.is_active = TRUE
+           AND ($1 = 'other' OR s.gender::TEXT = $1)
+           AND NOT EXISTS (
+             SELECT 1 FROM allocations a WHERE a.student_id = s.id AND a.is_active = TRUE
+           )`,
+        [room.gender_allowed]
+    );
+
+    const suggestions = candidates.rows
+        .map(candidate => scoreCandidate(candidate, occupants.rows))
+        .sort(compareSuggestions)
+        .slice(0, limit);
+
+    return {
+        room_id: roomId,
+        room_number: room.room_number,
+        hostel_name: room.hostel_name,
+        free_beds: room.free_beds,
+        occupants: occupants.rows,
+        suggestions
+    };
+}
@@ -0,0 +1,181 @@
+/**
+ * Stay History Module
+ * ====================
+ * Every allocation a student or a room has had, active or ended, with the
+ * payments and complaints that belong to each stay. Used to look into damage
+ * and billing disputes after a student has moved on.
+ *
+ * LINKS:
+ * - Payments belong to a stay through payments.allocation_id
+ * - Complaints only record the room, so a complaint is linked to the
+ *   complainant's latest stay in that room that had begun by the filing date
+ *   (a complaint filed after checkout still lands on the stay it is about)
+ * - Damage charges come from the stay's check-out inspection
+ */
+
+import { query } from '@/lib/db';
+import { RoomTimeline, StayComplaint, StayPayment, StayRecord, StudentTimeline } from '@/lib/types';
+
+const STAY_COLUMNS = `
+    a.id as allocation_id,
+    s.id as student_id,
+    s.first_name || ' ' || s.last_name as student_name,
+    s.registration_number,
+    r.id as room_id,
+    r.room_number,
+    bd.bed_label,
+    h.name as hostel_name,
+    a.allocation_date::TEXT as allocation_date,
+    a.expected_checkout::TEXT as expected_checkout,
+    a.actual_checkout::TEXT as actual_checkout,
+    a.is_active,
+    (COALESCE(a.actual_checkout, CASE WHEN a.is_active THEN CURRENT_DATE END) - a.allocation_date)::INTEGER as nights,
+    a.previous_allocation_id,
+    COALESCE((SELECT SUM(p.amount) FROM payments p WHERE p.allocation_id = a.id), 0)::FLOAT as amount_billed,
+    COALESCE((SELECT SUM(p.amount_paid) FROM payments p WHERE p.allocation_id = a.id), 0)::FLOAT as amount_paid,
+    COALESCE((
+      SELECT SUM(d.charge_amount)
+      FROM room_inspections i
+      INNER JOIN inspection_damages d ON d.inspection_id = i.id
+      WHERE i.allocation_id = a.id AND i.inspection_type = 'check_out' AND d.waived = FALSE
+    ), 0)::FLOAT as damage_charges`;
+
+const STAY_JOINS = `
+    FROM allocations a
+    INNER JOIN students s ON a.student_id = s.id
+    INNER JOIN rooms r ON a.room_id = r.id
+    INNER JOIN hostels h ON r.hostel_id = h.id
+    LEFT JOIN beds bd ON a.bed_id = bd.id`;
+
+const COMPLAINT_COLUMNS = `
+    c.id,
+    (
+      SELECT a.id FROM allocations a
+      WHERE a.student_id = c.student_id
+        AND a.room_id = c.room_id
+        AND a.allocation_date <= c.created_at::DATE
+      ORDER BY a.allocation_date DESC, a.id DESC
+      LIMIT 1
+    ) as allocation_id,
+    s.id as student_id,
+    s.first_name || ' ' || s.last_name as student_name,
+    r.id as room_id,
+    r.room_number,
+    bd.bed_label,
+    c.category,
+    c.title,
+    c.status,
+    c.created_at,
+    c.resolved_at`;
+
+const COMPLAINT_JOINS = `
+    FROM complaints c
+    INNER JOIN students s ON c.student_id = s.id
+    INNER JOIN rooms r ON c.room_id = r.id
+    LEFT JOIN beds bd ON c.bed_id = bd.id`;
+
+/**
+ * A student's stays, newest first, each with its payments and complaints.
+ * Returns null when the student does not exist.
+ */
+export async function getStudentTimeline(studentId: number): Promise<StudentTimeline | null> {
+    const student = await query<{ student_name: string; registration_number: string }>(
+        `SELECT first_name || ' ' || last_name as student_name, registration_number
+         FROM students WHERE id = $1`,
+        [studentId]
+    );
+
+    if (student.rows.length === 0) return null;
+
+    const [stays, payments, complaints] = await Promise.all([
+        query<StayRecord>(
+            `SELECT ${STAY_COLUMNS}
+             ${STAY_JOINS}
+             WHERE a.student_id = $1
+             ORDER BY a.allocation_date DESC, a.id DESC`,
+            [studentId]
+        ),
+        query<StayPayment>(
+            `SELECT
+              p.id,
+              p.allocation_id,
+              p.amount::FLOAT as amount,
+              p.amount_paid::FLOAT as amount_paid,
+              p.due_date::TEXT as due_date,
+              p.payment_date::TEXT as payment_date,
+              p.payment_status,
+              p.semester,
+              p.receipt_number,
+              p.notes
+             FROM payments p
+             WHERE p.student_id = $1
+             ORDER BY p.due_date, p.id`,
+            [studentId]
+        ),
+        query<StayComplaint>(
+            `SELECT ${COMPLAINT_COLUMNS}
+             ${COMPLAINT_JOINS}
+             WHERE c.student_id = $1
+             ORDER BY c.created_at`,
+            [studentId]
+        )
+    ]);
+
+    const stayIds = new Set(stays.rows.map(stay => stay.allocation_id));
+    const linked = (allocationId: number | null) => allocationId !== null && stayIds.has(allocationId);
+
+    return {
+        student_id: studentId,
+        ...student.rows[0],
+        stays: stays.rows.map(stay => ({
+            ...stay,
+            payments: payments.rows.filter(payment => payment.allocation_id === stay.allocation_id),
+            complaints: complaints.rows.filter(complaint => complaint.allocation_id === stay.allocation_id)
+        })),
+        unlinked_payments: payments.rows.filter(payment => !linked(payment.allocation_id)),
+        unlinked_complaints: complaints.rows.filter(complaint => !linked(complaint.allocation_id))
+    };
+}
+
+/**
+ * Everyone who has lived in a room, newest first, and every complaint about
+ * it. Returns null when the room does not exist.
+ */
+export async function getRoomTimeline(roomId: number): Promise<RoomTimeline | null> {
+    const room = await query<{ room_number: string; hostel_name: string }>(
+        `SELECT r.room_number, h.name as hostel_name
+         FROM rooms r
+         INNER JOIN hostels h ON r.hostel_id = h.id
+         WHERE r.id = $1`,
+        [roomId]
+    );
+
+    if (room.rows.length === 0) return null;
+
+    const [stays, complaints] = await Promise.all([
+        query<StayRecord>(
+            `SELECT ${STAY_COLUMNS}
+             ${STAY_JOINS}
+             WHERE a.room_id = $1
+             ORDER BY a.allocation_date DESC, a.id DESC`,
+            [roomId]
+        ),
+        query<StayComplaint>(
+            `SELECT ${COMPLAINT_COLUMNS}
+             ${COMPLAINT_JOINS}
+             WHERE c.room_id = $1
+             ORDER BY c.created_at DESC`,
+            [roomId]
+        )
+    ]);
+
+    return {
+        room_id: roomId,
+        ...room.rows[0],
+        stays: stays.rows.map(stay => ({
+            ...stay,
+            complaints_filed: complaints.rows.filter(complaint => complaint.allocation_id === stay.allocation_id).length
+        })),
+        complaints: complaints.rows
+    };
+}
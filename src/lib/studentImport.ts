@@ -0,0 +1,385 @@
+/**
+ * Student Import Module
+ * ======================
+ * Bulk onboarding of students from a CSV or XLSX sheet.
+ *
+ * VALIDATION (per row, mirroring the students table):
+ * 1. registration_number, first_name, last_name, email and gender are required
+ * 2. email must pass the valid_email CHECK pattern
+ * 3. gender must be a gender_type value; year_of_study must be 1-6
+ * 4. registration_number and email must be new, both in the database and
+ *    within the sheet (emails compared case-insensitively)
+ * 5. An optional room_number column (plus hostel when numbers repeat across
+ *    hostels) allocates the student: the room must be open, allow the
+ *    student's gender and still have a free bed after earlier rows
+ *
+ * The same validation runs for the dry run and for the commit; the commit
+ * repeats it inside the transaction with the named rooms locked, then
+ * inserts only the valid rows.
+ */
+
+import { PoolClient } from 'pg';
+import { getClient } from '@/lib/db';
+import { parseCsv } from '@/lib/csv';
+import { readXlsx } from '@/lib/xlsx';
+import { StudentImportReport, StudentImportRowError } from '@/lib/types';
+
+export const MAX_IMPORT_ROWS = 2000;
+
+export const IMPORT_COLUMNS = [
+    'registration_number', 'first_name', 'last_name', 'email', 'gender', 'phone',
+    'date_of_birth', 'address', 'guardian_name', 'guardian_phone', 'department',
+    'year_of_study', 'hostel', 'room_number'
+];
+
+const REQUIRED_COLUMNS = ['registration_number', 'first_name', 'last_name', 'email', 'gender'];
+
+// Common header spellings mapped onto the column names above
+const COLUMN_ALIASES: Record<string, string> = {
+    reg_no: 'registration_number',
+    registration_no: 'registration_number',
+    dob: 'date_of_birth',
+    year: 'year_of_study',
+    hostel_name: 'hostel',
+    room: 'room_number'
+};
+
+// VARCHAR limits from schema.sql
+const FIELD_LIMITS: Record<string, number> = {
+    registration_number: 50,
+    first_name: 50,
+    last_name: 50,
+    email: 100,
+    phone: 20,
+    guardian_name: 100,
+    guardian_phone: 20,
+    department: 100
+};
+
+// Same pattern as the valid_email constraint
+const EMAIL_PATTERN = /^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$/;
+
+interface ImportRow {
+    row: number;
+    values: Record<string, string>;
+    errors: string[];
+    room_id: number | null;
+}
+
+interface ImportRoom {
+    id: number;
+    room_number: string;
+    hostel_name: string;
+    gender_allowed: string;
+    is_open: boolean;
+    free_beds: number;
+}
+
+/**
+ * Rows of an uploaded file, chosen by extension
+ */
+export function readImportFile(fileName: string, data: Buffer): string[][] {
+    if (/\.xlsx$/i.test(fileName)) return readXlsx(data);
+    if (/\.(csv|txt)$/i.test(fileName)) return parseCsv(data.toString('utf8'));
+    throw new Error('Upload a .csv or .xlsx file');
+}
+
+// Excel stores dates as days since 1899-12-30
+function normalizeDate(value: string): string | null {
+    let date: Date;
+    if (/^\d+(\.\d+)?$/.test(value)) {
+        date = new Date(Date.UTC(1899, 11, 30) + Math.floor(parseFloat(value)) * 86400000);
+    } else if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        date = new Date(`${value}T00:00:00Z`);
+        if (date.toISOString().slice(0, 10) !== value) return null;
+    } else {
+        return null;
+    }
+    return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+function placeholders(count: number, from = 1): string {
+    return Array.from({ length: count }, (_, i) => `$${i + from}`).join(', ');
+}
+
+function parseSheet(table: string[][]): { rows: ImportRow[]; hasRoom: boolean } | { error: string } {
+    const headerIndex = table.findIndex(cells => cells.some(cell => cell.trim() !== ''));
+    if (headerIndex < 0) return { error: 'The file is empty' };
+
+    const header = table[headerIndex].map(cell => {
+        const key = cell.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+        return COLUMN_ALIASES[key] || key;
+    });
+
+    const missing = REQUIRED_COLUMNS.filter(column => !header.includes(column));
+    if (missing.length > 0) {
+        return { error: `Missing required column(s): ${missing.join(', ')}` };
+    }
+
+    const rows: ImportRow[] = [];
+    for (let i = headerIndex + 1; i < table.length; i++) {
+        const cells = table[i];
+        if (!cells.some(cell => cell.trim() !== '')) continue;
+
+        const values: Record<string, string> = {};
+        header.forEach((column, index) => {
+            if (IMPORT_COLUMNS.includes(column)) values[column] = (cells[index] || '').trim();
+        });
+        rows.push({ row: i + 1, values, errors: [], room_id: null });
+    }
+
+    if (rows.length === 0) return { error: 'The file has a header but no student rows' };
+    if (rows.length > MAX_IMPORT_ROWS) return { error: `At most ${MAX_IMPORT_ROWS} students can be imported at once` };
+
+    return { rows, hasRoom: header.includes('room_number') };
+}
+
+function checkFields(row: ImportRow) {
+    const v = row.values;
+
+    for (const column of REQUIRED_COLUMNS) {
+        if (!v[column]) row.errors.push(`${column} is required`);
+    }
+
+    for (const [column, limit] of Object.entries(FIELD_LIMITS)) {
+        if (v[column] && v[column].length > limit) row.errors.push(`${column} is longer than ${limit} characters`);
+    }
+
+    if (v.email && !EMAIL_PATTERN.test(v.email)) row.errors.push(`email "${v.email}" is not a valid address`);
+
+    if (v.gender) {
+        v.gender = v.gender.toLowerCase();
+        if (!['male', 'female', 'other'].includes(v.gender)) row.errors.push('gender must be male, female or other');
+    }
+
+    if (v.year_of_study) {
+        const year = Number(v.year_of_study);
+        if (!Number.isInteger(year) || year < 1 || year > 6) row.errors.push('year_of_study must be a whole number from 1 to 6');
+    }
+
+    if (v.date_of_birth) {
+        const date = normalizeDate(v.date_of_birth);
+        if (date) v.date_of_birth = date;
+        else row.errors.push('date_of_birth must be a date in YYYY-MM-DD format');
+    }
+
+    if (v.hostel && !v.room_number) row.errors.push('hostel is given without a room_number');
+}
+
+async function checkDuplicates(client: PoolClient, rows: ImportRow[]) {
+    const regNumbers = rows.map(r => r.values.registration_number).filter(Boolean);
+    const emails = rows.map(r => r.values.email?.toLowerCase()).filter(Boolean);
+
+    const existingReg = new Set<string>();
+    const existingEmail = new Set<string>();
+
+    if (regNumbers.length > 0) {
+        const result = await client.query<{ registration_number: string }>(
+            `SELECT registration_number FROM students WHERE registration_number IN (${placeholders(regNumbers.length)})`,
+            regNumbers
+        );
+        result.rows.forEach(r => existingReg.add(r.registration_number));
+    }
+    if (emails.length > 0) {
+        const result = await client.query<{ email: string }>(
+            `SELECT LOWER(email) as email FROM students WHERE LOWER(email) IN (${placeholders(emails.length)})`,
+            emails
+        );
+        result.rows.forEach(r => existingEmail.add(r.email));
+    }
+
+    const seenReg = new Map<string, number>();
+    const seenEmail = new Map<string, number>();
+
+    for (const row of rows) {
+        const reg = row.values.registration_number;
+        const email = row.values.email?.toLowerCase();
+
+        if (reg) {
+            if (existingReg.has(reg)) row.errors.push(`registration_number ${reg} already exists`);
+            else if (seenReg.has(reg)) row.errors.push(`registration_number ${reg} repeats row ${seenReg.get(reg)}`);
+            else seenReg.set(reg, row.row);
+        }
+        if (email) {
+            if (existingEmail.has(email)) row.errors.push(`email ${row.values.email} already exists`);
+            else if (seenEmail.has(email)) row.errors.push(`email ${row.values.email} repeats row ${seenEmail.get(email)}`);
+            else seenEmail.set(email, row.row);
+        }
+    }
+}
+
+async function assignRooms(client: PoolClient, rows: ImportRow[], lockRooms: boolean) {
+    const wanted = rows.filter(r => r.values.room_number);
+    if (wanted.length === 0) return;
+
+    const numbers = [...new Set(wanted.map(r => r.values.room_number.toLowerCase()))];
+
+    // Beds free from today on, by the allocation trigger's own rule
+    // (bed_is_free); imported stays have no end date
+    const result = await client.query<ImportRoom>(
+        `SELECT
+          r.id,
+          r.room_number,
+          h.name as hostel_name,
+          h.gender_allowed,
+          (r.is_available AND h.is_active AND NOT room_is_blacked_out(r.id)) as is_open,
+          (
+            SELECT COUNT(*)::INTEGER FROM beds b
+            WHERE b.room_id = r.id AND bed_is_free(b.id)
+          ) as free_beds
+         FROM rooms r
+         INNER JOIN hostels h ON r.hostel_id = h.id
+         WHERE LOWER(r.room_number) IN (${placeholders(numbers.length)})
+         ORDER BY r.id
+         ${lockRooms ? 'FOR UPDATE OF r' : ''}`,
+        numbers
+    );
+
+    const freeBeds = new Map(result.rows.map(room => [room.id, room.free_beds]));
+
+    for (const row of wanted) {
+        // Rows that fail other checks do not take up a bed
+        if (row.errors.length > 0) continue;
+
+        const { room_number, hostel, gender } = row.values;
+        const matches = result.rows.filter(room =>
+            room.room_number.toLowerCase() === room_number.toLowerCase() &&
+            (!hostel || room.hostel_name.toLowerCase() === hostel.toLowerCase())
+        );
+        const label = hostel ? `${hostel} room ${room_number}` : `Room ${room_number}`;
+
+        if (matches.length === 0) {
+            row.errors.push(`${label} not found`);
+            continue;
+        }
+        if (matches.length > 1) {
+            row.errors.push(`Room ${room_number} exists in several hostels; add a hostel column`);
+            continue;
+        }
+
+        const room = matches[0];
+        if (!room.is_open) {
+            row.errors.push(`${label} is not open for allocation`);
+        } else if (room.gender_allowed !== 'other' && room.gender_allowed !== gender) {
+            row.errors.push(`${label} is for ${room.gender_allowed} students only`);
+        } else if ((freeBeds.get(room.id) ?? 0) < 1) {
+            row.errors.push(`${label} has no free bed left`);
+        } else {
+            freeBeds.set(room.id, (freeBeds.get(room.id) ?? 0) - 1);
+            row.room_id = room.id;
+        }
+    }
+}
+
+async function validateRows(
+    client: PoolClient,
+    table: string[][],
+    lockRooms: boolean
+): Promise<{ rows: ImportRow[]; report: StudentImportReport } | { error: string }> {
+    const parsed = parseSheet(table);
+    if ('error' in parsed) return parsed;
+
+    const { rows, hasRoom } = parsed;
+    rows.forEach(checkFields);
+    await checkDuplicates(client, rows);
+    if (hasRoom) await assignRooms(client, rows, lockRooms);
+
+    const invalid = rows.filter(r => r.errors.length > 0);
+    const errors: StudentImportRowError[] = invalid.map(r => ({
+        row: r.row,
+        registration_number: r.values.registration_number || null,
+        email: r.values.email || null,
+        errors: r.errors
+    }));
+
+    return {
+        rows,
+        report: {
+            total_rows: rows.length,
+            valid_rows: rows.length - invalid.length,
+            invalid_rows: invalid.length,
+            rows_with_room: rows.filter(r => r.room_id !== null).length,
+            errors
+        }
+    };
+}
+
+/**
+ * Dry run: the validation report without writing anything
+ */
+export async function previewStudentImport(table: string[][]): Promise<StudentImportReport | { error: string }> {
+    const client = await getClient();
+    try {
+        const result = await validateRows(client, table, false);
+        return 'error' in result ? result : result.report;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Insert every valid row (and its allocation) in one transaction
+ */
+export async function commitStudentImport(table: string[][], importedBy: string): Promise<StudentImportReport | { error: string }> {
+    const client = await getClient();
+
+    try {
+        await client.query('BEGIN');
+
+        const result = await validateRows(client, table, true);
+        if ('error' in result) {
+            await client.query('ROLLBACK');
+            return result;
+        }
+
+        let created = 0;
+        let allocated = 0;
+
+        for (const row of result.rows) {
+            if (row.errors.length > 0) continue;
+            const v = row.values;
+
+            const inserted = await client.query<{ id: number }>(
+                `INSERT INTO students (
+                  registration_number, first_name, last_name, email, phone, gender,
+                  date_of_birth, address, guardian_name, guardian_phone, department, year_of_study
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+                RETURNING id`,
+                [
+                    v.registration_number,
+                    v.first_name,
+                    v.last_name,
+                    v.email,
+                    v.phone || null,
+                    v.gender,
+                    v.date_of_birth || null,
+                    v.address || null,
+                    v.guardian_name || null,
+                    v.guardian_phone || null,
+                    v.department || null,
+                    v.year_of_study ? Number(v.year_of_study) : null
+                ]
+            );
+            created++;
+
+            if (row.room_id !== null) {
+                // trg_check_room_capacity picks the bed and updates occupancy
+                await client.query(
+                    `INSERT INTO allocations (student_id, room_id, allocation_date, notes, is_active)
+                     VALUES ($1, $2, CURRENT_DATE, $3, TRUE)`,
+                    [inserted.rows[0].id, row.room_id, `Allocated by student import (${importedBy})`]
+                );
+                allocated++;
+            }
+        }
+
+        await client.query('COMMIT');
+
+        return { ...result.report, created, allocated };
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+}
@@ -36,10 +36,25 @@ export interface Hostel {
     total_rooms: number;
     warden_name: string | null;
     warden_contact: string | null;
+    auto_assign_complaints: boolean;
+    is_active: boolean;
+    decommissioned_at: Date | null;
     created_at: Date;
     updated_at: Date;
 }
 
+export interface HostelDetail extends Hostel {
+    total_capacity: number;
+    total_occupancy: number;
+    occupancy_rate: number;
+    available_beds: number;
+    rooms_out_of_service: number;
+    total_complaints: number;
+    open_complaints: number;
+    resolved_complaints: number;
+    maintenance_staff: { id: number; name: string; phone: string; specialization: string | null; is_available: boolean }[];
+}
+
 export interface Room {
     id: number;
     hostel_id: number;
@@ -56,6 +71,54 @@ export interface Room {
     updated_at: Date;
     // Joined fields
     hostel_name?: string;
+    in_blackout?: boolean;    // Inside a scheduled maintenance window today
+}
+
+export interface Bed {
+    id: number;
+    room_id: number;
+    bed_label: string;
+    has_desk: boolean;
+    locker_number: string | null;
+    is_available: boolean;
+    notes: string | null;
+    created_at: Date;
+    updated_at: Date;
+    // Joined fields
+    allocation_id?: number | null;
+    student_id?: number | null;
+    student_name?: string | null;
+    registration_number?: string | null;
+    open_complaints?: number;
+}
+
+export interface RoomBlackout {
+    id: number;
+    room_id: number;
+    reason: 'renovation' | 'pest_control' | 'deep_cleaning' | 'repairs' | 'other';
+    notes: string | null;
+    starts_on: string;
+    ends_on: string;
+    status: 'scheduled' | 'active' | 'completed' | 'cancelled';
+    closed_room: boolean;
+    created_by: string | null;
+    created_at: Date;
+    updated_at: Date;
+    // Joined fields
+    room_number?: string;
+    hostel_name?: string;
+    occupants?: number;
+}
+
+export interface RelocationPlanEntry {
+    allocation_id: number;
+    student_id: number;
+    student_name: string;
+    registration_number: string;
+    target_room_id: number | null;
+    target_room_number: string | null;
+    target_hostel_name: string | null;
+    reason: string;
 }
 
 export interface Student {
@@ -77,20 +140,44 @@ export interface Student {
     updated_at: Date;
 }
 
+export interface StudentLifestyle {
+    student_id: number;
+    sleep_schedule: 'early_bird' | 'night_owl' | 'flexible' | null;
+    study_habits: 'silent_room' | 'background_noise' | 'outside_room' | null;
+    smokes: boolean | null;
+    cleanliness: number | null;   // 1 = relaxed, 5 = very tidy
+    updated_at: Date;
+}
+
+export interface RoommateSuggestion {
+    student_id: number;
+    student_name: string;
+    registration_number: string;
+    department: string | null;
+    year_of_study: number | null;
+    score: number | null;         // 0-100 compatibility with current occupants, null when nothing to compare
+    same_department: number;      // Occupants in the same department
+    year_gap: number | null;      // Smallest difference in year of study to an occupant
+    reasons: string[];
+}
+
 export interface Allocation {
     id: number;
     student_id: number;
     room_id: number;
+    bed_id: number | null;
     allocation_date: Date;
     expected_checkout: Date | null;
     actual_checkout: Date | null;
     is_active: boolean;
     notes: string | null;
+    previous_allocation_id: number | null;
     created_at: Date;
     updated_at: Date;
     // Joined fields
     student_name?: string;
     room_number?: string;
+    bed_label?: string | null;
     hostel_name?: string;
 }
 
@@ -104,12 +191,17 @@ export interface MaintenanceStaff {
     hostel_id: number | null;
     created_at: Date;
     updated_at: Date;
+    // Joined fields
+    hostel_name?: string | null;
+    active_complaints?: number;
+    resolved_complaints?: number;
 }
 
 export interface Complaint {
     id: number;
     student_id: number;
     room_id: number;
+    bed_id: number | null;
     category: 'electrical' | 'plumbing' | 'furniture' | 'cleaning' | 'pest_control' | 'internet' | 'security' | 'other';
     title: string;
     description: string;
@@ -125,6 +217,7 @@ export interface Complaint {
     // Joined fields
     student_name?: string;
     room_number?: string;
+    bed_label?: string | null;
     hostel_name?: string;
     staff_name?: string;
 }
@@ -134,6 +227,7 @@ export interface Payment {
     student_id: number;
     allocation_id: number | null;
     amount: number;
+    amount_paid: number;
     payment_date: Date | null;
     due_date: Date;
     payment_status: 'pending' | 'paid' | 'overdue' | 'partial';
@@ -142,12 +236,44 @@ export interface Payment {
     receipt_number: string | null;
     semester: string | null;
     notes: string | null;
+    late_fee_for: number | null;
+    billing_run_id: number | null;
     created_at: Date;
     updated_at: Date;
     // Joined fields
     student_name?: string;
 }
 
+export interface PaymentTransaction {
+    id: number;
+    payment_id: number;
+    amount: number;
+    payment_method: string;
+    transaction_id: string | null;
+    paid_on: Date;
+    recorded_by: string | null;
+    notes: string | null;
+    created_at: Date;
+}
+
+export type UserRole = 'admin' | 'warden' | 'staff' | 'student';
+
+export interface User {
+    id: number;
+    username: string;
+    role: UserRole;
+    display_name: string | null;
+    student_id: number | null;
+    staff_id: number | null;
+    is_active: boolean;
+    last_login_at: Date | null;
+    created_at: Date;
+    updated_at: Date;
+}
+
+// The subset of a user that is attached to every authenticated request
+export type SessionUser = Pick<User, 'id' | 'username' | 'role' | 'display_name' | 'student_id' | 'staff_id'>;
+
 // Analytics types
 export interface CategoryStats {
     category: string;
@@ -212,3 +338,426 @@ export interface MonthlyTrend {
     other: number;
     resolution_rate: number;
 }
+
+export interface StaffWorkload {
+    staff_id: number;
+    staff_name: string;
+    specialization: string | null;
+    phone: string;
+    assigned_hostel: string | null;
+    is_available: boolean;
+    active_complaints: number;
+    resolved_complaints: number;
+    avg_resolution_hours: number | null;
+}
+
+export interface LateFeePolicy {
+    id: number;
+    hostel_id: number;
+    grace_days: number;
+    fee_type: 'flat' | 'percent';
+    fee_value: number;
+    max_fee: number | null;
+    is_active: boolean;
+    created_at: Date;
+    updated_at: Date;
+    // Joined fields
+    hostel_name?: string;
+}
+
+export interface OverdueJobResult {
+    as_of: string;
+    payments_marked: number;
+    late_fees_created: number;
+}
+
+export interface BlackoutJobResult {
+    as_of: string;
+    rooms_closed: number;
+    rooms_reopened: number;
+}
+
+export interface CheckoutJobResult {
+    as_of: string;
+    reminders_logged: number;
+    overstays_logged: number;
+    checkouts_done: number;
+    checkouts_blocked: number;
+    waitlist_offers: number;
+}
+
+export type CheckoutEventType = 'reminder' | 'overstay' | 'auto_checkout' | 'checkout_blocked';
+
+export interface CheckoutEvent {
+    id: number;
+    allocation_id: number;
+    event_type: CheckoutEventType;
+    expected_checkout: string;
+    event_date: string;
+    details: string | null;
+    created_at: Date;
+    // Joined fields
+    student_id?: number;
+    student_name?: string;
+    registration_number?: string;
+    room_number?: string;
+    hostel_name?: string;
+}
+
+// An active stay whose expected checkout is close or has passed
+export interface UpcomingCheckout {
+    allocation_id: number;
+    student_id: number;
+    student_name: string;
+    registration_number: string;
+    room_id: number;
+    room_number: string;
+    bed_label: string | null;
+    hostel_name: string;
+    expected_checkout: string;
+    days_left: number;                  // Negative once the student is overstaying
+    needs_inspection: boolean;          // Checked in with an inspection, check-out inspection missing
+}
+
+export type BookingStatus = 'booked' | 'checked_in' | 'cancelled' | 'expired';
+
+// A bed reserved for [starts_on, ends_on): the student leaves on ends_on
+export interface BedBooking {
+    id: number;
+    student_id: number;
+    room_id: number;
+    bed_id: number;
+    starts_on: string;
+    ends_on: string;
+    status: BookingStatus;
+    allocation_id: number | null;       // Set once checked in
+    notes: string | null;
+    created_by: string | null;
+    created_at: Date;
+    updated_at: Date;
+    // Joined fields
+    student_name?: string;
+    registration_number?: string;
+    room_number?: string;
+    bed_label?: string;
+    hostel_id?: number;
+    hostel_name?: string;
+}
+
+export interface BookingJobResult {
+    as_of: string;
+    bookings_started: number;
+    bookings_blocked: number;
+    bookings_expired: number;
+}
+
+export interface AvailabilityDay {
+    date: string;
+    free_beds: number;
+}
+
+// Free beds per night of [from, to) in one hostel
+export interface HostelAvailability {
+    hostel_id: number;
+    hostel_name: string;
+    from: string;
+    to: string;
+    total_beds: number;                 // Beds in service, in rooms in service
+    free_whole_range: number;           // Beds free on every night of the range
+    days: AvailabilityDay[];
+    rooms: {
+        room_id: number;
+        room_number: string;
+        room_type: string;
+        total_beds: number;
+        free_whole_range: number;
+    }[];
+}
+
+// One stay (allocation) in a student's or a room's history
+export interface StayRecord {
+    allocation_id: number;
+    student_id: number;
+    student_name: string;
+    registration_number: string;
+    room_id: number;
+    room_number: string;
+    bed_label: string | null;
+    hostel_name: string;
+    allocation_date: string;
+    expected_checkout: string | null;
+    actual_checkout: string | null;
+    is_active: boolean;
+    nights: number | null;              // To the checkout, or to today while active
+    previous_allocation_id: number | null;
+    amount_billed: number;              // Payments linked to the allocation
+    amount_paid: number;
+    damage_charges: number;             // Check-out damages not waived
+}
+
+export interface StayPayment {
+    id: number;
+    allocation_id: number | null;
+    amount: number;
+    amount_paid: number;
+    due_date: string;
+    payment_date: string | null;
+    payment_status: Payment['payment_status'];
+    semester: string | null;
+    receipt_number: string | null;
+    notes: string | null;
+}
+
+export interface StayComplaint {
+    id: number;
+    allocation_id: number | null;       // The complainant's latest stay in the room begun by the filing date
+    student_id: number;
+    student_name: string;
+    room_id: number;
+    room_number: string;
+    bed_label: string | null;
+    category: Complaint['category'];
+    title: string;
+    status: Complaint['status'];
+    created_at: Date;
+    resolved_at: Date | null;
+}
+
+export interface StudentTimeline {
+    student_id: number;
+    student_name: string;
+    registration_number: string;
+    stays: (StayRecord & { payments: StayPayment[]; complaints: StayComplaint[] })[];
+    unlinked_payments: StayPayment[];   // Payments with no allocation (fees, fines)
+    unlinked_complaints: StayComplaint[];
+}
+
+export interface RoomTimeline {
+    room_id: number;
+    room_number: string;
+    hostel_name: string;
+    stays: (StayRecord & { complaints_filed: number })[];
+    complaints: StayComplaint[];
+}
+
+export interface BillingRun {
+    id: number;
+    semester: string;
+    period_start: Date;
+    period_end: Date;
+    due_date: Date;
+    invoices_created: number;
+    total_amount: number;
+    created_by: string | null;
+    created_at: Date;
+}
+
+export interface BillingLine {
+    allocation_id: number;
+    student_id: number;
+    student_name: string;
+    registration_number: string;
+    hostel_name: string;
+    room_number: string;
+    rent_amount: number;
+    billed_from: string;
+    billed_to: string;
+    billed_days: number;
+    period_days: number;
+    amount: number;
+    already_billed: boolean;
+}
+
+export type IntegrityCounter = 'room_occupancy' | 'hostel_total_rooms';
+
+// A denormalized counter that disagrees with the rows it counts
+export interface CounterMismatch {
+    counter: IntegrityCounter;
+    id: number;                         // Room or hostel id
+    hostel_name: string;
+    room_number: string | null;
+    stored: number;
+    actual: number;
+    repairable: boolean;                // FALSE when the real count breaks a constraint (overfull room)
+}
+
+export interface IntegrityAnomaly {
+    check: string;
+    entity: 'allocation' | 'bed' | 'room' | 'complaint';
+    entity_id: number;
+    description: string;
+}
+
+export interface IntegrityReport {
+    checked_at: Date;
+    counter_mismatches: CounterMismatch[];
+    anomalies: IntegrityAnomaly[];
+}
+
+export type RolloverAction = 'graduate' | 'renew' | 'release' | 'promote' | 'blocked';
+
+export interface AcademicRollover {
+    id: number;
+    academic_year: string;
+    max_year_of_study: number;
+    rollover_date: string;
+    retain_rooms: boolean;
+    new_expected_checkout: string | null;
+    students_graduated: number;
+    students_promoted: number;
+    allocations_ended: number;
+    allocations_renewed: number;
+    created_by: string | null;
+    created_at: Date;
+}
+
+// One student's line in a rollover preview or audit
+export interface RolloverChange {
+    student_id: number;
+    student_name: string;
+    registration_number: string;
+    action: RolloverAction;
+    old_year_of_study: number | null;
+    new_year_of_study: number | null;
+    allocation_id: number | null;
+    hostel_name: string | null;
+    room_number: string | null;
+    old_expected_checkout: string | null;
+    new_expected_checkout: string | null;
+    allocation_ended: boolean;
+    details: string | null;
+}
+
+export interface AllocationRound {
+    id: number;
+    name: string;
+    status: 'open' | 'closed' | 'published';
+    created_by: string | null;
+    created_at: Date;
+    published_at: Date | null;
+    published_by: string | null;
+    // Aggregated fields
+    application_count?: number;
+    allocated_count?: number;
+}
+
+export interface RoomApplicationChoice {
+    preference_rank: number;
+    hostel_id: number | null;
+    room_type: Room['room_type'] | null;
+    wants_ac: boolean | null;
+    wants_attached_bathroom: boolean | null;
+    // Joined fields
+    hostel_name?: string | null;
+}
+
+export interface RoomApplication {
+    id: number;
+    round_id: number;
+    student_id: number;
+    status: 'submitted' | 'allocated' | 'unallocated';
+    allocation_id: number | null;
+    result_notes: string | null;
+    submitted_at: Date;
+    updated_at: Date;
+    choices: RoomApplicationChoice[];
+    roommates: { student_id: number; student_name: string; registration_number: string }[];
+    // Joined fields
+    student_name?: string;
+    registration_number?: string;
+    year_of_study?: number | null;
+}
+
+export interface AllocationPlanEntry {
+    application_id: number;
+    student_id: number;
+    student_name: string;
+    registration_number: string;
+    year_of_study: number | null;
+    room_id: number | null;
+    room_number: string | null;
+    hostel_name: string | null;
+    choice_rank: number | null;
+    reason: string;
+}
+
+export interface WaitlistEntry {
+    id: number;
+    student_id: number;
+    hostel_id: number | null;
+    room_type: Room['room_type'] | null;
+    room_id: number | null;
+    status: 'waiting' | 'offered' | 'accepted' | 'declined' | 'expired' | 'cancelled';
+    offered_room_id: number | null;
+    offered_bed_id: number | null;
+    offered_at: Date | null;
+    offer_expires_at: Date | null;
+    allocation_id: number | null;
+    notes: string | null;
+    created_by: string | null;
+    created_at: Date;
+    updated_at: Date;
+    // Joined fields
+    student_name?: string;
+    registration_number?: string;
+    hostel_name?: string | null;
+    room_number?: string | null;
+    offered_room_number?: string | null;
+    offered_hostel_name?: string | null;
+    offered_bed_label?: string | null;
+    position?: number | null;       // Place in the queue for the same target while waiting
+}
+
+export interface StudentImportRowError {
+    row: number;                    // Row number in the uploaded sheet (header is row 1)
+    registration_number: string | null;
+    email: string | null;
+    errors: string[];
+}
+
+export interface StudentImportReport {
+    total_rows: number;
+    valid_rows: number;
+    invalid_rows: number;
+    rows_with_room: number;         // Valid rows that will also get an allocation
+    errors: StudentImportRowError[];
+    created?: number;               // Set once the import is committed
+    allocated?: number;
+}
+
+export type InspectionItemCondition = 'good' | 'fair' | 'damaged' | 'missing';
+
+export interface InspectionItem {
+    id?: number;
+    category: 'furniture' | 'fixtures' | 'keys';
+    item_name: string;
+    quantity: number;
+    item_condition: InspectionItemCondition;
+    notes: string | null;
+}
+
+export interface InspectionDamage {
+    id: number;
+    inspection_id: number;
+    item_name: string;
+    check_in_condition: InspectionItemCondition | null;
+    check_out_condition: InspectionItemCondition;
+    missing_quantity: number;
+    charge_amount: number | null;
+    payment_id: number | null;
+    waived: boolean;
+}
+
+export interface RoomInspection {
+    id: number;
+    allocation_id: number;
+    room_id: number;
+    inspection_type: 'check_in' | 'check_out';
+    condition_notes: string | null;
+    inspected_by: string;
+    inspected_at: Date;
+    student_signed_at: Date | null;
+    student_comments: string | null;
+    items: InspectionItem[];
+    damages?: InspectionDamage[];   // Check-out only
+}
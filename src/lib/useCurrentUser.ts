@@ -0,0 +1,36 @@
+'use client';
+
+/**
+ * useCurrentUser Hook
+ * ====================
+ * Loads the logged-in user from /api/auth/me for client components.
+ */
+
+import { useEffect, useState } from 'react';
+import { usePathname } from 'next/navigation';
+import { SessionUser } from '@/lib/types';
+
+export function useCurrentUser() {
+    const pathname = usePathname();
+    const [user, setUser] = useState<SessionUser | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    // Re-check on navigation so login/logout are picked up without a full reload
+    useEffect(() => {
+        async function fetchUser() {
+            try {
+                const res = await fetch('/api/auth/me');
+                const data = await res.json();
+                setUser(data.success ? data.data : null);
+            } catch (err) {
+                console.error('Failed to load current user:', err);
+                setUser(null);
+            } finally {
+                setLoading(false);
+            }
+        }
+        fetchUser();
+    }, [pathname]);
+
+    return { user, loading };
+}
@@ -0,0 +1,367 @@
+/**
+ * Waitlist Module
+ * ================
+ * Queue of students waiting for a bed, and the offers made when one frees up.
+ *
+ * QUEUE RULES:
+ * 1. A student queues for a hostel, a room type, a specific room, or a
+ *    hostel + room type combination, and can only be queued once at a time
+ * 2. Position is first come, first served among entries with the same target
+ * 3. When a bed frees up, the earliest waiting entry whose target matches
+ *    the room (and whose student is active, unhoused and of a gender the
+ *    hostel accepts) is offered that bed for OFFER_HOURS
+ * 4. While an offer is open the bed is held: the allocation trigger will
+ *    not pick it for anybody else
+ * 5. Declined and expired offers pass the bed on to the next in line
+ *
+ * Expired offers are swept lazily whenever the waitlist is read and
+ * whenever a bed is freed.
+ */
+
+import { PoolClient } from 'pg';
+import { getClient, query } from '@/lib/db';
+import { WaitlistEntry } from '@/lib/types';
+
+export const OFFER_HOURS = 48;
+
+export interface WaitlistOffer {
+    entry_id: number;
+    student_id: number;
+    student_name: string;
+    room_id: number;
+    bed_id: number;
+    bed_label: string;
+    offer_expires_at: Date;
+}
+
+export interface WaitlistFilters {
+    id?: number;
+    student_id?: number | null;
+    hostel_id?: number;
+    status?: string;
+}
+
+/**
+ * Entries with their queue position, most urgent first
+ */
+export async function listWaitlist(filters: WaitlistFilters = {}): Promise<WaitlistEntry[]> {
+    const conditions: string[] = [];
+    const params: (string | number | null)[] = [];
+    let paramIndex = 1;
+
+    if (filters.id !== undefined) {
+        conditions.push(`w.id = $${paramIndex++}`);
+        params.push(filters.id);
+    }
+    if (filters.student_id !== undefined) {
+        conditions.push(`w.student_id = $${paramIndex++}`);
+        params.push(filters.student_id);
+    }
+    if (filters.hostel_id !== undefined) {
+        conditions.push(`(w.hostel_id = $${paramIndex} OR r.hostel_id = $${paramIndex})`);
+        params.push(filters.hostel_id);
+        paramIndex++;
+    }
+    if (filters.status) {
+        conditions.push(`w.status = $${paramIndex++}`);
+        params.push(filters.status);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    // WINDOW FUNCTION: rank waiting entries within each target
+    const result = await query<WaitlistEntry>(
+        `WITH queue AS (
+           SELECT id, ROW_NUMBER() OVER (
+             PARTITION BY hostel_id, room_type, room_id
+             ORDER BY created_at, id
+           )::INTEGER as position
+           FROM waitlist_entries
+           WHERE status = 'waiting'
+         )
+         SELECT
+           w.*,
+           s.first_name || ' ' || s.last_name as student_name,
+           s.registration_number,
+           COALESCE(h.name, rh.name) as hostel_name,
+           r.room_number,
+           o.room_number as offered_room_number,
+           oh.name as offered_hostel_name,
+           b.bed_label as offered_bed_label,
+           q.position
+         FROM waitlist_entries w
+         INNER JOIN students s ON w.student_id = s.id
+         LEFT JOIN hostels h ON w.hostel_id = h.id
+         LEFT JOIN rooms r ON w.room_id = r.id
+         LEFT JOIN hostels rh ON r.hostel_id = rh.id
+         LEFT JOIN rooms o ON w.offered_room_id = o.id
+         LEFT JOIN hostels oh ON o.hostel_id = oh.id
+         LEFT JOIN beds b ON w.offered_bed_id = b.id
+         LEFT JOIN queue q ON q.id = w.id
+         ${whereClause}
+         ORDER BY
+           CASE w.status WHEN 'offered' THEN 1 WHEN 'waiting' THEN 2 ELSE 3 END,
+           w.created_at, w.id`,
+        params
+    );
+
+    return result.rows;
+}
+
+export interface WaitlistRequest {
+    student_id: number;
+    hostel_id?: number | null;
+    room_type?: string | null;
+    room_id?: number | null;
+    notes?: string | null;
+    created_by: string;
+}
+
+const ROOM_TYPES = ['single', 'double', 'triple', 'dormitory'];
+
+/**
+ * Put a student in the queue. A specific room overrides hostel and room type.
+ */
+export async function addToWaitlist(
+    request: WaitlistRequest
+): Promise<WaitlistEntry | { error: string; status: number }> {
+    const roomId = request.room_id || null;
+    let hostelId = roomId ? null : request.hostel_id || null;
+    const roomType = roomId ? null : request.room_type || null;
+
+    if (!roomId && !hostelId && !roomType) {
+        return { error: 'Choose a hostel, a room type or a room to wait for', status: 400 };
+    }
+
+    if (roomType && !ROOM_TYPES.includes(roomType)) {
+        return { error: `Invalid room type. Must be one of: ${ROOM_TYPES.join(', ')}`, status: 400 };
+    }
+
+    const studentResult = await query<{ gender: string; has_room: boolean }>(
+        `SELECT s.gender,
+           EXISTS (
+             SELECT 1 FROM allocations a WHERE a.student_id = s.id AND a.is_active = TRUE
+           ) as has_room
+         FROM students s
+         WHERE s.id = $1 AND s.is_active = TRUE`,
+        [request.student_id]
+    );
+
+    if (studentResult.rows.length === 0) {
+        return { error: 'Student not found or is not active', status: 400 };
+    }
+
+    const student = studentResult.rows[0];
+
+    if (student.has_room) {
+        return { error: 'Student already has a room; use a room transfer instead', status: 400 };
+    }
+
+    if (roomId) {
+        const room = await query<{ hostel_id: number }>('SELECT hostel_id FROM rooms WHERE id = $1', [roomId]);
+        if (room.rows.length === 0) {
+            return { error: 'Room not found', status: 404 };
+        }
+        hostelId = room.rows[0].hostel_id;
+    }
+
+    if (hostelId) {
+        const hostel = await query<{ name: string; gender_allowed: string }>(
+            'SELECT name, gender_allowed FROM hostels WHERE id = $1',
+            [hostelId]
+        );
+        if (hostel.rows.length === 0) {
+            return { error: 'Hostel not found', status: 404 };
+        }
+        if (hostel.rows[0].gender_allowed !== 'other' && hostel.rows[0].gender_allowed !== student.gender) {
+            return { error: `${hostel.rows[0].name} is for ${hostel.rows[0].gender_allowed} students only`, status: 400 };
+        }
+    }
+
+    const open = await query(
+        "SELECT id FROM waitlist_entries WHERE student_id = $1 AND status IN ('waiting', 'offered')",
+        [request.student_id]
+    );
+
+    if (open.rows.length > 0) {
+        return { error: 'Student is already on the waitlist', status: 409 };
+    }
+
+    const inserted = await query<{ id: number }>(
+        `INSERT INTO waitlist_entries (student_id, hostel_id, room_type, room_id, notes, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING id`,
+        [request.student_id, roomId ? null : hostelId, roomType, roomId, request.notes || null, request.created_by]
+    );
+
+    const [entry] = await listWaitlist({ id: inserted.rows[0].id });
+    return entry;
+}
+
+/**
+ * Offer every free, unheld bed in a room to the next eligible waiting student
+ * (offer_room_beds() in triggers.sql, shared with the expected-checkouts
+ * script). Runs inside the caller's transaction.
+ */
+async function offerRoomBeds(client: PoolClient, roomId: number): Promise<WaitlistOffer[]> {
+    const result = await client.query<Omit<WaitlistOffer, 'room_id'>>(
+        `SELECT entry_id, student_id, student_name, bed_id, bed_label, offer_expires_at
+         FROM offer_room_beds($1, $2)`,
+        [roomId, OFFER_HOURS]
+    );
+
+    return result.rows.map(offer => ({ ...offer, room_id: roomId }));
+}
+
+/**
+ * Called after a bed is freed: offer it to whoever is next in line
+ */
+export async function offerFreedBeds(roomId: number): Promise<WaitlistOffer[]> {
+    const client = await getClient();
+
+    try {
+        await client.query('BEGIN');
+        const offers = await offerRoomBeds(client, roomId);
+        await client.query('COMMIT');
+        return offers;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Lapse offers past their deadline and pass their beds on
+ */
+export async function expireWaitlistOffers(): Promise<{ expired: number; offers: WaitlistOffer[] }> {
+    const client = await getClient();
+
+    try {
+        await client.query('BEGIN');
+
+        const expired = await client.query<{ offered_room_id: number | null }>(
+            `UPDATE waitlist_entries
+             SET status = 'expired'
+             WHERE status = 'offered' AND offer_expires_at <= CURRENT_TIMESTAMP
+             RETURNING offered_room_id`
+        );
+
+        const roomIds = [...new Set(expired.rows.map(row => row.offered_room_id))]
+            .filter((id): id is number => id !== null)
+            .sort((a, b) => a - b);
+
+        const offers: WaitlistOffer[] = [];
+        for (const roomId of roomIds) {
+            offers.push(...await offerRoomBeds(client, roomId));
+        }
+
+        await client.query('COMMIT');
+        return { expired: expired.rowCount ?? 0, offers };
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Accept or decline an open offer. Accepting creates the allocation on the
+ * held bed; declining passes the bed on.
+ */
+export async function respondToOffer(
+    entryId: number,
+    accept: boolean,
+    respondedBy: string
+): Promise<{ entry: WaitlistEntry; offers: WaitlistOffer[] } | { error: string; status: number }> {
+    const client = await getClient();
+
+    const reject = async (error: string, status: number) => {
+        await client.query('ROLLBACK');
+        return { error, status };
+    };
+
+    try {
+        await client.query('BEGIN');
+
+        const entryResult = await client.query<WaitlistEntry & { expired: boolean; has_room: boolean }>(
+            `SELECT w.*,
+               w.offer_expires_at <= CURRENT_TIMESTAMP as expired,
+               EXISTS (
+                 SELECT 1 FROM allocations a WHERE a.student_id = w.student_id AND a.is_active = TRUE
+               ) as has_room
+             FROM waitlist_entries w
+             WHERE w.id = $1
+             FOR UPDATE OF w`,
+            [entryId]
+        );
+
+        if (entryResult.rows.length === 0) {
+            return await reject('Waitlist entry not found', 404);
+        }
+
+        const entry = entryResult.rows[0];
+
+        if (entry.status !== 'offered' || entry.offered_room_id === null) {
+            return await reject('There is no open offer on this waitlist entry', 400);
+        }
+
+        if (entry.expired) {
+            // Lapse it now and pass the bed on
+            await client.query("UPDATE waitlist_entries SET status = 'expired' WHERE id = $1", [entryId]);
+            await offerRoomBeds(client, entry.offered_room_id);
+            await client.query('COMMIT');
+            return { error: 'This offer has expired', status: 400 };
+        }
+
+        let offers: WaitlistOffer[] = [];
+
+        if (accept) {
+            if (entry.has_room) {
+                return await reject('Student already has an active room allocation', 400);
+            }
+
+            // Trigger validates the held bed and updates occupancy
+            let allocation;
+            try {
+                allocation = await client.query<{ id: number }>(
+                    `INSERT INTO allocations (student_id, room_id, bed_id, allocation_date, notes, is_active)
+                     VALUES ($1, $2, $3, CURRENT_DATE, $4, TRUE)
+                     RETURNING id`,
+                    [entry.student_id, entry.offered_room_id, entry.offered_bed_id,
+                        `Waitlist offer #${entryId} accepted by ${respondedBy}`]
+                );
+            } catch (insertError) {
+                // The held bed was taken or closed after the offer was made
+                const code = (insertError as { code?: string }).code;
+                if (code === 'P0001' || code === '23505') {
+                    return await reject(
+                        `This offer is no longer available: ${(insertError as Error).message}`,
+                        409
+                    );
+                }
+                throw insertError;
+            }
+
+            await client.query(
+                "UPDATE waitlist_entries SET status = 'accepted', allocation_id = $1 WHERE id = $2",
+                [allocation.rows[0].id, entryId]
+            );
+        } else {
+            await client.query("UPDATE waitlist_entries SET status = 'declined' WHERE id = $1", [entryId]);
+            offers = await offerRoomBeds(client, entry.offered_room_id);
+        }
+
+        await client.query('COMMIT');
+
+        const [updated] = await listWaitlist({ id: entryId });
+        return { entry: updated, offers };
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+}
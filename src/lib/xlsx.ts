@@ -0,0 +1,322 @@
+/**
+ * Minimal XLSX Reader and Writer
+ * ===============================
+ * Reads the first worksheet of an .xlsx workbook into rows of strings, and
+ * writes single-sheet workbooks, without any third-party library.
+ *
+ * An .xlsx file is a ZIP archive of XML parts; entries are located through
+ * the ZIP central directory and inflated with Node's zlib. Only what an
+ * import needs is supported: shared and inline strings, numbers and
+ * booleans. Formulas yield their cached value and styling is ignored, so
+ * dates arrive as Excel serial day numbers.
+ *
+ * The writer streams: the worksheet is emitted batch by batch as a stored
+ * (uncompressed) ZIP entry whose CRC and size follow in a data descriptor,
+ * so a large export never has to sit in memory.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const DESCRIPTOR_SIGNATURE = 0x08074b50;
+
+function readZipEntries(data: Buffer): Map<string, Buffer> {
+    // End of central directory record: last 22 bytes plus an optional comment
+    let eocd = -1;
+    for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+        if (data.readUInt32LE(i) === EOCD_SIGNATURE) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) throw new Error('Not a valid .xlsx file');
+
+    const entryCount = data.readUInt16LE(eocd + 10);
+    let offset = data.readUInt32LE(eocd + 16);
+    const entries = new Map<string, Buffer>();
+
+    for (let n = 0; n < entryCount; n++) {
+        if (data.readUInt32LE(offset) !== CENTRAL_SIGNATURE) throw new Error('Corrupt .xlsx file');
+
+        const method = data.readUInt16LE(offset + 10);
+        const compressedSize = data.readUInt32LE(offset + 20);
+        const nameLength = data.readUInt16LE(offset + 28);
+        const extraLength = data.readUInt16LE(offset + 30);
+        const commentLength = data.readUInt16LE(offset + 32);
+        const localOffset = data.readUInt32LE(offset + 42);
+        const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+        if (data.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) throw new Error('Corrupt .xlsx file');
+        const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+        const raw = data.subarray(start, start + compressedSize);
+
+        if (method === 0) entries.set(name, raw);
+        else if (method === 8) entries.set(name, inflateRawSync(raw));
+
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+}
+
+function decodeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+        .replace(/&amp;/g, '&');
+}
+
+// All <t> runs inside an element, joined (rich text splits a string into runs)
+function textRuns(xml: string): string {
+    const runs = xml.match(/<t\b[^>]*>[\s\S]*?<\/t>/g) || [];
+    return runs.map(run => decodeXml(run.replace(/^<t\b[^>]*>|<\/t>$/g, ''))).join('');
+}
+
+function columnIndex(ref: string): number {
+    const letters = ref.replace(/\d+$/, '').toUpperCase();
+    let index = 0;
+    for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+    return index - 1;
+}
+
+function firstSheetPath(entries: Map<string, Buffer>): string {
+    const workbook = entries.get('xl/workbook.xml')?.toString('utf8');
+    const rels = entries.get('xl/_rels/workbook.xml.rels')?.toString('utf8');
+    const relId = workbook?.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+
+    if (rels && relId) {
+        const rel = rels.match(new RegExp(`<Relationship\\b[^>]*\\bId="${relId}"[^>]*>`))?.[0];
+        const target = rel?.match(/\bTarget="([^"]+)"/)?.[1];
+        if (target) return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+
+    return 'xl/worksheets/sheet1.xml';
+}
+
+/**
+ * Rows of the first worksheet. Row positions match the sheet, so blank rows
+ * come back as empty arrays and row numbers in reports stay correct.
+ */
+export function readXlsx(data: Buffer): string[][] {
+    const entries = readZipEntries(data);
+    const sheet = entries.get(firstSheetPath(entries))?.toString('utf8');
+    if (!sheet) throw new Error('The workbook has no worksheet');
+
+    const sharedXml = entries.get('xl/sharedStrings.xml')?.toString('utf8') || '';
+    const shared = (sharedXml.match(/<si\b[^>]*>[\s\S]*?<\/si>/g) || []).map(textRuns);
+
+    const rows: string[][] = [];
+    const rowPattern = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g;
+    const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+
+    for (const rowMatch of sheet.matchAll(rowPattern)) {
+        const rowNumber = parseInt(rowMatch[1].match(/\br="(\d+)"/)?.[1] || String(rows.length + 1));
+        const cells: string[] = [];
+
+        for (const cellMatch of (rowMatch[2] || '').matchAll(cellPattern)) {
+            const attrs = cellMatch[1];
+            const body = cellMatch[2] || '';
+            const ref = attrs.match(/\br="([A-Z]+\d+)"/i)?.[1];
+            const type = attrs.match(/\bt="(\w+)"/)?.[1];
+            const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+            let text = '';
+            if (type === 's' && value !== undefined) text = shared[parseInt(value)] ?? '';
+            else if (type === 'inlineStr') text = textRuns(body);
+            else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+            else if (value !== undefined) text = decodeXml(value);
+
+            cells[ref ? columnIndex(ref) : cells.length] = text;
+        }
+
+        while (rows.length < rowNumber - 1) rows.push([]);
+        rows.push(Array.from(cells, cell => cell ?? ''));
+    }
+
+    return rows;
+}
+
+// ============================================
+// WRITER
+// ============================================
+
+export type XlsxCell = string | number | boolean | null;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+function crc32(data: Buffer, previous = 0): number {
+    let crc = previous ^ 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function escapeXml(text: string): string {
+    return text
+        // Control characters are not allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function columnName(index: number): string {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+}
+
+function rowXml(cells: XlsxCell[], rowNumber: number): string {
+    const xml = cells.map((value, index) => {
+        const ref = `${columnName(index)}${rowNumber}`;
+        if (value === null || value === '') return '';
+        if (typeof value === 'number' && isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+        if (typeof value === 'boolean') return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+        return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+    });
+    return `<row r="${rowNumber}">${xml.join('')}</row>`;
+}
+
+function dosDateTime(date: Date): { time: number; day: number } {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        day: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    };
+}
+
+/**
+ * Stream a one-sheet workbook. `batches` yields rows in chunks (for example
+ * straight from a database cursor); the header row is written first.
+ */
+export async function* writeXlsx(
+    sheetName: string,
+    header: string[],
+    batches: AsyncIterable<XlsxCell[][]>
+): AsyncGenerator<Buffer> {
+    const { time, day } = dosDateTime(new Date());
+    const entries: { name: Buffer; crc: number; size: number; offset: number; streamed: boolean }[] = [];
+    let offset = 0;
+
+    const localHeader = (name: Buffer, crc: number, size: number, streamed: boolean) => {
+        const buf = Buffer.alloc(30);
+        buf.writeUInt32LE(LOCAL_SIGNATURE, 0);
+        buf.writeUInt16LE(20, 4);
+        buf.writeUInt16LE(streamed ? 0x0008 : 0, 6);
+        buf.writeUInt16LE(0, 8);
+        buf.writeUInt16LE(time, 10);
+        buf.writeUInt16LE(day, 12);
+        buf.writeUInt32LE(crc, 14);
+        buf.writeUInt32LE(size, 18);
+        buf.writeUInt32LE(size, 22);
+        buf.writeUInt16LE(name.length, 26);
+        buf.writeUInt16LE(0, 28);
+        return Buffer.concat([buf, name]);
+    };
+
+    function* fixedEntry(fileName: string, content: string) {
+        const name = Buffer.from(fileName);
+        const data = Buffer.from(content, 'utf8');
+        const crc = crc32(data);
+        const head = localHeader(name, crc, data.length, false);
+        entries.push({ name, crc, size: data.length, offset, streamed: false });
+        offset += head.length + data.length;
+        yield head;
+        yield data;
+    }
+
+    const xmlHead = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+    const mainNs = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+    const relNs = 'http://schemas.openxmlformats.org/package/2006/relationships';
+    const docRel = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+    yield* fixedEntry('[Content_Types].xml', xmlHead +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>');
+    yield* fixedEntry('_rels/.rels', xmlHead +
+        `<Relationships xmlns="${relNs}">` +
+        `<Relationship Id="rId1" Type="${docRel}/officeDocument" Target="xl/workbook.xml"/>` +
+        '</Relationships>');
+    yield* fixedEntry('xl/workbook.xml', xmlHead +
+        `<workbook xmlns="${mainNs}" xmlns:r="${docRel}">` +
+        `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>');
+    yield* fixedEntry('xl/_rels/workbook.xml.rels', xmlHead +
+        `<Relationships xmlns="${relNs}">` +
+        `<Relationship Id="rId1" Type="${docRel}/worksheet" Target="worksheets/sheet1.xml"/>` +
+        '</Relationships>');
+
+    // The worksheet itself: CRC and size are only known once it is written
+    const sheetPart = Buffer.from('xl/worksheets/sheet1.xml');
+    const sheetEntry = { name: sheetPart, crc: 0, size: 0, offset, streamed: true };
+    entries.push(sheetEntry);
+    const head = localHeader(sheetPart, 0, 0, true);
+    offset += head.length;
+    yield head;
+
+    const emit = (xml: string) => {
+        const data = Buffer.from(xml, 'utf8');
+        sheetEntry.crc = crc32(data, sheetEntry.crc);
+        sheetEntry.size += data.length;
+        offset += data.length;
+        return data;
+    };
+
+    let rowNumber = 1;
+    yield emit(`${xmlHead}<worksheet xmlns="${mainNs}"><sheetData>${rowXml(header, rowNumber++)}`);
+    for await (const batch of batches) {
+        yield emit(batch.map(cells => rowXml(cells, rowNumber++)).join(''));
+    }
+    yield emit('</sheetData></worksheet>');
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(DESCRIPTOR_SIGNATURE, 0);
+    descriptor.writeUInt32LE(sheetEntry.crc, 4);
+    descriptor.writeUInt32LE(sheetEntry.size, 8);
+    descriptor.writeUInt32LE(sheetEntry.size, 12);
+    offset += descriptor.length;
+    yield descriptor;
+
+    // Central directory and its end record
+    const central = entries.map(entry => {
+        const buf = Buffer.alloc(46);
+        buf.writeUInt32LE(CENTRAL_SIGNATURE, 0);
+        buf.writeUInt16LE(20, 4);
+        buf.writeUInt16LE(20, 6);
+        buf.writeUInt16LE(entry.streamed ? 0x0008 : 0, 8);
+        buf.writeUInt16LE(0, 10);
+        buf.writeUInt16LE(time, 12);
+        buf.writeUInt16LE(day, 14);
+        buf.writeUInt32LE(entry.crc, 16);
+        buf.writeUInt32LE(entry.size, 20);
+        buf.writeUInt32LE(entry.size, 24);
+        buf.writeUInt16LE(entry.name.length, 28);
+        buf.writeUInt32LE(entry.offset, 42);
+        return Buffer.concat([buf, entry.name]);
+    });
+    const directory = Buffer.concat(central);
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(EOCD_SIGNATURE, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    yield Buffer.concat([directory, end]);
+}
@@ -0,0 +1,49 @@
+/**
+ * Route Protection Proxy
+ * =======================
+ * Runs before every admin/student page request and sends visitors to the
+ * login page unless they hold a valid session for that portal.
+ *
+ * - /admin/*   → admin and warden (staff may open their complaint queue)
+ * - /student/* → students only
+ *
+ * API routes do their own checks with authorize() from lib/auth.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, homePathFor, MANAGEMENT_ROLES, SESSION_COOKIE } from '@/lib/auth';
+import { SessionUser } from '@/lib/types';
+
+// Admin pages that maintenance staff are allowed to open
+const STAFF_PATHS = ['/admin/complaints'];
+
+function canOpen(user: SessionUser, pathname: string): boolean {
+    if (pathname.startsWith('/student')) {
+        return user.role === 'student';
+    }
+    if (MANAGEMENT_ROLES.includes(user.role)) {
+        return true;
+    }
+    return user.role === 'staff' && STAFF_PATHS.some(path => pathname.startsWith(path));
+}
+
+export async function proxy(request: NextRequest) {
+    const { pathname, search } = request.nextUrl;
+    const user = await getSessionUser(request.cookies.get(SESSION_COOKIE)?.value);
+
+    if (!user) {
+        const loginUrl = new URL('/login', request.url);
+        loginUrl.searchParams.set('next', pathname + search);
+        return NextResponse.redirect(loginUrl);
+    }
+
+    if (!canOpen(user, pathname)) {
+        return NextResponse.redirect(new URL(homePathFor(user.role), request.url));
+    }
+
+    return NextResponse.next();
+}
+
+export const config = {
+    matcher: ['/admin/:path*', '/student/:path*']
+};